@@ -14,7 +14,10 @@ import { saveAs } from 'file-saver';
 import { deleteSong } from './utils/storage';
 
 import { type Song } from './types';
-import { formatChordForDisplay } from './utils/musicTheory';
+import { formatChordForDisplay, getKeyDisplayName } from './utils/musicTheory';
+import type { DiagramInstrument } from './utils/diagramInstruments';
+import { getArrangedSections } from './utils/arrangement';
+import { getSectionsDuration } from './utils/tempoMap';
 
 import { ConfirmDialog } from './components/ui/ConfirmDialog';
 import { OnboardingTooltip } from './components/OnboardingTooltip';
@@ -36,6 +39,7 @@ import { useAuthStore } from './stores/authStore';
 import { User as UserIcon } from 'lucide-react';
 import { useAudioSync } from './hooks/useAudioSync';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useSectionKeySync } from './hooks/useSectionKeySync';
 import { useLayoutManager } from './hooks/useLayoutManager';
 import { useAutoSave, useBeforeUnloadWarning } from './hooks/useAutoSave';
 import { MobilePortraitDrawers } from './components/layout/MobilePortraitDrawers';
@@ -49,7 +53,7 @@ import { DraggableChordBadge } from './components/DraggableChordBadge';
 
 
 function App() {
-  const { currentSong, selectedKey, timelineVisible, toggleTimeline, openTimeline, setTitle, setArtist, setTags, setSongTimeSignature, loadSong: loadSongToStore, newSong, instrument, volume, isMuted, chordPanelVisible, isPlaying, songInfoModalVisible, toggleSongInfoModal, instrumentManagerModalVisible, toggleInstrumentManagerModal, toggleInstrumentControlsModal, cloudSongs, loadCloudSongs, saveToCloud, deleteFromCloud, isLoadingCloud, selectedChord, notesModalVisible, toggleNotesModal, isDirty, openLeadScales, chordInversion, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedSlot, setSelectedChord } = useSongStore();
+  const { currentSong, selectedKey, timelineVisible, toggleTimeline, openTimeline, setTitle, setArtist, setTags, setSongTimeSignature, loadSong: loadSongToStore, newSong, instrument, volume, isMuted, chordPanelVisible, isPlaying, songInfoModalVisible, toggleSongInfoModal, instrumentManagerModalVisible, toggleInstrumentManagerModal, toggleInstrumentControlsModal, cloudSongs, loadCloudSongs, saveToCloud, deleteFromCloud, isLoadingCloud, selectedChord, notesModalVisible, toggleNotesModal, isDirty, openLeadScales, chordInversion, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedSlot, setSelectedChord, harmonyAnalysisVisible, selectedTonality, detectKey, isKeyLocked, diagramInstrument } = useSongStore();
 
   // Audio Sync Logic
   useEffect(() => {
@@ -72,6 +76,7 @@ function App() {
   // causing audio settings to stop syncing when it was unmounted.
   useAudioSync();
   useKeyboardShortcuts();
+  useSectionKeySync();
 
   // Auto-save for signed-in users (debounced, 30 seconds after last change)
   useAutoSave({ debounceMs: 30000 });
@@ -338,24 +343,15 @@ function App() {
     }
   };
 
-  // Calculate song duration (Task 33)
+  // Calculate song duration (Task 33): the arranged form with its repeats and section tempos
   const songDuration = useMemo(() => {
-    const totalBeats = currentSong.sections.reduce((total, section) => {
-      const sectionBeats = section.measures.reduce((mTotal, measure) => {
-        return mTotal + measure.beats.reduce((bTotal, beat) => bTotal + beat.duration, 0);
-      }, 0);
-      return total + sectionBeats;
-    }, 0);
-
-    // Convert beats to seconds using BPM
-    const beatsPerSecond = currentSong.tempo / 60;
-    const totalSeconds = totalBeats / beatsPerSecond;
+    const totalSeconds = getSectionsDuration(getArrangedSections(currentSong), currentSong.tempo, currentSong.timeSignature);
 
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = Math.floor(totalSeconds % 60);
 
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  }, [currentSong.sections, currentSong.tempo]);
+  }, [currentSong]);
 
   // Audio initialization state
   const [audioReady, setAudioReady] = useState(false);
@@ -601,18 +597,18 @@ function App() {
   /**
    * Get PDF as blob for export bundling
    */
-  const getPdfBlob = useCallback(async (): Promise<Blob> => {
+  const getPdfBlob = useCallback(async (instrument: DiagramInstrument = diagramInstrument): Promise<Blob> => {
     const { generatePdfDocument } = await import('./utils/pdfGenerator');
-    const doc = generatePdfDocument(currentSong, selectedKey);
+    const doc = generatePdfDocument(currentSong, currentSong.key, { includeAnalysis: harmonyAnalysisVisible, diagramInstrument: instrument });
     return doc.output('blob');
-  }, [currentSong, selectedKey]);
+  }, [currentSong, harmonyAnalysisVisible, diagramInstrument]);
 
   /**
    * Export PDF directly (for single-click PDF export)
    */
   const handleExport = async () => {
     const { generatePdfDocument } = await import('./utils/pdfGenerator');
-    const doc = generatePdfDocument(currentSong, selectedKey);
+    const doc = generatePdfDocument(currentSong, currentSong.key, { includeAnalysis: harmonyAnalysisVisible, diagramInstrument });
 
     // Generate filename
     const fileName = `${currentSong.title.replace(/\s+/g, '-').toLowerCase()}.pdf`;
@@ -1371,6 +1367,9 @@ function App() {
           artist={currentSong.artist || ''}
           tags={currentSong.tags || []}
           timeSignature={currentSong.timeSignature}
+          keyLabel={getKeyDisplayName(selectedKey, selectedTonality)}
+          onDetectKey={detectKey}
+          isKeyLocked={isKeyLocked}
           onSave={handleSongInfoSave}
         />
       )}
@@ -1,4 +1,4 @@
-import React, { useRef, useCallback } from 'react';
+import React, { useRef, useCallback, useMemo } from 'react';
 import { GripVertical } from 'lucide-react';
 import { clsx } from 'clsx';
 import {
@@ -9,6 +9,9 @@ import {
     invertChord,
     getChordSymbolWithInversion,
     getContrastingTextColor,
+    getChordBassNote,
+    setChordBassNote,
+    normalizeNote,
     type Chord
 } from '../utils/musicTheory';
 import { playChord } from '../utils/audioEngine';
@@ -77,8 +80,8 @@ export const DraggableChordBadge: React.FC<DraggableChordBadgeProps> = ({
 
     // Calculate the correct symbol with inversion
     const effectiveInversion = inversion ?? chord.inversion ?? 0;
-    const rawNotes = getChordNotes(chord.root, chord.quality);
-    const invertedNotes = invertChord(rawNotes, effectiveInversion);
+    const rawNotes = useMemo(() => getChordNotes(chord.root, chord.quality), [chord.root, chord.quality]);
+    const invertedNotes = useMemo(() => invertChord(rawNotes, effectiveInversion), [rawNotes, effectiveInversion]);
 
     // IMPORTANT: Pass rawNotes (not invertedNotes) to getChordSymbolWithInversion
     // The function uses the inversion number to determine which note becomes the bass
@@ -90,13 +93,21 @@ export const DraggableChordBadge: React.FC<DraggableChordBadgeProps> = ({
         ? symbol  // Already includes /bassNote
         : `${chord.root}${qualitySymbol}`;
 
+    // Slash chords over a non-chord-tone bass (C/Bb) keep their bass when dragged
+    const slashBass = getChordBassNote(chord);
+    const foreignBass = slashBass && !rawNotes.some(note => normalizeNote(note) === normalizeNote(slashBass))
+        ? slashBass
+        : undefined;
+
     // Build the chord object with proper voicing for drag/drop
-    const chordWithVoicing: Chord = {
-        ...chord,
-        notes: invertedNotes,
-        inversion: effectiveInversion,
-        symbol: displaySymbol,
-    };
+    const chordWithVoicing = useMemo<Chord>(() => foreignBass
+        ? setChordBassNote({ ...chord, notes: rawNotes }, foreignBass)
+        : {
+            ...chord,
+            notes: invertedNotes,
+            inversion: effectiveInversion,
+            symbol: displaySymbol,
+        }, [chord, foreignBass, rawNotes, invertedNotes, effectiveInversion, displaySymbol]);
 
     const handlePointerDown = useCallback((e: React.PointerEvent) => {
         e.stopPropagation();
@@ -226,7 +237,7 @@ export const DraggableChordBadge: React.FC<DraggableChordBadgeProps> = ({
                 <GripVertical size={styles.gripSize} className="opacity-50 shrink-0" />
             )}
             <span className={clsx('font-bold leading-none whitespace-nowrap', styles.fontSize)}>
-                {formatChordForDisplay(displaySymbol)}
+                {formatChordForDisplay(chordWithVoicing.symbol)}
             </span>
             {showNumeral && chord.numeral && (
                 <span
@@ -23,14 +23,15 @@ import {
 } from 'lucide-react';
 import { useSongStore } from '../store/useSongStore';
 import type { InstrumentType } from '../types';
+import { DIAGRAM_INSTRUMENTS, type DiagramInstrument } from '../utils/diagramInstruments';
 import { exportSongAsAudio, getInstrumentDisplayName } from '../utils/exportAudio';
 import { exportSongAsMidi, sanitizeFilename } from '../utils/exportMidi';
 
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    /** Function to generate PDF as Blob */
-    getPdfBlob?: () => Blob | Promise<Blob>;
+    /** Function to generate PDF as Blob, with chord diagrams for the given instrument */
+    getPdfBlob?: (diagramInstrument?: DiagramInstrument) => Blob | Promise<Blob>;
 }
 
 // Built-in instruments available for export (matches VoiceSelector.tsx)
@@ -60,6 +61,8 @@ interface ExportProgress {
 export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPdfBlob }) => {
     const currentSong = useSongStore((state) => state.currentSong);
     const currentInstrument = useSongStore((state) => state.instrument);
+    const voicingStyle = useSongStore((state) => state.voicingStyle);
+    const diagramInstrument = useSongStore((state) => state.diagramInstrument);
     const progressRef = useRef<HTMLDivElement>(null);
 
     // Selected instruments (default to current instrument)
@@ -69,6 +72,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
     const [exportAudio, setExportAudio] = useState(true);
     const [exportMidi, setExportMidi] = useState(true);
     const [includePdf, setIncludePdf] = useState(true);
+    const [pdfDiagramInstrument, setPdfDiagramInstrument] = useState<DiagramInstrument>(diagramInstrument);
     const [includeDry, setIncludeDry] = useState(true);
     const [includeWet, setIncludeWet] = useState(true);
     const [includeNotes, setIncludeNotes] = useState(false);
@@ -80,6 +84,11 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
     const [progress, setProgress] = useState<ExportProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
 
+    // The modal stays mounted, so pick up the current diagram preference each time it opens
+    useEffect(() => {
+        if (isOpen) setPdfDiagramInstrument(diagramInstrument);
+    }, [isOpen, diagramInstrument]);
+
     // Scroll to progress when it appears
     useEffect(() => {
         if (isExporting && progress && progressRef.current) {
@@ -141,7 +150,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                     currentItem: 'Creating PDF...',
                 });
 
-                const pdfBlob = await getPdfBlob();
+                const pdfBlob = await getPdfBlob(pdfDiagramInstrument);
                 zip.file(`${baseFilename}.pdf`, pdfBlob);
                 currentProgress++;
             }
@@ -248,7 +257,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                     currentItem: 'Creating MIDI file...',
                 });
 
-                const midiBlob = exportSongAsMidi(currentSong);
+                const midiBlob = exportSongAsMidi(currentSong, { voicingStyle });
                 zip.file(`${baseFilename}.mid`, midiBlob);
                 currentProgress++;
             }
@@ -321,7 +330,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
             setIsExporting(false);
             setProgress(null);
         }
-    }, [currentSong, exportAudio, exportMidi, includePdf, getPdfBlob, includeDry, includeWet, selectedInstruments, totalExportItems, onClose]);
+    }, [currentSong, exportAudio, exportMidi, includePdf, pdfDiagramInstrument, getPdfBlob, includeDry, includeWet, selectedInstruments, totalExportItems, onClose, voicingStyle]);
 
     if (!isOpen) return null;
 
@@ -452,6 +461,23 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                         </div>
                     </div>
 
+                    {/* PDF Options (shown when the PDF is selected) */}
+                    {includePdf && getPdfBlob && (
+                        <div className="flex items-center justify-between gap-4 p-4 bg-gray-800/30 rounded-xl border border-gray-700/30">
+                            <h4 className="text-sm font-medium text-gray-300">PDF Chord Diagrams</h4>
+                            <select
+                                value={pdfDiagramInstrument}
+                                onChange={(e) => setPdfDiagramInstrument(e.target.value as DiagramInstrument)}
+                                disabled={isExporting}
+                                className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200"
+                            >
+                                {DIAGRAM_INSTRUMENTS.map(profile => (
+                                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {/* Sketch Options (shown when sketches are selected) */}
                     {includeSketches && currentSong.sketches && currentSong.sketches.length > 0 && (
                         <div className="space-y-3 p-4 bg-gray-800/30 rounded-xl border border-gray-700/30">
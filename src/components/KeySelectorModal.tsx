@@ -1,7 +1,18 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Lock, Unlock } from 'lucide-react';
-import { CIRCLE_OF_FIFTHS, getWheelColors, formatChordForDisplay, getKeySignature, getChordNotes } from '../utils/musicTheory';
+import { X, Lock, Unlock, Wand2 } from 'lucide-react';
+import {
+    CIRCLE_OF_FIFTHS,
+    getWheelColors,
+    formatChordForDisplay,
+    getKeySignature,
+    getChordNotes,
+    getDiatonicChords,
+    getKeyDisplayName,
+    getTonic,
+    TONALITIES,
+    TONALITY_ORDER
+} from '../utils/musicTheory';
 import { useSongStore } from '../store/useSongStore';
 
 interface KeySelectorModalProps {
@@ -16,13 +27,29 @@ interface KeySelectorModalProps {
  * 1. Updates the selected key in the store
  * 2. Rotates the wheel to show that key at the top
  * 3. Selects the tonic (I) chord
+ * A tonality row switches between major, minor and modal keys; key buttons are
+ * still laid out by their parent major key so the grid matches the wheel.
+ * With "Transpose chords" enabled, every chord in the song moves to the new key as well.
+ * "Detect key" picks the key (and major/minor) that best fits the chords in the song.
  */
 export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
     isOpen,
     onClose,
 }) => {
     const modalRef = useRef<HTMLDivElement>(null);
-    const { selectedKey, setKey, setSelectedChord, isKeyLocked, toggleKeyLock } = useSongStore();
+    const {
+        selectedKey,
+        selectedTonality,
+        setKey,
+        setTonality,
+        setSelectedChord,
+        isKeyLocked,
+        toggleKeyLock,
+        transposeSong,
+        detectKey
+    } = useSongStore();
+    const [transposeChords, setTransposeChords] = useState(false);
+    const [detectMessage, setDetectMessage] = useState<string | null>(null);
 
     // Get wheel colors for display
     const colors = getWheelColors();
@@ -44,24 +71,45 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
     if (!isOpen) return null;
 
     const handleKeySelect = (key: string) => {
+        if (transposeChords) {
+            // Move the whole song (chords + key) as a single undo step
+            transposeSong(key);
+            onClose();
+            return;
+        }
+
         // Update the selected key in the store (which also handles wheel rotation)
         setKey(key);
 
-        // Create and select the tonic (I) chord for this key
-        const tonicNotes = getChordNotes(key, 'major');
-        const tonicChord = {
-            root: key,
-            quality: 'major' as const,
-            numeral: 'I',
-            notes: tonicNotes,
-            symbol: key,
-        };
-        setSelectedChord(tonicChord);
+        // Create and select the tonic (I / i) chord for this key
+        if (selectedTonality === 'major') {
+            const tonicNotes = getChordNotes(key, 'major');
+            const tonicChord = {
+                root: key,
+                quality: 'major' as const,
+                numeral: 'I',
+                notes: tonicNotes,
+                symbol: key,
+            };
+            setSelectedChord(tonicChord);
+        } else {
+            setSelectedChord(getDiatonicChords(key, selectedTonality)[0]);
+        }
 
         // Close the modal
         onClose();
     };
 
+    const handleDetectKey = () => {
+        const result = detectKey();
+        if (!result) {
+            setDetectMessage('Add some chords to detect the key.');
+            return;
+        }
+        setSelectedChord(getDiatonicChords(result.key, result.tonality)[0]);
+        setDetectMessage(`Detected ${formatChordForDisplay(result.label)} (${Math.round(result.confidence * 100)}% confidence)`);
+    };
+
     // Get key signature info
     const getKeySigDisplay = (key: string) => {
         const keySig = getKeySignature(key);
@@ -130,12 +178,47 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                                 className="text-2xl font-bold"
                                 style={{ color: colors[selectedKey as keyof typeof colors] || '#6366f1' }}
                             >
-                                {formatChordForDisplay(selectedKey)}
+                                {formatChordForDisplay(getKeyDisplayName(selectedKey, selectedTonality))}
                             </span>
                             <span className="text-sm text-text-muted">
                                 {getKeySigDisplay(selectedKey) || 'No ♯/♭'}
                             </span>
                         </div>
+                        <button
+                            onClick={handleDetectKey}
+                            disabled={isKeyLocked}
+                            className={`inline-flex items-center gap-1 mt-2 px-2.5 py-1 rounded-full text-[10px] font-semibold
+                                bg-accent-primary/10 border border-accent-primary/30 text-accent-primary transition-colors
+                                ${isKeyLocked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-accent-primary/20'}`}
+                            title="Find the key from the chords in the song"
+                        >
+                            <Wand2 size={10} />
+                            Detect key
+                        </button>
+                        {detectMessage && (
+                            <p className="text-[10px] text-text-muted mt-1">{detectMessage}</p>
+                        )}
+                    </div>
+
+                    {/* Tonality picker */}
+                    <div className="flex flex-wrap justify-center gap-1 mb-4">
+                        {TONALITY_ORDER.map((tonality) => {
+                            const isActive = tonality === selectedTonality;
+                            return (
+                                <button
+                                    key={tonality}
+                                    onClick={() => setTonality(tonality)}
+                                    disabled={isKeyLocked}
+                                    className={`px-2 py-1 rounded-full text-[10px] font-semibold transition-colors
+                                        ${isActive
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'}
+                                        ${isKeyLocked ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                >
+                                    {TONALITIES[tonality].shortName}
+                                </button>
+                            );
+                        })}
                     </div>
 
                     {/* Key Grid - 4x3 layout following Circle of Fifths */}
@@ -174,7 +257,9 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                                         className={`text-lg font-bold ${isSelected ? 'text-black' : ''}`}
                                         style={{ color: isSelected ? undefined : keyColor }}
                                     >
-                                        {formatChordForDisplay(key)}
+                                        {formatChordForDisplay(selectedTonality === 'major'
+                                            ? key
+                                            : `${getTonic(key, selectedTonality)}${selectedTonality === 'naturalMinor' ? 'm' : ''}`)}
                                     </span>
 
                                     {/* Key Signature */}
@@ -188,9 +273,23 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                         })}
                     </div>
 
+                    {/* Transpose toggle */}
+                    <label className={`flex items-center justify-center gap-2 mt-4 text-xs ${isKeyLocked ? 'opacity-50' : 'cursor-pointer'} text-text-secondary`}>
+                        <input
+                            type="checkbox"
+                            checked={transposeChords}
+                            disabled={isKeyLocked}
+                            onChange={(e) => setTransposeChords(e.target.checked)}
+                            className="accent-accent-primary"
+                        />
+                        Transpose chords in song
+                    </label>
+
                     {/* Hint */}
-                    <p className="text-[10px] text-text-muted text-center mt-4">
-                        Tap a key to change. The wheel will rotate and the I chord will be selected.
+                    <p className="text-[10px] text-text-muted text-center mt-2">
+                        {transposeChords
+                            ? 'Tap a key to move every chord in the song to that key.'
+                            : `Tap a key to change. The wheel will rotate and the ${selectedTonality === 'major' ? 'I' : 'tonic'} chord will be selected.`}
                     </p>
                 </div>
             </div>
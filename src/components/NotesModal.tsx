@@ -726,8 +726,8 @@ export const NotesModal: React.FC<NotesModalProps> = ({ isOpen, onClose }) => {
                         onBarsChange={(count) => useSongStore.getState().setSectionMeasures(section.id, count)}
                         onStepCountChange={(steps) => useSongStore.getState().setSectionSubdivision(section.id, steps)}
                         onNameChange={(name, type) => useSongStore.getState().updateSection(section.id, { name, type })}
-                        onCopy={() => {
-                            useSongStore.getState().duplicateSection(section.id);
+                        onCopy={(options) => {
+                            useSongStore.getState().duplicateSection(section.id, options);
                             // Auto switch to new section
                             setTimeout(() => {
                                 const currentSections = useSongStore.getState().currentSong.sections;
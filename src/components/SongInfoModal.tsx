@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Plus, Tag } from 'lucide-react';
+import { X, Plus, Tag, Wand2 } from 'lucide-react';
 import clsx from 'clsx';
+import { formatChordForDisplay } from '../utils/musicTheory';
+import type { KeyDetectionResult } from '../utils/keyDetection';
 
 interface SongInfoModalProps {
     isOpen: boolean;
@@ -10,11 +12,15 @@ interface SongInfoModalProps {
     artist: string;
     tags: string[];
     timeSignature: [number, number];
+    keyLabel: string;
+    onDetectKey?: () => KeyDetectionResult | null;
+    isKeyLocked?: boolean;  // Detection can't change a locked key
     onSave: (title: string, artist: string, tags: string[], timeSignature: [number, number]) => void;
 }
 
 /**
  * SongInfoModal - A modal for editing song information (title, artist, tags)
+ * The key can be detected from the chords here; that applies immediately, like the wheel.
  * Styled to match VoicingQuickPicker and SectionOptionsPopup modals
  */
 export const SongInfoModal: React.FC<SongInfoModalProps> = ({
@@ -24,6 +30,9 @@ export const SongInfoModal: React.FC<SongInfoModalProps> = ({
     artist,
     tags,
     timeSignature,
+    keyLabel,
+    onDetectKey,
+    isKeyLocked = false,
     onSave,
 }) => {
     const modalRef = useRef<HTMLDivElement>(null);
@@ -35,6 +44,7 @@ export const SongInfoModal: React.FC<SongInfoModalProps> = ({
     const [localTags, setLocalTags] = useState<string[]>(tags);
     const [localTimeSignature, setLocalTimeSignature] = useState<[number, number]>(timeSignature);
     const [newTagInput, setNewTagInput] = useState('');
+    const [detectMessage, setDetectMessage] = useState<string | null>(null);
 
     // Reset local state when modal opens
     useEffect(() => {
@@ -44,6 +54,7 @@ export const SongInfoModal: React.FC<SongInfoModalProps> = ({
             setLocalTags(tags);
             setLocalTimeSignature(timeSignature);
             setNewTagInput('');
+            setDetectMessage(null);
             // Focus the title input after a small delay (for animation)
             setTimeout(() => {
                 titleInputRef.current?.focus();
@@ -74,6 +85,13 @@ export const SongInfoModal: React.FC<SongInfoModalProps> = ({
         onClose();
     };
 
+    const handleDetectKey = () => {
+        const result = onDetectKey?.();
+        setDetectMessage(result
+            ? `Detected ${formatChordForDisplay(result.label)} (${Math.round(result.confidence * 100)}% confidence)`
+            : 'Add some chords to detect the key.');
+    };
+
     const handleAddTag = () => {
         const tagToAdd = newTagInput.trim();
         if (tagToAdd && !localTags.includes(tagToAdd)) {
@@ -180,6 +198,34 @@ export const SongInfoModal: React.FC<SongInfoModalProps> = ({
                         />
                     </div>
 
+                    {/* Key */}
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                            Key
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <span className="flex-1 h-9 flex items-center bg-bg-tertiary text-text-primary text-sm font-medium rounded-lg px-3 border border-border-subtle">
+                                {formatChordForDisplay(keyLabel)}
+                            </span>
+                            {onDetectKey && (
+                                <button
+                                    onClick={handleDetectKey}
+                                    disabled={isKeyLocked}
+                                    className={`h-9 px-3 rounded-lg text-xs font-medium flex items-center gap-1
+                                               bg-accent-primary/10 border border-accent-primary/30 text-accent-primary transition-all
+                                               ${isKeyLocked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-accent-primary/20 active:scale-95'}`}
+                                    title={isKeyLocked ? 'Unlock the key to detect it' : 'Find the key from the chords in the song'}
+                                >
+                                    <Wand2 size={12} />
+                                    Detect key
+                                </button>
+                            )}
+                        </div>
+                        {detectMessage && (
+                            <p className="text-[10px] text-text-muted">{detectMessage}</p>
+                        )}
+                    </div>
+
                     {/* Time Signature */}
                     <div className="space-y-1.5">
                         <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
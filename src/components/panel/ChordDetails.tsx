@@ -9,10 +9,15 @@ import {
     getInversionName,
     getChordSymbolWithInversion,
     formatChordForDisplay,
-    getQualitySymbol
+    getQualitySymbol,
+    getChordBassNote,
+    setChordBassNote,
+    normalizeNote,
+    spellNoteForKey,
+    NOTES
 } from '../../utils/musicTheory';
 import { DraggableChordBadge } from '../DraggableChordBadge';
-import { PanelRightClose, PanelRight, GripVertical, ChevronLeft, ChevronRight, Plus, MoveRight } from 'lucide-react';
+import { PanelRightClose, PanelRight, GripVertical, ChevronLeft, ChevronRight, Plus, MoveRight, ScanSearch } from 'lucide-react';
 import { playChord, playNote } from '../../utils/audioEngine';
 import { useState, useCallback, useEffect, useRef } from 'react';
 
@@ -20,10 +25,13 @@ import { useMobileLayout } from '../../hooks/useIsMobile';
 import { ChordGuitarSection } from './ChordGuitarSection';
 import { ChordVoicingsList } from './ChordVoicingsList';
 import { ChordTheory } from './ChordTheory';
+import { ChordReharmonize } from './ChordReharmonize';
 import { ChordScales } from './ChordScales';
 import { ChordNotesGrid } from './ChordNotesGrid';
 import { ChordNotes } from './ChordNotes';
 import { LeadModeSelector } from './LeadModeSelector';
+import { ChordIdentifyPanel } from './ChordIdentifyPanel';
+import { findChordForSlot } from '../../utils/selectionUtils';
 
 
 interface ChordDetailsProps {
@@ -42,6 +50,8 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         selectedSectionId,
         selectedSlotId,
         addChordToSlot,
+        setSlotBassNote,
+        currentSong,
         setSelectedChord,
         setSelectedSlot,
         timelineVisible,
@@ -60,6 +70,8 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const colors = getWheelColors();
     const [previewVariant, setPreviewVariant] = useState<string | null>(null);
     const [previewNotes, setPreviewNotes] = useState<string[]>([]);
+    const [leadScaleNotes, setLeadScaleNotes] = useState<string[] | null>(null); // Scale picked above the piano
+    const [identifyNotes, setIdentifyNotes] = useState<string[] | null>(null); // Notes held on the piano in identify mode (null = off)
     const [panelWidth, setPanelWidth] = useState(320);
     const [isResizing, setIsResizing] = useState(false);
 
@@ -79,6 +91,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const [showVariations, setShowVariationsLocal] = useState(false); // Collapsed by default
     const [showScales, setShowScales] = useState(false); // Collapsed by default
     const [showTheory, setShowTheory] = useState(false); // Collapsed by default
+    const [showReharmonize, setShowReharmonize] = useState(false); // Collapsed by default
     const [showNotes, setShowNotes] = useState(false); // Collapsed by default
     const [showGuitar, setShowGuitarLocal] = useState(!isMobile || isLandscapeVariant); // Collapsed on mobile (except landscape), expanded on desktop
     const [voicingsHighlight, setVoicingsHighlight] = useState(false); // Temporary highlight for attention
@@ -112,6 +125,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const voicingsSectionRef = useRef<HTMLDivElement>(null);
     const scalesSectionRef = useRef<HTMLDivElement>(null);
     const theorySectionRef = useRef<HTMLDivElement>(null);
+    const reharmonizeSectionRef = useRef<HTMLDivElement>(null);
     const notesSectionRef = useRef<HTMLDivElement>(null);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -181,6 +195,16 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         playNote(note, octave);
     }, []);
 
+    // In identify mode a tap holds the key, or lets it go if it was held
+    const handleIdentifyNotePlay = useCallback((note: string, octave: number) => {
+        const pitch = `${note}${octave}`;
+        setIdentifyNotes(prev => {
+            const held = prev ?? [];
+            return held.includes(pitch) ? held.filter(n => n !== pitch) : [...held, pitch];
+        });
+        playNote(note, octave);
+    }, []);
+
 
 
     // Handle resize drag (sidebar only) - supports both mouse and touch
@@ -327,6 +351,40 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const displayNotes = invertChord(baseNotes, chordInversion);
     const maxInversion = getMaxInversion(baseNotes);
 
+    // Slash bass that isn't a chord tone (e.g. the Bb in C/Bb) sounds underneath the voicing
+    const slashBass = chord ? getChordBassNote(chord) : undefined;
+    const foreignBass = slashBass && !baseNotes.some(note => normalizeNote(note) === normalizeNote(slashBass))
+        ? slashBass
+        : undefined;
+    const withForeignBass = (notes: string[]) => foreignBass ? [normalizeNote(foreignBass), ...notes] : notes;
+    const bassSelectValue = slashBass ? normalizeNote(slashBass) : (chordInversion > 0 ? normalizeNote(displayNotes[0] ?? '') : '');
+
+    // Pick any note for the bass; applies to the selected timeline slot when it holds this chord
+    const handleBassChange = (value: string) => {
+        if (!chord) return;
+        const bass = value ? spellNoteForKey(value, selectedKey) : null;
+        const updated = setChordBassNote(chord, bass);
+
+        const slotChord = findChordForSlot(
+            currentSong.sections,
+            selectedSectionId && selectedSlotId ? { sectionId: selectedSectionId, slotId: selectedSlotId } : null
+        );
+        if (selectedSectionId && selectedSlotId && slotChord && slotChord.root === chord.root && slotChord.quality === chord.quality) {
+            setSlotBassNote(selectedSectionId, selectedSlotId, bass);
+        }
+
+        setChordInversion(updated.inversion ?? 0);
+        setSelectedChord(updated);
+
+        const bassIndex = updated.bassNote
+            ? baseNotes.findIndex(note => normalizeNote(note) === normalizeNote(updated.bassNote!))
+            : 0;
+        const voicing = bassIndex === -1
+            ? [normalizeNote(updated.bassNote!), ...baseNotes]
+            : invertChord(baseNotes, bassIndex);
+        playChord(voicing);
+    };
+
     // Play chord variation and update the store for unified state
     const handleVariationClick = (variant: string) => {
         const now = Date.now();
@@ -342,7 +400,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         const invertedNotes = invertChord(variantNotes, chordInversion);
         const symbol = getChordSymbolWithInversion(chord.root, variant, variantNotes, chordInversion);
 
-        playChord(invertedNotes);
+        playChord(withForeignBass(invertedNotes));
 
         // Update the store so all components (VoicingQuickPicker, badge, etc.) stay in sync
         const newChord = {
@@ -352,7 +410,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
             symbol,
             inversion: chordInversion
         };
-        setSelectedChord(newChord);
+        setSelectedChord(foreignBass ? setChordBassNote(newChord, foreignBass) : newChord);
 
         // Keep legacy local state in sync for any remaining usages
         setPreviewVariant(variant);
@@ -380,13 +438,14 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         // Generate symbol with slash notation if inverted (e.g., C/E for first inversion)
         const chordSymbol = getChordSymbolWithInversion(chord.root, variant, variantNotes, chordInversion);
 
-        const newChord = {
+        const invertedChord = {
             ...chord,
             quality: variant as any,
             symbol: chordSymbol,
             notes: variantNotes,
             inversion: chordInversion // Save the current inversion with this chord
         };
+        const newChord = foreignBass ? setChordBassNote(invertedChord, foreignBass) : invertedChord;
 
         addChordToSlot(newChord, selectedSectionId, selectedSlotId);
 
@@ -409,8 +468,8 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         const currentVariant = previewVariant || chord.quality;
         const variantNotes = getChordNotes(chord.root, currentVariant);
         const invertedNotes = invertChord(variantNotes, chordInversion);
-        playChord(invertedNotes);
-    }, [chord, previewVariant, chordInversion]);
+        playChord(foreignBass ? [normalizeNote(foreignBass), ...invertedNotes] : invertedNotes);
+    }, [chord, previewVariant, chordInversion, foreignBass]);
 
     // Handler for double-clicking on guitar chord or music staff - adds to timeline
     const handleDiagramDoubleClick = useCallback(() => {
@@ -429,13 +488,14 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         const variantNotes = getChordNotes(chord.root, currentVariant);
         const chordSymbol = getChordSymbolWithInversion(chord.root, currentVariant, variantNotes, chordInversion);
 
-        const newChord = {
+        const invertedChord = {
             ...chord,
             quality: currentVariant as any,
             symbol: chordSymbol,
             notes: variantNotes,
             inversion: chordInversion
         };
+        const newChord = foreignBass ? setChordBassNote(invertedChord, foreignBass) : invertedChord;
 
         addChordToSlot(newChord, selectedSectionId, selectedSlotId);
 
@@ -447,7 +507,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         if (autoAdvance) {
             selectNextSlotAfter(selectedSectionId, selectedSlotId);
         }
-    }, [chord, previewVariant, chordInversion, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedSlot, setSelectedChord, timelineVisible, openTimeline, autoAdvance, selectNextSlotAfter]);
+    }, [chord, previewVariant, chordInversion, foreignBass, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedSlot, setSelectedChord, timelineVisible, openTimeline, autoAdvance, selectNextSlotAfter]);
 
     // Touch event handling for chord title (for proper double-tap and bounce effect)
     const titleLastTouchTime = useRef(0);
@@ -619,7 +679,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                 const newInversion = Math.max(0, chordInversion - 1);
                                                 setChordInversion(newInversion);
                                                 const notes = invertChord(baseNotes, newInversion);
-                                                playChord(notes);
+                                                playChord(withForeignBass(notes));
                                             }}
                                             disabled={chordInversion <= 0}
                                             className="w-3 h-3 flex items-center justify-center text-text-muted hover:text-accent-primary transition-colors disabled:opacity-20"
@@ -634,7 +694,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                 const newInversion = Math.min(maxInversion, chordInversion + 1);
                                                 setChordInversion(newInversion);
                                                 const notes = invertChord(baseNotes, newInversion);
-                                                playChord(notes);
+                                                playChord(withForeignBass(notes));
                                             }}
                                             disabled={chordInversion >= maxInversion}
                                             className="w-3 h-3 flex items-center justify-center text-text-muted hover:text-accent-primary transition-colors disabled:opacity-20"
@@ -699,7 +759,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                 const newInversion = Math.max(0, chordInversion - 1);
                                                 setChordInversion(newInversion);
                                                 const notes = invertChord(baseNotes, newInversion);
-                                                playChord(notes);
+                                                playChord(withForeignBass(notes));
                                             }}
                                             disabled={chordInversion <= 0}
                                             className="w-4 h-4 flex items-center justify-center hover:bg-accent-primary/20 rounded-full text-text-muted hover:text-accent-primary transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
@@ -716,7 +776,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                 const newInversion = Math.min(maxInversion, chordInversion + 1);
                                                 setChordInversion(newInversion);
                                                 const notes = invertChord(baseNotes, newInversion);
-                                                playChord(notes);
+                                                playChord(withForeignBass(notes));
                                             }}
                                             disabled={chordInversion >= maxInversion}
                                             className="w-4 h-4 flex items-center justify-center hover:bg-accent-primary/20 rounded-full text-text-muted hover:text-accent-primary transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
@@ -726,6 +786,24 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                         </button>
                                     </div>
                                 )}
+
+                                {/* Bass note picker - any note, for slash chords like C/B♭ */}
+                                {chord && !isCompactLandscape && (
+                                    <select
+                                        value={bassSelectValue}
+                                        onChange={(e) => handleBassChange(e.target.value)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        className="ml-1 bg-bg-tertiary/40 rounded-full px-1 py-0.5 text-[10px] font-semibold text-text-secondary focus:outline-none shrink-0"
+                                        title="Bass note (slash chord)"
+                                    >
+                                        <option value="" className="bg-bg-secondary text-text-primary">/ –</option>
+                                        {NOTES.map(note => (
+                                            <option key={note} value={note} className="bg-bg-secondary text-text-primary">
+                                                /{formatChordForDisplay(spellNoteForKey(note, selectedKey))}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
                             </>
                         )}
                     </div>
@@ -807,26 +885,61 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                         {!isCompactLandscape && (
                             <div className={`${isMobile ? 'px-5 pt-4 pb-4' : 'px-5 py-4'} border-b border-border-subtle`}>
                                 {!isCompactLandscape && (
-                                    <LeadModeSelector selectedKey={selectedKey} />
+                                    <LeadModeSelector
+                                        selectedKey={selectedKey}
+                                        chordRoot={chord.root}
+                                        chordQuality={previewVariant || chord.quality}
+                                        onScaleChange={setLeadScaleNotes}
+                                    />
                                 )}
-                                <PianoKeyboard
-                                    highlightedNotes={displayNotes}
-                                    rootNote={chord.root}
-                                    bassNote={displayNotes[0]}
-                                    color={chordColor}
-                                    octave={pianoOctave}
-                                    height={64} // Smaller height for mobile/compact feel
-                                    onNotePlay={handleNotePlay}
-                                />
+                                {identifyNotes ? (
+                                    <PianoKeyboard
+                                        highlightedNotes={identifyNotes}
+                                        color={chordColor}
+                                        octave={pianoOctave}
+                                        height={64}
+                                        onNotePlay={handleIdentifyNotePlay}
+                                    />
+                                ) : (
+                                    <PianoKeyboard
+                                        highlightedNotes={withForeignBass(displayNotes)}
+                                        scaleNotes={leadScaleNotes ?? undefined}
+                                        rootNote={chord.root}
+                                        bassNote={foreignBass ?? displayNotes[0]}
+                                        color={chordColor}
+                                        octave={pianoOctave}
+                                        height={64} // Smaller height for mobile/compact feel
+                                        onNotePlay={handleNotePlay}
+                                    />
+                                )}
+                                <div className="flex justify-end mt-1.5">
+                                    <button
+                                        onClick={() => setIdentifyNotes(prev => (prev ? null : []))}
+                                        className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide transition-colors ${identifyNotes
+                                            ? 'text-accent-primary bg-accent-primary/10'
+                                            : 'text-text-muted hover:text-text-primary hover:bg-white/5'
+                                            }`}
+                                        title="Tap keys to name the chord they make"
+                                    >
+                                        <ScanSearch size={11} />
+                                        Identify
+                                    </button>
+                                </div>
                                 {/* Notes display - ONLY show if not in compact landscape */}
-                                {!isCompactLandscape && (
+                                {!isCompactLandscape && (identifyNotes ? (
+                                    <ChordIdentifyPanel
+                                        notes={identifyNotes}
+                                        onClear={() => setIdentifyNotes([])}
+                                        isMobile={isMobile}
+                                    />
+                                ) : (
                                     <ChordNotesGrid
                                         isMobile={isMobile}
                                         displayNotes={displayNotes}
                                         chordRoot={chord?.root}
                                         selectedKey={selectedKey}
                                     />
-                                )}
+                                ))}
                             </div>
                         )}
 
@@ -845,6 +958,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                     isNarrowPanel={isNarrowPanel}
                                     chordColor={chordColor}
                                     displayNotes={displayNotes}
+                                    bassNote={foreignBass}
                                     onToggle={() => {
                                         const newState = !showGuitar;
                                         setShowGuitar(newState);
@@ -863,6 +977,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                             {/* Variations */}
                             <div ref={voicingsSectionRef}>
                                 <ChordVoicingsList
+                                    root={chord.root}
                                     showVariations={showVariations}
                                     isCompactLandscape={isCompactLandscape}
                                     isMobile={isMobile}
@@ -897,6 +1012,22 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                 />
                             </div>
 
+                            {/* Reharmonize Selection */}
+                            <div ref={reharmonizeSectionRef}>
+                                <ChordReharmonize
+                                    isCompactLandscape={isCompactLandscape}
+                                    isMobile={isMobile}
+                                    showReharmonize={showReharmonize}
+                                    onToggle={() => {
+                                        const newState = !showReharmonize;
+                                        setShowReharmonize(newState);
+                                        if (newState) {
+                                            setTimeout(() => scrollSectionIntoView(reharmonizeSectionRef), 50);
+                                        }
+                                    }}
+                                />
+                            </div>
+
                             {/* Scales */}
                             <div ref={scalesSectionRef}>
                                 <ChordScales
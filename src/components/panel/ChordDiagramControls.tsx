@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { Lightbulb } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { STANDARD_TUNING } from '../../utils/fretboardVoicings';
+import {
+    GUITAR_TUNINGS,
+    MAX_CAPO,
+    getCustomStringOptions,
+    getTuningPreset,
+    suggestCapoPositions
+} from '../../utils/guitarTuning';
+import { formatChordForDisplay, getKeyDisplayName } from '../../utils/musicTheory';
+import { DIAGRAM_INSTRUMENTS, getDiagramInstrument, type DiagramInstrument } from '../../utils/diagramInstruments';
+
+interface ChordDiagramControlsProps {
+    isMobile: boolean;
+}
+
+const CUSTOM = 'custom';
+
+/**
+ * Diagram instrument, song tuning (guitar only) and capo pickers for the chord
+ * diagrams, with the capo advisor
+ */
+export const ChordDiagramControls: React.FC<ChordDiagramControlsProps> = ({ isMobile }) => {
+    const tuning = useSongStore((state) => state.currentSong.tuning);
+    const capo = useSongStore((state) => state.currentSong.capo ?? 0);
+    const songKey = useSongStore((state) => state.currentSong.key);
+    const tonality = useSongStore((state) => state.currentSong.tonality);
+    const setTuning = useSongStore((state) => state.setTuning);
+    const setCapo = useSongStore((state) => state.setCapo);
+    const diagramInstrument = useSongStore((state) => state.diagramInstrument);
+    const setDiagramInstrument = useSongStore((state) => state.setDiagramInstrument);
+    const [showAdvice, setShowAdvice] = useState(false);
+    const [editingCustom, setEditingCustom] = useState(false);
+
+    // A custom tuning that happens to match a preset still shows its string pickers while editing
+    const preset = editingCustom ? null : getTuningPreset(tuning);
+    const strings = tuning ?? STANDARD_TUNING;
+    const profile = getDiagramInstrument(diagramInstrument);
+    const isGuitar = profile.id === 'guitar';
+    const adviceStrings = isGuitar ? strings : profile.strings;
+
+    // Only worked out while the advice is open: it voices the key's chords at every capo position
+    const suggestions = useMemo(
+        () => (showAdvice && profile.usesCapo ? suggestCapoPositions(songKey, tonality, adviceStrings, profile.voicingOptions) : []),
+        [showAdvice, profile, songKey, tonality, adviceStrings]
+    );
+
+    const handleTuningChange = (id: string) => {
+        setEditingCustom(id === CUSTOM);
+        // A custom tuning starts from the current strings
+        if (id === CUSTOM) return;
+        const next = GUITAR_TUNINGS.find(t => t.id === id);
+        setTuning(next && next.id !== 'standard' ? next.strings : undefined);
+    };
+
+    const handleStringChange = (index: number, note: string) => {
+        const next = strings.map((string, i) => (i === index ? note : string));
+        setTuning(getTuningPreset(next)?.id === 'standard' ? undefined : next);
+    };
+
+    const textSize = isMobile ? 'text-[11px]' : 'text-[10px]';
+    const selectClass = `${textSize} bg-bg-elevated text-text-primary border border-white/10 rounded px-1 py-0.5`;
+
+    return (
+        <div className={`mt-2 mb-2 px-3 flex flex-col gap-1.5 ${textSize} text-text-muted`}>
+            <div className="flex items-center gap-2 flex-wrap">
+                <select
+                    value={diagramInstrument}
+                    onChange={(e) => setDiagramInstrument(e.target.value as DiagramInstrument)}
+                    className={selectClass}
+                    title="Instrument to draw chord diagrams for"
+                >
+                    {DIAGRAM_INSTRUMENTS.map(instrument => (
+                        <option key={instrument.id} value={instrument.id}>{instrument.name}</option>
+                    ))}
+                </select>
+                {isGuitar && (
+                    <label className="flex items-center gap-1">
+                        Tuning
+                        <select
+                            value={preset?.id ?? CUSTOM}
+                            onChange={(e) => handleTuningChange(e.target.value)}
+                            className={selectClass}
+                        >
+                            {GUITAR_TUNINGS.map(t => (
+                                <option key={t.id} value={t.id}>{t.name}</option>
+                            ))}
+                            <option value={CUSTOM}>Custom…</option>
+                        </select>
+                    </label>
+                )}
+                {profile.usesCapo && (
+                    <label className="flex items-center gap-1">
+                        Capo
+                        <select
+                            value={capo}
+                            onChange={(e) => setCapo(parseInt(e.target.value))}
+                            className={selectClass}
+                        >
+                            <option value={0}>None</option>
+                            {Array.from({ length: MAX_CAPO }, (_, i) => i + 1).map(fret => (
+                                <option key={fret} value={fret}>{fret}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {profile.usesCapo && (
+                    <button
+                        onClick={() => setShowAdvice(!showAdvice)}
+                        className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${showAdvice ? 'text-accent-primary bg-white/5' : 'hover:text-text-primary hover:bg-white/5'}`}
+                        title={`Suggest a capo position for ${getKeyDisplayName(songKey, tonality)}`}
+                    >
+                        <Lightbulb size={11} />
+                        Capo advice
+                    </button>
+                )}
+            </div>
+
+            {/* Custom tuning: one picker per string, lowest first */}
+            {isGuitar && !preset && (
+                <div className="flex items-center gap-1">
+                    {strings.map((string, i) => (
+                        <select
+                            key={i}
+                            value={string}
+                            onChange={(e) => handleStringChange(i, e.target.value)}
+                            className={selectClass}
+                            title={`String ${strings.length - i}`}
+                        >
+                            {getCustomStringOptions(i).map(note => (
+                                <option key={note} value={note}>{note}</option>
+                            ))}
+                        </select>
+                    ))}
+                </div>
+            )}
+
+            {showAdvice && profile.usesCapo && (
+                <div className="flex flex-col gap-1">
+                    {suggestions.length === 0 && <span>No easy capo position for this key.</span>}
+                    {suggestions.map(suggestion => (
+                        <button
+                            key={suggestion.capo}
+                            onClick={() => setCapo(suggestion.capo)}
+                            className={`flex items-center justify-between gap-2 px-2 py-1 rounded bg-bg-elevated text-left transition-colors hover:bg-bg-tertiary ${suggestion.capo === capo ? 'text-accent-primary' : 'text-text-secondary'}`}
+                        >
+                            <span className="font-semibold">
+                                {suggestion.capo === 0 ? 'No capo' : `Capo ${suggestion.capo}`}
+                                {' · '}
+                                {formatChordForDisplay(suggestion.shapeKey)} shapes
+                            </span>
+                            <span className="text-text-muted">
+                                {suggestion.chords.map(chord => formatChordForDisplay(chord)).join(' ')}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
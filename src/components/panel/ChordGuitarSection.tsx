@@ -2,6 +2,9 @@ import React, { useRef } from 'react';
 import { ChevronDown } from 'lucide-react';
 import { type Chord } from '../../utils/musicTheory';
 import { GuitarChord } from './GuitarChord';
+import { ChordDiagramControls } from './ChordDiagramControls';
+import { useSongStore } from '../../store/useSongStore';
+import { getDiagramInstrument } from '../../utils/diagramInstruments';
 
 import { GrandStaff } from './GrandStaff';
 import { formatChordForDisplay, getAbsoluteDegree } from '../../utils/musicTheory';
@@ -17,6 +20,7 @@ interface ChordGuitarSectionProps {
     isNarrowPanel: boolean;
     chordColor: string;
     displayNotes: string[];
+    bassNote?: string; // Slash bass that isn't a chord tone
     onToggle: () => void;
     onVariationClick: (variant: string) => void;
     onVariationDoubleClick: (variant: string) => void;
@@ -35,6 +39,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
     isNarrowPanel,
     chordColor,
     displayNotes,
+    bassNote,
     onToggle,
     onVariationClick,
     onVariationDoubleClick,
@@ -45,6 +50,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
     // Track which button had touch start to prevent ghost clicks from touches
     // that originated on the chord diagram and released over a voicing button
     const touchStartedOnRef = useRef<string | null>(null);
+    const diagramName = getDiagramInstrument(useSongStore((state) => state.diagramInstrument)).name;
 
     return (
         <div
@@ -57,7 +63,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
                 style={{ backgroundColor: 'transparent' }}
             >
                 <h3 className={`${isCompactLandscape ? 'text-[9px]' : isMobile ? 'text-[11px]' : 'text-[10px]'} font-semibold text-text-secondary uppercase tracking-wide whitespace-nowrap`}>
-                    {isCompactLandscape ? 'Guitar & Suggested' : `Guitar & Suggested Voicings for ${formatChordForDisplay(chord.numeral || chord.symbol)}`}
+                    {isCompactLandscape ? `${diagramName} & Suggested` : `${diagramName} & Suggested Voicings for ${formatChordForDisplay(chord.numeral || chord.symbol)}`}
                 </h3>
                 <ChevronDown
                     size={isCompactLandscape ? 8 : isMobile ? 14 : 12}
@@ -141,6 +147,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
                                         <div className="mt-auto" style={{ paddingTop: isCompactLandscape ? '2px' : '6px' }}>
                                             <GrandStaff
                                                 notes={displayNotes}
+                                                bassNote={bassNote}
                                                 rootNote={chord.root}
                                                 selectedKey={selectedKey}
                                                 color={chordColor}
@@ -155,6 +162,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
                                 <div className="flex flex-col items-center justify-center flex-1">
                                     <GrandStaff
                                         notes={displayNotes}
+                                        bassNote={bassNote}
                                         rootNote={chord.root}
                                         selectedKey={selectedKey}
                                         color={chordColor}
@@ -168,6 +176,7 @@ export const ChordGuitarSection: React.FC<ChordGuitarSectionProps> = ({
                             )}
                         </div>
                     </div>
+                    {!isCompactLandscape && <ChordDiagramControls isMobile={isMobile} />}
                 </>
             )}
         </div>
@@ -0,0 +1,111 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { formatChordForDisplay, identifyChord } from '../../utils/musicTheory';
+
+interface ChordIdentifyPanelProps {
+    notes: string[]; // Held notes with octaves, e.g. ['A3', 'C4', 'E4', 'G4']
+    onClear: () => void;
+    isMobile?: boolean;
+}
+
+// Interval names for the formula notes a reading leaves out
+const OMITTED_NAMES: Record<number, string> = { 7: '5th', 2: '9th' };
+
+export const ChordIdentifyPanel: React.FC<ChordIdentifyPanelProps> = ({ notes, onClear, isMobile = false }) => {
+    const selectedSectionId = useSongStore((state) => state.selectedSectionId);
+    const selectedSlotId = useSongStore((state) => state.selectedSlotId);
+    const autoAdvance = useSongStore((state) => state.autoAdvance);
+
+    const readings = useMemo(() => identifyChord(notes), [notes]);
+    const [pickedSymbol, setPickedSymbol] = useState<string | null>(null);
+
+    // A new set of notes starts from the most likely reading
+    useEffect(() => {
+        setPickedSymbol(null);
+    }, [readings]);
+
+    const picked = readings.find(reading => reading.chord.symbol === pickedSymbol) ?? readings[0];
+    const canAdd = !!picked && !!selectedSectionId && !!selectedSlotId;
+
+    const handleAdd = () => {
+        if (!picked || !selectedSectionId || !selectedSlotId) return;
+        const { addChordToSlot, setSelectedSlot, setSelectedChord, selectNextSlotAfter } = useSongStore.getState();
+
+        addChordToSlot(picked.chord, selectedSectionId, selectedSlotId);
+        setSelectedSlot(selectedSectionId, selectedSlotId);
+        setSelectedChord(picked.chord);
+        if (autoAdvance) {
+            selectNextSlotAfter(selectedSectionId, selectedSlotId);
+        }
+    };
+
+    return (
+        <div className={`${isMobile ? 'mt-4' : 'mt-5'} w-full space-y-2`}>
+            <div className="flex items-center justify-between gap-2">
+                <div className="text-[10px] font-semibold uppercase tracking-wide text-text-muted truncate">
+                    {notes.length > 0
+                        ? `Held: ${notes.map(note => formatChordForDisplay(note.replace(/\d+$/, ''))).join(' ')}`
+                        : 'Tap notes to name the chord'}
+                </div>
+                {notes.length > 0 && (
+                    <button
+                        onClick={onClear}
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-text-muted hover:text-text-primary hover:bg-white/5 transition-colors shrink-0"
+                        title="Clear held notes"
+                    >
+                        <X size={10} />
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {picked ? (
+                <>
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                            <div className={`${isMobile ? 'text-lg' : 'text-base'} font-bold text-text-primary truncate`}>
+                                {formatChordForDisplay(picked.chord.symbol)}
+                            </div>
+                            {picked.omitted.length > 0 && (
+                                <div className="text-[10px] text-text-muted">
+                                    No {picked.omitted.map(interval => OMITTED_NAMES[interval] ?? interval).join(' or ')}
+                                </div>
+                            )}
+                        </div>
+                        <button
+                            onClick={handleAdd}
+                            disabled={!canAdd}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-semibold bg-accent-primary/15 text-accent-primary hover:bg-accent-primary/25 transition-colors disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+                            title={canAdd ? 'Add to the selected timeline slot' : 'Select a timeline slot first'}
+                        >
+                            <Plus size={10} />
+                            Add to slot
+                        </button>
+                    </div>
+
+                    {readings.length > 1 && (
+                        <div className="flex flex-wrap gap-1">
+                            {readings.map(reading => (
+                                <button
+                                    key={reading.chord.symbol}
+                                    onClick={() => setPickedSymbol(reading.chord.symbol)}
+                                    className={`px-2 py-0.5 rounded-full text-[10px] font-semibold border transition-colors ${reading === picked
+                                        ? 'border-accent-primary text-accent-primary bg-accent-primary/10'
+                                        : 'border-border-subtle text-text-secondary hover:text-text-primary hover:bg-white/5'
+                                        }`}
+                                >
+                                    {formatChordForDisplay(reading.chord.symbol)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </>
+            ) : notes.length > 0 && (
+                <div className="text-[11px] text-text-muted">
+                    {notes.length < 2 ? 'Add more notes' : 'No chord matches these notes'}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, Play, Square, Check } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { formatChordForDisplay } from '../../utils/musicTheory';
+import { playChordSequence, stopProgression } from '../../utils/progressionPlayback';
+import { REHARMONIZATIONS, planReharmonization, type ReharmonizationEdit, type ReharmonizationKind } from '../../utils/reharmonization';
+
+interface ChordReharmonizeProps {
+    isCompactLandscape: boolean;
+    isMobile: boolean;
+    showReharmonize: boolean;
+    onToggle: () => void;
+}
+
+export const ChordReharmonize: React.FC<ChordReharmonizeProps> = ({
+    isCompactLandscape,
+    isMobile,
+    showReharmonize,
+    onToggle
+}) => {
+    const { currentSong, selectedSlots, reharmonizeSelection } = useSongStore();
+    const [previewingKind, setPreviewingKind] = useState<ReharmonizationKind | null>(null);
+
+    // Don't leave a preview playing once the panel is gone
+    useEffect(() => stopProgression, []);
+
+    // Plan every operation up front so inapplicable ones can be dimmed
+    const plans = useMemo(
+        () => REHARMONIZATIONS.map(option => ({
+            ...option,
+            edits: planReharmonization(currentSong.sections, selectedSlots, option.kind, currentSong.key)
+        })),
+        [currentSong.sections, currentSong.key, selectedSlots]
+    );
+
+    // Hide in compact landscape
+    if (isCompactLandscape) return null;
+
+    const handlePreview = async (kind: ReharmonizationKind, edits: ReharmonizationEdit[]) => {
+        if (previewingKind === kind) {
+            stopProgression();
+            setPreviewingKind(null);
+            return;
+        }
+        setPreviewingKind(kind);
+        try {
+            await playChordSequence(edits.flatMap(edit => edit.chords), currentSong.tempo, 2);
+        } finally {
+            setPreviewingKind(current => current === kind ? null : current);
+        }
+    };
+
+    return (
+        <div
+            className={`${isMobile ? 'px-5 py-1 mt-2' : 'px-5 py-1'} rounded-none`}
+            style={{ backgroundColor: '#1e1e28', borderBottom: '1px solid #3a3a4a', scrollMarginTop: '60px' }}
+        >
+            <button
+                onClick={onToggle}
+                className={`w-full flex items-center justify-between cursor-pointer ${showReharmonize ? 'mb-3' : 'mb-0'} rounded-none`}
+                style={{ backgroundColor: 'transparent' }}
+            >
+                <h3 className={`${isMobile ? 'text-[11px]' : 'text-[10px]'} font-semibold text-text-secondary uppercase tracking-wide`}>
+                    Reharmonize{selectedSlots.length > 1 ? ` (${selectedSlots.length} slots)` : ''}
+                </h3>
+                <ChevronDown
+                    size={isMobile ? 14 : 12}
+                    className={`text-text-secondary transition-transform ${showReharmonize ? 'rotate-180' : ''}`}
+                />
+            </button>
+            {showReharmonize && (
+                <div className="mb-3 space-y-1">
+                    {selectedSlots.length === 0 && (
+                        <p className="text-xs text-text-muted">Select chords in the timeline to reharmonize them.</p>
+                    )}
+                    {selectedSlots.length > 0 && plans.map(plan => {
+                        const applies = plan.edits.length > 0;
+                        const result = plan.edits.flatMap(edit => edit.chords).map(chord => formatChordForDisplay(chord.symbol));
+
+                        return (
+                            <div
+                                key={plan.kind}
+                                className={`flex items-center gap-2 px-2 py-1.5 bg-bg-elevated ${applies ? '' : 'opacity-40'}`}
+                                title={plan.description}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-xs font-semibold text-text-primary">{plan.label}</div>
+                                    <div className="text-[10px] text-text-muted truncate">
+                                        {applies ? `→ ${result.join(' ')}` : plan.description}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handlePreview(plan.kind, plan.edits)}
+                                    disabled={!applies}
+                                    className="w-7 h-7 flex items-center justify-center rounded text-text-muted hover:text-accent-primary hover:bg-bg-tertiary disabled:pointer-events-none transition-colors"
+                                    title={previewingKind === plan.kind ? 'Stop' : 'Preview'}
+                                >
+                                    {previewingKind === plan.kind ? <Square size={12} /> : <Play size={12} />}
+                                </button>
+                                <button
+                                    onClick={() => reharmonizeSelection(plan.kind)}
+                                    disabled={!applies}
+                                    className="w-7 h-7 flex items-center justify-center rounded text-text-muted hover:text-accent-primary hover:bg-bg-tertiary disabled:pointer-events-none transition-colors"
+                                    title="Apply (undoable)"
+                                >
+                                    <Check size={14} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
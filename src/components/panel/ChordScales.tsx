@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Guitar, ChevronDown } from 'lucide-react';
-import { getMajorScale, formatChordForDisplay, getDiatonicChords } from '../../utils/musicTheory';
+import { formatChordForDisplay, getDiatonicChords } from '../../utils/musicTheory';
+import { SCALE_FAMILIES, getKeyScales, getScaleNotes, type ScaleFamily } from '../../utils/scaleLibrary';
 import { ModeFretboard } from './ModeFretboard';
 import { PlayableScaleStrip } from './PlayableScaleStrip';
 import { useSongStore } from '../../store/useSongStore';
@@ -21,6 +22,7 @@ export const ChordScales: React.FC<ChordScalesProps> = ({
     onToggle
 }) => {
     const [expandedMode, setExpandedMode] = useState<string | null>(null);
+    const [family, setFamily] = useState<ScaleFamily>('major');
 
     // Hide in compact landscape
     if (isCompactLandscape) return null;
@@ -44,45 +46,46 @@ export const ChordScales: React.FC<ChordScalesProps> = ({
                 />
             </button>
             {showScales && (() => {
-                const scale = getMajorScale(selectedKey);
-                // Get diatonic chords to know the quality of each degree
+                // Get diatonic chords to know the numeral of each major mode
                 const diatonicChords = getDiatonicChords(selectedKey);
-
-                const getModeScale = (startDegree: number) => {
-                    const rotated = [...scale.slice(startDegree), ...scale.slice(0, startDegree)];
-                    return rotated;
-                };
-
-                const modes = [
-                    { name: 'Ionian', degree: 0, desc: 'Bright, happy' },
-                    { name: 'Dorian', degree: 1, desc: 'Hopeful minor, jazzy' },
-                    { name: 'Phrygian', degree: 2, desc: 'Spanish, exotic' },
-                    { name: 'Lydian', degree: 3, desc: 'Dreamy, floating' },
-                    { name: 'Mixolydian', degree: 4, desc: 'Bluesy, rock' },
-                    { name: 'Aeolian', degree: 5, desc: 'Sad, melancholic' },
-                    { name: 'Locrian', degree: 6, desc: 'Dark, unstable' },
-                ];
+                const keyScales = getKeyScales(selectedKey, family);
 
                 return (
                     <div className="space-y-4 pb-4">
-                        {modes.map((mode, index) => {
-                            const chord = diatonicChords[index] || { root: scale[index], quality: 'major', numeral: '?' };
-                            const rootNote = chord.root;
-                            const modeScaleNotes = getModeScale(mode.degree);
-                            const numeral = chord.numeral;
+                        {/* Scale family tabs */}
+                        <div className="flex flex-wrap gap-1">
+                            {SCALE_FAMILIES.map(info => (
+                                <button
+                                    key={info.id}
+                                    onClick={() => {
+                                        setFamily(info.id);
+                                        setExpandedMode(null);
+                                    }}
+                                    className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${family === info.id
+                                        ? 'bg-accent-primary/20 text-accent-primary'
+                                        : 'bg-white/5 text-text-muted hover:text-text-primary'
+                                        }`}
+                                >
+                                    {info.name}
+                                </button>
+                            ))}
+                        </div>
+                        {keyScales.map(({ scale, root: rootNote }, index) => {
+                            const modeScaleNotes = getScaleNotes(rootNote, scale.id);
+                            const numeral = family === 'major' ? diatonicChords[index]?.numeral : undefined;
 
-                            const isExpanded = expandedMode === mode.name;
-                            const modeColor = index === 0 ? '#EAB308' : '#6366f1'; // Gold for Ionian, Indigo for others default
+                            const isExpanded = expandedMode === scale.name;
+                            const modeColor = scale.id === 'ionian' ? '#EAB308' : '#6366f1'; // Gold for Ionian, Indigo for others default
 
                             return (
                                 <div
-                                    key={mode.name}
+                                    key={scale.name}
                                     className={`bg-bg-tertiary/30 rounded-xl overflow-hidden border border-white/5 transition-all ${isExpanded ? 'bg-bg-tertiary/50 ring-1 ring-white/10 shadow-lg' : ''}`}
                                 >
                                     {/* Header Section */}
                                     <div
                                         className="px-4 py-3 flex items-center justify-between cursor-pointer hover:bg-white/5 transition-colors"
-                                        onClick={() => setExpandedMode(isExpanded ? null : mode.name)}
+                                        onClick={() => setExpandedMode(isExpanded ? null : scale.name)}
                                     >
                                         <div className="flex flex-col gap-1">
                                             <div className="flex items-baseline gap-2">
@@ -94,22 +97,25 @@ export const ChordScales: React.FC<ChordScalesProps> = ({
                                                         useSongStore.getState().openLeadScales({
                                                             scaleNotes: modeScaleNotes,
                                                             rootNote,
-                                                            modeName: mode.name,
+                                                            modeName: scale.name,
+                                                            scaleId: scale.id,
                                                             color: modeColor
                                                         });
                                                     }}
                                                 >
                                                     {formatChordForDisplay(rootNote)}
                                                     <span className="text-base font-medium text-accent-primary ml-1.5 opacity-90">
-                                                        {mode.name}
+                                                        {scale.name}
                                                     </span>
                                                 </span>
-                                                <span className="text-xs text-text-muted font-serif italic px-1.5 py-0.5 rounded bg-white/5">
-                                                    {numeral}
-                                                </span>
+                                                {numeral && (
+                                                    <span className="text-xs text-text-muted font-serif italic px-1.5 py-0.5 rounded bg-white/5">
+                                                        {numeral}
+                                                    </span>
+                                                )}
                                             </div>
                                             <span className="text-xs text-text-muted font-medium">
-                                                {mode.desc}
+                                                {scale.desc}
                                             </span>
                                         </div>
 
@@ -152,7 +158,8 @@ export const ChordScales: React.FC<ChordScalesProps> = ({
                                                         useSongStore.getState().openLeadScales({
                                                             scaleNotes: modeScaleNotes,
                                                             rootNote,
-                                                            modeName: mode.name,
+                                                            modeName: scale.name,
+                                                            scaleId: scale.id,
                                                             color: modeColor
                                                         });
                                                     }}
@@ -168,7 +175,8 @@ export const ChordScales: React.FC<ChordScalesProps> = ({
                                                     useSongStore.getState().openLeadScales({
                                                         scaleNotes: modeScaleNotes,
                                                         rootNote,
-                                                        modeName: mode.name,
+                                                        modeName: scale.name,
+                                                        scaleId: scale.id,
                                                         color: modeColor
                                                     });
                                                 }}
@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { ChevronDown } from 'lucide-react';
 import { VOICING_OPTIONS, VOICING_TOOLTIPS } from '../../utils/chordSuggestions';
+import { getGuitarVoicings, getShapeTab } from '../../utils/guitarChordData';
+import { getDiagramInstrument, getDiagramTuning } from '../../utils/diagramInstruments';
+import { useSongStore } from '../../store/useSongStore';
 
 interface ChordVoicingsListProps {
+    root: string;
     showVariations: boolean;
     isCompactLandscape: boolean;
     isMobile: boolean;
@@ -13,6 +17,7 @@ interface ChordVoicingsListProps {
 }
 
 export const ChordVoicingsList: React.FC<ChordVoicingsListProps> = ({
+    root,
     showVariations,
     isCompactLandscape,
     isMobile,
@@ -21,6 +26,15 @@ export const ChordVoicingsList: React.FC<ChordVoicingsListProps> = ({
     onVariationClick,
     onVariationDoubleClick
 }) => {
+    const diagramInstrument = useSongStore((state) => state.diagramInstrument);
+    const tuning = useSongStore((state) => state.currentSong.tuning);
+    const capo = useSongStore((state) => state.currentSong.capo);
+    const profile = getDiagramInstrument(diagramInstrument);
+    const fretboardTuning = useMemo(
+        () => getDiagramTuning(diagramInstrument, { tuning, capo }),
+        [diagramInstrument, tuning, capo]
+    );
+
     return (
         <div
             className={`${isMobile ? 'px-5 py-1 mt-2' : 'px-5 py-1'} rounded-none`}
@@ -43,6 +57,7 @@ export const ChordVoicingsList: React.FC<ChordVoicingsListProps> = ({
                 <div className={`grid ${isCompactLandscape ? 'grid-cols-2 gap-1' : isMobile ? 'grid-cols-3 gap-3' : 'grid-cols-2 sm:grid-cols-3 gap-2.5'}`}>
                     {VOICING_OPTIONS.map((ext, idx) => {
                         const isLeftCol = idx % 2 === 0;
+                        const diagramShapes = showVariations && !isMobile ? getGuitarVoicings(root, ext, fretboardTuning, profile.voicingOptions) : [];
                         const tooltipPositionStyle = isLeftCol
                             ? { left: 'calc(100% + 10px)' }
                             : { right: 'calc(100% + 10px)' };
@@ -75,6 +90,13 @@ export const ChordVoicingsList: React.FC<ChordVoicingsListProps> = ({
                                                 <div className="h-px bg-white/20 my-1.5" />
                                             </>
                                         ) : null}
+                                        {diagramShapes.length > 0 && (
+                                            <>
+                                                <span className="font-mono">{diagramShapes.slice(0, 3).map(getShapeTab).join('  ')}</span>
+                                                <span className="text-white/60"> · {diagramShapes.length} {profile.name.toLowerCase()} shape{diagramShapes.length === 1 ? '' : 's'}</span>
+                                                <div className="h-px bg-white/20 my-1.5" />
+                                            </>
+                                        )}
                                         Double-click to add to timeline
                                     </span>
                                 )}
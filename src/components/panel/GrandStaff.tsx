@@ -1,11 +1,12 @@
 import React, { useMemo } from 'react';
 import { useIsMobile } from '../../hooks/useIsMobile';
-import { getKeySignature, type Chord } from '../../utils/musicTheory';
+import { getAbsoluteDegree, getKeySignature, type Chord } from '../../utils/musicTheory';
 
 interface GrandStaffProps {
     notes: string[];
     rootNote: string;
     selectedKey: string;
+    bassNote?: string; // Slash bass; when set the bass clef shows only this note
     color?: string;
     width?: number;
     numerals?: string[];
@@ -16,6 +17,7 @@ export const GrandStaff: React.FC<GrandStaffProps> = ({
     notes,
     rootNote,
     selectedKey,
+    bassNote,
     color = '#6366f1',
     width: propWidth,
     numerals,
@@ -345,7 +347,10 @@ export const GrandStaff: React.FC<GrandStaffProps> = ({
 
     // Compute Note positions
     const renderNotes = (isTreble: boolean, centerY: number) => {
-        return notes.map((note, index) => {
+        const showSlashBass = !isTreble && Boolean(bassNote);
+        const staffNotes = showSlashBass ? [bassNote!] : notes;
+        const staffNumerals = showSlashBass ? [getAbsoluteDegree(bassNote!, rootNote)] : numerals;
+        return staffNotes.map((note, index) => {
             const { line, accidental } = isTreble ? getNoteTreblePosition(note) : getNoteBassPosition(note);
 
             // Distribute notes
@@ -401,9 +406,9 @@ export const GrandStaff: React.FC<GrandStaffProps> = ({
                     </text>
 
                     {/* Numerals */}
-                    {numerals && numerals[index] && (
+                    {staffNumerals && staffNumerals[index] && (
                         <text x={x} y={centerY + 58} fontSize="9" fill={index === 0 ? color : '#777'} textAnchor="middle" fontWeight="bold">
-                            {numerals[index]}
+                            {staffNumerals[index]}
                         </text>
                     )}
                 </g>
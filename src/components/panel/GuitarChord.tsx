@@ -1,5 +1,10 @@
-import React, { useRef, useState, useCallback } from 'react';
-import { getGuitarChord, type GuitarChordShape } from '../../utils/guitarChordData';
+import React, { useRef, useState, useCallback, useMemo } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { getGuitarVoicings, type GuitarChordShape } from '../../utils/guitarChordData';
+import { getFrettedNote } from '../../utils/fretboardVoicings';
+import { getTuningName } from '../../utils/guitarTuning';
+import { getDiagramInstrument, getDiagramTuning } from '../../utils/diagramInstruments';
+import { useSongStore } from '../../store/useSongStore';
 import { formatChordForDisplay, getQualitySymbol, getChordNotes, type Chord } from '../../utils/musicTheory';
 import { useIsMobile } from '../../hooks/useIsMobile';
 import * as audioEngine from '../../utils/audioEngine';
@@ -23,7 +28,27 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
     interactive = true
 }) => {
     const isMobile = useIsMobile();
-    const chordShape = getGuitarChord(root, quality);
+    // Shapes are worked out for the chosen diagram instrument (the song's tuning
+    // applies to guitar), with frets counted from the capo
+    const diagramInstrument = useSongStore((state) => state.diagramInstrument);
+    const tuning = useSongStore((state) => state.currentSong.tuning);
+    const songCapo = useSongStore((state) => state.currentSong.capo ?? 0);
+    const profile = getDiagramInstrument(diagramInstrument);
+    const capo = profile.usesCapo ? songCapo : 0;
+    const fretboardTuning = useMemo(
+        () => getDiagramTuning(diagramInstrument, { tuning, capo: songCapo }),
+        [diagramInstrument, tuning, songCapo]
+    );
+
+    // Generated shapes, best first; the arrows step through them
+    const voicings = useMemo(
+        () => getGuitarVoicings(root, quality, fretboardTuning, profile.voicingOptions),
+        [root, quality, fretboardTuning, profile]
+    );
+    const chordId = `${root}|${quality}|${fretboardTuning.join(',')}`;
+    const [shapeSelection, setShapeSelection] = useState({ chordId, index: 0 });
+    const shapeIndex = shapeSelection.chordId === chordId ? shapeSelection.index : 0;
+    const chordShape = voicings[shapeIndex] ?? null;
     const lastClickTime = useRef(0);
     const clickTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -54,33 +79,17 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
         inversion: 0
     };
 
-    // Standard tuning base notes (Low E to High E)
-    // E2, A2, D3, G3, B3, E4
-    const stringBases = [
-        { note: 'E', octave: 2 },
-        { note: 'A', octave: 2 },
-        { note: 'D', octave: 3 },
-        { note: 'G', octave: 3 },
-        { note: 'B', octave: 3 },
-        { note: 'E', octave: 4 }
-    ];
-
-    const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
     const getNoteFromFret = (stringIdx: number, fret: number) => {
-        if (fret === -1) return null; // Muted
-
-        const base = stringBases[stringIdx];
-        const baseVal = notes.indexOf(base.note);
-        const totalSemitones = baseVal + fret;
+        if (fret === -1 || !chordShape) return null; // Muted
 
-        const noteVal = totalSemitones % 12;
-        const octaveShift = Math.floor(totalSemitones / 12);
-
-        const noteName = notes[noteVal];
-        const octave = base.octave + octaveShift;
+        // Diagram frets are relative to baseFret
+        const absoluteFret = fret > 0 ? fret + chordShape.baseFret - 1 : 0;
+        return getFrettedNote(fretboardTuning[stringIdx], absoluteFret);
+    };
 
-        return { note: noteName, octave };
+    const stepShape = (e: React.MouseEvent, step: number) => {
+        e.stopPropagation();
+        setShapeSelection({ chordId, index: (shapeIndex + step + voicings.length) % voicings.length });
     };
 
     const stopStringNote = (stringIdx: number) => {
@@ -240,7 +249,7 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
     if (!chordShape) {
         return (
             <div className="flex items-center justify-center text-text-muted text-xs py-4">
-                No guitar diagram available for {root}{quality}
+                No {profile.name.toLowerCase()} diagram available for {root}{quality}
             </div>
         );
     }
@@ -282,6 +291,34 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
                     onMouseEnter={handleMouseEnter}
                 />
             </svg>
+            {(diagramInstrument !== 'guitar' || tuning || capo > 0) && (
+                <div className="mt-1 text-[9px] text-text-muted text-center">
+                    {[
+                        diagramInstrument !== 'guitar' && profile.name,
+                        diagramInstrument === 'guitar' && tuning && getTuningName(tuning),
+                        capo > 0 && `Capo ${capo}`
+                    ].filter(Boolean).join(' · ')}
+                </div>
+            )}
+            {voicings.length > 1 && (
+                <div className="flex items-center gap-1 mt-1 text-[9px] text-text-muted">
+                    <button
+                        onClick={(e) => stepShape(e, -1)}
+                        className="p-0.5 rounded hover:text-accent-primary hover:bg-white/10 transition-colors"
+                        title="Previous shape"
+                    >
+                        <ChevronLeft size={12} />
+                    </button>
+                    <span className="tabular-nums">{shapeIndex + 1}/{voicings.length}</span>
+                    <button
+                        onClick={(e) => stepShape(e, 1)}
+                        className="p-0.5 rounded hover:text-accent-primary hover:bg-white/10 transition-colors"
+                        title="Next shape"
+                    >
+                        <ChevronRight size={12} />
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
@@ -299,10 +336,11 @@ const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, color, onMouseDown,
     // Layout constants
     const startX = 20;
     const startY = 25;
-    const stringSpacing = 12;
+    // Strings share the same board width whatever the instrument
+    const numStrings = frets.length;
+    const stringSpacing = 60 / (numStrings - 1);
     const fretSpacing = 18;
     const numFrets = 4;
-    const numStrings = 6;
     const dotRadius = 4.5;
 
     // String positions (low E to high E, left to right)
@@ -371,7 +409,7 @@ const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, color, onMouseDown,
                     x2={x}
                     y2={startY + fretSpacing * numFrets}
                     stroke="#d4d4d4"
-                    strokeWidth={1.2 + (5 - i) * 0.25}
+                    strokeWidth={1.2 + (numStrings - 1 - i) * 0.25}
                     style={{ pointerEvents: 'none' }}
                 />
             ))}
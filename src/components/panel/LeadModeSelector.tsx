@@ -1,44 +1,81 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ChevronDown } from 'lucide-react';
 import { PlayableScaleStrip } from './PlayableScaleStrip';
-import { getMajorScale, getDiatonicChords } from '../../utils/musicTheory';
+import { formatChordForDisplay, getQualitySymbol } from '../../utils/musicTheory';
+import { SCALE_FAMILIES, getChordScales, getKeyScales, getScale, getScaleNotes } from '../../utils/scaleLibrary';
 
 interface LeadModeSelectorProps {
     selectedKey: string;
+    chordRoot?: string;
+    chordQuality?: string;
+    onScaleChange?: (scaleNotes: string[] | null) => void; // null while the default Ionian strip is showing
 }
 
-export const LeadModeSelector: React.FC<LeadModeSelectorProps> = ({ selectedKey }) => {
-    const [selectedModeIndex, setSelectedModeIndex] = useState(0); // Default Ionian (0)
+interface ScaleChoice {
+    scaleId: string;
+    root: string;
+    fromChord: boolean; // Picked from the chord's matching scales
+}
+
+export const LeadModeSelector: React.FC<LeadModeSelectorProps> = ({ selectedKey, chordRoot, chordQuality, onScaleChange }) => {
+    const [choice, setChoice] = useState<ScaleChoice | null>(null); // null = the key's Ionian
     const [isOpen, setIsOpen] = useState(false);
 
     // Reset to Ionian when key changes
     useEffect(() => {
-        setSelectedModeIndex(0);
+        setChoice(null);
     }, [selectedKey]);
 
-    const modes = [
-        { name: 'Ionian', degree: 0 },
-        { name: 'Dorian', degree: 1 },
-        { name: 'Phrygian', degree: 2 },
-        { name: 'Lydian', degree: 3 },
-        { name: 'Mixolydian', degree: 4 },
-        { name: 'Aeolian', degree: 5 },
-        { name: 'Locrian', degree: 6 },
-    ];
+    // A chord scale belongs to the chord it was picked for
+    useEffect(() => {
+        setChoice(prev => (prev?.fromChord ? null : prev));
+    }, [chordRoot, chordQuality]);
+
+    const chordScales = useMemo(
+        () => (chordRoot && chordQuality ? getChordScales(chordRoot, chordQuality, selectedKey) : []),
+        [chordRoot, chordQuality, selectedKey]
+    );
+
+    const familyGroups = useMemo(
+        () => SCALE_FAMILIES.map(family => ({ family, scales: getKeyScales(selectedKey, family.id) })),
+        [selectedKey]
+    );
 
-    const scale = getMajorScale(selectedKey);
-    // const diatonicChords = getDiatonicChords(selectedKey); // Not strictly needed unless we want chord info
+    const current = choice ?? { scaleId: 'ionian', root: selectedKey, fromChord: false };
+    const currentScale = getScale(current.scaleId);
 
-    const currentMode = modes[selectedModeIndex];
+    // Calculate scale notes for the current scale
+    const scaleNotes = useMemo(() => getScaleNotes(current.root, current.scaleId), [current.root, current.scaleId]);
 
-    // Calculate scale notes for the current mode
-    const modeScaleNotes = useMemo(() => {
-        const startDegree = currentMode.degree;
-        return [...scale.slice(startDegree), ...scale.slice(0, startDegree)];
-    }, [scale, currentMode]);
+    useEffect(() => {
+        onScaleChange?.(choice ? scaleNotes : null);
+    }, [choice, scaleNotes, onScaleChange]);
 
     // Color logic (Gold for Ionian, Indigo for others default - matching existing theme)
-    const modeColor = selectedModeIndex === 0 ? '#EAB308' : '#6366f1';
+    const modeColor = current.scaleId === 'ionian' ? '#EAB308' : '#6366f1';
+
+    const renderOption = (scaleId: string, root: string, name: string, fromChord: boolean) => {
+        const isSelected = current.scaleId === scaleId && current.root === root && current.fromChord === fromChord;
+        return (
+            <button
+                key={`${fromChord ? 'chord' : 'key'}-${scaleId}-${root}`}
+                className={`w-full text-left px-3 py-2 text-[11px] font-medium transition-colors flex items-center justify-between gap-2 ${isSelected
+                    ? 'text-accent-primary bg-accent-primary/10'
+                    : 'text-text-secondary hover:bg-white/5 hover:text-text-primary'
+                    }`}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setChoice(!fromChord && scaleId === 'ionian' && root === selectedKey ? null : { scaleId, root, fromChord });
+                    setIsOpen(false);
+                }}
+            >
+                <span>{formatChordForDisplay(root)} {name}</span>
+                {isSelected && (
+                    <div className="w-1.5 h-1.5 rounded-full bg-accent-primary shrink-0" />
+                )}
+            </button>
+        );
+    };
 
     return (
         <div className="mb-2 relative z-30 w-full">
@@ -52,7 +89,7 @@ export const LeadModeSelector: React.FC<LeadModeSelectorProps> = ({ selectedKey
                     className="flex items-center gap-1.5 px-2 py-1 -ml-2 rounded hover:bg-white/5 transition-colors group"
                 >
                     <span className="text-[10px] uppercase tracking-wider text-text-secondary font-bold group-hover:text-text-primary transition-colors">
-                        {currentMode.name} Scale
+                        {choice ? `${formatChordForDisplay(current.root)} ${currentScale?.name}` : 'Ionian Scale'}
                     </span>
                     <ChevronDown
                         size={12}
@@ -63,25 +100,22 @@ export const LeadModeSelector: React.FC<LeadModeSelectorProps> = ({ selectedKey
                 {isOpen && (
                     <>
                         <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
-                        <div className="absolute top-8 left-0 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl py-1 z-50 min-w-[140px] animate-in fade-in zoom-in-95 duration-100 overflow-hidden">
-                            {modes.map((mode, idx) => (
-                                <button
-                                    key={mode.name}
-                                    className={`w-full text-left px-3 py-2 text-[11px] font-medium transition-colors flex items-center justify-between ${selectedModeIndex === idx
-                                        ? 'text-accent-primary bg-accent-primary/10'
-                                        : 'text-text-secondary hover:bg-white/5 hover:text-text-primary'
-                                        }`}
-                                    onClick={(e) => {
-                                        e.stopPropagation();
-                                        setSelectedModeIndex(idx);
-                                        setIsOpen(false);
-                                    }}
-                                >
-                                    {mode.name}
-                                    {selectedModeIndex === idx && (
-                                        <div className="w-1.5 h-1.5 rounded-full bg-accent-primary" />
-                                    )}
-                                </button>
+                        <div className="absolute top-8 left-0 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl py-1 z-50 min-w-[200px] max-h-[320px] overflow-y-auto animate-in fade-in zoom-in-95 duration-100">
+                            {chordScales.length > 0 && chordRoot && (
+                                <>
+                                    <div className="px-3 pt-2 pb-1 text-[9px] uppercase tracking-wider text-text-muted font-bold">
+                                        Fits {formatChordForDisplay(`${chordRoot}${getQualitySymbol(chordQuality ?? 'major')}`)}
+                                    </div>
+                                    {chordScales.map(match => renderOption(match.scale.id, match.root, match.scale.name, true))}
+                                </>
+                            )}
+                            {familyGroups.map(({ family, scales }) => (
+                                <React.Fragment key={family.id}>
+                                    <div className="px-3 pt-2 pb-1 text-[9px] uppercase tracking-wider text-text-muted font-bold">
+                                        {family.name}
+                                    </div>
+                                    {scales.map(({ scale, root }) => renderOption(scale.id, root, scale.name, false))}
+                                </React.Fragment>
                             ))}
                         </div>
                     </>
@@ -91,7 +125,7 @@ export const LeadModeSelector: React.FC<LeadModeSelectorProps> = ({ selectedKey
             {/* The Strip */}
             <div className="w-full">
                 <PlayableScaleStrip
-                    scaleNotes={modeScaleNotes}
+                    scaleNotes={scaleNotes}
                     boxColor={modeColor}
                     height={34}
                 />
@@ -4,23 +4,18 @@ import { useSongStore } from '../../store/useSongStore';
 import DraggableModal from '../ui/DraggableModal';
 import { ModeFretboard } from './ModeFretboard';
 import { PlayableScaleStrip } from './PlayableScaleStrip';
-import { getMajorScale, formatChordForDisplay, getDiatonicChords } from '../../utils/musicTheory';
-import { ChevronLeft, ChevronRight, ChevronDown, Volume2 } from 'lucide-react';
+import { PianoKeyboard } from './PianoKeyboard';
+import { ChordIdentifyPanel } from './ChordIdentifyPanel';
+import { formatChordForDisplay, getDiatonicChords, getQualitySymbol, normalizeNote } from '../../utils/musicTheory';
+import { SCALE_FAMILIES, findScale, getKeyScales, getRelatedScale, getScale, getScaleNotes, getScalesInFamily, stepScale, type ScaleOnRoot } from '../../utils/scaleLibrary';
+import { ChevronLeft, ChevronRight, ChevronDown, Volume2, Radio, ScanSearch } from 'lucide-react';
 import clsx from 'clsx';
 import { useMobileLayout } from '../../hooks/useIsMobile';
+import { useChordScaleFollow } from '../../hooks/useChordScaleFollow';
 import { playLeadNote, setLeadChannelVolume } from '../../utils/audioEngine';
 import { LeadInstrumentControls } from '../playback/LeadInstrumentControls';
 import { LeadVoiceSelector } from '../playback/LeadVoiceSelector';
 
-const MODES = [
-    { name: 'Ionian', degree: 0, desc: 'Bright, happy' },
-    { name: 'Dorian', degree: 1, desc: 'Hopeful minor, jazzy' },
-    { name: 'Phrygian', degree: 2, desc: 'Spanish, exotic' },
-    { name: 'Lydian', degree: 3, desc: 'Dreamy, floating' },
-    { name: 'Mixolydian', degree: 4, desc: 'Bluesy, rock' },
-    { name: 'Aeolian', degree: 5, desc: 'Sad, melancholic' },
-    { name: 'Locrian', degree: 6, desc: 'Dark, unstable' },
-];
 
 
 export const LeadScalesModal: React.FC = () => {
@@ -34,7 +29,11 @@ export const LeadScalesModal: React.FC = () => {
         leadChannelVolume,
         setLeadChannelVolume: setStoreLeadChannelVolume,
         leadSlideEnabled,
-        setLeadSlideEnabled
+        setLeadSlideEnabled,
+        scaleFollowEnabled,
+        toggleScaleFollow,
+        scaleFollowLookAhead,
+        setScaleFollowLookAhead
     } = useSongStore();
 
     const MODAL_ID = 'lead-scales-modal';
@@ -46,8 +45,15 @@ export const LeadScalesModal: React.FC = () => {
     // Mobile portrait = mobile but NOT landscape (phone held upright)
     const isMobilePortrait = isMobile && !isLandscape;
 
-    // Internal state for the currently displayed mode
-    const [currentDegree, setCurrentDegree] = useState(0);
+    // Internal state for the currently displayed scale. Unless it was opened on a
+    // root of its own, the scale sits in the wheel key and moves when the wheel turns.
+    const [picked, setCurrent] = useState<ScaleOnRoot>(() => ({ scale: getScale('ionian')!, root: selectedKey }));
+    const [followsKey, setFollowsKey] = useState(true);
+    const current = useMemo<ScaleOnRoot>(() => {
+        if (!followsKey) return picked;
+        const inKey = getKeyScales(selectedKey, picked.scale.family).find(option => option.scale.id === picked.scale.id);
+        return { scale: picked.scale, root: inKey?.root ?? selectedKey };
+    }, [followsKey, picked, selectedKey]);
     const [dropdownOpen, setDropdownOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
     const dropdownButtonRef = useRef<HTMLButtonElement>(null);
@@ -57,9 +63,13 @@ export const LeadScalesModal: React.FC = () => {
     // Sync internal state when data changes (modal opens)
     useEffect(() => {
         if (leadScalesData) {
-            const modeIndex = MODES.findIndex(m => m.name === leadScalesData.modeName);
-            if (modeIndex !== -1) {
-                setCurrentDegree(modeIndex);
+            const scale = findScale(leadScalesData.scaleId ?? leadScalesData.modeName);
+            if (scale) {
+                // Read the key here: a turn of the wheel shouldn't re-run this
+                const key = useSongStore.getState().selectedKey;
+                const inKey = getKeyScales(key, scale.family).find(option => option.scale.id === scale.id);
+                setCurrent({ scale, root: leadScalesData.rootNote });
+                setFollowsKey(!!inKey && normalizeNote(inKey.root) === normalizeNote(leadScalesData.rootNote));
             }
         }
     }, [leadScalesData]);
@@ -87,56 +97,132 @@ export const LeadScalesModal: React.FC = () => {
 
     // Current mode data
     const currentModeData = useMemo(() => {
-        const scale = getMajorScale(selectedKey);
-        const diatonicChords = getDiatonicChords(selectedKey);
+        const { scale, root } = current;
+        // Degree numeral for the major modes, when the mode's root is in the key
+        const numeral = scale.family === 'major'
+            ? getDiatonicChords(selectedKey).find(chord => normalizeNote(chord.root) === normalizeNote(root))?.numeral
+            : undefined;
 
-        const modeInfo = MODES[currentDegree];
-
-        // Rotate scale for the mode
-        const modeScaleNotes = [...scale.slice(currentDegree), ...scale.slice(0, currentDegree)];
-
-        const chord = diatonicChords[currentDegree] || { root: scale[currentDegree], quality: 'major', numeral: '?' };
-        const rootNote = chord.root;
-
-        const color = currentDegree === 0 ? '#EAB308' : '#6366f1';
+        const color = scale.id === 'ionian' ? '#EAB308' : '#6366f1';
 
         return {
-            scaleNotes: modeScaleNotes,
-            rootNote,
+            scaleNotes: getScaleNotes(root, scale.id),
+            rootNote: root,
             color,
-            modeName: modeInfo.name,
-            desc: modeInfo.desc,
-            numeral: chord.numeral
+            modeName: scale.name,
+            desc: scale.desc,
+            numeral
         };
-    }, [selectedKey, currentDegree]);
-
-    // Play lead note when mode changes (but not on initial open)
-    const prevDegreeRef = useRef<number | null>(null);
+    }, [selectedKey, current]);
+
+    // Follow mode: the playing chord's scale, with the next chord previewed
+    const follow = useChordScaleFollow();
+    const followed = follow.current;
+    const previewNotes = follow.previewing ? follow.next?.roles.chordTones : undefined;
+    const fretboardScale = followed
+        ? { scaleNotes: followed.roles.scale.notes, rootNote: followed.chord.root }
+        : { scaleNotes: currentModeData.scaleNotes, rootNote: currentModeData.rootNote };
+    const chordName = (root: string, quality: string) => formatChordForDisplay(`${root}${getQualitySymbol(quality)}`);
+
+    // Identify mode: one tapped fret per string, named as a chord (null = off)
+    const [identifyFrets, setIdentifyFrets] = useState<Record<number, { fret: number; pitch: string }> | null>(null);
+    const handleFretTap = (stringIdx: number, fret: number, pitch: string) => {
+        setIdentifyFrets(prev => {
+            const next = { ...prev };
+            if (next[stringIdx]?.fret === fret) delete next[stringIdx];
+            else next[stringIdx] = { fret, pitch };
+            return next;
+        });
+    };
+    const heldFrets = useMemo(() => identifyFrets
+        ? Object.fromEntries(Object.entries(identifyFrets).map(([stringIdx, held]) => [stringIdx, held.fret]))
+        : undefined, [identifyFrets]);
+    // Lowest string first, so the bass leads (string 0 is the highest)
+    const identifyNotes = useMemo(() => identifyFrets
+        ? Object.entries(identifyFrets).sort(([a], [b]) => Number(b) - Number(a)).map(([, held]) => held.pitch)
+        : [], [identifyFrets]);
+
+    // Play lead note when the scale changes (but not on initial open)
+    const prevScaleRef = useRef<string | null>(null);
     useEffect(() => {
-        if (leadScalesModalVisible && prevDegreeRef.current !== null && prevDegreeRef.current !== currentDegree) {
-            // Play the root note of the new mode on the lead channel
+        const scaleKey = `${current.root}-${current.scale.id}`;
+        if (leadScalesModalVisible && prevScaleRef.current !== null && prevScaleRef.current !== scaleKey) {
+            // Play the root note of the new scale on the lead channel
             playLeadNote(currentModeData.scaleNotes[0], 4, '8n');
         }
-        prevDegreeRef.current = currentDegree;
-    }, [currentDegree, leadScalesModalVisible, currentModeData.scaleNotes]);
+        prevScaleRef.current = scaleKey;
+    }, [current, leadScalesModalVisible, currentModeData.scaleNotes]);
 
     const handlePrev = (e: React.MouseEvent | React.TouchEvent) => {
         e.stopPropagation();
         e.preventDefault();
-        setCurrentDegree(prev => (prev - 1 + 7) % 7);
+        setCurrent(prev => stepScale(prev, -1));
     };
 
     const handleNext = (e: React.MouseEvent | React.TouchEvent) => {
         e.stopPropagation();
         e.preventDefault();
-        setCurrentDegree(prev => (prev + 1) % 7);
+        setCurrent(prev => stepScale(prev, 1));
     };
 
-    const handleModeClick = (degree: number) => {
-        setCurrentDegree(degree);
+    const handleModeClick = (scaleId: string) => {
+        setCurrent(prev => getRelatedScale(prev, scaleId));
         setDropdownOpen(false);
     };
 
+    // Family tabs, then the scales of the current family (modes keep their parent scale)
+    const renderModeOptions = () => (
+        <>
+            <div className="flex flex-wrap gap-1 px-3 pb-2 mb-1 border-b border-white/10">
+                {SCALE_FAMILIES.map(family => (
+                    <button
+                        key={family.id}
+                        onClick={() => setCurrent(prev => getRelatedScale(prev, getScalesInFamily(family.id)[0].id))}
+                        className={`px-2 py-0.5 rounded text-[10px] font-medium transition-colors ${current.scale.family === family.id
+                            ? 'bg-accent-primary/20 text-accent-primary'
+                            : 'bg-white/5 text-text-muted hover:text-white'
+                            }`}
+                    >
+                        {family.name}
+                    </button>
+                ))}
+            </div>
+            <div className="max-h-72 overflow-y-auto">
+                {getScalesInFamily(current.scale.family).map(m => {
+                    const isSelected = m.id === current.scale.id;
+                    const option = getRelatedScale(current, m.id);
+                    return (
+                        <button
+                            key={m.id}
+                            onClick={() => handleModeClick(m.id)}
+                            onTouchEnd={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                handleModeClick(m.id);
+                            }}
+                            className={`w-full px-4 py-2.5 flex items-center justify-between transition-colors ${isSelected
+                                ? 'bg-accent-primary/20 text-white'
+                                : 'hover:bg-white/10 text-text-secondary active:bg-white/15'
+                                }`}
+                        >
+                            <div className="flex flex-col items-start">
+                                <span className={`font-bold ${isSelected ? 'text-accent-primary' : 'text-white'}`}>
+                                    {m.name}
+                                </span>
+                                <span className="text-[10px] text-text-muted italic">
+                                    {m.desc}
+                                </span>
+                            </div>
+                            <span className="text-xs text-text-tertiary font-mono">
+                                {formatChordForDisplay(option.root)}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+        </>
+    );
+
     const toggleDropdown = (e: React.MouseEvent | React.TouchEvent) => {
         e.stopPropagation();
         e.preventDefault();
@@ -247,36 +333,7 @@ export const LeadScalesModal: React.FC = () => {
                                             onMouseDown={(e) => e.stopPropagation()}
                                             onTouchStart={(e) => e.stopPropagation()}
                                         >
-                                            {MODES.map(m => {
-                                                const isSelected = m.degree === currentDegree;
-                                                return (
-                                                    <button
-                                                        key={m.degree}
-                                                        onClick={() => handleModeClick(m.degree)}
-                                                        onTouchEnd={(e) => {
-                                                            e.preventDefault();
-                                                            e.stopPropagation();
-                                                            handleModeClick(m.degree);
-                                                        }}
-                                                        className={`w-full px-4 py-2.5 flex items-center justify-between transition-colors ${isSelected
-                                                            ? 'bg-accent-primary/20 text-white'
-                                                            : 'hover:bg-white/10 text-text-secondary active:bg-white/15'
-                                                            }`}
-                                                    >
-                                                        <div className="flex flex-col items-start">
-                                                            <span className={`font-bold ${isSelected ? 'text-accent-primary' : 'text-white'}`}>
-                                                                {m.name}
-                                                            </span>
-                                                            <span className="text-[10px] text-text-muted italic">
-                                                                {m.desc}
-                                                            </span>
-                                                        </div>
-                                                        <span className="text-xs text-text-tertiary font-mono">
-                                                            {['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'][m.degree]}
-                                                        </span>
-                                                    </button>
-                                                );
-                                            })}
+                                            {renderModeOptions()}
                                         </div>,
                                         document.body
                                     )}
@@ -375,36 +432,7 @@ export const LeadScalesModal: React.FC = () => {
                                                 onMouseDown={(e) => e.stopPropagation()}
                                                 onTouchStart={(e) => e.stopPropagation()}
                                             >
-                                                {MODES.map(m => {
-                                                    const isSelected = m.degree === currentDegree;
-                                                    return (
-                                                        <button
-                                                            key={m.degree}
-                                                            onClick={() => handleModeClick(m.degree)}
-                                                            onTouchEnd={(e) => {
-                                                                e.preventDefault();
-                                                                e.stopPropagation();
-                                                                handleModeClick(m.degree);
-                                                            }}
-                                                            className={`w-full px-4 py-2.5 flex items-center justify-between transition-colors ${isSelected
-                                                                ? 'bg-accent-primary/20 text-white'
-                                                                : 'hover:bg-white/10 text-text-secondary active:bg-white/15'
-                                                                }`}
-                                                        >
-                                                            <div className="flex flex-col items-start">
-                                                                <span className={`font-bold ${isSelected ? 'text-accent-primary' : 'text-white'}`}>
-                                                                    {m.name}
-                                                                </span>
-                                                                <span className="text-[10px] text-text-muted italic">
-                                                                    {m.desc}
-                                                                </span>
-                                                            </div>
-                                                            <span className="text-xs text-text-tertiary font-mono">
-                                                                {['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'][m.degree]}
-                                                            </span>
-                                                        </button>
-                                                    );
-                                                })}
+                                                {renderModeOptions()}
                                             </div>,
                                             document.body
                                         )
@@ -449,9 +477,11 @@ export const LeadScalesModal: React.FC = () => {
 
                                     <div className="flex items-center gap-2 mt-0.5">
                                         <span className="text-[10px] text-text-muted italic">{currentModeData.desc}</span>
-                                        <span className="text-[10px] text-text-tertiary font-mono bg-black/30 px-1.5 rounded">
-                                            {currentModeData.numeral}
-                                        </span>
+                                        {currentModeData.numeral && (
+                                            <span className="text-[10px] text-text-tertiary font-mono bg-black/30 px-1.5 rounded">
+                                                {currentModeData.numeral}
+                                            </span>
+                                        )}
                                     </div>
 
                                     {/* Mode Dropdown */}
@@ -467,36 +497,7 @@ export const LeadScalesModal: React.FC = () => {
                                             onMouseDown={(e) => e.stopPropagation()}
                                             onTouchStart={(e) => e.stopPropagation()}
                                         >
-                                            {MODES.map(m => {
-                                                const isSelected = m.degree === currentDegree;
-                                                return (
-                                                    <button
-                                                        key={m.degree}
-                                                        onClick={() => handleModeClick(m.degree)}
-                                                        onTouchEnd={(e) => {
-                                                            e.preventDefault();
-                                                            e.stopPropagation();
-                                                            handleModeClick(m.degree);
-                                                        }}
-                                                        className={`w-full px-4 py-2.5 flex items-center justify-between transition-colors ${isSelected
-                                                            ? 'bg-accent-primary/20 text-white'
-                                                            : 'hover:bg-white/10 text-text-secondary active:bg-white/15'
-                                                            }`}
-                                                    >
-                                                        <div className="flex flex-col items-start">
-                                                            <span className={`font-bold ${isSelected ? 'text-accent-primary' : 'text-white'}`}>
-                                                                {m.name}
-                                                            </span>
-                                                            <span className="text-[10px] text-text-muted italic">
-                                                                {m.desc}
-                                                            </span>
-                                                        </div>
-                                                        <span className="text-xs text-text-tertiary font-mono">
-                                                            {['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'][m.degree]}
-                                                        </span>
-                                                    </button>
-                                                );
-                                            })}
+                                            {renderModeOptions()}
                                         </div>,
                                         document.body
                                     )}
@@ -575,6 +576,75 @@ export const LeadScalesModal: React.FC = () => {
                         </>
                     )}
 
+                    {/* Follow Bar: track the playing chord's scale */}
+                    <div
+                        className="flex items-center gap-2 mb-1 shrink-0 flex-wrap text-[10px]"
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onTouchStart={(e) => e.stopPropagation()}
+                    >
+                        <button
+                            onClick={(e) => { e.stopPropagation(); toggleScaleFollow(); }}
+                            className={clsx(
+                                "flex items-center gap-1.5 px-2 py-1 rounded-lg border transition-all font-medium",
+                                scaleFollowEnabled
+                                    ? "bg-cyan-500/20 border-cyan-400/40 text-cyan-300"
+                                    : "bg-white/5 border-white/10 text-text-muted hover:bg-white/10"
+                            )}
+                            title="Follow the chords while the song plays"
+                        >
+                            <Radio size={12} />
+                            <span>Follow</span>
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setIdentifyFrets(prev => (prev ? null : {})); }}
+                            className={clsx(
+                                "flex items-center gap-1.5 px-2 py-1 rounded-lg border transition-all font-medium",
+                                identifyFrets
+                                    ? "bg-accent-primary/20 border-accent-primary/40 text-accent-primary"
+                                    : "bg-white/5 border-white/10 text-text-muted hover:bg-white/10"
+                            )}
+                            title="Tap one fret per string to name the chord"
+                        >
+                            <ScanSearch size={12} />
+                            <span>Identify</span>
+                        </button>
+                        {scaleFollowEnabled && (
+                            <>
+                                <select
+                                    value={scaleFollowLookAhead}
+                                    onChange={(e) => setScaleFollowLookAhead(Number(e.target.value))}
+                                    className="bg-bg-tertiary border border-white/10 rounded-lg px-1.5 py-1 text-text-secondary"
+                                    title="Show the next chord this many beats early"
+                                >
+                                    <option value={0}>No preview</option>
+                                    <option value={1}>Preview 1 beat</option>
+                                    <option value={2}>Preview 2 beats</option>
+                                    <option value={4}>Preview 4 beats</option>
+                                </select>
+                                {followed ? (
+                                    <span className="text-text-secondary">
+                                        <span className="font-bold text-white">{chordName(followed.chord.root, followed.chord.quality)}</span>
+                                        {' '}{formatChordForDisplay(followed.roles.scale.root)} {followed.roles.scale.scale.name}
+                                        {follow.next && (
+                                            <span className={follow.previewing ? 'text-cyan-300' : 'text-text-muted'}>
+                                                {' → '}{chordName(follow.next.chord.root, follow.next.chord.quality)}
+                                            </span>
+                                        )}
+                                    </span>
+                                ) : (
+                                    <span className="text-text-muted italic">Press play to follow the chords</span>
+                                )}
+                                {followed && !isMobilePortrait && (
+                                    <span className="ml-auto flex items-center gap-2 text-text-muted">
+                                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: currentModeData.color }} />Chord</span>
+                                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-[#e0e0e0]" />Tension</span>
+                                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full border border-red-500" />Avoid</span>
+                                    </span>
+                                )}
+                            </>
+                        )}
+                    </div>
+
                     {/* Fretboard Area - ONLY the inner div rotates in portrait */}
                     <div
                         className={`flex-1 flex items-center justify-center bg-black/40 rounded-xl border border-white/5 relative overflow-hidden ${isMobilePortrait ? 'min-h-[50vh] mb-1' : isLandscape ? 'min-h-[100px] mb-1' : 'min-h-[150px] mb-3'
@@ -597,13 +667,17 @@ export const LeadScalesModal: React.FC = () => {
                             } : {}}
                         >
                             <ModeFretboard
-                                scaleNotes={currentModeData.scaleNotes}
-                                rootNote={currentModeData.rootNote}
+                                scaleNotes={fretboardScale.scaleNotes}
+                                rootNote={fretboardScale.rootNote}
                                 color={currentModeData.color}
                                 interactive={true}
                                 useLead={true}
                                 rotated={isMobilePortrait}
                                 slideEnabled={leadSlideEnabled}
+                                noteRoles={identifyFrets ? undefined : followed?.roles}
+                                previewNotes={identifyFrets ? undefined : previewNotes}
+                                onFretTap={identifyFrets ? handleFretTap : undefined}
+                                heldFrets={heldFrets}
                             />
                         </div>
                     </div>
@@ -614,12 +688,31 @@ export const LeadScalesModal: React.FC = () => {
                         onMouseDown={(e) => e.stopPropagation()}
                         onTouchStart={(e) => e.stopPropagation()}
                     >
-                        {!isMobilePortrait ? (
-                            <PlayableScaleStrip
-                                scaleNotes={currentModeData.scaleNotes}
-                                boxColor={currentModeData.color}
-                                useLead={true}
+                        {identifyFrets ? (
+                            <ChordIdentifyPanel
+                                notes={identifyNotes}
+                                onClear={() => setIdentifyFrets({})}
+                                isMobile={isMobilePortrait}
                             />
+                        ) : !isMobilePortrait ? (
+                            followed ? (
+                                <PianoKeyboard
+                                    highlightedNotes={followed.roles.chordTones}
+                                    scaleNotes={followed.roles.tensions}
+                                    avoidNotes={followed.roles.avoid}
+                                    previewNotes={previewNotes}
+                                    rootNote={followed.chord.root}
+                                    color={currentModeData.color}
+                                    height={56}
+                                    onNotePlay={(note, octave) => playLeadNote(note, octave, '8n')}
+                                />
+                            ) : (
+                                <PlayableScaleStrip
+                                    scaleNotes={currentModeData.scaleNotes}
+                                    boxColor={currentModeData.color}
+                                    useLead={true}
+                                />
+                            )
                         ) : (
                             /* MOBILE PORTRAIT: Bottom Controls (Voice + Volume) */
                             <div className="flex items-center justify-between gap-2 pt-1 h-10">
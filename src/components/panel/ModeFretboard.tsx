@@ -1,6 +1,11 @@
 import React, { useMemo, useState, useRef, useCallback, useEffect } from 'react';
 import { normalizeNote } from '../../utils/musicTheory';
 import * as audioEngine from '../../utils/audioEngine';
+import { useSongStore } from '../../store/useSongStore';
+import { getSongFretboardTuning } from '../../utils/guitarTuning';
+import type { ChordScaleRoles } from '../../utils/scaleLibrary';
+
+type NoteRole = 'chordTone' | 'tension' | 'avoid';
 
 interface ModeFretboardProps {
     scaleNotes: string[];
@@ -10,6 +15,10 @@ interface ModeFretboardProps {
     useLead?: boolean; // Use lead channel for playback
     rotated?: boolean; // When true, counter-rotate text labels for portrait mode
     slideEnabled?: boolean; // When true, use pitch slide between notes on same string
+    noteRoles?: Pick<ChordScaleRoles, 'chordTones' | 'tensions' | 'avoid'>; // Colour notes by their role over a chord
+    previewNotes?: string[]; // Tones of the chord coming up, ringed ahead of the change
+    onFretTap?: (stringIdx: number, fret: number, pitch: string) => void; // Any fret can be tapped, not just scale notes
+    heldFrets?: Record<number, number>; // Fret held on each string (by string index); replaces the scale notes
 }
 
 export const ModeFretboard: React.FC<ModeFretboardProps> = ({
@@ -19,18 +28,20 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
     interactive = false,
     useLead = false,
     rotated = false,
-    slideEnabled = true // Default to slide enabled for guitar-like feel
+    slideEnabled = true, // Default to slide enabled for guitar-like feel
+    noteRoles,
+    previewNotes,
+    onFretTap,
+    heldFrets
 }) => {
-    // Standard tuning base notes with octaves
-    // Index 0 is top visual string (High E) -> E4
-    const stringBases = [
-        { note: 'E', octave: 4 },
-        { note: 'B', octave: 3 },
-        { note: 'G', octave: 3 },
-        { note: 'D', octave: 3 },
-        { note: 'A', octave: 2 },
-        { note: 'E', octave: 2 }
-    ];
+    // The song's tuning with the capo acting as the nut
+    // Index 0 is top visual string (highest) -> E4 in standard tuning
+    const tuning = useSongStore((state) => state.currentSong.tuning);
+    const capo = useSongStore((state) => state.currentSong.capo ?? 0);
+    const stringBases = useMemo(() => getSongFretboardTuning({ tuning, capo }).map(string => {
+        const match = string.match(/^(.+?)(\d+)$/);
+        return { note: match?.[1] ?? string, octave: match ? parseInt(match[2]) : 3 };
+    }).reverse(), [tuning, capo]);
 
     const [activeNote, setActiveNote] = useState<string | null>(null); // For visual feedback: "stringIdx-fret"
     const lastPlayedRef = useRef<string | null>(null);
@@ -70,7 +81,7 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
         const noteName = notes[noteVal];
         const octave = base.octave + octaveShift;
         return `${noteName}${octave}`;
-    }, []);
+    }, [stringBases]);
 
     const stopNote = useCallback((noteKey: string, silent: boolean = false) => {
         if (playingNotesRef.current[noteKey]) {
@@ -212,15 +223,16 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
         }
 
         lastStringRef.current = stringIdx;
+        onFretTap?.(stringIdx, fret, getPitch(stringIdx, fret));
         playNoteWithFeedback(stringIdx, fret, true);
-    }, [interactive, playNoteWithFeedback]);
+    }, [interactive, playNoteWithFeedback, onFretTap, getPitch]);
 
     const handlePointerEnter = useCallback((stringIdx: number, fret: number) => {
-        if (isAnyPointerActive() && interactive) {
+        if (isAnyPointerActive() && interactive && !onFretTap) {
             // If dragging, we enter a new note
             playNoteWithFeedback(stringIdx, fret, false);
         }
-    }, [isAnyPointerActive, interactive, playNoteWithFeedback]);
+    }, [isAnyPointerActive, interactive, playNoteWithFeedback, onFretTap]);
 
     const handlePointerUp = useCallback((e?: React.PointerEvent) => {
         // Clean up this specific pointer
@@ -278,9 +290,32 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
 
     // Calculate fret positions for scale notes
     const fretboardData = useMemo(() => {
-        const data: { stringIdx: number; fret: number; note: string; isRoot: boolean }[] = [];
+        const data: { stringIdx: number; fret: number; note: string; isRoot: boolean; role: NoteRole | null; isPreview: boolean }[] = [];
         const scaleValues = scaleNotes.map(n => getNoteValue(n));
         const rootValue = getNoteValue(rootNote);
+        const previewValues = (previewNotes ?? []).map(n => getNoteValue(n));
+        const getRole = (value: number): NoteRole | null => {
+            if (!noteRoles) return null;
+            if (noteRoles.chordTones.some(n => getNoteValue(n) === value)) return 'chordTone';
+            if (noteRoles.avoid.some(n => getNoteValue(n) === value)) return 'avoid';
+            return 'tension';
+        };
+
+        // Held frets only, e.g. while identifying a chord
+        if (heldFrets) {
+            Object.entries(heldFrets).forEach(([stringIdx, fret]) => {
+                const noteValue = (getNoteValue(stringBases[Number(stringIdx)]?.note ?? '') + fret) % 12;
+                data.push({
+                    stringIdx: Number(stringIdx),
+                    fret,
+                    note: notes[noteValue],
+                    isRoot: noteValue === rootValue,
+                    role: 'chordTone',
+                    isPreview: false
+                });
+            });
+            return data;
+        }
 
         stringBases.forEach((base, stringIdx) => {
             const openStringValue = getNoteValue(base.note);
@@ -298,18 +333,21 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
                         stringIdx,
                         fret,
                         note: matchedNote,
-                        isRoot
+                        isRoot,
+                        role: getRole(noteValue),
+                        isPreview: previewValues.includes(noteValue)
                     });
                 }
             }
         });
         return data;
-    }, [scaleNotes, rootNote]);
+    }, [scaleNotes, rootNote, stringBases, noteRoles, previewNotes, heldFrets]);
 
     // For pointer glissando: find which note is under the pointer
     // Works with mouse, touch, and Apple Pencil
     const handlePointerMove = useCallback((e: React.PointerEvent) => {
-        if (!interactive || !activePointers.current.has(e.pointerId)) return;
+        // Tapping frets doesn't glide between them
+        if (!interactive || onFretTap || !activePointers.current.has(e.pointerId)) return;
 
         const target = containerRef.current;
         if (!target) return;
@@ -384,7 +422,7 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
                 playNoteWithFeedback(nearestString, fret, false);
             }
         }
-    }, [interactive, getPitch, stringSpacing, fretWidth, startX, startY, endX, endY, numStrings, numFrets, playNoteWithFeedback, fretboardData, rotated]);
+    }, [interactive, onFretTap, getPitch, stringSpacing, fretWidth, startX, startY, endX, endY, numStrings, numFrets, playNoteWithFeedback, fretboardData, rotated]);
 
     // Handle pointer start on the CONTAINER to catch drags starting on background
     const handleContainerPointerDown = useCallback((e: React.PointerEvent) => {
@@ -454,11 +492,15 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
             d => d.stringIdx === nearestString && d.fret === fret
         );
 
-        if (noteAtPosition) {
+        if (onFretTap) {
+            lastStringRef.current = nearestString;
+            onFretTap(nearestString, fret, getPitch(nearestString, fret));
+            playNoteWithFeedback(nearestString, fret, true);
+        } else if (noteAtPosition) {
             lastStringRef.current = nearestString;
             playNoteWithFeedback(nearestString, fret, true);
         }
-    }, [interactive, endX, endY, rotated, startX, startY, stringSpacing, fretWidth, numStrings, numFrets, fretboardData, playNoteWithFeedback]);
+    }, [interactive, endX, endY, rotated, startX, startY, stringSpacing, fretWidth, numStrings, numFrets, fretboardData, playNoteWithFeedback, onFretTap, getPitch]);
 
 
 
@@ -502,6 +544,21 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
                     />
                 ))}
 
+                {/* Capo marker above the nut */}
+                {capo > 0 && (
+                    <text
+                        x={startX}
+                        y={startY - 22}
+                        fontSize="22"
+                        fill="#888"
+                        textAnchor="middle"
+                        fontWeight="bold"
+                        transform={rotated ? `rotate(-90, ${startX}, ${startY - 22})` : undefined}
+                    >
+                        Capo {capo}
+                    </text>
+                )}
+
                 {/* Fret Markers (dots) */}
                 {[3, 5, 7, 9].map(fret => (
                     <circle
@@ -579,13 +636,25 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
                                 height={stringSpacing * 0.7}
                                 fill="transparent"
                             />
+                            {/* Ring on the next chord's tones */}
+                            {d.isPreview && (
+                                <circle
+                                    cx={cx}
+                                    cy={cy}
+                                    r={d.isRoot ? 26 : 22}
+                                    fill="none"
+                                    stroke="#22d3ee"
+                                    strokeWidth={3}
+                                    strokeDasharray="6 4"
+                                />
+                            )}
                             {/* Visual note circle */}
                             <circle
                                 cx={cx}
                                 cy={cy}
                                 r={d.isRoot ? 20 : 16}
-                                fill={d.isRoot ? color : "#e0e0e0"}
-                                stroke={d.isRoot ? "#fff" : "#2a2a35"}
+                                fill={d.isRoot || d.role === 'chordTone' ? color : d.role === 'avoid' ? "#3a3a45" : "#e0e0e0"}
+                                stroke={d.isRoot ? "#fff" : d.role === 'avoid' ? "#ef4444" : "#2a2a35"}
                                 strokeWidth={3}
                                 style={{
                                     transform: isActive ? 'scale(0.9)' : 'scale(1)',
@@ -600,7 +669,7 @@ export const ModeFretboard: React.FC<ModeFretboardProps> = ({
                                 y={cy}
                                 dy="0.35em" // Center vertically
                                 fontSize={d.isRoot ? "18" : "14"}
-                                fill={d.isRoot ? "#ffffff" : "#1a1a1a"}
+                                fill={d.isRoot || d.role === 'chordTone' ? "#ffffff" : d.role === 'avoid' ? "#ef4444" : "#1a1a1a"}
                                 textAnchor="middle"
                                 fontWeight="800"
                                 style={{ pointerEvents: 'none' }}
@@ -2,6 +2,9 @@ import React, { useRef, useCallback, useState } from 'react';
 
 interface PianoKeyboardProps {
     highlightedNotes: string[]; // e.g., ['C', 'E', 'G']
+    scaleNotes?: string[]; // Scale shown behind the chord as faint rings
+    avoidNotes?: string[]; // Scale notes that clash with the chord, ringed in red
+    previewNotes?: string[]; // Tones of the chord coming up, marked at the top of the key
     rootNote?: string;
     bassNote?: string; // The actual bass note (first note in inverted chord)
     color?: string;
@@ -12,6 +15,9 @@ interface PianoKeyboardProps {
 
 export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     highlightedNotes,
+    scaleNotes,
+    avoidNotes,
+    previewNotes,
     rootNote,
     bassNote,
     color = '#6366f1',
@@ -48,6 +54,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     };
 
     const highlightedPitchClasses = highlightedNotes.map(n => noteToPitchClass(n));
+    const scalePitchClasses = (scaleNotes ?? []).map(n => noteToPitchClass(n));
+    const avoidPitchClasses = (avoidNotes ?? []).map(n => noteToPitchClass(n));
+    const previewPitchClasses = (previewNotes ?? []).map(n => noteToPitchClass(n));
     const rootPitchClass = rootNote ? noteToPitchClass(rootNote) : -1;
     const bassPitchClass = bassNote ? noteToPitchClass(bassNote) : -1;
 
@@ -56,6 +65,10 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
         return pc !== -1 && highlightedPitchClasses.includes(pc);
     };
 
+    const getIsInScale = (note: string) => scalePitchClasses.includes(noteToPitchClass(note));
+    const getIsAvoid = (note: string) => avoidPitchClasses.includes(noteToPitchClass(note));
+    const getIsPreview = (note: string) => previewPitchClasses.includes(noteToPitchClass(note));
+
     const getIsRoot = (note: string) => {
         if (rootPitchClass === -1) return false;
         return noteToPitchClass(note) === rootPitchClass;
@@ -211,6 +224,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
             const keyOctave = octave + oct;
             whiteKeys.forEach((note) => {
                 const isHighlighted = getIsHighlighted(note);
+                const isAvoid = !isHighlighted && getIsAvoid(note);
+                const isInScale = !isHighlighted && !isAvoid && getIsInScale(note);
+                const isPreview = getIsPreview(note);
                 const isRoot = getIsRoot(note);
                 const isBass = getIsBass(note);
                 const noteKey = `${note}-${keyOctave}`;
@@ -233,6 +249,33 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
                             transform: isActive ? 'translateY(1px)' : 'none'
                         }}
                     >
+                        {/* Ring for scale notes outside the chord (red when they clash) */}
+                        {(isInScale || isAvoid) && (
+                            <div
+                                className="absolute left-1/2 rounded-full pointer-events-none"
+                                style={{
+                                    bottom: '7px',
+                                    transform: 'translateX(-50%)',
+                                    width: '7px',
+                                    height: '7px',
+                                    border: `1.5px solid ${isAvoid ? '#ef4444' : color}`,
+                                    opacity: 0.6
+                                }}
+                            />
+                        )}
+                        {/* Marker for the next chord's tones */}
+                        {isPreview && (
+                            <div
+                                className="absolute left-1/2 rounded-full pointer-events-none"
+                                style={{
+                                    top: '4px',
+                                    transform: 'translateX(-50%)',
+                                    width: '5px',
+                                    height: '5px',
+                                    background: '#22d3ee'
+                                }}
+                            />
+                        )}
                         {/* Dot indicator for highlighted notes */}
                         {isHighlighted && (
                             <>
@@ -292,6 +335,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
 
             blackKeyPositions.forEach(({ note, offset }) => {
                 const isHighlighted = getIsHighlighted(note);
+                const isAvoid = !isHighlighted && getIsAvoid(note);
+                const isInScale = !isHighlighted && !isAvoid && getIsInScale(note);
+                const isPreview = getIsPreview(note);
                 const isRoot = getIsRoot(note);
                 const isBass = getIsBass(note);
                 const leftPos = octaveOffset + offset;
@@ -318,6 +364,33 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
                             pointerEvents: 'none'
                         }}
                     >
+                        {/* Ring for scale notes outside the chord (red when they clash) */}
+                        {(isInScale || isAvoid) && (
+                            <div
+                                className="absolute left-1/2 rounded-full pointer-events-none"
+                                style={{
+                                    bottom: '5px',
+                                    transform: 'translateX(-50%)',
+                                    width: '6px',
+                                    height: '6px',
+                                    border: `1.5px solid ${isAvoid ? '#ef4444' : color}`,
+                                    opacity: 0.7
+                                }}
+                            />
+                        )}
+                        {/* Marker for the next chord's tones */}
+                        {isPreview && (
+                            <div
+                                className="absolute left-1/2 rounded-full pointer-events-none"
+                                style={{
+                                    top: '4px',
+                                    transform: 'translateX(-50%)',
+                                    width: '5px',
+                                    height: '5px',
+                                    background: '#22d3ee'
+                                }}
+                            />
+                        )}
                         {/* Dot indicator for highlighted notes */}
                         {isHighlighted && (
                             <>
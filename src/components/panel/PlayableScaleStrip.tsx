@@ -1,9 +1,9 @@
-import React, { useRef, useState, useCallback } from 'react';
+import React, { useRef, useState, useCallback, useMemo } from 'react';
 import { playLeadNoteWithManualRelease, playNoteWithManualRelease } from '../../utils/audioEngine';
-import { formatChordForDisplay } from '../../utils/musicTheory';
+import { formatChordForDisplay, normalizeNote, NOTES } from '../../utils/musicTheory';
 
 interface PlayableScaleStripProps {
-    scaleNotes: string[]; // 7 notes
+    scaleNotes: string[]; // Any scale, root first
     boxColor?: string;
     height?: string | number;
     useLead?: boolean; // Use lead channel for playback
@@ -15,18 +15,19 @@ export const PlayableScaleStrip: React.FC<PlayableScaleStripProps> = ({
     height = 48,
     useLead = false
 }) => {
-    // We want 8 notes (octave included)
-    // If scaleNotes has 7, repeat the first one at the end
-    const fullScale = scaleNotes.length === 7 ? [...scaleNotes, scaleNotes[0]] : scaleNotes;
-
-    // Determine octaves for playback with C3 baseline
-    // The 8th note (octave) is one octave higher than the first
-    // All other notes stay in the same octave as the starting note
-    const playbackNotes = React.useMemo(() => {
+    // Close the scale with the root an octave up (8 cells for a seven-note scale)
+    const fullScale = useMemo(() => [...scaleNotes, scaleNotes[0]], [scaleNotes]);
+
+    // Determine octaves for playback from a C3 baseline, rising whenever
+    // the scale passes C so every step goes up
+    const playbackNotes = useMemo(() => {
         const baseOctave = 3;
+        let octave = baseOctave;
+        let previous = -1;
         return fullScale.map((note, index) => {
-            // Only the 8th note (the octave) is one octave higher
-            const octave = index === 7 ? baseOctave + 1 : baseOctave;
+            const pitch = NOTES.indexOf(normalizeNote(note));
+            if (index > 0 && pitch <= previous) octave++;
+            previous = pitch;
             return { note, octave };
         });
     }, [fullScale]);
@@ -122,7 +123,7 @@ export const PlayableScaleStrip: React.FC<PlayableScaleStripProps> = ({
             onPointerLeave={handlePointerUp}
         >
             {fullScale.map((note, idx) => {
-                const isRoot = idx === 0 || idx === 7;
+                const isRoot = idx === 0 || idx === fullScale.length - 1;
                 return (
                     <div
                         key={idx}
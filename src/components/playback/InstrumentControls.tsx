@@ -9,6 +9,7 @@ import DraggableModal from '../ui/DraggableModal';
 import { Knob } from '../ui/Knob';
 import type { InstrumentType } from '../../types';
 import { useMobileLayout } from '../../hooks/useIsMobile';
+import { VOICING_STYLES } from '../../utils/voiceLeading';
 import {
     getWheelColors,
     getContrastingTextColor,
@@ -55,7 +56,9 @@ export const InstrumentControls: React.FC = () => {
         setFilterMix,
         modalStack,
         bringToFront,
-        togglePatchManagerModal
+        togglePatchManagerModal,
+        voicingStyle,
+        setVoicingStyle
     } = useSongStore();
 
     const MODAL_ID = 'instrument-controls';
@@ -174,6 +177,28 @@ export const InstrumentControls: React.FC = () => {
                     <Knob label="Chorus" value={chorusMix} defaultValue={0} min={0} max={1} onChange={setChorusMix} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Disc3 />} compact={isCompact} />
                     <Knob label="Vibrato" value={vibratoDepth} defaultValue={0} min={0} max={1} onChange={setVibratoDepth} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Waves />} compact={isCompact} />
                 </div>
+
+                {/* Voicing Style - shared by playback, WAV and MIDI export */}
+                <div className="relative mt-3 mb-2 p-2 pt-3 border border-white/10 rounded-xl bg-white/5">
+                    <div className="absolute -top-2.5 left-1/2 -translate-x-1/2 px-2 bg-bg-elevated text-[10px] text-text-tertiary uppercase tracking-wider font-bold">Voicing</div>
+                    <div className="grid grid-cols-3 gap-1">
+                        {VOICING_STYLES.map(style => (
+                            <button
+                                key={style.value}
+                                onClick={() => setVoicingStyle(style.value)}
+                                className={clsx(
+                                    "px-2 py-1 rounded text-[10px] font-semibold transition-colors",
+                                    voicingStyle === style.value
+                                        ? "bg-accent-primary text-white"
+                                        : "text-text-muted hover:text-text-primary hover:bg-white/10"
+                                )}
+                                title={style.description}
+                            >
+                                {style.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </div>
         </div>
     );
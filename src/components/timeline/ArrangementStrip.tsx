@@ -0,0 +1,199 @@
+/**
+ * ArrangementStrip
+ *
+ * Edits the song's form: an ordered row of references to sections, each with
+ * a repeat count and an optional transpose. Entries reorder by drag-and-drop
+ * like the section tabs. Without a form the song plays its sections in order.
+ */
+
+import React from 'react';
+import clsx from 'clsx';
+import { ChevronDown, ChevronUp, ListOrdered, RotateCcw, X } from 'lucide-react';
+import {
+    DndContext,
+    closestCenter,
+    KeyboardSensor,
+    PointerSensor,
+    TouchSensor,
+    useSensor,
+    useSensors,
+    type DragEndEvent
+} from '@dnd-kit/core';
+import {
+    arrayMove,
+    SortableContext,
+    sortableKeyboardCoordinates,
+    horizontalListSortingStrategy,
+    useSortable
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useSongStore } from '../../store/useSongStore';
+import { getSectionDisplayName, type ArrangementEntry, type Section } from '../../types';
+import { MAX_ARRANGEMENT_REPEATS, createArrangementFromSections } from '../../utils/arrangement';
+
+interface SortableArrangementEntryProps {
+    entry: ArrangementEntry;
+    section: Section;
+    allSections: Section[];
+    isPlaying: boolean;
+}
+
+const SortableArrangementEntry: React.FC<SortableArrangementEntryProps> = ({ entry, section, allSections, isPlaying }) => {
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+        id: entry.id,
+        data: { type: 'arrangement-entry' }
+    });
+    const { updateArrangementEntry, removeArrangementEntry } = useSongStore.getState();
+    const repeats = entry.repeats ?? 1;
+    const transpose = entry.transpose ?? 0;
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={{ transform: CSS.Transform.toString(transform), transition }}
+            className={clsx(
+                "flex items-center gap-1 shrink-0 h-7 pl-2 pr-1 rounded-full border text-[10px] font-semibold select-none",
+                isPlaying
+                    ? "bg-accent-primary/20 border-accent-primary/50 text-accent-primary"
+                    : "bg-white/5 border-white/10 text-white/70",
+                isDragging && "opacity-50 z-50"
+            )}
+        >
+            {/* Drag handle */}
+            <span
+                {...attributes}
+                {...listeners}
+                className="truncate max-w-[90px] cursor-grab active:cursor-grabbing touch-none"
+                title="Drag to reorder"
+            >
+                {getSectionDisplayName(section, allSections)}
+            </span>
+
+            <button
+                onClick={() => updateArrangementEntry(entry.id, { repeats: repeats >= MAX_ARRANGEMENT_REPEATS ? 1 : repeats + 1 })}
+                className={clsx(
+                    "px-1 rounded transition-colors hover:bg-white/10",
+                    repeats > 1 ? "text-white" : "text-white/40"
+                )}
+                title="Times played in a row (click to add a repeat)"
+            >
+                ×{repeats}
+            </button>
+
+            <div className="flex items-center" title="Transpose this entry only">
+                <button
+                    onClick={() => updateArrangementEntry(entry.id, { transpose: transpose - 1 })}
+                    className="p-0.5 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                    <ChevronDown size={10} />
+                </button>
+                {transpose !== 0 && (
+                    <span className="text-amber-300">{transpose > 0 ? `+${transpose}` : transpose}</span>
+                )}
+                <button
+                    onClick={() => updateArrangementEntry(entry.id, { transpose: transpose + 1 })}
+                    className="p-0.5 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                    <ChevronUp size={10} />
+                </button>
+            </div>
+
+            <button
+                onClick={() => removeArrangementEntry(entry.id)}
+                className="p-0.5 rounded-full text-white/30 hover:text-red-400 hover:bg-white/10 transition-colors"
+                title="Remove from the form"
+            >
+                <X size={10} />
+            </button>
+        </div>
+    );
+};
+
+export const ArrangementStrip: React.FC = () => {
+    const sections = useSongStore((state) => state.currentSong.sections);
+    const arrangement = useSongStore((state) => state.currentSong.arrangement);
+    const playingSectionId = useSongStore((state) => state.playingSectionId);
+    const { setArrangement, addArrangementEntry } = useSongStore.getState();
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+        useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 8 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        const { active, over } = event;
+        if (!arrangement || !over || active.id === over.id) return;
+
+        const oldIndex = arrangement.findIndex(entry => entry.id === active.id);
+        const newIndex = arrangement.findIndex(entry => entry.id === over.id);
+        setArrangement(arrayMove(arrangement, oldIndex, newIndex));
+    };
+
+    if (!arrangement) {
+        return (
+            <button
+                onClick={() => setArrangement(createArrangementFromSections(sections))}
+                disabled={sections.length === 0}
+                className="flex items-center gap-1.5 mt-2 px-2 py-1 rounded-full border border-dashed border-white/15 text-[10px] font-medium text-white/40 hover:text-white/70 hover:border-white/30 transition-colors disabled:opacity-30"
+                title="Play sections by reference, with repeats, instead of top to bottom"
+            >
+                <ListOrdered size={10} />
+                Arrange form
+            </button>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-1.5 mt-2">
+            <span className="flex items-center gap-1 shrink-0 text-[10px] font-semibold uppercase tracking-wide text-white/40">
+                <ListOrdered size={10} />
+                Form
+            </span>
+
+            <div className="flex items-center gap-1 overflow-x-auto no-scrollbar">
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                    <SortableContext items={arrangement.map(entry => entry.id)} strategy={horizontalListSortingStrategy}>
+                        {arrangement.map(entry => {
+                            const section = sections.find(s => s.id === entry.sectionId);
+                            if (!section) return null;
+                            return (
+                                <SortableArrangementEntry
+                                    key={entry.id}
+                                    entry={entry}
+                                    section={section}
+                                    allSections={sections}
+                                    isPlaying={playingSectionId === section.id}
+                                />
+                            );
+                        })}
+                    </SortableContext>
+                </DndContext>
+            </div>
+
+            <select
+                value=""
+                onChange={(e) => {
+                    if (e.target.value) addArrangementEntry(e.target.value);
+                }}
+                className="shrink-0 h-7 px-1.5 rounded-full bg-white/5 border border-dashed border-white/15 text-[10px] text-white/50 hover:text-white/80 focus:outline-none"
+                title="Add a section to the form"
+            >
+                <option value="">+ Add</option>
+                {sections.map(section => (
+                    <option key={section.id} value={section.id}>
+                        {getSectionDisplayName(section, sections)}
+                    </option>
+                ))}
+            </select>
+
+            <button
+                onClick={() => setArrangement(null)}
+                className="shrink-0 p-1.5 rounded-full text-white/30 hover:text-white/70 hover:bg-white/10 transition-colors"
+                title="Remove the form and play sections top to bottom"
+            >
+                <RotateCcw size={10} />
+            </button>
+        </div>
+    );
+};
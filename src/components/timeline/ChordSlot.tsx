@@ -1,9 +1,9 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
 import type { ChordSlot as IChordSlot } from '../../types';
 import clsx from 'clsx';
 import { useSongStore } from '../../store/useSongStore';
-import { getWheelColors, normalizeNote, formatChordForDisplay, getVoicingSuggestion, MAJOR_POSITIONS, CIRCLE_OF_FIFTHS } from '../../utils/musicTheory';
+import { getWheelColors, normalizeNote, formatChordForDisplay, getVoicingSuggestion, getChordPlaybackNotes, parseChordList, MAJOR_POSITIONS, CIRCLE_OF_FIFTHS } from '../../utils/musicTheory';
 import { playChord } from '../../utils/audioEngine';
 
 interface ChordSlotProps {
@@ -28,11 +28,19 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
         isPlaying: isGloballyPlaying,
         clearSlot,
         // openVoicingPicker,
-        resizeSlot
+        resizeSlot,
+        fillSlotsWithChords,
+        selectNextSlotAfter,
+        autoAdvance
     } = useSongStore();
     const colors = getWheelColors();
     const resolvedWidth = width ?? size;
 
+    // Inline chord text entry (double-click a slot to type, e.g. "Am7" or "C/E")
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [draftInvalid, setDraftInvalid] = useState(false);
+
     // Track mouse movement to distinguish clicks from drags
     const mouseStartPos = useRef<{ x: number; y: number; time: number } | null>(null);
 
@@ -137,7 +145,7 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
         }
 
         // Play chord preview
-        playChord(slot.chord.notes);
+        playChord(getChordPlaybackNotes(slot.chord));
 
         // Open voicing picker
         // User requested: "allow the VoicingQuickPicker to be opened on mobile with the chord details pane open if the user taps a chord on the timeline"
@@ -213,6 +221,46 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
         });
     };
 
+    const startEditing = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setDraft(slot.chord?.symbol ?? '');
+        setDraftInvalid(false);
+        setIsEditing(true);
+    };
+
+    // Commit typed text: several chords fill this slot and the ones after it
+    const commitDraft = () => {
+        const text = draft.trim();
+        if (!text) {
+            clearSlot(sectionId, slot.id);
+            setIsEditing(false);
+            return;
+        }
+
+        const { chords, invalid } = parseChordList(text);
+        if (invalid.length > 0 || chords.length === 0) {
+            setDraftInvalid(true);
+            return;
+        }
+
+        fillSlotsWithChords(sectionId, slot.id, chords);
+        setIsEditing(false);
+        if (autoAdvance && chords.length === 1) {
+            selectNextSlotAfter(sectionId, slot.id);
+        }
+    };
+
+    const handleDraftKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commitDraft();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setIsEditing(false);
+        }
+    };
+
     // Handle delete badge click - remove chord from slot
     const handleDeleteClick = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -289,6 +337,7 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
             data-section-id={sectionId}
             onMouseDown={handleMouseDown}
             onClick={handleSlotClick}
+            onDoubleClick={startEditing}
             style={{ width: resolvedWidth, height: size }}
             className={clsx(
                 "rounded-md flex items-center justify-center transition-all relative flex-shrink-0 group select-none",
@@ -299,6 +348,30 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
                 isPlayingThisSlot ? "ring-2 ring-green-500 ring-offset-1 ring-offset-bg-primary shadow-[0_0_12px_rgba(34,197,94,0.5)] scale-105 z-10" : ""
             )}
         >
+            {isEditing && (
+                <input
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        setDraftInvalid(false);
+                    }}
+                    onKeyDown={handleDraftKeyDown}
+                    onBlur={() => setIsEditing(false)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={(e) => e.stopPropagation()}
+                    onFocus={(e) => e.target.select()}
+                    placeholder="Am7"
+                    title="Type a chord (or several, separated by spaces) and press Enter"
+                    className={clsx(
+                        "absolute inset-0 z-40 w-full h-full rounded-md bg-bg-elevated text-text-primary text-center font-bold focus:outline-none border-2",
+                        draftInvalid ? "border-red-400" : "border-accent-primary"
+                    )}
+                    style={{ fontSize }}
+                />
+            )}
+
             {!slot.chord && (
                 <span className="text-text-muted font-light select-none" style={{ fontSize: fontSize + 4 }}>+</span>
             )}
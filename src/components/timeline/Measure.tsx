@@ -1,45 +1,59 @@
 import React from 'react';
+import clsx from 'clsx';
 import type { Measure as IMeasure } from '../../types';
 import { ChordSlot } from './ChordSlot';
 import { useSongStore } from '../../store/useSongStore';
+import { beatsFromSignature } from '../../utils/selectionUtils';
+import { TIME_SIGNATURE_OPTIONS, formatTimeSignature, getMeasureSignature, isSameTimeSignature, parseTimeSignature } from '../../utils/meter';
+import { getStepOptions } from './NoteValueSelector';
 
 interface MeasureProps {
     measure: IMeasure;
     sectionId: string;
     index: number;
     chordSize?: number;
-    timeSignature: [number, number];
+    timeSignature: [number, number]; // The section's; the bar may override it
     scale?: number;
+    endingStart?: boolean; // First bar of a volta bracket, which carries the number
+    onRequestConfirm: (options: { title: string; message: string; onConfirm: () => void; isDestructive?: boolean; confirmLabel?: string }) => void;
 }
 
-const beatsFromSignature = (signature: [number, number]) => {
-    const [top, bottom] = signature;
-    return top * (4 / bottom);
-};
+// Cycles for the repeat controls: off, then each value in turn
+const REPEAT_END_CYCLE = [undefined, 2, 3, 4];
+const ENDING_CYCLE = [undefined, 1, 2, 3];
+const nextInCycle = (cycle: (number | undefined)[], value: number | undefined) =>
+    cycle[(cycle.indexOf(value) + 1) % cycle.length];
 
-export const Measure: React.FC<MeasureProps> = ({ measure, sectionId, index, chordSize = 48, timeSignature, scale = 1 }) => {
-    const { setMeasureSubdivision } = useSongStore();
+export const Measure: React.FC<MeasureProps> = ({ measure, sectionId, index, chordSize = 48, timeSignature, scale = 1, endingStart = false, onRequestConfirm }) => {
+    const { setMeasureSubdivision, setMeasureRepeat, setMeasureTimeSignature } = useSongStore();
     const horizontalScale = Math.max(0.1, Math.min(1.6, scale));
-    const totalBeats = beatsFromSignature(timeSignature);
+    const barSignature = getMeasureSignature(measure, timeSignature);
+    const totalBeats = beatsFromSignature(barSignature);
     const stepCount = measure.beats.length;
     const baseUnitWidth = chordSize * 0.9;
     const beatUnitWidth = Math.max(8, baseUnitWidth * horizontalScale);
-    // Calculate logical step options based on time signature numerator
-    // Max 8 steps per measure for usability
-    const [numerator] = timeSignature;
-    const getStepsOptions = (num: number): number[] => {
-        // Always include: 1 (single chord for whole measure), natural beat count, and subdivisions
-        const options: number[] = [1, num];
+    // Whole bar, one step per pulse and finer splits (max 8 steps per measure for usability)
+    const stepsOptions = getStepOptions(barSignature);
+    const meterOptions = TIME_SIGNATURE_OPTIONS.filter(option => !isSameTimeSignature(option, timeSignature));
+
+    // The bar is rebuilt as one slot in its new meter, so only its first chord survives
+    const handleMeterChange = (value: string) => {
+        const signature = parseTimeSignature(value);
+        const dropsChords = measure.beats.slice(1).some(beat => Boolean(beat.chord));
 
-        // Add eighths (2x the beat count) if within limit
-        if (num * 2 <= 8) {
-            options.push(num * 2);
+        if (dropsChords) {
+            onRequestConfirm({
+                title: 'Change Bar Time Signature',
+                message: 'Changing the time signature of this bar keeps only its first chord. Continue?',
+                confirmLabel: 'Change',
+                isDestructive: true,
+                onConfirm: () => setMeasureTimeSignature(sectionId, measure.id, signature)
+            });
+            return;
         }
 
-        // Remove duplicates, sort, and cap at 8
-        return [...new Set(options)].filter(n => n <= 8).sort((a, b) => a - b);
+        setMeasureTimeSignature(sectionId, measure.id, signature);
     };
-    const stepsOptions = getStepsOptions(numerator);
 
     const handleStepsChange = (value: number) => {
         if (!Number.isFinite(value)) return;
@@ -48,9 +62,42 @@ export const Measure: React.FC<MeasureProps> = ({ measure, sectionId, index, cho
 
     return (
         <div
-            className="flex flex-col border-r-2 border-border-medium last:border-r-0 pl-1 pr-2 min-w-[64px]"
+            className={clsx(
+                "group relative flex flex-col border-r-2 border-border-medium last:border-r-0 min-w-[64px]",
+                measure.repeatStart ? "pl-3" : "pl-1",
+                measure.repeatEnd ? "pr-4" : "pr-2"
+            )}
             style={{ minWidth: beatUnitWidth * Math.max(1, totalBeats) + 8 }}
         >
+            {/* Volta bracket */}
+            {measure.ending && (
+                <div
+                    className={clsx(
+                        "absolute -top-2.5 left-0 right-0 h-2 border-t border-text-secondary/70 pointer-events-none",
+                        endingStart && "border-l"
+                    )}
+                >
+                    {endingStart && (
+                        <span className="absolute left-1 -top-px text-[8px] font-bold leading-none text-text-secondary">
+                            {measure.ending}.
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {/* Repeat barlines */}
+            {measure.repeatStart && (
+                <span className="absolute left-0.5 top-1/2 text-xs font-bold leading-none text-text-secondary pointer-events-none">
+                    ‖:
+                </span>
+            )}
+            {measure.repeatEnd && (
+                <span className="absolute right-0.5 top-1/2 flex flex-col items-end text-xs font-bold leading-none text-text-secondary pointer-events-none">
+                    :‖
+                    {measure.repeatEnd > 2 && <span className="text-[8px] font-semibold">×{measure.repeatEnd}</span>}
+                </span>
+            )}
+
             {/* Bar number + Step selector - compact inline */}
             <div className="flex items-center justify-center gap-1 mb-0.5">
                 <span className="text-[8px] text-text-muted font-mono">
@@ -73,6 +120,63 @@ export const Measure: React.FC<MeasureProps> = ({ measure, sectionId, index, cho
                         </option>
                     )}
                 </select>
+
+                {/* Bar meter - shown on hover unless the bar has its own */}
+                <select
+                    value={measure.timeSignature ? formatTimeSignature(measure.timeSignature) : ''}
+                    onChange={(e) => handleMeterChange(e.target.value)}
+                    className={clsx(
+                        "bg-bg-tertiary/50 text-[8px] rounded px-0.5 border border-border-subtle/50 focus:outline-none cursor-pointer hover:text-text-primary transition-opacity",
+                        measure.timeSignature ? "text-accent-primary font-bold" : "text-text-muted opacity-0 group-hover:opacity-100"
+                    )}
+                    title="Time signature of this bar"
+                >
+                    <option value="" className="bg-bg-secondary text-text-primary">
+                        {formatTimeSignature(timeSignature)}
+                    </option>
+                    {meterOptions.map((option) => (
+                        <option key={formatTimeSignature(option)} value={formatTimeSignature(option)} className="bg-bg-secondary text-text-primary">
+                            {formatTimeSignature(option)}
+                        </option>
+                    ))}
+                    {measure.timeSignature && !meterOptions.some(option => isSameTimeSignature(option, measure.timeSignature)) && (
+                        <option value={formatTimeSignature(measure.timeSignature)} className="bg-bg-secondary text-text-primary">
+                            {formatTimeSignature(measure.timeSignature)}
+                        </option>
+                    )}
+                </select>
+
+                {/* Repeat controls - shown on hover unless set */}
+                <button
+                    onClick={() => setMeasureRepeat(sectionId, measure.id, { repeatStart: !measure.repeatStart })}
+                    className={clsx(
+                        "text-[8px] font-bold leading-none px-0.5 rounded hover:bg-bg-tertiary transition-opacity",
+                        measure.repeatStart ? "text-accent-primary" : "text-text-muted opacity-0 group-hover:opacity-100"
+                    )}
+                    title="Start repeat"
+                >
+                    ‖:
+                </button>
+                <button
+                    onClick={() => setMeasureRepeat(sectionId, measure.id, { repeatEnd: nextInCycle(REPEAT_END_CYCLE, measure.repeatEnd) })}
+                    className={clsx(
+                        "text-[8px] font-bold leading-none px-0.5 rounded hover:bg-bg-tertiary transition-opacity",
+                        measure.repeatEnd ? "text-accent-primary" : "text-text-muted opacity-0 group-hover:opacity-100"
+                    )}
+                    title="End repeat (click again to play the passage more times)"
+                >
+                    :‖{measure.repeatEnd && measure.repeatEnd > 2 ? `×${measure.repeatEnd}` : ''}
+                </button>
+                <button
+                    onClick={() => setMeasureRepeat(sectionId, measure.id, { ending: nextInCycle(ENDING_CYCLE, measure.ending) })}
+                    className={clsx(
+                        "text-[8px] font-bold leading-none px-0.5 rounded hover:bg-bg-tertiary transition-opacity",
+                        measure.ending ? "text-accent-primary" : "text-text-muted opacity-0 group-hover:opacity-100"
+                    )}
+                    title="Ending: play this bar only on the given pass through the repeat"
+                >
+                    {measure.ending ? `${measure.ending}.` : '1./2.'}
+                </button>
             </div>
             {/* Chord slots */}
             <div className="flex gap-0.5 flex-1 mr-1">
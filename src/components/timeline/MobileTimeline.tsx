@@ -6,6 +6,8 @@ import { useMobileLayout } from '../../hooks/useIsMobile';
 import { NoteValueSelector } from './NoteValueSelector';
 import { getSectionDisplayName, type Section } from '../../types';
 import { ChordSlot } from './ChordSlot';
+import { isEndingStart } from '../../utils/repeats';
+import { formatTimeSignature, getMeasureSignature } from '../../utils/meter';
 import clsx from 'clsx';
 import { DndContext, DragOverlay, MeasuringStrategy, closestCenter, type Modifier } from '@dnd-kit/core';
 import { SortableContext, horizontalListSortingStrategy } from '@dnd-kit/sortable';
@@ -673,6 +675,11 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                         <span className="text-[10px] font-bold text-text-primary uppercase tracking-wider opacity-90">
                                             {getSectionDisplayName(section, currentSong.sections)}
                                         </span>
+                                        {(section.repeats ?? 1) > 1 && (
+                                            <span className="text-[10px] font-semibold text-text-muted" title={`Played ${section.repeats} times`}>
+                                                ×{section.repeats}
+                                            </span>
+                                        )}
                                     </div>
                                 )}
 
@@ -704,16 +711,27 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                                     "flex flex-col items-center justify-center shrink-0",
                                                     isLandscape ? "gap-0 w-4" : isDesktop ? "gap-0 w-6" : "gap-0 w-5"
                                                 )}>
+                                                    {isEndingStart(section.measures, measureIdx) && (
+                                                        <span className="text-[7px] font-bold leading-none text-text-secondary border-l border-t border-text-secondary/70 px-0.5" title={`Ending ${measure.ending}`}>
+                                                            {measure.ending}.
+                                                        </span>
+                                                    )}
                                                     <span className={clsx(
                                                         "font-mono text-text-muted text-center leading-none",
                                                         isDesktop ? "text-[9px]" : (isLandscape ? "text-[7px]" : "text-[8px]")
                                                     )}>
+                                                        {measure.repeatStart && <span className="font-bold text-text-secondary" title="Start repeat">‖:</span>}
                                                         {measureIdx + 1}
                                                     </span>
+                                                    {measure.timeSignature && (
+                                                        <span className="text-[7px] font-bold leading-none text-accent-primary" title="Time signature of this bar">
+                                                            {formatTimeSignature(measure.timeSignature)}
+                                                        </span>
+                                                    )}
                                                     <NoteValueSelector
                                                         value={measure.beats.length}
                                                         onChange={(newValue) => setMeasureSubdivision(section.id, measure.id, newValue)}
-                                                        timeSignature={section.timeSignature || [4, 4]}
+                                                        timeSignature={getMeasureSignature(measure, section.timeSignature || songTimeSignature)}
                                                         isCompact={isLandscape}
                                                     />
                                                 </div>
@@ -768,6 +786,17 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                                         );
                                                     })}
                                                 </div>
+
+                                                {/* End repeat */}
+                                                {measure.repeatEnd && (
+                                                    <span
+                                                        className="flex flex-col items-center shrink-0 text-[10px] font-bold leading-none text-text-secondary"
+                                                        title={`Repeat: play ${measure.repeatEnd} times`}
+                                                    >
+                                                        :‖
+                                                        {measure.repeatEnd > 2 && <span className="text-[7px]">×{measure.repeatEnd}</span>}
+                                                    </span>
+                                                )}
                                             </div>
 
                                             {!isCompact && !isLandscape && measureIdx < section.measures.length - 1 && (
@@ -842,9 +871,9 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                 onNameChange={(name, type) => {
                                     if (editingSectionId) updateSection(editingSectionId, { name, type });
                                 }}
-                                onCopy={() => {
+                                onCopy={(options) => {
                                     if (editingSectionId) {
-                                        duplicateSection(editingSectionId);
+                                        duplicateSection(editingSectionId, options);
 
                                         // Auto switch to the new section (next one)
                                         setTimeout(() => {
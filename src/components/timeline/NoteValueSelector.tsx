@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import clsx from 'clsx';
+import { getPulseBeats, getSubdivisionDurations, isCompoundMeter } from '../../utils/meter';
 
 interface NoteValueSelectorProps {
     value: number;
@@ -85,59 +86,50 @@ export const NoteIcon: React.FC<{ type: 'whole' | 'half' | 'quarter' | 'eighth'
     }
 };
 
+type NoteType = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth' | 'dotted-half' | 'dotted-quarter';
+
+// Note values by length in beats (quarter notes)
+const NOTE_LENGTHS: Array<[number, NoteType]> = [
+    [4, 'whole'],
+    [3, 'dotted-half'],
+    [2, 'half'],
+    [1.5, 'dotted-quarter'],
+    [1, 'quarter'],
+    [0.5, 'eighth'],
+    [0.25, 'sixteenth'],
+];
+
 /**
  * Get the note type based on steps per measure and time signature
+ * (the note nearest the first step's length, e.g. dotted quarters for 2 steps of 6/8)
  */
-export function getNoteType(steps: number, timeSignature: [number, number]): 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth' | 'dotted-half' | 'dotted-quarter' {
-    const [numerator] = timeSignature;
-
-    // For compound meters (like 6/8, 9/8, 12/8)
-    if (numerator % 3 === 0 && numerator > 3) {
-        // e.g., 6/8: 1 step = dotted half (whole measure), 2 = dotted quarter, 6 = eighth
-        if (steps === 1) return 'dotted-half';
-        if (steps === 2) return 'dotted-quarter';
-        if (steps === 3) return 'quarter';
-        if (steps === 6) return 'eighth';
-        if (steps === 12) return 'sixteenth';
-    }
-
-    // For triple meters (3/4, 3/8)
-    if (numerator === 3) {
-        if (steps === 1) return 'dotted-half';
-        if (steps === 3) return 'quarter';
-        if (steps === 6) return 'eighth';
-        if (steps === 12) return 'sixteenth';
-    }
-
-    // For duple/quadruple meters (2/4, 4/4, etc.)
-    if (steps === 1) return 'whole';
-    if (steps === 2) return 'half';
-    if (steps === 4) return 'quarter';
-    if (steps === 8) return 'eighth';
-    if (steps === 16) return 'sixteenth';
-
-    // Fallback based on relative divisions
-    if (steps <= 1) return 'whole';
-    if (steps <= 2) return 'half';
-    if (steps <= 4) return 'quarter';
-    if (steps <= 8) return 'eighth';
-    return 'sixteenth';
+export function getNoteType(steps: number, timeSignature: [number, number]): NoteType {
+    const [length] = getSubdivisionDurations(timeSignature, Math.max(1, steps));
+    return NOTE_LENGTHS.reduce((nearest, candidate) =>
+        Math.abs(candidate[0] - length) < Math.abs(nearest[0] - length) ? candidate : nearest
+    )[1];
 }
 
 /**
- * Get available step options based on time signature
- * Maximum 8 steps per measure for usability
+ * Get available step options based on time signature: the whole bar, one
+ * step per pulse (dotted quarters in compound meters, 2+2+3 in 7/8) and finer
+ * splits. Maximum 8 steps per measure for usability
  */
 export function getStepOptions(timeSignature: [number, number]): number[] {
     const [numerator] = timeSignature;
-
-    if (numerator % 3 === 0) {
-        // Triple/compound meters - max 6 for usability
-        return [1, 3, 6].filter(s => s <= 8);
+    const pulses = getPulseBeats(timeSignature).length;
+    const options = [1, pulses, numerator];
+
+    if (isCompoundMeter(timeSignature)) {
+        // Half bars of 12/8
+        if (pulses % 2 === 0) options.push(pulses / 2);
+    } else if (pulses === numerator) {
+        // Half bars and eighths of simple meters
+        if (numerator % 2 === 0) options.push(numerator / 2);
+        options.push(numerator * 2);
     }
 
-    // Duple/quadruple meters - max 8
-    return [1, 2, 4, 8];
+    return [...new Set(options)].filter(s => s <= 8).sort((a, b) => a - b);
 }
 
 export const NoteValueSelector: React.FC<NoteValueSelectorProps> = ({
@@ -1,6 +1,10 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { getSectionDisplayName, type Section as ISection } from '../../types';
 import { Measure } from './Measure';
+import { parseChordList } from '../../utils/musicTheory';
+import { MAX_REPEAT_COUNT, isEndingStart } from '../../utils/repeats';
+import { getTempoMarking } from '../../utils/tempoMap';
+import { TIME_SIGNATURE_OPTIONS, formatTimeSignature, parseTimeSignature } from '../../utils/meter';
 import { useSongStore } from '../../store/useSongStore';
 import { Trash2, Copy, GripVertical, ChevronUp, ChevronDown, Plus, Minus } from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
@@ -19,14 +23,20 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
         removeSection,
         duplicateSection,
         selectedSectionId,
+        selectedSlotId,
         setSelectedSlot,
+        fillSlotsWithChords,
         setSectionMeasures,
         setSectionTimeSignature,
+        setSectionRepeats,
         currentSong,
         collapsedSections,
         toggleSectionCollapsed
     } = useSongStore();
 
+    const [chordText, setChordText] = useState('');
+    const [chordTextInvalid, setChordTextInvalid] = useState(false);
+
     const measuresScrollRef = useRef<HTMLDivElement>(null);
     const prevMeasuresLengthRef = useRef<number>(section.measures.length);
 
@@ -47,6 +57,7 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
 
     // Get the dynamic display name based on section type and position
     const displayName = getSectionDisplayName(section, currentSong.sections);
+    const tempoMarking = getTempoMarking(section, currentSong.tempo);
 
     const {
         attributes,
@@ -88,8 +99,8 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
     };
 
     const handleTimeSignatureChange = (value: string) => {
-        const [top, bottom] = value.split('/').map((n) => parseInt(n, 10));
-        if (!top || !bottom) return;
+        const signature = parseTimeSignature(value);
+        if (!signature) return;
 
         const hasChords = section.measures.some((measure) =>
             measure.beats.some((beat) => Boolean(beat.chord))
@@ -101,22 +112,31 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
                 message: 'Changing the time signature will clear chords in this section. Continue?',
                 confirmLabel: 'Change',
                 isDestructive: true,
-                onConfirm: () => setSectionTimeSignature(section.id, [top, bottom])
+                onConfirm: () => setSectionTimeSignature(section.id, signature)
             });
             return;
         }
 
-        setSectionTimeSignature(section.id, [top, bottom]);
+        setSectionTimeSignature(section.id, signature);
     };
 
-    const signatureValue = `${sectionTimeSignature[0]}/${sectionTimeSignature[1]}`;
-    const timeSignatureOptions: Array<[number, number]> = [
-        [4, 4],
-        [3, 4],
-        [5, 4],
-        [2, 4],
-        [6, 8],
-    ];
+    // Typed chords fill the section from the selected slot (or the first slot)
+    const handleChordTextSubmit = () => {
+        const { chords, invalid } = parseChordList(chordText);
+        if (invalid.length > 0) {
+            setChordTextInvalid(true);
+            return;
+        }
+        if (chords.length === 0) return;
+
+        // Chords past the 32-bar limit stay in the box, marked as not entered
+        const startSlotId = selectedSectionId === section.id ? selectedSlotId : null;
+        const leftover = fillSlotsWithChords(section.id, startSlotId, chords);
+        setChordText(chords.slice(chords.length - leftover).map(chord => chord?.symbol ?? '-').join(' '));
+        setChordTextInvalid(leftover > 0);
+    };
+
+    const signatureValue = formatTimeSignature(sectionTimeSignature);
 
     return (
         <div
@@ -207,15 +227,82 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
                                 compactHeader ? "text-[8px]" : "text-xs"
                             )}
                         >
-                            {timeSignatureOptions.map(([top, bottom]) => (
+                            {TIME_SIGNATURE_OPTIONS.map(([top, bottom]) => (
                                 <option key={`${top}/${bottom}`} value={`${top}/${bottom}`} className="bg-bg-secondary text-text-primary">
                                     {top}/{bottom}
                                 </option>
                             ))}
                         </select>
                     </div>
+
+                    <div
+                        className={clsx(
+                            "flex items-center text-text-muted bg-bg-tertiary/70 border border-border-subtle rounded",
+                            compactHeader ? "gap-0 text-[8px] px-0.5 py-0" : "gap-0.5 text-[10px] px-1 py-0.5"
+                        )}
+                        onClick={(e) => e.stopPropagation()}
+                        title="Times the whole section is played"
+                    >
+                        <span className={clsx("font-semibold", !compactHeader && "text-[8px]")}>×</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_REPEAT_COUNT}
+                            value={section.repeats ?? 1}
+                            onChange={(e) => {
+                                const count = parseInt(e.target.value, 10);
+                                if (Number.isFinite(count)) setSectionRepeats(section.id, count);
+                            }}
+                            className={clsx(
+                                "bg-transparent text-text-primary focus:outline-none text-center",
+                                compactHeader ? "w-4 text-[8px]" : "w-6 text-xs"
+                            )}
+                        />
+                    </div>
+
+                    {tempoMarking && (
+                        <span
+                            className={clsx(
+                                "text-amber-300/80 font-semibold whitespace-nowrap",
+                                compactHeader ? "text-[8px]" : "text-[10px]"
+                            )}
+                            title="Section tempo (set in section options)"
+                        >
+                            {tempoMarking}
+                        </span>
+                    )}
                 </div>
 
+                {/* Quick chord entry */}
+                {!compactHeader && !isCollapsed && (
+                    <input
+                        type="text"
+                        value={chordText}
+                        onChange={(e) => {
+                            setChordText(e.target.value);
+                            setChordTextInvalid(false);
+                        }}
+                        onKeyDown={(e) => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                handleChordTextSubmit();
+                            } else if (e.key === 'Escape') {
+                                setChordText('');
+                                setChordTextInvalid(false);
+                            }
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        placeholder="Type chords…"
+                        title="Type chords separated by spaces (e.g. Am7 D7 | Gmaj7 %) and press Enter. Fills from the selected slot, adding bars as needed."
+                        className={clsx(
+                            "flex-1 min-w-[90px] max-w-[220px] bg-bg-tertiary/70 border rounded px-1.5 py-0.5 text-xs text-text-primary placeholder:text-text-muted focus:outline-none",
+                            chordTextInvalid ? "border-red-400" : "border-border-subtle focus:border-accent-primary"
+                        )}
+                    />
+                )}
+
                 {/* Icons - always visible in all views */}
                 <div className="flex items-center gap-1">
                     <button
@@ -280,6 +367,8 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
                             chordSize={chordSize}
                             timeSignature={sectionTimeSignature}
                             scale={scale}
+                            endingStart={isEndingStart(section.measures, idx)}
+                            onRequestConfirm={onRequestConfirm}
                         />
                     ))}
 
@@ -1,11 +1,18 @@
 import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Copy, Eraser, Trash2, X, ArrowLeft, ArrowRight, Map, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Copy, Eraser, Trash2, X, ArrowLeft, ArrowRight, Map, ChevronLeft, ChevronRight, Play, Square, Plus, Link2, Unlink2 } from 'lucide-react';
 import clsx from 'clsx';
-import type { Section } from '../../types';
+import { getSectionKey, type Section } from '../../types';
+import { CIRCLE_OF_FIFTHS, formatChordForDisplay } from '../../utils/musicTheory';
+import { findModulationRoutes, getTonicChord, type ModulationRoute } from '../../utils/modulationPaths';
+import { HARMONY_TRANSFORMS, getSectionChords, transformChords, type HarmonyTransformKind } from '../../utils/harmonyTransforms';
+import { playChordSequence, stopProgression } from '../../utils/progressionPlayback';
 import { NoteIcon, getNoteType, getStepOptions } from './NoteValueSelector';
 import { SectionOverview } from './SectionOverview';
 import { SongTimeline } from './SongTimeline';
+import { beatsFromSignature } from '../../utils/selectionUtils';
+import { getLinkedSections } from '../../utils/sectionLinks';
+import { MAX_TEMPO, MIN_TEMPO, getSectionTempo } from '../../utils/tempoMap';
 import { useSongStore } from '../../store/useSongStore';
 import { useMobileLayout } from '../../hooks/useIsMobile';
 import DraggableModal from '../ui/DraggableModal';
@@ -18,7 +25,7 @@ interface SectionOptionsPopupProps {
     onBarsChange: (value: number) => void;
     onStepCountChange?: (steps: number) => void;
     onNameChange?: (name: string, type: Section['type']) => void;
-    onCopy: () => void;
+    onCopy: (options?: { linked?: boolean }) => void; // linked: the copy shares chords with this section
     onClear: () => void;
     onDelete: () => void;
     songTimeSignature: [number, number];
@@ -60,6 +67,13 @@ const SECTION_NAME_OPTIONS: { name: string; type: Section['type'] }[] = [
     { name: 'Outro', type: 'outro' },
 ];
 
+// Slot length for an inserted transform: the section's first chord slot,
+// as long as it divides the song's bar (or spans whole bars)
+const getTransformBeatsPerChord = (section: Section, beatsPerBar: number): number => {
+    const duration = section.measures.flatMap(measure => measure.beats).find(beat => beat.chord)?.duration ?? beatsPerBar;
+    return beatsPerBar % duration === 0 || duration % beatsPerBar === 0 ? duration : beatsPerBar;
+};
+
 export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
     section,
     isOpen,
@@ -84,11 +98,106 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
     onNavigateToSection,
 }) => {
     const popupRef = useRef<HTMLDivElement>(null);
-    const { currentSong, reorderSections, addSuggestedSection, toggleSongMap, bringToFront, modalStack } = useSongStore();
+    const { currentSong, reorderSections, addSuggestedSection, toggleSongMap, bringToFront, modalStack, setSectionKey, modulateSection, addCustomSection, selectedSlots, unlinkSection, setSectionTempo, setWheelPreview } = useSongStore();
     const { isMobile, isLandscape } = useMobileLayout();
     const sectionTimeSignature = section.timeSignature || songTimeSignature;
     const signatureValue = `${sectionTimeSignature[0]}/${sectionTimeSignature[1]}`;
     const measureCount = section.measures.length;
+    const sectionKey = getSectionKey(section, currentSong.key);
+    const [modulateBy, setModulateBy] = useState(1);
+    const [auditioningRouteId, setAuditioningRouteId] = useState<string | null>(null);
+    const [hoveredTransform, setHoveredTransform] = useState<HarmonyTransformKind | null>(null);
+    const linkedSections = getLinkedSections(currentSong.sections, section);
+    const sectionTempo = getSectionTempo(section, currentSong.tempo);
+
+    // Tempo inputs commit on blur; empty clears back to the song tempo (or a steady tempo)
+    const commitTempo = (field: 'tempo' | 'tempoRampTo', value: string) => {
+        const bpm = parseInt(value, 10);
+        if (value.trim() === '') {
+            if (section[field] !== undefined) setSectionTempo(section.id, { [field]: null });
+        } else if (Number.isFinite(bpm) && bpm !== section[field]) {
+            setSectionTempo(section.id, { [field]: bpm });
+        }
+    };
+
+    // Transition routes from this section's key into the next section's key
+    const nextSection = currentSong.sections[currentSong.sections.findIndex(s => s.id === section.id) + 1];
+    const nextSectionKey = nextSection ? getSectionKey(nextSection, currentSong.key) : null;
+    const transitionRoutes = useMemo(
+        () => nextSectionKey ? findModulationRoutes(sectionKey, nextSectionKey).slice(0, 6) : [],
+        [sectionKey, nextSectionKey]
+    );
+
+    const handleAuditionRoute = async (route: ModulationRoute) => {
+        if (auditioningRouteId === route.id) {
+            stopProgression();
+            setAuditioningRouteId(null);
+            return;
+        }
+        if (!nextSectionKey) return;
+        setAuditioningRouteId(route.id);
+        try {
+            // Resolve into the new tonic so the modulation is heard
+            await playChordSequence([...route.chords, getTonicChord(nextSectionKey)], currentSong.tempo, 4);
+        } finally {
+            setAuditioningRouteId(current => current === route.id ? null : current);
+        }
+    };
+
+    // Transforms of the selected chords in this section, or the whole section
+    const sourceChords = useMemo(() => getSectionChords(section, selectedSlots), [section, selectedSlots]);
+    const transformsFromSelection = sourceChords.length > 0 && selectedSlots.some(slot => slot.sectionId === section.id);
+    const transforms = useMemo(
+        () => HARMONY_TRANSFORMS.map(option => ({ ...option, chords: transformChords(sourceChords, option.kind, sectionKey) })),
+        [sourceChords, sectionKey]
+    );
+
+    // Transformed chords are outlined on the wheel while hovered or playing
+    const auditioningTransform = transforms.find(transform => auditioningRouteId === `transform-${transform.kind}`);
+    const previewTransform = auditioningTransform ?? transforms.find(transform => transform.kind === hoveredTransform);
+
+    useEffect(() => {
+        if (!isOpen || !previewTransform) return;
+        setWheelPreview({ chords: previewTransform.chords, label: previewTransform.label });
+        return () => setWheelPreview(null);
+    }, [isOpen, previewTransform, setWheelPreview]);
+
+    const handleAuditionTransform = async (kind: HarmonyTransformKind, chords: typeof sourceChords) => {
+        const id = `transform-${kind}`;
+        if (auditioningRouteId === id) {
+            stopProgression();
+            setAuditioningRouteId(null);
+            return;
+        }
+        setAuditioningRouteId(id);
+        try {
+            await playChordSequence(chords, currentSong.tempo, 2);
+        } finally {
+            setAuditioningRouteId(current => current === id ? null : current);
+        }
+    };
+
+    const handleInsertTransform = (label: string, chords: typeof sourceChords) => {
+        stopProgression();
+        setAuditioningRouteId(null);
+        setHoveredTransform(null);
+        addCustomSection(`${section.name} (${label})`, section.type, chords, {
+            beatsPerChord: getTransformBeatsPerChord(section, beatsFromSignature(songTimeSignature)),
+            insertAfterId: section.id,
+            key: section.key
+        });
+    };
+
+    const handleInsertRoute = (route: ModulationRoute) => {
+        if (!nextSectionKey) return;
+        stopProgression();
+        setAuditioningRouteId(null);
+        addCustomSection('Transition', 'interlude', route.chords, {
+            beatsPerChord: 4,
+            insertAfterId: section.id,
+            key: nextSectionKey
+        });
+    };
 
     const MODAL_ID = 'section-options';
     const stackIndex = modalStack.indexOf(MODAL_ID);
@@ -271,6 +380,8 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
                         <SongTimeline
                             sections={currentSong.sections}
                             activeSectionId={section.id}
+                            songKey={currentSong.key}
+                            songTempo={currentSong.tempo}
                             onReorder={(newSections) => {
                                 reorderSections(newSections);
                             }}
@@ -360,6 +471,202 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
                                 </div>
                             </div>
 
+                            {/* Key & Modulation */}
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                    Key
+                                </label>
+                                <div className="flex items-center gap-1">
+                                    <select
+                                        value={section.key ?? ''}
+                                        onChange={(e) => setSectionKey(section.id, e.target.value || null)}
+                                        className="flex-1 min-w-0 h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg
+                                            px-2 border border-border-subtle
+                                            focus:outline-none focus:ring-1 focus:ring-accent-primary/50 cursor-pointer"
+                                        title="Key of this section (chords are not moved)"
+                                    >
+                                        <option value="" className="bg-bg-secondary">
+                                            Song ({formatChordForDisplay(currentSong.key)})
+                                        </option>
+                                        {CIRCLE_OF_FIFTHS.filter(key => key !== currentSong.key).map(key => (
+                                            <option key={key} value={key} className="bg-bg-secondary">
+                                                {formatChordForDisplay(key)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => setModulateBy(n => Math.max(-11, n - 1 || -1))}
+                                        className="h-8 w-7 flex items-center justify-center rounded-lg
+                                            bg-bg-tertiary border border-border-subtle
+                                            text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                            transition-all text-sm font-bold active:scale-95"
+                                    >
+                                        −
+                                    </button>
+                                    <span className="w-7 text-center text-xs font-bold text-text-primary tabular-nums">
+                                        {modulateBy > 0 ? `+${modulateBy}` : modulateBy}
+                                    </span>
+                                    <button
+                                        onClick={() => setModulateBy(n => Math.min(11, n + 1 || 1))}
+                                        className="h-8 w-7 flex items-center justify-center rounded-lg
+                                            bg-bg-tertiary border border-border-subtle
+                                            text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                            transition-all text-sm font-bold active:scale-95"
+                                    >
+                                        +
+                                    </button>
+                                    <button
+                                        onClick={() => modulateSection(section.id, modulateBy)}
+                                        className="h-8 px-2 rounded-lg text-[10px] font-bold
+                                            bg-accent-primary/10 border border-accent-primary/30 text-accent-primary
+                                            hover:bg-accent-primary/20 transition-all active:scale-95"
+                                        title={`Move this section's chords and key from ${sectionKey} by ${modulateBy} semitone${Math.abs(modulateBy) === 1 ? '' : 's'}`}
+                                    >
+                                        Modulate
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Tempo & Ramp */}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                        Tempo
+                                    </label>
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            key={`tempo-${section.id}-${section.tempo ?? ''}`}
+                                            type="number"
+                                            min={MIN_TEMPO}
+                                            max={MAX_TEMPO}
+                                            defaultValue={section.tempo ?? ''}
+                                            placeholder={`${currentSong.tempo}`}
+                                            onBlur={(e) => commitTempo('tempo', e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                            className="flex-1 min-w-0 h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg
+                                                px-2 border border-border-subtle placeholder:text-text-muted
+                                                focus:outline-none focus:ring-1 focus:ring-accent-primary/50"
+                                            title="Tempo of this section in BPM (empty = song tempo)"
+                                        />
+                                        <button
+                                            onClick={() => setSectionTempo(section.id, { tempo: Math.round(sectionTempo.start / 2) })}
+                                            disabled={sectionTempo.start / 2 < MIN_TEMPO}
+                                            className="h-8 px-2 rounded-lg text-[10px] font-bold
+                                                bg-bg-tertiary border border-border-subtle
+                                                text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                                disabled:opacity-30 disabled:cursor-not-allowed
+                                                transition-all active:scale-95"
+                                            title="Half time"
+                                        >
+                                            ½
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                        Ramp To
+                                    </label>
+                                    <input
+                                        key={`ramp-${section.id}-${section.tempoRampTo ?? ''}`}
+                                        type="number"
+                                        min={MIN_TEMPO}
+                                        max={MAX_TEMPO}
+                                        defaultValue={section.tempoRampTo ?? ''}
+                                        placeholder="Steady"
+                                        onBlur={(e) => commitTempo('tempoRampTo', e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                        className="w-full h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg
+                                            px-2 border border-border-subtle placeholder:text-text-muted
+                                            focus:outline-none focus:ring-1 focus:ring-accent-primary/50"
+                                        title="Tempo reached by the end of the section: lower for a ritardando, higher for an accelerando (empty = steady)"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Transition into the next section's key */}
+                            {nextSectionKey && transitionRoutes.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                        Transition {formatChordForDisplay(sectionKey)} → {formatChordForDisplay(nextSectionKey)}
+                                    </label>
+                                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                                        {transitionRoutes.map(route => (
+                                            <div
+                                                key={route.id}
+                                                className="flex items-center gap-1.5 rounded-lg bg-bg-tertiary border border-border-subtle px-2 py-1"
+                                                title={route.description}
+                                            >
+                                                <button
+                                                    onClick={() => handleAuditionRoute(route)}
+                                                    className="h-6 w-6 flex-shrink-0 flex items-center justify-center rounded-md
+                                                        text-text-muted hover:text-accent-primary hover:bg-bg-secondary transition-all"
+                                                    title={auditioningRouteId === route.id ? 'Stop' : 'Listen'}
+                                                >
+                                                    {auditioningRouteId === route.id ? <Square size={12} /> : <Play size={12} />}
+                                                </button>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-[11px] font-bold text-text-primary truncate">
+                                                        {route.chords.map(chord => formatChordForDisplay(chord.symbol)).join(' – ')}
+                                                    </div>
+                                                    <div className="text-[9px] text-text-muted truncate">{route.name}</div>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleInsertRoute(route)}
+                                                    className="h-6 w-6 flex-shrink-0 flex items-center justify-center rounded-md
+                                                        text-text-muted hover:text-accent-primary hover:bg-bg-secondary transition-all"
+                                                    title="Insert as a transition section"
+                                                >
+                                                    <Plus size={12} />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Harmony transforms: previewed here, inserted as a new section */}
+                            {sourceChords.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                        Transform {transformsFromSelection ? `Selection (${sourceChords.length})` : 'Section'}
+                                    </label>
+                                    <div className="space-y-1">
+                                        {transforms.map(transform => (
+                                            <div
+                                                key={transform.kind}
+                                                className="flex items-center gap-1.5 rounded-lg bg-bg-tertiary border border-border-subtle px-2 py-1"
+                                                title={transform.description}
+                                                onMouseEnter={() => setHoveredTransform(transform.kind)}
+                                                onMouseLeave={() => setHoveredTransform(current => current === transform.kind ? null : current)}
+                                            >
+                                                <button
+                                                    onClick={() => handleAuditionTransform(transform.kind, transform.chords)}
+                                                    className="h-6 w-6 flex-shrink-0 flex items-center justify-center rounded-md
+                                                        text-text-muted hover:text-accent-primary hover:bg-bg-secondary transition-all"
+                                                    title={auditioningRouteId === `transform-${transform.kind}` ? 'Stop' : 'Listen'}
+                                                >
+                                                    {auditioningRouteId === `transform-${transform.kind}` ? <Square size={12} /> : <Play size={12} />}
+                                                </button>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-[11px] font-bold text-text-primary truncate">
+                                                        {transform.chords.map(chord => formatChordForDisplay(chord.symbol)).join(' – ')}
+                                                    </div>
+                                                    <div className="text-[9px] text-text-muted truncate">{transform.label}</div>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleInsertTransform(transform.label, transform.chords)}
+                                                    className="h-6 w-6 flex-shrink-0 flex items-center justify-center rounded-md
+                                                        text-text-muted hover:text-accent-primary hover:bg-bg-secondary transition-all"
+                                                    title="Insert as a new section after this one"
+                                                >
+                                                    <Plus size={12} />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Step Count (Note Values) */}
                             {onStepCountChange && (
                                 <div className="space-y-1.5">
@@ -491,6 +798,38 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
                                         Remove
                                     </button>
                                 </div>
+
+                                {/* Linked copies share chords; name, key and lyrics stay their own */}
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => {
+                                            onCopy({ linked: true });
+                                        }}
+                                        className="flex-1 flex items-center justify-center gap-1.5
+                                            px-2 py-2 rounded-lg
+                                            bg-bg-tertiary border border-border-subtle
+                                            text-text-secondary hover:text-text-primary hover:bg-bg-elevated
+                                            transition-all text-xs font-bold active:scale-95"
+                                        title="Duplicate as a linked copy: chord edits in either one apply to both"
+                                    >
+                                        <Link2 size={14} />
+                                        Linked Copy
+                                    </button>
+                                    {linkedSections.length > 0 && (
+                                        <button
+                                            onClick={() => unlinkSection(section.id)}
+                                            className="flex-1 flex items-center justify-center gap-1.5
+                                                px-2 py-2 rounded-lg
+                                                bg-accent-primary/10 border border-accent-primary/30
+                                                text-accent-primary hover:bg-accent-primary/20
+                                                transition-all text-xs font-bold active:scale-95"
+                                            title={`Linked with ${linkedSections.map(linked => linked.name).join(', ')}. Unlink to edit this section on its own.`}
+                                        >
+                                            <Unlink2 size={14} />
+                                            Unlink ({linkedSections.length})
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         </div>
                     </div>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, Suspense } from 'react';
+import React, { useEffect, useMemo, useState, useRef, Suspense } from 'react';
 import { createPortal } from 'react-dom';
 import { useMobileLayout } from '../../hooks/useIsMobile';
 import { VoiceSelector } from '../playback/VoiceSelector';
@@ -23,10 +23,12 @@ import {
     ListMusic,
     Sliders,
     ClipboardPen,
-    Guitar
+    Guitar,
+    Sigma,
+    Link2
 } from 'lucide-react';
 import clsx from 'clsx';
-import { getWheelColors, formatChordForDisplay, type Chord } from '../../utils/musicTheory';
+import { getWheelColors, formatChordForDisplay, getChordBassNote, getChordPlaybackNotes, type Chord } from '../../utils/musicTheory';
 import { PianoKeyboard } from '../panel/PianoKeyboard';
 import { GuitarChord } from '../panel/GuitarChord';
 import { playChord, playNote } from '../../utils/audioEngine';
@@ -49,8 +51,15 @@ import {
     useSortable
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { getSectionDisplayName, type Section } from '../../types';
+import { getSectionDisplayName, getSectionKey, type Section } from '../../types';
+import { getLinkedSections } from '../../utils/sectionLinks';
+import { getArrangedSections } from '../../utils/arrangement';
+import { getSectionsDuration } from '../../utils/tempoMap';
+import { analyzeSong, describeChordAnalysis, type SongAnalysis } from '../../utils/harmonyAnalysis';
+import { detectSectionKeys, type KeyDetectionResult } from '../../utils/keyDetection';
+import { slotKey } from '../../utils/selectionUtils';
 import { SongTimeline } from './SongTimeline';
+import { ArrangementStrip } from './ArrangementStrip';
 import { SectionOptionsPopup } from './SectionOptionsPopup';
 
 
@@ -145,6 +154,9 @@ interface SortableSectionProps {
     measureWidth: number;
     isCompact: boolean;
     onRemoveSection: (sectionId: string) => void;
+    analysis: SongAnalysis | null;
+    detectedKey: KeyDetectionResult | null;
+    isKeyChange: boolean;
 }
 
 // Base measure width (narrower for more visibility)
@@ -161,7 +173,7 @@ const DEFAULT_THEME = {
     accent: 'bg-slate-500'
 };
 
-const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmptySlotTap, isActive, playingSlotId, selectedBeatId, chordColors, measureWidth, isCompact, onRemoveSection }: SortableSectionProps) => {
+const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmptySlotTap, isActive, playingSlotId, selectedBeatId, chordColors, measureWidth, isCompact, onRemoveSection, analysis, detectedKey, isKeyChange }: SortableSectionProps) => {
     const {
         attributes,
         listeners,
@@ -264,6 +276,27 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                     <span className="font-bold text-xs uppercase tracking-wider truncate max-w-[100px]">
                         {displayName}
                     </span>
+                    {section.linkId && (
+                        <span
+                            className="opacity-60"
+                            title={`Linked with ${getLinkedSections(allSections, section).map(other => getSectionDisplayName(other, allSections)).join(', ')}`}
+                        >
+                            <Link2 size={12} />
+                        </span>
+                    )}
+                    {detectedKey && measureWidth >= 40 && (
+                        <span
+                            className={clsx(
+                                "text-[9px] font-semibold px-1.5 py-0.5 rounded-full whitespace-nowrap",
+                                isKeyChange ? "bg-amber-500/20 text-amber-300" : "bg-white/10 text-white/50"
+                            )}
+                            title={isKeyChange
+                                ? `Chords here point to ${detectedKey.label}, not the section's key`
+                                : `Detected key: ${detectedKey.label}`}
+                        >
+                            {formatChordForDisplay(detectedKey.label)}
+                        </span>
+                    )}
                 </div>
                 {measureWidth >= 70 && (
                     <div className="flex items-center gap-2 text-[10px] font-mono opacity-80 mr-6">
@@ -348,6 +381,8 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                                         const padding = chordCount <= 2 ? '0 4px' : '0 2px';
                                         const isSelected = selectedBeatId === beat.id;
                                         const isPlayingBeat = playingSlotId === beat.id;
+                                        const chordAnalysis = analysis?.chords[slotKey({ sectionId: section.id, slotId: beat.id })];
+                                        const cadence = analysis?.cadences.find(c => c.to.slotId === beat.id)?.cadence;
 
                                         return (
                                             <div
@@ -357,7 +392,7 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                                                     onBeatTap(section.id, beat.id, beat.chord);
                                                 }}
                                                 className={clsx(
-                                                    "flex-1 min-w-0 rounded-sm flex items-center justify-center font-bold shadow-sm truncate transition-all cursor-pointer",
+                                                    "relative flex-1 min-w-0 rounded-sm flex flex-col items-center justify-center font-bold shadow-sm truncate transition-all cursor-pointer",
                                                     isPlayingBeat
                                                         ? "ring-2 ring-green-500 shadow-[0_0_12px_rgba(34,197,94,0.6)] scale-110 z-10"
                                                         : isSelected
@@ -376,9 +411,27 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                                                     padding,
                                                     minHeight: '24px'
                                                 }}
-                                                title={isSelected ? `Tap again to go to ${beat.chord.symbol}` : `Tap to select ${beat.chord.symbol}`}
+                                                title={[
+                                                    isSelected ? `Tap again to go to ${beat.chord.symbol}` : `Tap to select ${beat.chord.symbol}`,
+                                                    chordAnalysis && describeChordAnalysis(chordAnalysis),
+                                                    cadence?.name
+                                                ].filter(Boolean).join('\n')}
                                             >
                                                 {formatChordForDisplay(beat.chord.symbol)}
+                                                {chordAnalysis && (
+                                                    <span className={clsx(
+                                                        "font-serif font-normal leading-none truncate max-w-full",
+                                                        chordAnalysis.kind === 'diatonic' ? "text-white/60" : "text-amber-300/80"
+                                                    )}>
+                                                        {chordAnalysis.numeral}
+                                                    </span>
+                                                )}
+                                                {cadence && (
+                                                    <span
+                                                        className="absolute top-0 left-0 w-1.5 h-1.5 rounded-br-sm"
+                                                        style={{ backgroundColor: `var(--color-${cadence.color}, white)` }}
+                                                    />
+                                                )}
                                             </div>
                                         );
                                     })}
@@ -438,7 +491,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     }}
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordPlaybackNotes(displayChord));
                         }
                     }}
                 >
@@ -480,7 +533,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                         className="flex flex-col items-center cursor-pointer group shrink-0"
                         onClick={() => {
                             if (displayChord.notes) {
-                                playChord(displayChord.notes);
+                                playChord(getChordPlaybackNotes(displayChord));
                             }
                         }}
                     >
@@ -518,9 +571,9 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     {/* Piano Keyboard - Small */}
                     <div className="flex-shrink-0 overflow-hidden" style={{ width: '140px', transform: 'scale(0.85)', transformOrigin: 'center' }}>
                         <PianoKeyboard
-                            highlightedNotes={displayChord.notes || []}
+                            highlightedNotes={getChordPlaybackNotes(displayChord)}
                             rootNote={displayChord.root}
-                            bassNote={displayChord.bassNote}
+                            bassNote={getChordBassNote(displayChord)}
                             color={chordColor}
                             octave={4}
                             onNotePlay={(note, octave) => playNote(note, octave)}
@@ -535,7 +588,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                         className="flex flex-col items-center cursor-pointer group shrink-0"
                         onClick={() => {
                             if (displayChord.notes) {
-                                playChord(displayChord.notes);
+                                playChord(getChordPlaybackNotes(displayChord));
                             }
                         }}
                     >
@@ -569,7 +622,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     className="flex flex-col items-center cursor-pointer group"
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordPlaybackNotes(displayChord));
                         }
                     }}
                 >
@@ -607,9 +660,9 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                 {/* Piano Keyboard - Compact */}
                 <div className="flex-shrink-0" style={{ width: '200px' }}>
                     <PianoKeyboard
-                        highlightedNotes={displayChord.notes || []}
+                        highlightedNotes={getChordPlaybackNotes(displayChord)}
                         rootNote={displayChord.root}
-                        bassNote={displayChord.bassNote}
+                        bassNote={getChordBassNote(displayChord)}
                         color={chordColor}
                         octave={4}
                         onNotePlay={(note, octave) => playNote(note, octave)}
@@ -624,7 +677,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     className="flex flex-col items-center cursor-pointer group shrink-0"
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordPlaybackNotes(displayChord));
                         }
                     }}
                 >
@@ -666,6 +719,8 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
         openLeadScales,
         toggleInstrumentControlsModal,
         toggleNotesModal,
+        harmonyAnalysisVisible,
+        toggleHarmonyAnalysis,
         selectedKey,
         bringToFront,
         modalStack
@@ -808,20 +863,27 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
     }, [isPlaying, selectedMapChord]);
 
     const chordColors = getWheelColors();
-    const totalMeasures = currentSong.sections.reduce((acc: number, s: Section) => acc + s.measures.length, 0);
-
-    // Calculate song duration from total beats and tempo
-    const totalBeats = currentSong.sections.reduce((acc: number, section: Section) => {
-        const sectionTimeSignature = section.timeSignature || currentSong.timeSignature;
-        const beatsPerMeasure = sectionTimeSignature[0];
-        return acc + (section.measures.length * beatsPerMeasure);
-    }, 0);
-    const durationSeconds = (totalBeats / tempo) * 60;
+    // Bars and duration count the form as played
+    const playedSections = getArrangedSections(currentSong);
+    const totalMeasures = playedSections.reduce((acc: number, s: Section) => acc + s.measures.length, 0);
+
+    // Calculate song duration through the tempo map (section tempos and ramps)
+    const durationSeconds = getSectionsDuration(playedSections, tempo, currentSong.timeSignature);
     const durationMinutes = Math.floor(durationSeconds / 60);
     const durationRemainingSeconds = Math.floor(durationSeconds % 60);
     const formattedDuration = `${durationMinutes}:${durationRemainingSeconds.toString().padStart(2, '0')}`;
     const measureWidth = BASE_MEASURE_WIDTH * zoomLevel;
 
+    // Key detected from each section's own chords, so modulations stand out
+    // (relative major/minor share a key signature, so only a different parent key counts)
+    const sectionKeys = useMemo(() => detectSectionKeys(currentSong.sections), [currentSong.sections]);
+
+    // Roman numerals and cadences, recomputed from the chords whenever the song changes
+    const harmonyAnalysis = useMemo(
+        () => (harmonyAnalysisVisible ? analyzeSong(currentSong) : null),
+        [harmonyAnalysisVisible, currentSong]
+    );
+
     // Zoom handlers
     const handleZoomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setZoomLevel(Number(e.target.value));
@@ -1138,6 +1200,26 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                                     <span className="text-accent-primary">{formattedDuration}</span>
                                     <span>Duration</span>
                                 </div>
+                                <div className="w-px h-2 bg-white/10 shrink-0" />
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        toggleHarmonyAnalysis();
+                                    }}
+                                    className={clsx(
+                                        "flex items-center gap-1 shrink-0 px-2 py-0.5 rounded-full border transition-colors",
+                                        harmonyAnalysisVisible
+                                            ? "bg-accent-primary/20 border-accent-primary/40 text-accent-primary"
+                                            : "border-white/10 hover:text-white/70"
+                                    )}
+                                    title="Show roman numeral analysis and cadences"
+                                >
+                                    <Sigma size={10} />
+                                    <span>Analysis</span>
+                                    {harmonyAnalysis && (
+                                        <span className="text-white/40">· {harmonyAnalysis.cadences.length} cadences</span>
+                                    )}
+                                </button>
                             </div>
                         </div>
                     )}
@@ -1153,6 +1235,9 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                             activeSectionId={(playingSectionId || selectedMapSectionId || editingSectionId) || undefined}
                             onReorder={reorderSections}
                             onAddSection={addSuggestedSection}
+                            cadences={harmonyAnalysis?.cadences}
+                            songKey={currentSong.key}
+                            songTempo={currentSong.tempo}
                             onSectionClick={(sectionId) => {
                                 const sectionElement = scrollContainerRef.current?.querySelector(`[data-section-id="${sectionId}"]`);
                                 if (sectionElement) {
@@ -1168,6 +1253,7 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                                 setSelectedMapSectionId(null);
                             }}
                         />
+                        <ArrangementStrip />
                     </div>
                     {/* End Header Wrapper */}
 
@@ -1197,8 +1283,8 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                                     onBarsChange={(count) => useSongStore.getState().setSectionMeasures(section.id, count)}
                                     onStepCountChange={(steps) => useSongStore.getState().setSectionSubdivision(section.id, steps)}
                                     onNameChange={(name, type) => useSongStore.getState().updateSection(section.id, { name, type })}
-                                    onCopy={() => {
-                                        useSongStore.getState().duplicateSection(section.id);
+                                    onCopy={(options) => {
+                                        useSongStore.getState().duplicateSection(section.id, options);
                                         // Auto switch to the new section (next one)
                                         // We don't reset editingSectionId here so the modal stays open,
                                         // but we switch it to the new section ID.
@@ -1340,6 +1426,9 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                                             key={section.id}
                                             section={section}
                                             allSections={currentSong.sections}
+                                            analysis={harmonyAnalysis}
+                                            detectedKey={sectionKeys[section.id] ?? null}
+                                            isKeyChange={!!sectionKeys[section.id] && sectionKeys[section.id]?.key !== getSectionKey(section, currentSong.key)}
                                             onSelectBeat={(sectionId, beatId) => {
                                                 if (beatId) {
                                                     setSelectedSlot(sectionId, beatId);
@@ -11,8 +11,11 @@
 import React, { useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import clsx from 'clsx';
-import { Plus } from 'lucide-react';
+import { Link2, Plus } from 'lucide-react';
 import type { Section } from '../../types';
+import { formatChordForDisplay } from '../../utils/musicTheory';
+import { getTempoMarking } from '../../utils/tempoMap';
+import type { CadenceMatch } from '../../utils/harmonyAnalysis';
 import {
     DndContext,
     closestCenter,
@@ -48,6 +51,12 @@ interface SongTimelineProps {
     onAddSection?: () => void;
     /** Whether to show the bracket markers at edges */
     showMarkers?: boolean;
+    /** Cadences from the harmony analysis, drawn as ticks where they resolve */
+    cadences?: CadenceMatch[];
+    /** Song key, used to mark sections that change key */
+    songKey?: string;
+    /** Song tempo, used to mark sections with their own tempo or a ramp */
+    songTempo?: number;
 }
 
 // Section abbreviations for compact display (matching PDF export)
@@ -125,12 +134,26 @@ function getSectionLabel(section: Section, allSections: Section[]): string {
     return abbrev;
 }
 
+/**
+ * The new key if this section is in a different key from the one before it
+ * (the first section only counts if it differs from the song key)
+ */
+function getKeyChange(sections: Section[], index: number, songKey?: string): string | undefined {
+    const key = sections[index].key ?? songKey;
+    const previousKey = index > 0 ? sections[index - 1].key ?? songKey : songKey;
+    if (!key || key === previousKey) return undefined;
+    return key;
+}
+
 interface SortableSectionSegmentProps {
     section: Section;
     allSections: Section[];
     totalMeasures: number;
     isActive: boolean;
     isLast: boolean;
+    cadences: CadenceMatch[];
+    keyChange?: string;
+    tempoMarking?: string;
     onClick?: () => void;
 }
 
@@ -143,6 +166,9 @@ const SortableSectionSegment: React.FC<SortableSectionSegmentProps> = ({
     totalMeasures,
     isActive,
     isLast,
+    cadences,
+    keyChange,
+    tempoMarking,
     onClick
 }) => {
     const {
@@ -164,6 +190,17 @@ const SortableSectionSegment: React.FC<SortableSectionSegmentProps> = ({
     const label = getSectionLabel(section, allSections);
     const showLabel = widthPercent > 5 || isActive;
 
+    // Place each cadence at the measure it resolves into
+    const cadenceMarkers = cadences
+        .filter(match => match.to.sectionId === section.id)
+        .map(match => {
+            const measureIndex = section.measures.findIndex(m => m.beats.some(b => b.id === match.to.slotId));
+            return {
+                match,
+                left: ((Math.max(0, measureIndex) + 0.5) / Math.max(1, section.measures.length)) * 100
+            };
+        });
+
     const style = {
         transform: CSS.Transform.toString(transform),
         transition,
@@ -246,8 +283,31 @@ const SortableSectionSegment: React.FC<SortableSectionSegmentProps> = ({
                 // Border between segments
                 !isLast && !isDragging && "border-r border-black/30"
             )}
-            title={`${section.name || section.type} (${section.measures.length} bars) - Tap to select, hold to reorder`}
+            title={`${section.name || section.type} (${section.measures.length} bars)${keyChange ? ` - key of ${keyChange}` : ''}${tempoMarking ? ` - ${tempoMarking}` : ''}${section.linkId ? ' - linked' : ''} - Tap to select, hold to reorder`}
         >
+            {/* Key change marker */}
+            {keyChange && (
+                <span className="absolute left-0 top-0 bottom-0 flex items-center pl-0.5 pointer-events-none">
+                    <span className="text-[7px] font-bold leading-none px-0.5 rounded-sm bg-black/50 text-amber-300">
+                        {formatChordForDisplay(keyChange)}
+                    </span>
+                </span>
+            )}
+
+            {/* Tempo marking */}
+            {tempoMarking && (
+                <span className="absolute left-0.5 bottom-0.5 text-[7px] font-semibold leading-none text-white/80 whitespace-nowrap pointer-events-none">
+                    {tempoMarking}
+                </span>
+            )}
+
+            {/* Linked section marker */}
+            {section.linkId && (
+                <span className="absolute right-0.5 top-0.5 text-white/70 pointer-events-none">
+                    <Link2 size={8} />
+                </span>
+            )}
+
             {/* Label */}
             {showLabel && (
                 <span
@@ -265,6 +325,16 @@ const SortableSectionSegment: React.FC<SortableSectionSegmentProps> = ({
                 </span>
             )}
 
+            {/* Cadence ticks */}
+            {cadenceMarkers.map(({ match, left }) => (
+                <div
+                    key={`${match.from.slotId}-${match.to.slotId}`}
+                    className="absolute top-0 w-1 h-1.5 -translate-x-1/2 rounded-b-sm pointer-events-none"
+                    style={{ left: `${left}%`, backgroundColor: `var(--color-${match.cadence.color}, white)` }}
+                    title={match.cadence.name}
+                />
+            ))}
+
             {/* Active indicator - glowing bottom line */}
             {isActive && !isDragging && (
                 <div
@@ -284,7 +354,10 @@ export const SongTimeline: React.FC<SongTimelineProps> = ({
     onSectionClick,
     onReorder,
     onAddSection,
-    showMarkers = true
+    showMarkers = true,
+    cadences = [],
+    songKey,
+    songTempo
 }) => {
     const [activeId, setActiveId] = useState<string | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -376,6 +449,9 @@ export const SongTimeline: React.FC<SongTimelineProps> = ({
                                         totalMeasures={totalMeasures}
                                         isActive={section.id === activeSectionId}
                                         isLast={index === sections.length - 1}
+                                        cadences={cadences}
+                                        keyChange={getKeyChange(sections, index, songKey)}
+                                        tempoMarking={songTempo !== undefined ? getTempoMarking(section, songTempo) : undefined}
                                         onClick={() => onSectionClick?.(section.id)}
                                     />
                                 ))}
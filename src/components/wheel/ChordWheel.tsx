@@ -10,13 +10,19 @@ import {
     getChordSymbolWithInversion,
     getVoicingSuggestion,
     invertChord,
+    getDiatonicChords,
+    getTonic,
+    normalizeNote,
+    TONALITIES,
     type Chord
 } from '../../utils/musicTheory';
 import { WheelSegment } from './WheelSegment';
-import { Lock, Unlock, RotateCw, RotateCcw } from 'lucide-react';
+import { Lock, Unlock, RotateCw, RotateCcw, Lightbulb, Layers } from 'lucide-react';
 import { playChord } from '../../utils/audioEngine';
 import { useIsMobile, useMobileLayout } from '../../hooks/useIsMobile';
 import { VoicingQuickPicker, parseVoicingSuggestions } from './VoicingQuickPicker';
+import { getChordHighlights, suggestNextChords, type NextChordSuggestion, type SuggestionRing } from '../../utils/nextChordSuggestions';
+import { BORROW_SOURCE_COLORS, getBorrowedChords, type BorrowedChord } from '../../utils/modalInterchange';
 
 interface ChordWheelProps {
     zoomScale: number;
@@ -53,6 +59,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
 }) => {
     const {
         selectedKey,
+        selectedTonality,
         setKey,
         wheelRotation,
         wheelMode,
@@ -76,7 +83,13 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
         setVoicingPickerState,
         isDraggingVoicingPicker,
         isKeyLocked,
-        toggleKeyLock
+        toggleKeyLock,
+        currentSong,
+        chordSuggestionsVisible,
+        toggleChordSuggestions,
+        modalInterchangeVisible,
+        toggleModalInterchange,
+        wheelPreview
     } = useSongStore();
 
     // Handler for lock button - shows one-time hint about drag-to-timeline
@@ -566,6 +579,8 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
     const minorOuterRadius = 210;
     const dimInnerRadius = minorOuterRadius;
     const dimOuterRadius = 250;
+    const borrowedInnerRadius = dimOuterRadius + 6;
+    const borrowedOuterRadius = 294;
 
     // Key signature info
     const keySig = useMemo(() => getKeySignature(selectedKey), [selectedKey]);
@@ -709,8 +724,46 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
         return relPos === 2 || relPos === 4;
     };
 
+    // Diatonic triads of the current tonality, keyed by root pitch class + quality.
+    // For major and the church modes this is the same set as the parent major key;
+    // harmonic/melodic minor swap in their raised-7th chords (e.g. E and G#° in A minor).
+    const tonalityNumerals = useMemo(() => {
+        const map = new Map<string, string>();
+        getDiatonicChords(selectedKey, selectedTonality).forEach(chord => {
+            map.set(`${normalizeNote(chord.root)}:${chord.quality}`, chord.numeral ?? '');
+        });
+        return map;
+    }, [selectedKey, selectedTonality]);
+    const isAlteredTonality = selectedTonality === 'harmonicMinor' || selectedTonality === 'melodicMinor';
+    const parentDiatonicSymbols = useMemo(
+        () => new Set(getDiatonicChords(selectedKey).map(chord => chord.symbol)),
+        [selectedKey]
+    );
+
+    // Modal interchange ring: borrowed chords grouped by the wheel position they sit beside
+    const borrowedByPosition = useMemo(() => {
+        const groups = new Map<number, BorrowedChord[]>();
+        if (!modalInterchangeVisible) return groups;
+        getBorrowedChords(selectedKey, selectedTonality).forEach(borrowed => {
+            groups.set(borrowed.positionIndex, [...(groups.get(borrowed.positionIndex) ?? []), borrowed]);
+        });
+        return groups;
+    }, [modalInterchangeVisible, selectedKey, selectedTonality]);
+
+    const getTonalityNumeral = (root: string, quality: Chord['quality']): string | undefined =>
+        tonalityNumerals.get(`${normalizeNote(root)}:${quality}`);
+
     // Get roman numeral for a diatonic position
     const getRomanNumeral = (posIndex: number, type: 'major' | 'ii' | 'iii' | 'dim'): string => {
+        // Minor and modal keys label chords relative to their own tonic (i, iv, ♭VII ...)
+        if (selectedTonality !== 'major') {
+            const position = MAJOR_POSITIONS[posIndex];
+            if (type === 'major') return getTonalityNumeral(position.major, 'major') ?? '';
+            if (type === 'ii') return getTonalityNumeral(position.ii.replace('m', ''), 'minor') ?? '';
+            if (type === 'iii') return getTonalityNumeral(position.iii.replace('m', ''), 'minor') ?? '';
+            return getTonalityNumeral(position.diminished.replace('°', ''), 'diminished') ?? '';
+        }
+
         const relPos = getRelativePosition(posIndex);
 
         if (type === 'major') {
@@ -733,6 +786,31 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
         return '';
     };
 
+    // Ranked next chords for the selected slot, keyed by ring + pitch class.
+    // A previewed harmony transform outlines its chords instead.
+    const nextChordSuggestions = useMemo(() => {
+        const map = new Map<string, NextChordSuggestion>();
+        const suggestions = wheelPreview
+            ? getChordHighlights(wheelPreview.chords, selectedKey, wheelPreview.label)
+            : chordSuggestionsVisible && timelineVisible
+                ? suggestNextChords(currentSong, selectedSectionId, selectedSlotId)
+                : [];
+        suggestions.forEach(suggestion => {
+            map.set(`${suggestion.ring}:${normalizeNote(suggestion.root)}`, suggestion);
+        });
+        return map;
+    }, [wheelPreview, selectedKey, chordSuggestionsVisible, timelineVisible, currentSong, selectedSectionId, selectedSlotId]);
+    const previewTooltip = wheelPreview ? `In the ${wheelPreview.label} preview` : undefined;
+
+    // Minor chords appear twice on the wheel: diatonic suggestions light their
+    // diatonic segment, borrowed ones (i, iv, v) light the ii slot only
+    const getSuggestion = (root: string, ring: SuggestionRing, segmentIsDiatonic: boolean, isIiSlot = false) => {
+        const suggestion = nextChordSuggestions.get(`${ring}:${normalizeNote(root)}`);
+        if (!suggestion) return undefined;
+        if (ring === 'minor' && !(suggestion.diatonic ? segmentIsDiatonic : isIiSlot)) return undefined;
+        return suggestion;
+    };
+
     // Get voicing suggestions for diatonic chords (matching physical wheel)
 
     // Zoom controls are handled via touch/scroll events
@@ -936,12 +1014,22 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                             const dimRoot = position.diminished.replace('°', '');
 
                             // Check if this position is in the diatonic area
-                            const majorIsDiatonic = isPositionDiatonic(i, 'major');
-                            const majorIsSecondary = isSecondaryDominant(i);
+                            // (harmonic/melodic minor: major and dim chords appear once on the wheel, so
+                            // look them up directly; altered minors use their ii slot)
+                            const majorInTonality = getTonalityNumeral(position.major, 'major') !== undefined;
+                            const iiInTonality = getTonalityNumeral(iiRoot, 'minor') !== undefined;
+                            const iiiInTonality = getTonalityNumeral(iiiRoot, 'minor') !== undefined;
+                            const dimInTonality = getTonalityNumeral(dimRoot, 'diminished') !== undefined;
+                            const iiIsParentDiatonic = isPositionDiatonic(i, 'ii') || isViPosition(i);
+
+                            const majorIsDiatonic = isAlteredTonality ? majorInTonality : isPositionDiatonic(i, 'major');
+                            const majorIsSecondary = selectedTonality === 'major' && isSecondaryDominant(i);
                             // ii slot: diatonic if at I position (as ii) OR at V position (as vi)
-                            const iiIsDiatonic = isPositionDiatonic(i, 'ii') || isViPosition(i);
-                            const iiiIsDiatonic = isPositionDiatonic(i, 'iii');
-                            const dimIsDiatonic = isPositionDiatonic(i, 'dim');
+                            const iiIsDiatonic = isAlteredTonality
+                                ? iiInTonality && (iiIsParentDiatonic || !parentDiatonicSymbols.has(position.ii))
+                                : iiIsParentDiatonic;
+                            const iiiIsDiatonic = isPositionDiatonic(i, 'iii') && (!isAlteredTonality || iiiInTonality);
+                            const dimIsDiatonic = isAlteredTonality ? dimInTonality : isPositionDiatonic(i, 'dim');
 
                             // Create chord objects
                             const majorChord: WheelChord = {
@@ -1002,6 +1090,11 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                             const dimStartAngle = majorStartAngle + (majorAngleSize - dimAngleSize) / 2;
                             const dimEndAngle = dimStartAngle + dimAngleSize;
 
+                            const majorSuggestion = getSuggestion(position.major, 'major', majorIsDiatonic);
+                            const iiSuggestion = getSuggestion(iiRoot, 'minor', iiIsDiatonic, true);
+                            const iiiSuggestion = getSuggestion(iiiRoot, 'minor', iiiIsDiatonic);
+                            const dimSuggestion = getSuggestion(dimRoot, 'diminished', dimIsDiatonic);
+
                             // Labels are always chord names (numerals shown separately in segment)
                             const majorLabel = position.major;
                             const iiLabel = position.ii;
@@ -1033,6 +1126,9 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         segmentId={`major-${i}`}
                                         onHover={handleSegmentHover}
                                         isDraggable={isKeyLocked}
+                                        suggestionStrength={majorSuggestion?.strength}
+                                        suggestionReason={wheelPreview ? undefined : majorSuggestion?.reason}
+                                        tooltip={majorSuggestion && previewTooltip}
                                     />
 
                                     {/* MIDDLE RING: ii chord (left 15° slot) */}
@@ -1057,6 +1153,9 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         segmentId={`ii-${i}`}
                                         onHover={handleSegmentHover}
                                         isDraggable={isKeyLocked}
+                                        suggestionStrength={iiSuggestion?.strength}
+                                        suggestionReason={wheelPreview ? undefined : iiSuggestion?.reason}
+                                        tooltip={iiSuggestion && previewTooltip}
                                     />
 
                                     {/* MIDDLE RING: iii chord (right 15° slot) */}
@@ -1081,6 +1180,9 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         segmentId={`iii-${i}`}
                                         onHover={handleSegmentHover}
                                         isDraggable={isKeyLocked}
+                                        suggestionStrength={iiiSuggestion?.strength}
+                                        suggestionReason={wheelPreview ? undefined : iiiSuggestion?.reason}
+                                        tooltip={iiiSuggestion && previewTooltip}
                                     />
 
                                     {/* OUTER RING: Diminished chord (narrow 15° notch, centered) */}
@@ -1105,10 +1207,53 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         segmentId={`dim-${i}`}
                                         onHover={handleSegmentHover}
                                         isDraggable={isKeyLocked}
+                                        suggestionStrength={dimSuggestion?.strength}
+                                        suggestionReason={wheelPreview ? undefined : dimSuggestion?.reason}
+                                        tooltip={dimSuggestion && previewTooltip}
                                     />
                                 </g>
                             );
                         })}
+
+                        {/* OUTERMOST RING: chords borrowed from the parallel modes, sharing their position's 30° */}
+                        {[...borrowedByPosition.entries()].map(([i, group]) => {
+                            const slotSize = 30 / group.length;
+                            const positionStartAngle = i * 30 - 15;
+
+                            return group.map((borrowed, slot) => {
+                                const { chord, source, sourceName } = borrowed;
+                                const ringType = chord.quality === 'minor' ? 'minor' : chord.quality === 'diminished' ? 'diminished' : 'major';
+                                const segmentId = `borrowed-${source}-${chord.symbol}`;
+                                const borrowedChord: WheelChord = { ...chord, segmentId, ringType, positionIndex: i };
+
+                                return (
+                                    <WheelSegment
+                                        key={segmentId}
+                                        cx={cx}
+                                        cy={cy}
+                                        innerRadius={borrowedInnerRadius}
+                                        outerRadius={borrowedOuterRadius}
+                                        startAngle={positionStartAngle + slot * slotSize}
+                                        endAngle={positionStartAngle + (slot + 1) * slotSize}
+                                        color={BORROW_SOURCE_COLORS[source]}
+                                        label={chord.symbol}
+                                        chord={borrowedChord}
+                                        isSelected={isChordSelected(borrowedChord)}
+                                        isDiatonic={false}
+                                        isSecondary={true}
+                                        onClick={handleChordClick}
+                                        onDoubleClick={handleChordDoubleClick}
+                                        ringType="diminished"
+                                        wheelRotation={effectiveRotation}
+                                        romanNumeral={chord.numeral}
+                                        segmentId={segmentId}
+                                        onHover={handleSegmentHover}
+                                        isDraggable={isKeyLocked}
+                                        tooltip={`${chord.numeral}: borrowed from ${sourceName}.`}
+                                    />
+                                );
+                            });
+                        })}
                     </g>
 
                     {/* Center Circle Visual - now captures hits to prevent UI toggle */}
@@ -1151,11 +1296,15 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                         </text>
 
                         <text x={cx} y={cy + 3} textAnchor="middle" fill="white" fontSize="26" fontWeight="bold" style={{ pointerEvents: 'none' }}>
-                            {formatChordForDisplay(selectedKey)}
+                            {formatChordForDisplay(selectedTonality === 'naturalMinor'
+                                ? `${getTonic(selectedKey, selectedTonality)}m`
+                                : getTonic(selectedKey, selectedTonality))}
                         </text>
 
                         <text x={cx} y={cy + 21} textAnchor="middle" fill="#9898a6" fontSize="11" style={{ pointerEvents: 'none' }}>
-                            {keySigDisplay || 'No ♯/♭'}
+                            {selectedTonality === 'major' || selectedTonality === 'naturalMinor'
+                                ? (keySigDisplay || 'No ♯/♭')
+                                : TONALITIES[selectedTonality].shortName}
                         </text>
                     </g>
 
@@ -1231,6 +1380,60 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                     </g>
 
 
+                    {/* Next-chord suggestions toggle (top right of the key) */}
+                    <g
+                        transform={`translate(${cx + 28}, ${cy - 38})`}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            toggleChordSuggestions();
+                        }}
+                        onTouchEnd={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            toggleChordSuggestions();
+                        }}
+                        className="cursor-pointer"
+                        style={{ pointerEvents: 'all' }}
+                    >
+                        <circle r={12} fill="transparent">
+                            <title>{chordSuggestionsVisible ? 'Hide next-chord suggestions' : 'Suggest next chords for the selected slot'}</title>
+                        </circle>
+                        <Lightbulb
+                            size={11}
+                            x={-5.5}
+                            y={-5.5}
+                            className={chordSuggestionsVisible ? 'text-yellow-400' : 'text-[#3a3a4a] hover:text-[#5a5a6a] transition-colors'}
+                            strokeWidth={2.5}
+                        />
+                    </g>
+
+                    {/* Modal interchange ring toggle (top left of the key) */}
+                    <g
+                        transform={`translate(${cx - 28}, ${cy - 38})`}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            toggleModalInterchange();
+                        }}
+                        onTouchEnd={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            toggleModalInterchange();
+                        }}
+                        className="cursor-pointer"
+                        style={{ pointerEvents: 'all' }}
+                    >
+                        <circle r={12} fill="transparent">
+                            <title>{modalInterchangeVisible ? 'Hide borrowed chords' : 'Show chords borrowed from the parallel modes'}</title>
+                        </circle>
+                        <Layers
+                            size={11}
+                            x={-5.5}
+                            y={-5.5}
+                            className={modalInterchangeVisible ? 'text-violet-400' : 'text-[#3a3a4a] hover:text-[#5a5a6a] transition-colors'}
+                            strokeWidth={2.5}
+                        />
+                    </g>
+
                     {/* Wheel Mode Toggle - Google Maps style compass */}
                     <g
                         transform={`translate(${cx}, ${cy + 40})`}
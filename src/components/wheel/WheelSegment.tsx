@@ -30,6 +30,12 @@ interface WheelSegmentProps {
     onHover?: (text: string | null, x: number, y: number) => void;
     /** When true, the segment can be dragged to the timeline (enabled when wheel is locked) */
     isDraggable?: boolean;
+    /** Next-chord suggestion strength (0-1); undefined when the chord isn't suggested */
+    suggestionStrength?: number;
+    /** Why the chord is suggested, shown in the hover tooltip */
+    suggestionReason?: string;
+    /** Hover tooltip in place of the usual how-to-add hint */
+    tooltip?: string;
 }
 
 export const WheelSegment: React.FC<WheelSegmentProps> = ({
@@ -53,7 +59,10 @@ export const WheelSegment: React.FC<WheelSegmentProps> = ({
     voicingSuggestion,
     segmentId = 'seg',
     onHover,
-    isDraggable = false
+    isDraggable = false,
+    suggestionStrength,
+    suggestionReason,
+    tooltip
 }) => {
     const path = describeSector(cx, cy, innerRadius, outerRadius, startAngle, endAngle);
     const midAngle = (startAngle + endAngle) / 2;
@@ -93,6 +102,11 @@ export const WheelSegment: React.FC<WheelSegmentProps> = ({
 
     const clipPathId = `clip-${segmentId}`;
 
+    // Suggestion strength shown as 1-3 dots along the inner edge
+    const suggestionDots = suggestionStrength === undefined ? 0 : suggestionStrength >= 0.75 ? 3 : suggestionStrength >= 0.4 ? 2 : 1;
+    const suggestionDotAngle = ringType === 'major' ? 3 : 2;
+    const isTonic = romanNumeral === 'I' || romanNumeral === 'i' || romanNumeral === 'i°';
+
     const getSegmentStyle = () => {
         let baseOpacity = 0.35;
         let baseSaturation = 0.5;
@@ -316,9 +330,11 @@ export const WheelSegment: React.FC<WheelSegmentProps> = ({
         const y = e.clientY;
 
         hoverTimerRef.current = setTimeout(() => {
-            const tooltipText = isDraggable
-                ? `Drag this chord to drop it on a timeline slot.`
-                : `Select a chord slot in the timeline, then double-click a chord or chord voicing to add to the timeline.`;
+            const tooltipText = suggestionReason
+                ? `Suggested next: ${suggestionReason}.`
+                : tooltip ?? (isDraggable
+                    ? `Drag this chord to drop it on a timeline slot.`
+                    : `Select a chord slot in the timeline, then double-click a chord or chord voicing to add to the timeline.`);
             onHover(tooltipText, x, y);
         }, 3000);
     };
@@ -492,13 +508,13 @@ export const WheelSegment: React.FC<WheelSegmentProps> = ({
                 </clipPath>
             </defs>
 
-            {/* Thicker border for the I chord (current key tonic) */}
+            {/* Thicker border for the tonic chord (I, or i / i° in minor and modal keys) */}
             <path
                 d={path}
                 fill={segmentStyle.fill}
                 opacity={segmentStyle.opacity}
-                stroke={romanNumeral === 'I' ? 'rgba(0,0,0,0.6)' : 'rgba(0,0,0,0.3)'}
-                strokeWidth={romanNumeral === 'I' ? 2.5 : 1}
+                stroke={isTonic ? 'rgba(0,0,0,0.6)' : 'rgba(0,0,0,0.3)'}
+                strokeWidth={isTonic ? 2.5 : 1}
                 className={clsx(
                     "transition-all duration-200 hover:brightness-110",
                     isSelected && "brightness-125 stroke-white stroke-2",
@@ -522,6 +538,25 @@ export const WheelSegment: React.FC<WheelSegmentProps> = ({
                 />
             )}
 
+            {/* Next-chord suggestion outline and strength dots */}
+            {suggestionStrength !== undefined && (
+                <g pointerEvents="none">
+                    <path
+                        d={path}
+                        fill="none"
+                        stroke="#facc15"
+                        strokeWidth={1 + suggestionStrength * 2}
+                        opacity={0.45 + suggestionStrength * 0.55}
+                        strokeDasharray={suggestionStrength >= 0.75 ? undefined : '3 2'}
+                        clipPath={`url(#${clipPathId})`}
+                    />
+                    {Array.from({ length: suggestionDots }, (_, i) => {
+                        const dot = polarToCartesian(cx, cy, innerRadius + 3, midAngle + (i - (suggestionDots - 1) / 2) * suggestionDotAngle);
+                        return <circle key={i} cx={dot.x} cy={dot.y} r={1.4} fill="#facc15" />;
+                    })}
+                </g>
+            )}
+
             {/* Curved voicing at TOP of cell (outer edge) - major ring */}
             {(isDiatonic || isSecondary) && voicingSuggestion && ringType === 'major' && (
                 <text
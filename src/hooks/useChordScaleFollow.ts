@@ -0,0 +1,92 @@
+/**
+ * useChordScaleFollow Hook
+ *
+ * While the song plays with follow mode on, tracks the chord in the playing
+ * slot and the chord after it, each with its best-fitting scale split into
+ * chord tones, tensions and avoid notes. The next chord is flagged as a
+ * preview once the playhead is within the look-ahead (in beats) of the change,
+ * timed through the same tempo map as playback (section tempos and ramps).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import * as Tone from 'tone';
+import { useSongStore } from '../store/useSongStore';
+import { getSectionKey } from '../types';
+import type { Chord } from '../utils/musicTheory';
+import { getChordScaleRoles, type ChordScaleRoles } from '../utils/scaleLibrary';
+import { getArrangedSections } from '../utils/arrangement';
+import { getSlotTimings } from '../utils/tempoMap';
+
+export interface FollowedChord {
+    chord: Chord;
+    roles: ChordScaleRoles;
+}
+
+export interface ChordScaleFollowState {
+    current: FollowedChord | null;
+    next: FollowedChord | null;
+    previewing: boolean; // Within the look-ahead of the next chord
+}
+
+export const useChordScaleFollow = (): ChordScaleFollowState => {
+    const enabled = useSongStore((state) => state.scaleFollowEnabled);
+    const lookAhead = useSongStore((state) => state.scaleFollowLookAhead);
+    const isPlaying = useSongStore((state) => state.isPlaying);
+    const isLooping = useSongStore((state) => state.isLooping);
+    const tempo = useSongStore((state) => state.tempo);
+    const playingSlotId = useSongStore((state) => state.playingSlotId);
+    const song = useSongStore((state) => state.currentSong);
+    const active = enabled && isPlaying && !!playingSlotId;
+
+    // The playing slot and the next slot that holds a chord (wrapping when looping)
+    const { current, next, duration, slotTempo } = useMemo(() => {
+        const empty = { current: null, next: null, duration: 0, slotTempo: tempo };
+        if (!active) return empty;
+
+        // Slots in play order with their times, as scheduleSong plays them
+        const slots = getSlotTimings(getArrangedSections(song), tempo, song.timeSignature).map(timing => ({
+            beat: timing.slot,
+            key: getSectionKey(timing.section, song.key),
+            time: timing.time,
+            duration: timing.duration,
+            tempo: timing.tempo
+        }));
+
+        // A slot plays once per pass (form entries, repeats, endings): take the
+        // pass that starts nearest the transport's position
+        const now = Tone.Transport.seconds;
+        let index = -1;
+        slots.forEach((slot, i) => {
+            if (slot.beat.id !== playingSlotId) return;
+            if (index === -1 || Math.abs(slot.time - now) < Math.abs(slots[index].time - now)) index = i;
+        });
+        if (index === -1) return empty;
+
+        const follow = (slot: typeof slots[number] | undefined): FollowedChord | null => {
+            const chord = slot?.beat.chord;
+            if (!chord) return null;
+            const roles = getChordScaleRoles(chord.root, chord.quality, slot.key);
+            return roles ? { chord, roles } : null;
+        };
+
+        const upcoming = [...slots.slice(index + 1), ...(isLooping ? slots.slice(0, index) : [])];
+        return {
+            current: follow(slots[index]),
+            next: follow(upcoming.find(slot => slot.beat.chord)),
+            duration: slots[index].duration,
+            slotTempo: slots[index].tempo
+        };
+    }, [active, song, tempo, playingSlotId, isLooping]);
+
+    // Flip to the preview `lookAhead` beats before the slot ends (duration is in seconds)
+    const [previewing, setPreviewing] = useState(false);
+    useEffect(() => {
+        setPreviewing(false);
+        if (!active || !next || lookAhead <= 0) return;
+        const delayMs = Math.max(0, duration - lookAhead * (60 / slotTempo)) * 1000;
+        const timer = window.setTimeout(() => setPreviewing(true), delayMs);
+        return () => window.clearTimeout(timer);
+    }, [active, playingSlotId, next, duration, lookAhead, slotTempo]);
+
+    return { current, next, previewing };
+};
@@ -14,7 +14,8 @@ export const useKeyboardShortcuts = () => {
         undo,
         redo,
         canUndo,
-        canRedo
+        canRedo,
+        transposeSelection
     } = useSongStore();
 
     // Delete Shortcut
@@ -56,4 +57,21 @@ export const useKeyboardShortcuts = () => {
         window.addEventListener('keydown', handleUndoRedo);
         return () => window.removeEventListener('keydown', handleUndoRedo);
     }, [undo, redo, canUndo, canRedo]);
+
+    // Transpose Selection Shortcuts (Alt/Option + Up/Down moves selected chords by a semitone)
+    useEffect(() => {
+        const handleTranspose = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            const isFormElement = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+            if (isFormElement || !e.altKey) return;
+
+            if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                e.preventDefault();
+                transposeSelection(e.key === 'ArrowUp' ? 1 : -1);
+            }
+        };
+
+        window.addEventListener('keydown', handleTranspose);
+        return () => window.removeEventListener('keydown', handleTranspose);
+    }, [transposeSelection]);
 };
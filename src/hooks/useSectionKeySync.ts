@@ -0,0 +1,29 @@
+/**
+ * useSectionKeySync Hook
+ *
+ * Keeps the chord wheel on the key of the section you're working in. While the
+ * song plays the wheel follows the playing section; otherwise the selected one.
+ * Sections without their own key fall back to the song key.
+ *
+ * Like useAudioSync, this MUST live in a component that never unmounts (App.tsx).
+ */
+
+import { useEffect } from 'react';
+import { useSongStore } from '../store/useSongStore';
+import { getWheelSectionId } from '../store/slices/uiSlice';
+import { getSectionKey } from '../types';
+
+export const useSectionKeySync = () => {
+    const activeKey = useSongStore((state) => {
+        const section = state.currentSong.sections.find(s => s.id === getWheelSectionId(state));
+        return getSectionKey(section, state.currentSong.key);
+    });
+    const selectedKey = useSongStore((state) => state.selectedKey);
+    const followSectionKey = useSongStore((state) => state.followSectionKey);
+
+    useEffect(() => {
+        if (activeKey && activeKey !== selectedKey) {
+            followSectionKey(activeKey);
+        }
+    }, [activeKey, selectedKey, followSectionKey]);
+};
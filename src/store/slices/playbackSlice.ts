@@ -1,4 +1,5 @@
 import type { StateCreator } from 'zustand';
+import type { VoicingStyle } from '../../utils/voiceLeading';
 
 export interface PlaybackState {
     isPlaying: boolean;
@@ -7,6 +8,7 @@ export interface PlaybackState {
     isLooping: boolean;
     volume: number;
     isMuted: boolean;
+    voicingStyle: VoicingStyle; // How chords are voiced for playback and audio/MIDI export
 }
 
 export interface PlaybackActions {
@@ -15,6 +17,7 @@ export interface PlaybackActions {
     setPlayingSlot: (sectionId: string | null, slotId: string | null) => void;
     toggleLoop: () => void;
     toggleMute: () => void;
+    setVoicingStyle: (style: VoicingStyle) => void;
 }
 
 export type PlaybackSlice = PlaybackState & PlaybackActions;
@@ -33,10 +36,12 @@ export const createPlaybackSlice: StateCreator<
     isLooping: false,
     volume: 0.8,
     isMuted: false,
+    voicingStyle: 'close',
 
     setVolume: (volume) => set({ volume }),
     setIsPlaying: (isPlaying) => set({ isPlaying }),
     setPlayingSlot: (sectionId, slotId) => set({ playingSectionId: sectionId, playingSlotId: slotId }),
     toggleLoop: () => set((state: PlaybackState) => ({ isLooping: !state.isLooping })),
     toggleMute: () => set((state: PlaybackState) => ({ isMuted: !state.isMuted })),
+    setVoicingStyle: (voicingStyle) => set({ voicingStyle }),
 });
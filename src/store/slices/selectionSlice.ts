@@ -263,7 +263,7 @@ export const createSelectionSlice: StateCreator<
                 );
                 return idx >= 0 ? { idx, slot: slots[idx] } : null;
             })
-            .filter((item): item is { idx: number; slot: SelectionSlot & { chord: Chord | null } } => Boolean(item))
+            .filter((item): item is { idx: number; slot: SelectionSlot & { chord: Chord | null; duration: number } } => Boolean(item))
             .sort((a, b) => a.idx - b.idx);
 
         if (!indexedSelection.length) return false;
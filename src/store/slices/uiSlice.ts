@@ -1,10 +1,14 @@
 import type { StateCreator } from 'zustand';
-import { CIRCLE_OF_FIFTHS } from '../../utils/musicTheory';
+import { CIRCLE_OF_FIFTHS, type Chord, type Tonality } from '../../utils/musicTheory';
 import type { Song, Section } from '../../types';
+import { detectSongKey, type KeyDetectionResult } from '../../utils/keyDetection';
+import type { DiagramInstrument } from '../../utils/diagramInstruments';
+import { buildHistoryState } from '../../utils/historyUtils';
 
 export interface UIState {
     // Wheel state
     selectedKey: string;
+    selectedTonality: Tonality;   // Mode built on selectedKey (e.g. naturalMinor = relative minor)
     wheelRotation: number;        // Cumulative rotation (not reset at 360°)
     wheelMode: 'rotating' | 'fixed';  // Rotating = wheel spins, Fixed = highlights move
     chordPanelVisible: boolean;   // Toggle chord panel visibility
@@ -31,6 +35,21 @@ export interface UIState {
     // Notes Modal State
     notesModalVisible: boolean;
 
+    // Roman numeral / cadence overlay on the Song Map, timeline and PDF
+    harmonyAnalysisVisible: boolean;
+
+    // Ranked next-chord highlights on the wheel for the selected slot
+    chordSuggestionsVisible: boolean;
+
+    // Extra wheel ring of chords borrowed from the parallel modes
+    modalInterchangeVisible: boolean;
+
+    // Chords outlined on the wheel while a harmony transform is previewed
+    wheelPreview: { chords: Chord[]; label: string } | null;
+
+    // Instrument the chord panel draws diagrams for (a saved user preference)
+    diagramInstrument: DiagramInstrument;
+
     // UI-specific dragging state (not selection dragging which is in SelectionSlice)
     // We already have `isDraggingVoicingPicker` in SelectionSlice. 
     // This seems consistent to keep strictly global UI toggles here.
@@ -44,12 +63,20 @@ export interface UIState {
         scaleNotes: string[];
         rootNote: string;
         modeName: string;
+        scaleId?: string;   // Scale library id; older callers only pass the mode name
         color: string;
     } | null;
+
+    // Lead scales follow the playing chord, previewing the next one this many beats early
+    scaleFollowEnabled: boolean;
+    scaleFollowLookAhead: number;
 }
 
 export interface UIActions {
     setKey: (key: string, options?: { skipRotation?: boolean }) => void;
+    setTonality: (tonality: Tonality) => void;
+    followSectionKey: (key: string) => void;  // Point the wheel at a section's key without editing the song
+    detectKey: () => KeyDetectionResult | null;  // Detect the song key from its chords and apply it
     rotateWheel: (direction: 'cw' | 'ccw') => void;  // Cumulative rotation
     toggleWheelMode: () => void;
     toggleChordPanel: () => void;
@@ -69,15 +96,25 @@ export interface UIActions {
     pulseChordPanel: () => void;  // Trigger attention animation on chord panel
     toggleKeyLock: () => void;
     toggleNotesModal: (force?: boolean) => void;
+    toggleHarmonyAnalysis: (force?: boolean) => void;
+    toggleChordSuggestions: (force?: boolean) => void;
+    toggleModalInterchange: (force?: boolean) => void;
+    setWheelPreview: (preview: { chords: Chord[]; label: string } | null) => void;
+    setDiagramInstrument: (instrument: DiagramInstrument) => void;
     bringToFront: (modalId: string) => void;
-    openLeadScales: (data: { scaleNotes: string[]; rootNote: string; modeName: string; color: string }) => void;
+    openLeadScales: (data: { scaleNotes: string[]; rootNote: string; modeName: string; scaleId?: string; color: string }) => void;
     closeLeadScales: () => void;
+    toggleScaleFollow: (force?: boolean) => void;
+    setScaleFollowLookAhead: (beats: number) => void;
 }
 
 export type UISlice = UIState & UIActions;
 
 type StoreWithSong = {
     currentSong: Song;
+    historyPast: Song[];
+    isPlaying: boolean;          // From PlaybackSlice
+    playingSectionId: string | null;
     selectedSectionId: string | null;
     selectedSlotId: string | null;
     selectedSlots: any[];
@@ -96,6 +133,34 @@ const DEFAULT_C_CHORD = {
     symbol: 'C',
 };
 
+/**
+ * Find the wheel rotation closest to the current one that puts `key` at the top.
+ * Returns null if the key isn't on the wheel.
+ */
+/**
+ * The section whose key the wheel shows and edits: the playing one during playback,
+ * otherwise the selected one
+ */
+export const getWheelSectionId = (state: { isPlaying: boolean; playingSectionId: string | null; selectedSectionId: string | null }) =>
+    state.isPlaying && state.playingSectionId ? state.playingSectionId : state.selectedSectionId;
+
+export const getNearestKeyRotation = (currentRotation: number, key: string): number | null => {
+    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(key);
+    if (keyIndex === -1) return null;
+
+    // Smart rotation: find the closest rotation angle to the current one
+    // that matches the target key position. This prevents "spinning back"
+    // when crossing the 0/360 boundary or when the wheel is wound up.
+    const targetBaseRotation = -(keyIndex * 30);
+
+    // Calculate shortest path to the target rotation
+    const delta = targetBaseRotation - currentRotation;
+    // Normalize delta to [-180, 180]
+    const normalizedDelta = delta - 360 * Math.round(delta / 360);
+
+    return currentRotation + normalizedDelta;
+};
+
 export const createUISlice: StateCreator<
     any, // Using any for store type to avoid circular dep issues in Slice definition
     [['zustand/persist', unknown]],
@@ -103,6 +168,7 @@ export const createUISlice: StateCreator<
     UISlice
 > = (set, get) => ({
     selectedKey: 'C',
+    selectedTonality: 'major',
     wheelRotation: 0,
     wheelMode: 'fixed',
     chordPanelVisible: true,
@@ -122,9 +188,16 @@ export const createUISlice: StateCreator<
     chordPanelAttention: false,
     isKeyLocked: false,
     notesModalVisible: false,
+    harmonyAnalysisVisible: false,
+    chordSuggestionsVisible: true,
+    modalInterchangeVisible: false,
+    wheelPreview: null,
+    diagramInstrument: 'guitar',
     modalStack: [],
     leadScalesModalVisible: false,
     leadScalesData: null,
+    scaleFollowEnabled: false,
+    scaleFollowLookAhead: 1,
 
     toggleKeyLock: () => set((state: UIState) => ({ isKeyLocked: !state.isKeyLocked })),
 
@@ -134,33 +207,85 @@ export const createUISlice: StateCreator<
         return { modalStack: [...newStack, modalId] };
     }),
 
-    setKey: (key, options) => set((state: UIState) => {
+    setKey: (key, options) => set((state: UIState & StoreWithSong) => {
         if (state.isKeyLocked) return {};
 
+        // Keep the song's key in step with the wheel, as an undoable edit.
+        // Inside a section with its own key (the playing one during playback), the wheel
+        // edits that section's key instead (back to the song key clears it, as
+        // setSectionKey(id, null) does).
+        const activeSection = state.currentSong.sections.find(s => s.id === getWheelSectionId(state));
+        const keyChanged = key !== (activeSection?.key ?? state.currentSong.key);
+        const currentSong = activeSection?.key
+            ? {
+                ...state.currentSong,
+                sections: state.currentSong.sections.map(s => {
+                    if (s.id !== activeSection.id) return s;
+                    const { key: _previousKey, ...rest } = s;
+                    return key !== state.currentSong.key ? { ...rest, key } : rest;
+                })
+            }
+            : { ...state.currentSong, key };
+        const songUpdate = keyChanged
+            ? { ...buildHistoryState(state.currentSong, state.historyPast), currentSong }
+            : {};
+
         // In rotating mode, also update the wheel rotation to snap this key to the top
         if (state.wheelMode === 'rotating' && !options?.skipRotation) {
-            const keyIndex = CIRCLE_OF_FIFTHS.indexOf(key);
-            if (keyIndex !== -1) {
-                // Smart rotation: find the closest rotation angle to the current one
-                // that matches the target key position. This prevents "spinning back"
-                // when crossing the 0/360 boundary or when the wheel is wound up.
-                const currentRotation = state.wheelRotation;
-                const targetBaseRotation = -(keyIndex * 30);
-
-                // Calculate shortest path to the target rotation
-                const delta = targetBaseRotation - currentRotation;
-                // Normalize delta to [-180, 180]
-                const normalizedDelta = delta - 360 * Math.round(delta / 360);
-
+            const wheelRotation = getNearestKeyRotation(state.wheelRotation, key);
+            if (wheelRotation !== null) {
                 return {
                     selectedKey: key,
-                    wheelRotation: currentRotation + normalizedDelta
+                    wheelRotation,
+                    ...songUpdate
                 };
             }
         }
+        return { selectedKey: key, ...songUpdate };
+    }),
+
+    followSectionKey: (key) => set((state: UIState) => {
+        if (state.isKeyLocked || key === state.selectedKey) return {};
+
+        // Only the wheel moves; the song and section keys stay as they are
+        if (state.wheelMode === 'rotating') {
+            const wheelRotation = getNearestKeyRotation(state.wheelRotation, key);
+            if (wheelRotation !== null) {
+                return { selectedKey: key, wheelRotation };
+            }
+        }
         return { selectedKey: key };
     }),
 
+    setTonality: (tonality) => set((state: UIState & StoreWithSong) => {
+        if (state.isKeyLocked) return {};
+        if (tonality === (state.currentSong.tonality ?? 'major')) return { selectedTonality: tonality };
+        return {
+            ...buildHistoryState(state.currentSong, state.historyPast),
+            selectedTonality: tonality,
+            currentSong: { ...state.currentSong, tonality }
+        };
+    }),
+
+    detectKey: () => {
+        const state = get() as UIState & UIActions & StoreWithSong;
+        const result = detectSongKey(state.currentSong);
+        if (!result || state.isKeyLocked) return result;
+
+        const changed = result.key !== state.currentSong.key || result.tonality !== (state.currentSong.tonality ?? 'major');
+        set({
+            ...(changed ? {
+                ...buildHistoryState(state.currentSong, state.historyPast),
+                currentSong: { ...state.currentSong, key: result.key, tonality: result.tonality }
+            } : {}),
+            selectedTonality: result.tonality
+        });
+        // The wheel stays on the followed section's own key if it has one
+        const activeSection = state.currentSong.sections.find(s => s.id === getWheelSectionId(state));
+        state.followSectionKey(activeSection?.key ?? result.key);
+        return result;
+    },
+
     rotateWheel: (direction) => set((state: UIState & StoreWithSong) => {
         if (state.isKeyLocked) return {}; // Do not change rotation if locked
 
@@ -268,6 +393,17 @@ export const createUISlice: StateCreator<
     toggleNotesModal: (force) => set((state: UIState) => ({
         notesModalVisible: force !== undefined ? force : !state.notesModalVisible
     })),
+    toggleHarmonyAnalysis: (force) => set((state: UIState) => ({
+        harmonyAnalysisVisible: force !== undefined ? force : !state.harmonyAnalysisVisible
+    })),
+    toggleChordSuggestions: (force) => set((state: UIState) => ({
+        chordSuggestionsVisible: force !== undefined ? force : !state.chordSuggestionsVisible
+    })),
+    toggleModalInterchange: (force) => set((state: UIState) => ({
+        modalInterchangeVisible: force !== undefined ? force : !state.modalInterchangeVisible
+    })),
+    setWheelPreview: (preview) => set({ wheelPreview: preview }),
+    setDiagramInstrument: (instrument) => set({ diagramInstrument: instrument }),
     openLeadScales: (data) => set((state: UIState) => {
         // Automatically add to stack
         const modalId = 'lead-scales-modal';
@@ -279,4 +415,8 @@ export const createUISlice: StateCreator<
         };
     }),
     closeLeadScales: () => set({ leadScalesModalVisible: false }),
+    toggleScaleFollow: (force) => set((state: UIState) => ({
+        scaleFollowEnabled: force !== undefined ? force : !state.scaleFollowEnabled
+    })),
+    setScaleFollowLookAhead: (beats) => set({ scaleFollowLookAhead: Math.max(0, beats) }),
 });
@@ -1,21 +1,30 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Song, Section, InstrumentType, Measure, SketchPage } from '../types';
-import { CIRCLE_OF_FIFTHS, type Chord } from '../utils/musicTheory';
+import { getSectionKey, type Song, type Section, type InstrumentType, type Measure, type SketchPage, type ArrangementEntry } from '../types';
+import { CIRCLE_OF_FIFTHS, setChordBassNote, type Chord } from '../utils/musicTheory';
 import { v4 as uuidv4 } from 'uuid';
 
 import { createPlaybackSlice, type PlaybackSlice } from './slices/playbackSlice';
 import { createInstrumentSlice, type InstrumentSlice } from './slices/instrumentSlice';
 import { createSelectionSlice, type SelectionSlice } from './slices/selectionSlice';
 import { createCloudSlice, type CloudSlice } from './slices/cloudSlice';
-import { createUISlice, type UISlice } from './slices/uiSlice';
+import { createUISlice, getNearestKeyRotation, type UISlice } from './slices/uiSlice';
 import {
     createEmptyMeasure,
     ensureSelectionStillExists,
     reselectFromSong,
-    beatsFromSignature
+    beatsFromSignature,
+    findChordForSlot
 } from '../utils/selectionUtils';
 import { buildHistoryState, cloneSong, HISTORY_LIMIT } from '../utils/historyUtils';
+import { getNumeralForChord, resolveTransposeTarget, transposeChord, transposeSections } from '../utils/transpose';
+import { applyReharmonization, planReharmonization, type ReharmonizationKind } from '../utils/reharmonization';
+import { MAX_CAPO } from '../utils/guitarTuning';
+import { detachSection, syncLinkedSections } from '../utils/sectionLinks';
+import { MAX_ARRANGEMENT_REPEATS, addSectionToArrangement, createArrangementFromSections, withArrangement } from '../utils/arrangement';
+import { MAX_REPEAT_COUNT } from '../utils/repeats';
+import { clampTempo } from '../utils/tempoMap';
+import { getMeasureSignature, getMeterPattern, getSubdivisionDurations, isSameTimeSignature } from '../utils/meter';
 
 
 
@@ -163,6 +172,8 @@ interface SongState extends PlaybackSlice, InstrumentSlice, SelectionSlice, Clou
     setArtist: (artist: string) => void;
     setTags: (tags: string[]) => void;
     setSongTimeSignature: (signature: [number, number]) => void;
+    setTuning: (tuning: string[] | undefined) => void; // Guitar tuning, lowest string first (undefined = standard)
+    setCapo: (capo: number) => void; // Guitar capo fret (0 = no capo)
     setNotes: (notes: string) => void;
     setSketches: (sketches: SketchPage[]) => void;
     setSectionLyrics: (sectionId: string, lyrics: string) => void;
@@ -170,23 +181,39 @@ interface SongState extends PlaybackSlice, InstrumentSlice, SelectionSlice, Clou
     newSong: () => void;
     addSection: (type: Section['type']) => void;
     addSuggestedSection: () => void; // Add a section with an intelligently suggested type
-    addCustomSection: (name: string, type: Section['type'], chords: Chord[], options?: { beatsPerChord?: number; totalBars?: number }) => void; // Add a section with pre-filled chords
+    addCustomSection: (name: string, type: Section['type'], chords: Chord[], options?: { beatsPerChord?: number; totalBars?: number; insertAfterId?: string; key?: string }) => void; // Add a section with pre-filled chords (appended unless insertAfterId is given)
     getSuggestedSectionType: () => Section['type']; // Get the suggested type for next section
     updateSection: (id: string, updates: Partial<Section>) => void;
     removeSection: (id: string) => void;
     clearSection: (id: string) => void;
-    duplicateSection: (id: string) => void;
+    duplicateSection: (id: string, options?: { linked?: boolean }) => void; // linked: the copy shares chords with the original
+    unlinkSection: (id: string) => void; // Give a linked section its own copy of the chords
     reorderSections: (sections: Section[]) => void;
+    setArrangement: (arrangement: ArrangementEntry[] | null) => void; // Replace or reorder the form (null = play sections in order)
+    addArrangementEntry: (sectionId: string) => void; // Append a section to the form, starting one from the section order if needed
+    updateArrangementEntry: (id: string, updates: Partial<Pick<ArrangementEntry, 'repeats' | 'transpose'>>) => void;
+    removeArrangementEntry: (id: string) => void;
     setSectionMeasures: (id: string, count: number) => void;
     setSectionTimeSignature: (id: string, signature: [number, number]) => void;
+    setSectionKey: (id: string, key: string | null) => void; // Relabel a section's key (null = song key), chords untouched
+    modulateSection: (id: string, semitones: number) => void; // Move a section's chords and key by N semitones
     setMeasureSubdivision: (sectionId: string, measureId: string, steps: number) => void;
+    setMeasureTimeSignature: (sectionId: string, measureId: string, signature: [number, number] | null) => void; // One bar in its own meter (null = the section's)
+    setMeasureRepeat: (sectionId: string, measureId: string, marks: Partial<Pick<Measure, 'repeatStart' | 'repeatEnd' | 'ending'>>) => void; // Repeat barlines and 1st/2nd endings (falsy values clear)
+    setSectionRepeats: (id: string, count: number) => void; // Times the whole section is played
+    setSectionTempo: (id: string, tempo: { tempo?: number | null; tempoRampTo?: number | null }) => void; // Own tempo and ramp target in BPM (null = clear)
     setSectionSubdivision: (sectionId: string, steps: number) => void;
     resizeSlot: (sectionId: string, measureId: string, slotId: string, lenChange: number) => void;
 
     addChordToSlot: (chord: Chord, sectionId: string, slotId: string) => void;
+    fillSlotsWithChords: (sectionId: string, startSlotId: string | null, chords: (Chord | null)[]) => number; // Typed chord entry, one slot per chord, adding bars as needed; returns how many didn't fit
+    setSlotBassNote: (sectionId: string, slotId: string, bass: string | null) => void; // Slash chord bass (null = root position)
     clearSlot: (sectionId: string, slotId: string) => void;
     clearTimeline: () => void;
     moveChord: (fromSectionId: string, fromSlotId: string, toSectionId: string, toSlotId: string) => void;
+    transposeSong: (target: number | string) => void; // Semitones or destination key; moves Song.key too
+    transposeSelection: (semitones: number) => void; // Transpose selectedSlots within the current key
+    reharmonizeSelection: (kind: ReharmonizationKind) => boolean; // Apply a substitution to selectedSlots; false if nothing changed
 
     // History
     undo: () => void;
@@ -338,6 +365,22 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            setTuning: (tuning) => set((state) => {
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, tuning }
+                };
+            }),
+
+            setCapo: (capo) => set((state) => {
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, capo: Math.max(0, Math.min(MAX_CAPO, Math.round(capo))) || undefined }
+                };
+            }),
+
             setNotes: (notes) => set((state) => {
                 const history = buildHistoryState(state.currentSong, state.historyPast);
                 console.log('[useSongStore.setNotes] Setting notes, isDirty from history:', history.isDirty);
@@ -389,6 +432,7 @@ export const useSongStore = create<SongState>()(
                     ...history,
                     currentSong: { ...song, tempo },
                     selectedKey: key,
+                    selectedTonality: song.tonality ?? 'major',
                     wheelRotation: rotation,
                     selectedChord: DEFAULT_C_CHORD,
                     selectedSectionId: null,
@@ -434,6 +478,7 @@ export const useSongStore = create<SongState>()(
                         ],
                     },
                     selectedKey: 'C',
+                    selectedTonality: 'major',
                     wheelRotation: 0,
                     selectedChord: DEFAULT_C_CHORD,
                     selectedSectionId: null,
@@ -461,10 +506,10 @@ export const useSongStore = create<SongState>()(
 
                 return {
                     ...history,
-                    currentSong: {
-                        ...state.currentSong,
-                        sections: [...state.currentSong.sections, newSection]
-                    }
+                    currentSong: withArrangement(
+                        { ...state.currentSong, sections: [...state.currentSong.sections, newSection] },
+                        addSectionToArrangement(state.currentSong.arrangement, newSection.id)
+                    )
                 };
             }),
 
@@ -481,10 +526,10 @@ export const useSongStore = create<SongState>()(
 
                 return {
                     ...history,
-                    currentSong: {
-                        ...state.currentSong,
-                        sections: [...state.currentSong.sections, newSection]
-                    }
+                    currentSong: withArrangement(
+                        { ...state.currentSong, sections: [...state.currentSong.sections, newSection] },
+                        addSectionToArrangement(state.currentSong.arrangement, newSection.id)
+                    )
                 };
             }),
 
@@ -547,21 +592,29 @@ export const useSongStore = create<SongState>()(
                     name,
                     type,
                     timeSignature,
-                    measures
+                    measures,
+                    ...(options?.key && options.key !== state.currentSong.key ? { key: options.key } : {})
                 };
 
                 const history = buildHistoryState(state.currentSong, state.historyPast);
 
+                const sections = [...state.currentSong.sections];
+                const afterIndex = options?.insertAfterId
+                    ? sections.findIndex(s => s.id === options.insertAfterId)
+                    : -1;
+                if (afterIndex === -1) sections.push(newSection);
+                else sections.splice(afterIndex + 1, 0, newSection);
+
                 // Select the first slot of the new section so timeline can auto-scroll to it
                 const firstSlotId = measures[0]?.beats[0]?.id;
                 const firstChord = measures[0]?.beats[0]?.chord ?? null;
 
                 return {
                     ...history,
-                    currentSong: {
-                        ...state.currentSong,
-                        sections: [...state.currentSong.sections, newSection]
-                    },
+                    currentSong: withArrangement(
+                        { ...state.currentSong, sections },
+                        addSectionToArrangement(state.currentSong.arrangement, newSection.id, options?.insertAfterId)
+                    ),
                     // Auto-select the first slot of the new section
                     selectedSectionId: newSection.id,
                     selectedSlotId: firstSlotId ?? null,
@@ -582,7 +635,10 @@ export const useSongStore = create<SongState>()(
                     ...history,
                     currentSong: {
                         ...state.currentSong,
-                        sections: state.currentSong.sections.map(s => s.id === id ? { ...s, ...updates } : s)
+                        sections: syncLinkedSections(
+                            state.currentSong.sections,
+                            state.currentSong.sections.map(s => s.id === id ? { ...s, ...updates } : s)
+                        )
                     }
                 };
             }),
@@ -593,10 +649,10 @@ export const useSongStore = create<SongState>()(
                 delete remainingCollapsed[id];
                 return {
                     ...history,
-                    currentSong: {
-                        ...state.currentSong,
-                        sections: state.currentSong.sections.filter(s => s.id !== id)
-                    },
+                    currentSong: withArrangement(
+                        { ...state.currentSong, sections: detachSection(state.currentSong.sections, id).filter(s => s.id !== id) },
+                        state.currentSong.arrangement?.filter(entry => entry.sectionId !== id)
+                    ),
                     collapsedSections: remainingCollapsed
                 };
             }),
@@ -614,7 +670,7 @@ export const useSongStore = create<SongState>()(
 
                 const history = buildHistoryState(state.currentSong, state.historyPast);
 
-                const newSections = state.currentSong.sections.map(s => {
+                const editedSections = state.currentSong.sections.map(s => {
                     if (s.id !== id) return s;
                     return {
                         ...s,
@@ -627,6 +683,7 @@ export const useSongStore = create<SongState>()(
                         }))
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 return {
                     ...history,
@@ -634,17 +691,21 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
-            duplicateSection: (id: string) => set((state) => {
+            duplicateSection: (id: string, options) => set((state) => {
                 const sectionToCopy = state.currentSong.sections.find(s => s.id === id);
                 if (!sectionToCopy) return {};
 
                 const history = buildHistoryState(state.currentSong, state.historyPast);
 
+                const linkId = options?.linked ? sectionToCopy.linkId ?? uuidv4() : undefined;
                 const newSection: Section = {
                     ...sectionToCopy,
                     id: uuidv4(),
-                    name: `${sectionToCopy.name} (Copy)`,
-                    timeSignature: sectionToCopy.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE,
+                    name: linkId ? sectionToCopy.name : `${sectionToCopy.name} (Copy)`,
+                    linkId,
+                    timeSignature: linkId
+                        ? sectionToCopy.timeSignature
+                        : sectionToCopy.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE,
                     measures: sectionToCopy.measures.map(m => ({
                         ...m,
                         id: uuidv4(),
@@ -653,7 +714,7 @@ export const useSongStore = create<SongState>()(
                 };
 
                 const index = state.currentSong.sections.findIndex(s => s.id === id);
-                const newSections = [...state.currentSong.sections];
+                const newSections = state.currentSong.sections.map(s => s.id === id && linkId ? { ...s, linkId } : s);
                 newSections.splice(index + 1, 0, newSection);
 
                 // Auto-select the first slot of the new duplicated section
@@ -662,10 +723,10 @@ export const useSongStore = create<SongState>()(
 
                 return {
                     ...history,
-                    currentSong: {
-                        ...state.currentSong,
-                        sections: newSections
-                    },
+                    currentSong: withArrangement(
+                        { ...state.currentSong, sections: newSections },
+                        addSectionToArrangement(state.currentSong.arrangement, newSection.id, id)
+                    ),
                     selectedSectionId: newSection.id,
                     selectedSlotId: firstSlotId ?? null,
                     selectedSlots: firstSlotId ? [{ sectionId: newSection.id, slotId: firstSlotId }] : [],
@@ -674,6 +735,17 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            unlinkSection: (id: string) => set((state) => {
+                const section = state.currentSong.sections.find(s => s.id === id);
+                if (!section?.linkId) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: detachSection(state.currentSong.sections, id) }
+                };
+            }),
+
             reorderSections: (sections: Section[]) => set((state) => {
                 const history = buildHistoryState(state.currentSong, state.historyPast);
                 return {
@@ -682,18 +754,77 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            setArrangement: (arrangement) => set((state) => {
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: withArrangement(state.currentSong, arrangement)
+                };
+            }),
+
+            addArrangementEntry: (sectionId) => set((state) => {
+                if (!state.currentSong.sections.some(s => s.id === sectionId)) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const arrangement = state.currentSong.arrangement ?? createArrangementFromSections(state.currentSong.sections);
+                return {
+                    ...history,
+                    currentSong: {
+                        ...state.currentSong,
+                        arrangement: [...arrangement, { id: uuidv4(), sectionId }]
+                    }
+                };
+            }),
+
+            updateArrangementEntry: (id, updates) => set((state) => {
+                const arrangement = state.currentSong.arrangement;
+                if (!arrangement?.some(entry => entry.id === id)) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: {
+                        ...state.currentSong,
+                        arrangement: arrangement.map(entry => {
+                            if (entry.id !== id) return entry;
+                            const updated = { ...entry, ...updates };
+                            if (updated.repeats !== undefined) {
+                                updated.repeats = Math.max(1, Math.min(MAX_ARRANGEMENT_REPEATS, Math.round(updated.repeats)));
+                            }
+                            if (updated.transpose !== undefined) {
+                                updated.transpose = Math.max(-11, Math.min(11, Math.round(updated.transpose)));
+                            }
+                            return updated;
+                        })
+                    }
+                };
+            }),
+
+            removeArrangementEntry: (id) => set((state) => {
+                const arrangement = state.currentSong.arrangement;
+                if (!arrangement?.some(entry => entry.id === id)) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                return {
+                    ...history,
+                    currentSong: withArrangement(state.currentSong, arrangement.filter(entry => entry.id !== id))
+                };
+            }),
+
             setSectionMeasures: (id: string, count: number) => set((state) => {
                 const targetCount = Math.max(1, Math.min(32, Math.round(count)));
 
-                const newSections = state.currentSong.sections.map((section) => {
+                const editedSections = state.currentSong.sections.map((section) => {
                     if (section.id !== id) return section;
 
                     const signature = section.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE;
                     let measures: Measure[] = [...section.measures];
 
                     if (measures.length < targetCount) {
+                        // New bars carry on the meter pattern (e.g. alternating 7/8 | 4/4)
+                        const pattern = getMeterPattern(section.measures);
                         while (measures.length < targetCount) {
-                            measures.push(createEmptyMeasure(signature));
+                            measures.push(createEmptyMeasure(signature, pattern[measures.length % pattern.length]));
                         }
                     } else if (measures.length > targetCount) {
                         measures = measures.slice(0, targetCount);
@@ -701,6 +832,7 @@ export const useSongStore = create<SongState>()(
 
                     return { ...section, measures };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 const selection = ensureSelectionStillExists(
                     newSections,
@@ -720,27 +852,32 @@ export const useSongStore = create<SongState>()(
             }),
 
             setSectionTimeSignature: (id: string, signature: [number, number]) => set((state) => {
-                const newSections = state.currentSong.sections.map((section) => {
+                const editedSections = state.currentSong.sections.map((section) => {
                     if (section.id !== id) return section;
 
-                    const newTotalBeats = beatsFromSignature(signature);
-
                     return {
                         ...section,
                         timeSignature: signature,
-                        // Reset beats to align with the new meter and clear chords to avoid mismatched slots
-                        measures: section.measures.map((measure) => ({
-                            ...measure,
-                            beats: [
-                                {
-                                    id: uuidv4(),
-                                    chord: null,
-                                    duration: newTotalBeats,
-                                },
-                            ],
-                        })),
+                        // Reset beats to align with the new meter and clear chords to avoid mismatched slots.
+                        // Bars in their own meter keep it unless it is now the section's.
+                        measures: section.measures.map((measure) => {
+                            const { timeSignature: ownSignature, ...rest } = measure;
+                            const barSignature = ownSignature && !isSameTimeSignature(ownSignature, signature) ? ownSignature : undefined;
+                            return {
+                                ...rest,
+                                ...(barSignature ? { timeSignature: barSignature } : {}),
+                                beats: [
+                                    {
+                                        id: uuidv4(),
+                                        chord: null,
+                                        duration: beatsFromSignature(barSignature ?? signature),
+                                    },
+                                ],
+                            };
+                        }),
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 const selection = ensureSelectionStillExists(
                     newSections,
@@ -759,26 +896,129 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            setSectionKey: (id, key) => set((state) => {
+                const section = state.currentSong.sections.find(s => s.id === id);
+                if (!section) return {};
+
+                const nextKey = key && key !== state.currentSong.key ? key : undefined;
+                if (nextKey === section.key) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const newSections = state.currentSong.sections.map((s) => {
+                    if (s.id !== id) return s;
+                    const { key: _previousKey, ...rest } = s;
+                    return nextKey ? { ...rest, key: nextKey } : rest;
+                });
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                };
+            }),
+
+            modulateSection: (id, semitones) => set((state) => {
+                const section = state.currentSong.sections.find(s => s.id === id);
+                if (!section || !semitones) return {};
+
+                const fromKey = getSectionKey(section, state.currentSong.key);
+                const { toKey } = resolveTransposeTarget(fromKey, semitones);
+                const [moved] = transposeSections([section], semitones, toKey, { numeralKey: toKey });
+                const { key: _previousKey, linkId: _linkId, ...rest } = moved;
+                const modulated: Section = toKey !== state.currentSong.key ? { ...rest, key: toKey } : rest;
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                // A modulated section no longer matches its linked siblings, so it leaves the group
+                const newSections = detachSection(state.currentSong.sections, id).map(s => s.id === id ? modulated : s);
+                const selectedInSection = state.selectedSectionId === id && state.selectedSlotId
+                    ? findChordForSlot(newSections, { sectionId: id, slotId: state.selectedSlotId })
+                    : null;
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    selectedChord: selectedInSection ?? state.selectedChord
+                };
+            }),
+
+            setMeasureRepeat: (sectionId, measureId, marks) => set((state) => {
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const editedSections = state.currentSong.sections.map(section => {
+                    if (section.id !== sectionId) return section;
+                    return {
+                        ...section,
+                        measures: section.measures.map(measure => {
+                            if (measure.id !== measureId) return measure;
+                            const updated: Measure = { ...measure, ...marks };
+                            if (!updated.repeatStart) delete updated.repeatStart;
+                            if (!updated.repeatEnd) delete updated.repeatEnd;
+                            else updated.repeatEnd = Math.max(2, Math.min(MAX_REPEAT_COUNT, Math.round(updated.repeatEnd)));
+                            if (!updated.ending) delete updated.ending;
+                            return updated;
+                        })
+                    };
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                };
+            }),
+
+            setSectionRepeats: (id, count) => set((state) => {
+                const repeats = Math.max(1, Math.min(MAX_REPEAT_COUNT, Math.round(count)));
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const newSections = state.currentSong.sections.map(section => {
+                    if (section.id !== id) return section;
+                    const { repeats: _previous, ...rest } = section;
+                    return repeats > 1 ? { ...rest, repeats } : rest;
+                });
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                };
+            }),
+
+            setSectionTempo: (id, tempo) => set((state) => {
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const newSections = state.currentSong.sections.map(section => {
+                    if (section.id !== id) return section;
+                    const updated: Section = { ...section };
+                    (['tempo', 'tempoRampTo'] as const).forEach(field => {
+                        const value = tempo[field];
+                        if (value === null) delete updated[field];
+                        else if (value !== undefined) updated[field] = clampTempo(value);
+                    });
+                    return updated;
+                });
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                };
+            }),
+
             setMeasureSubdivision: (sectionId: string, measureId: string, steps: number) => set((state) => {
                 const targetSteps = Math.max(1, Math.min(32, Math.round(steps)));
 
-                const newSections = state.currentSong.sections.map((section) => {
+                const editedSections = state.currentSong.sections.map((section) => {
                     if (section.id !== sectionId) return section;
                     const signature = section.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE;
-                    const totalBeats = beatsFromSignature(signature);
 
                     return {
                         ...section,
                         measures: section.measures.map((measure) => {
                             if (measure.id !== measureId) return measure;
 
-                            const beatDuration = totalBeats / targetSteps;
-                            const nextBeats = Array.from({ length: targetSteps }).map((_, idx) => {
+                            // One slot per pulse follows the meter's grouping (dotted quarters in 6/8)
+                            const durations = getSubdivisionDurations(getMeasureSignature(measure, signature), targetSteps);
+                            const nextBeats = durations.map((duration, idx) => {
                                 const existing = measure.beats[idx];
                                 return {
                                     id: existing?.id ?? uuidv4(),
                                     chord: existing?.chord ?? null,
-                                    duration: beatDuration,
+                                    duration,
                                 };
                             });
 
@@ -786,6 +1026,50 @@ export const useSongStore = create<SongState>()(
                         }),
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+
+                const selection = ensureSelectionStillExists(
+                    newSections,
+                    state.selectedSectionId,
+                    state.selectedSlotId,
+                    state.selectedSlots,
+                    state.selectionAnchor
+                );
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    ...selection,
+                };
+            }),
+
+            setMeasureTimeSignature: (sectionId, measureId, signature) => set((state) => {
+                const section = state.currentSong.sections.find(s => s.id === sectionId);
+                const measure = section?.measures.find(m => m.id === measureId);
+                if (!section || !measure) return {};
+
+                const sectionSignature = section.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE;
+                // A bar in the section's meter needs no override
+                const ownSignature = signature && !isSameTimeSignature(signature, sectionSignature) ? signature : undefined;
+                const barSignature = ownSignature ?? sectionSignature;
+                if (isSameTimeSignature(barSignature, getMeasureSignature(measure, sectionSignature))) return {};
+
+                // The bar becomes a single slot of its new length, keeping its first chord
+                const { timeSignature: _previous, ...rest } = measure;
+                const firstBeat = measure.beats[0];
+                const resized: Measure = {
+                    ...rest,
+                    ...(ownSignature ? { timeSignature: ownSignature } : {}),
+                    beats: [{ id: firstBeat?.id ?? uuidv4(), chord: firstBeat?.chord ?? null, duration: beatsFromSignature(barSignature) }],
+                };
+
+                const editedSections = state.currentSong.sections.map((s) => s.id !== sectionId ? s : {
+                    ...s,
+                    measures: s.measures.map(m => m.id === measureId ? resized : m)
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 const selection = ensureSelectionStillExists(
                     newSections,
@@ -807,21 +1091,20 @@ export const useSongStore = create<SongState>()(
             setSectionSubdivision: (sectionId: string, steps: number) => set((state) => {
                 const targetSteps = Math.max(1, Math.min(32, Math.round(steps)));
 
-                const newSections = state.currentSong.sections.map((section) => {
+                const editedSections = state.currentSong.sections.map((section) => {
                     if (section.id !== sectionId) return section;
                     const signature = section.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE;
-                    const totalBeats = beatsFromSignature(signature);
-                    const beatDuration = totalBeats / targetSteps;
 
                     return {
                         ...section,
                         measures: section.measures.map((measure) => {
-                            const nextBeats = Array.from({ length: targetSteps }).map((_, idx) => {
+                            const durations = getSubdivisionDurations(getMeasureSignature(measure, signature), targetSteps);
+                            const nextBeats = durations.map((duration, idx) => {
                                 const existing = measure.beats[idx];
                                 return {
                                     id: existing?.id ?? uuidv4(),
                                     chord: existing?.chord ?? null,
-                                    duration: beatDuration,
+                                    duration,
                                 };
                             });
 
@@ -829,6 +1112,7 @@ export const useSongStore = create<SongState>()(
                         }),
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 const selection = ensureSelectionStillExists(
                     newSections,
@@ -849,7 +1133,7 @@ export const useSongStore = create<SongState>()(
 
             resizeSlot: (sectionId: string, measureId: string, slotId: string, lenChange: number) => set((state) => {
                 const history = buildHistoryState(state.currentSong, state.historyPast);
-                const newSections = state.currentSong.sections.map((section) => {
+                const editedSections = state.currentSong.sections.map((section) => {
                     if (section.id !== sectionId) return section;
 
                     return {
@@ -915,6 +1199,7 @@ export const useSongStore = create<SongState>()(
                         })
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 return {
                     ...history,
@@ -924,7 +1209,7 @@ export const useSongStore = create<SongState>()(
 
             addChordToSlot: (chord: Chord, sectionId: string, slotId: string) => set((state) => {
                 const history = buildHistoryState(state.currentSong, state.historyPast);
-                const newSections = state.currentSong.sections.map(section => {
+                const editedSections = state.currentSong.sections.map(section => {
                     if (section.id !== sectionId) return section;
                     return {
                         ...section,
@@ -937,12 +1222,92 @@ export const useSongStore = create<SongState>()(
                         }))
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
                 return {
                     ...history,
                     currentSong: { ...state.currentSong, sections: newSections }
                 };
             }),
 
+            fillSlotsWithChords: (sectionId: string, startSlotId: string | null, chords: (Chord | null)[]) => {
+                const state = get();
+                const section = state.currentSong.sections.find(s => s.id === sectionId);
+                if (!section || chords.length === 0) return 0;
+
+                const initialSlotIds = section.measures.flatMap(measure => measure.beats.map(beat => beat.id));
+                const startIndex = startSlotId ? Math.max(0, initialSlotIds.indexOf(startSlotId)) : 0;
+
+                // Chords past the last slot get new bars (up to the 32-bar limit), split like
+                // the section's last bar and carrying on its meter pattern
+                const signature = section.timeSignature || state.currentSong.timeSignature || DEFAULT_TIME_SIGNATURE;
+                const pattern = getMeterPattern(section.measures);
+                const steps = section.measures[section.measures.length - 1]?.beats.length ?? 1;
+                const measures: Measure[] = [...section.measures];
+                let slotCount = initialSlotIds.length;
+                while (slotCount - startIndex < chords.length && measures.length < 32) {
+                    const measure = createEmptyMeasure(signature, pattern[measures.length % pattern.length]);
+                    const durations = getSubdivisionDurations(getMeasureSignature(measure, signature), steps);
+                    measures.push({ ...measure, beats: durations.map(duration => ({ id: uuidv4(), chord: null, duration })) });
+                    slotCount += durations.length;
+                }
+
+                const slotIds = measures.flatMap(measure => measure.beats.map(beat => beat.id));
+                const placed = chords.slice(0, slotIds.length - startIndex);
+                const assignments = new Map<string, Chord | null>();
+                placed.forEach((chord, offset) => {
+                    const withNumeral = chord ? { ...chord, numeral: getNumeralForChord(chord, state.selectedKey) } : null;
+                    if (withNumeral && withNumeral.numeral === undefined) delete withNumeral.numeral;
+                    assignments.set(slotIds[startIndex + offset], withNumeral);
+                });
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const editedSections = state.currentSong.sections.map(s => {
+                    if (s.id !== sectionId) return s;
+                    return {
+                        ...s,
+                        measures: measures.map(measure => ({
+                            ...measure,
+                            beats: measure.beats.map(beat =>
+                                assignments.has(beat.id) ? { ...beat, chord: assignments.get(beat.id) ?? null } : beat
+                            )
+                        }))
+                    };
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+                set({
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                });
+                return chords.length - placed.length;
+            },
+
+            setSlotBassNote: (sectionId: string, slotId: string, bass: string | null) => set((state) => {
+                const chord = findChordForSlot(state.currentSong.sections, { sectionId, slotId });
+                if (!chord) return {};
+
+                const updated = setChordBassNote(chord, bass);
+                if (updated.symbol === chord.symbol) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const editedSections = state.currentSong.sections.map(section => {
+                    if (section.id !== sectionId) return section;
+                    return {
+                        ...section,
+                        measures: section.measures.map(measure => ({
+                            ...measure,
+                            beats: measure.beats.map(beat => (beat.id === slotId ? { ...beat, chord: updated } : beat))
+                        }))
+                    };
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+                const isSelectedSlot = state.selectedSectionId === sectionId && state.selectedSlotId === slotId;
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    ...(isSelectedSlot ? { selectedChord: updated, chordInversion: updated.inversion ?? 0 } : {})
+                };
+            }),
+
             clearSlot: (sectionId: string, slotId: string) => set((state) => {
                 const hadChord = state.currentSong.sections.some(section =>
                     section.id === sectionId &&
@@ -955,7 +1320,7 @@ export const useSongStore = create<SongState>()(
 
                 const history = buildHistoryState(state.currentSong, state.historyPast);
 
-                const newSections = state.currentSong.sections.map(section => {
+                const editedSections = state.currentSong.sections.map(section => {
                     if (section.id !== sectionId) return section;
                     return {
                         ...section,
@@ -968,6 +1333,7 @@ export const useSongStore = create<SongState>()(
                         }))
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
                 return {
                     ...history,
                     currentSong: { ...state.currentSong, sections: newSections }
@@ -986,7 +1352,7 @@ export const useSongStore = create<SongState>()(
 
                 const history = buildHistoryState(state.currentSong, state.historyPast);
 
-                const newSections = state.currentSong.sections.map(section => ({
+                const editedSections = state.currentSong.sections.map(section => ({
                     ...section,
                     measures: section.measures.map(measure => ({
                         ...measure,
@@ -996,6 +1362,7 @@ export const useSongStore = create<SongState>()(
                         }))
                     }))
                 }));
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 return {
                     ...history,
@@ -1031,7 +1398,7 @@ export const useSongStore = create<SongState>()(
 
                 // Second pass: swap
                 const history = buildHistoryState(state.currentSong, state.historyPast);
-                const newSections = state.currentSong.sections.map(section => {
+                const editedSections = state.currentSong.sections.map(section => {
                     return {
                         ...section,
                         measures: section.measures.map(measure => ({
@@ -1048,6 +1415,7 @@ export const useSongStore = create<SongState>()(
                         }))
                     };
                 });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
 
                 return {
                     ...history,
@@ -1055,6 +1423,79 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            transposeSong: (target) => set((state) => {
+                const fromKey = state.currentSong.key || state.selectedKey || 'C';
+                const { semitones, toKey } = resolveTransposeTarget(fromKey, target);
+                if (semitones === 0 && toKey === fromKey) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                // Sections with their own key move by the same interval so modulations are kept
+                const editedSections = state.currentSong.sections.map((section) => {
+                    const sectionKey = section.key ? resolveTransposeTarget(section.key, semitones).toKey : undefined;
+                    const [moved] = transposeSections([section], semitones, sectionKey ?? toKey);
+                    return sectionKey ? { ...moved, key: sectionKey } : moved;
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+                const wheelKey = resolveTransposeTarget(state.selectedKey || fromKey, semitones).toKey;
+                const wheelRotation = state.wheelMode === 'rotating'
+                    ? getNearestKeyRotation(state.wheelRotation, wheelKey) ?? state.wheelRotation
+                    : state.wheelRotation;
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, key: toKey, sections: newSections },
+                    selectedKey: wheelKey,
+                    wheelRotation,
+                    selectedChord: state.selectedChord
+                        ? transposeChord(state.selectedChord, semitones, wheelKey)
+                        : null
+                };
+            }),
+
+            transposeSelection: (semitones) => set((state) => {
+                if (!semitones || !state.selectedSlots.length) return {};
+
+                const key = state.selectedKey || state.currentSong.key || 'C';
+                const hasChords = state.selectedSlots.some(slot => findChordForSlot(state.currentSong.sections, slot));
+                if (!hasChords) return {};
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const editedSections = transposeSections(state.currentSong.sections, semitones, key, {
+                    slots: state.selectedSlots,
+                    numeralKey: key
+                });
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+                const primarySlot = state.selectedSectionId && state.selectedSlotId
+                    ? { sectionId: state.selectedSectionId, slotId: state.selectedSlotId }
+                    : null;
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    selectedChord: findChordForSlot(newSections, primarySlot) ?? state.selectedChord
+                };
+            }),
+
+            reharmonizeSelection: (kind) => {
+                const state = get();
+                const edits = planReharmonization(state.currentSong.sections, state.selectedSlots, kind, state.currentSong.key);
+                if (!edits.length) return false;
+
+                const history = buildHistoryState(state.currentSong, state.historyPast);
+                const editedSections = applyReharmonization(state.currentSong.sections, edits);
+                const newSections = syncLinkedSections(state.currentSong.sections, editedSections);
+                const primarySlot = state.selectedSectionId && state.selectedSlotId
+                    ? { sectionId: state.selectedSectionId, slotId: state.selectedSlotId }
+                    : null;
+
+                set({
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    selectedChord: findChordForSlot(newSections, primarySlot) ?? state.selectedChord
+                });
+                return true;
+            },
+
             undo: () => set((state) => {
                 if (!state.historyPast.length) return {};
 
@@ -1069,6 +1510,17 @@ export const useSongStore = create<SongState>()(
                     state.selectionAnchor
                 );
 
+                // Keep the wheel in step with the restored song's key and tonality
+                const keyUpdate = {
+                    ...(previous.key && previous.key !== state.currentSong.key ? {
+                        selectedKey: previous.key,
+                        wheelRotation: state.wheelMode === 'rotating'
+                            ? getNearestKeyRotation(state.wheelRotation, previous.key) ?? state.wheelRotation
+                            : state.wheelRotation
+                    } : {}),
+                    selectedTonality: previous.tonality ?? 'major'
+                };
+
                 return {
                     currentSong: cloneSong(previous),
                     historyPast: remainingPast,
@@ -1077,6 +1529,7 @@ export const useSongStore = create<SongState>()(
                     canRedo: future.length > 0,
                     tempo: previous.tempo ?? state.tempo,
                     ...selection,
+                    ...keyUpdate,
                 };
             }),
 
@@ -1094,6 +1547,17 @@ export const useSongStore = create<SongState>()(
                     state.selectionAnchor
                 );
 
+                // Keep the wheel in step with the restored song's key and tonality
+                const keyUpdate = {
+                    ...(next.key && next.key !== state.currentSong.key ? {
+                        selectedKey: next.key,
+                        wheelRotation: state.wheelMode === 'rotating'
+                            ? getNearestKeyRotation(state.wheelRotation, next.key) ?? state.wheelRotation
+                            : state.wheelRotation
+                    } : {}),
+                    selectedTonality: next.tonality ?? 'major'
+                };
+
                 return {
                     currentSong: cloneSong(next),
                     historyPast: past,
@@ -1102,6 +1566,7 @@ export const useSongStore = create<SongState>()(
                     canRedo: future.length > 0,
                     tempo: next.tempo ?? state.tempo,
                     ...selection,
+                    ...keyUpdate,
                 };
             }),
         }),
@@ -1112,7 +1577,10 @@ export const useSongStore = create<SongState>()(
                 tempo: state.tempo,
                 volume: state.volume,
                 instrument: state.instrument,
-                isMuted: state.isMuted
+                isMuted: state.isMuted,
+                voicingStyle: state.voicingStyle,
+                diagramInstrument: state.diagramInstrument,
+                scaleFollowLookAhead: state.scaleFollowLookAhead
             }),
             merge: (persistedState: any, currentState) => {
                 // simple deep merge or just shallow consistency check
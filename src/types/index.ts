@@ -1,5 +1,5 @@
 // Force update
-import type { Chord } from '../utils/musicTheory';
+import type { Chord, Tonality } from '../utils/musicTheory';
 
 export interface Point {
     x: number;
@@ -30,6 +30,17 @@ export interface ChordSlot {
 export interface Measure {
     id: string;
     beats: ChordSlot[];
+    /** Repeat barline at the start of the bar (|:) */
+    repeatStart?: boolean;
+    /** Repeat barline at the end of the bar (:|): total times the passage is played */
+    repeatEnd?: number;
+    /** Volta: the bar is only played on this pass through the repeat (1st ending, 2nd ending...) */
+    ending?: number;
+    /**
+     * Optional per-bar time signature (e.g. a single 2/4 bar in a 4/4 verse). Falls back to
+     * the section's, then the song's, when undefined.
+     */
+    timeSignature?: [number, number];
 }
 
 export interface Section {
@@ -40,8 +51,36 @@ export interface Section {
      * Optional per-section time signature. Falls back to song timeSignature when undefined.
      */
     timeSignature?: [number, number];
+    /**
+     * Optional per-section key (a wheel / parent major key like Song.key), e.g. for a
+     * final-chorus lift. Falls back to song key when undefined.
+     */
+    key?: string;
     measures: Measure[];
+    /** Times the whole section is played in a row. Once when undefined. */
+    repeats?: number;
+    /**
+     * Optional per-section tempo in BPM (e.g. a half-time bridge). Falls back to the song tempo when undefined.
+     */
+    tempo?: number;
+    /**
+     * Tempo reached by the end of the section, ramping gradually from its start tempo
+     * (accelerando or ritardando). Steady when undefined.
+     */
+    tempoRampTo?: number;
     lyrics?: string;
+    /**
+     * Shared by linked instances of one section (e.g. every verse). Linked sections
+     * keep their measures and time signature in sync; name, type, key and lyrics stay their own.
+     */
+    linkId?: string;
+}
+
+/**
+ * Get the key a section is in: its own key if it modulates, otherwise the song key
+ */
+export function getSectionKey(section: Pick<Section, 'key'> | undefined, songKey: string): string {
+    return section?.key ?? songKey;
 }
 
 /**
@@ -88,14 +127,42 @@ export function getSectionDisplayName(section: Section, allSections: Section[]):
     return `${baseName} ${indexAmongSameType + 1}`;
 }
 
+/**
+ * One step of a song's form: a reference to a section, played `repeats` times
+ * in a row and optionally shifted by `transpose` semitones for this entry only.
+ */
+export interface ArrangementEntry {
+    id: string;
+    sectionId: string;
+    repeats?: number; // 1 when undefined
+    transpose?: number; // Semitones, 0 when undefined
+}
+
 export interface Song {
     id: string;
     title: string;
     artist: string;
+    /**
+     * The wheel (parent major) key. Combined with `tonality` this names the actual key,
+     * e.g. key 'C' + tonality 'naturalMinor' is A minor.
+     */
     key: string;
+    /**
+     * Optional tonality (mode) built on `key`. Treated as 'major' when undefined.
+     */
+    tonality?: Tonality;
     tempo: number;
     timeSignature: [number, number];
+    /** Guitar open strings, lowest first. Standard tuning when undefined. */
+    tuning?: string[];
+    /** Guitar capo fret. No capo when undefined or 0. */
+    capo?: number;
     sections: Section[];
+    /**
+     * Play order (the form). Sections are defined once in `sections` and referenced
+     * here any number of times. Songs play `sections` top to bottom when undefined.
+     */
+    arrangement?: ArrangementEntry[];
     notes: string;
     sketches?: SketchPage[];
     tags?: string[]; // Optional custom tags for organization
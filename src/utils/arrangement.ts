@@ -0,0 +1,95 @@
+/**
+ * Arrangement Utilities
+ *
+ * A song's form (Song.arrangement) plays sections by reference: V-C-V-C-B-C
+ * needs three section definitions, not six copies. Playback and every export
+ * read the form through getArrangedSections, which unrolls entry repeats,
+ * per-entry transposition and each section's own repeat marks into the
+ * sections as they are heard. Songs without an arrangement (or with an
+ * empty one) play their sections top to bottom.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getSectionDisplayName, getSectionKey, type ArrangementEntry, type Section, type Song } from '../types';
+import { unrollSection } from './repeats';
+import { resolveTransposeTarget, transposeSections } from './transpose';
+
+export const MAX_ARRANGEMENT_REPEATS = 8;
+
+/**
+ * A form entry for every section, in song order (the starting point when a form is first made)
+ */
+export function createArrangementFromSections(sections: Section[]): ArrangementEntry[] {
+    return sections.map(section => ({ id: uuidv4(), sectionId: section.id }));
+}
+
+/**
+ * A song with its form replaced. An empty form is dropped, so the song plays its sections in order.
+ */
+export function withArrangement(song: Song, arrangement: ArrangementEntry[] | null | undefined): Song {
+    const { arrangement: _previous, ...rest } = song;
+    return arrangement && arrangement.length > 0 ? { ...rest, arrangement } : rest;
+}
+
+/**
+ * Put a new section into an existing form, after the last entry of
+ * `afterSectionId` when given (a duplicate plays next to its original),
+ * otherwise at the end. Songs without a form keep none.
+ */
+export function addSectionToArrangement(
+    arrangement: ArrangementEntry[] | undefined,
+    sectionId: string,
+    afterSectionId?: string
+): ArrangementEntry[] | undefined {
+    if (!arrangement) return undefined;
+
+    const entry: ArrangementEntry = { id: uuidv4(), sectionId };
+    const afterIndex = afterSectionId ? arrangement.map(e => e.sectionId).lastIndexOf(afterSectionId) : -1;
+    if (afterIndex === -1) return [...arrangement, entry];
+    return [...arrangement.slice(0, afterIndex + 1), entry, ...arrangement.slice(afterIndex + 1)];
+}
+
+/**
+ * The sections in play order, one per pass. Every pass gets its own slot
+ * objects (ids unchanged, so the playhead still lands on the section
+ * definition); entries with a transpose are moved into the shifted key.
+ */
+export function getArrangedSections(song: Pick<Song, 'sections' | 'arrangement' | 'key'>): Section[] {
+    if (!song.arrangement?.length) return song.sections.map(unrollSection);
+
+    const sectionsById = new Map(song.sections.map(section => [section.id, section]));
+    return song.arrangement.flatMap(entry => {
+        const section = sectionsById.get(entry.sectionId);
+        if (!section) return [];
+
+        const unrolled = unrollSection(section);
+        return Array.from({ length: Math.max(1, entry.repeats ?? 1) }, () => {
+            const pass: Section = {
+                ...unrolled,
+                measures: unrolled.measures.map(measure => ({
+                    ...measure,
+                    beats: measure.beats.map(beat => ({ ...beat }))
+                }))
+            };
+            if (!entry.transpose) return pass;
+
+            const { toKey } = resolveTransposeTarget(getSectionKey(section, song.key), entry.transpose);
+            const [moved] = transposeSections([pass], entry.transpose, toKey, { numeralKey: toKey });
+            return { ...moved, key: toKey };
+        });
+    });
+}
+
+/**
+ * One label per form entry, e.g. 'Chorus x2 (+2)'. Plain ASCII so the PDF fonts can draw it.
+ */
+export function getArrangementLabels(song: Pick<Song, 'sections' | 'arrangement'>): string[] {
+    return (song.arrangement ?? []).flatMap(entry => {
+        const section = song.sections.find(candidate => candidate.id === entry.sectionId);
+        if (!section) return [];
+
+        const repeats = entry.repeats && entry.repeats > 1 ? ` x${entry.repeats}` : '';
+        const transpose = entry.transpose ? ` (${entry.transpose > 0 ? '+' : ''}${entry.transpose})` : '';
+        return [`${getSectionDisplayName(section, song.sections)}${repeats}${transpose}`];
+    });
+}
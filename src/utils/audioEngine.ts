@@ -1,6 +1,9 @@
 import * as Tone from 'tone';
 import type { InstrumentType, Song, CustomInstrument, Section } from '../types';
 import { useSongStore } from '../store/useSongStore';
+import { stackNotesFromRoot, voiceChord, voiceSongSlots, voicingToNotes, type ChordVoicing } from './voiceLeading';
+import { getArrangedSections } from './arrangement';
+import { getSlotTimings } from './tempoMap';
 
 type InstrumentName = InstrumentType;
 
@@ -34,7 +37,7 @@ const instruments: Record<string, Tone.Sampler | Tone.PolySynth | null> = {
 let currentInstrument: InstrumentName = 'piano';
 let initPromise: Promise<void> | null = null;
 let scheduledEvents: number[] = [];
-let sectionStartTimes: Record<string, number> = {}; // Map sectionId -> startTime (beats)
+let sectionTimes: Record<string, { start: number; end: number }> = {}; // Map sectionId -> start/end (seconds)
 
 // Lazy loading infrastructure
 const instrumentLoadingPromises: Record<string, Promise<void> | undefined> = {};
@@ -1053,12 +1056,24 @@ export const initAudio = async () => {
     }
 };
 
-// NOTES array for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// Last chord voiced for live playing, so consecutive clicks voice-lead too
+let lastLiveVoicing: ChordVoicing | null = null;
+
+const voiceLiveChord = (notes: string[]): string[] => {
+    if (notes.some(note => /\d/.test(note))) return notes;
+
+    const style = useSongStore.getState().voicingStyle;
+    if (style === 'block') return stackNotesFromRoot(notes, 3);
+
+    const voicing = voiceChord(notes, lastLiveVoicing, style);
+    if (!voicing) return [];
+    lastLiveVoicing = voicing;
+    return voicingToNotes(voicing);
+};
 
 /**
  * Play a chord with proper voicing
- * Notes are spread across octaves to sound musical
+ * Notes are voice-led from the previous chord in the chosen voicing style
  */
 export const playChord = async (notes: string[], duration: string | number = "1n", time?: number | string) => {
     if (Tone.context.state !== 'running') {
@@ -1076,40 +1091,9 @@ export const playChord = async (notes: string[], duration: string | number = "1n
         return;
     }
 
-    // Build voiced notes with proper octaves
-    // Root in octave 3, rest spread intelligently
-    const rootNote = notes[0];
-    const rootIndex = NOTES.indexOf(rootNote.replace(/\d/, ''));
-
-    const voicedNotes = notes.map((note, i) => {
-        // If note already has octave, use it
-        if (note.match(/\d/)) return note;
-
-        const noteName = note;
-        const noteIndex = NOTES.indexOf(noteName);
-
-        if (i === 0) {
-            // Root note in octave 3
-            return `${noteName}3`;
-        }
-
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        // This creates proper voice leading
-        let octave = 3;
-        if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-            octave = 4;
-        }
-
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = 4;
-        }
-        if (i >= 5) {
-            octave = 5;
-        }
-
-        return `${noteName}${octave}`;
-    });
+    // Notes without octaves are voiced here, led from the last chord played;
+    // scheduled song playback passes notes already voiced by voiceSongSlots
+    const voicedNotes = voiceLiveChord(notes);
 
     let inst = instruments[currentInstrument];
 
@@ -1763,65 +1747,56 @@ export const stopAudio = () => {
 
 // --- Sequencing ---
 
-/**
- * Formats beats into Tone.js "bars:quarters:sixteenths" format assuming 4/4
- * This is just for Transport scheduling compatibility.
- */
-const beatsToTransportTime = (beats: number): string => {
-    const bars = Math.floor(beats / 4);
-    const quarters = Math.floor(beats % 4);
-    const sixteenths = Math.floor((beats % 1) * 4);
-    return `${bars}:${quarters}:${sixteenths}`;
-};
-
 export const scheduleSong = (song: Song) => {
     // Clear previous schedule
     Tone.Transport.cancel(0); // Clear everything to prevent ghosts
     scheduledEvents = [];
-    sectionStartTimes = {};
+    sectionTimes = {};
 
     // --- TIME-BASED SCHEDULING ---
     // We bypass Tone's "bars:beats" grid because it defaults to 4/4 and is hard to change dynamically.
-    // Instead, we calculate the exact time in seconds for every beat.
-
-    const currentTempo = useSongStore.getState().tempo;
-    const secondsPerBeat = 60 / currentTempo;
-
-    let cumulativeTime = 0;
-
-    song.sections.forEach(section => {
-        sectionStartTimes[section.id] = cumulativeTime; // Store start time in seconds
-        section.measures.forEach(measure => {
-            measure.beats.forEach(beat => {
-                const durationSeconds = beat.duration * secondsPerBeat;
-                const scheduledTime = cumulativeTime;
-
-
-
-                // Schedule the event at this exact time
-                const eventId = Tone.Transport.schedule((time) => {
-                    // Update UI - calculate delay from now
-                    const delaySeconds = Math.max(0, time - Tone.context.currentTime);
-                    const delayMs = delaySeconds * 1000;
-
-                    setTimeout(() => {
-                        useSongStore.getState().setPlayingSlot(section.id, beat.id);
-                    }, delayMs);
-
-                    // Play Sound
-                    if (beat.chord) {
-                        playChord(beat.chord.notes, durationSeconds, time);
-                    }
-                }, scheduledTime);
+    // Instead, we calculate the exact time in seconds for every beat, following section tempos and ramps.
+
+    const { tempo: currentTempo, voicingStyle } = useSongStore.getState();
+    // Same voicings and timings as the WAV and MIDI exports
+    const sections = getArrangedSections(song);
+    const voicings = voiceSongSlots(sections, voicingStyle);
+    const timings = getSlotTimings(sections, currentTempo, song.timeSignature);
+
+    // Store section times in seconds (a repeated section jumps to its first pass)
+    sections.forEach(section => {
+        if (sectionTimes[section.id]) return;
+        const passTimings = timings.filter(timing => timing.section === section);
+        const lastTiming = passTimings[passTimings.length - 1];
+        if (lastTiming) {
+            sectionTimes[section.id] = { start: passTimings[0].time, end: lastTiming.time + lastTiming.duration };
+        }
+    });
 
-                scheduledEvents.push(eventId);
+    timings.forEach(({ section, slot: beat, time: scheduledTime, duration: durationSeconds }) => {
+        // Schedule the event at this exact time
+        const eventId = Tone.Transport.schedule((time) => {
+            // Update UI - calculate delay from now
+            const delaySeconds = Math.max(0, time - Tone.context.currentTime);
+            const delayMs = delaySeconds * 1000;
+
+            setTimeout(() => {
+                useSongStore.getState().setPlayingSlot(section.id, beat.id);
+            }, delayMs);
+
+            // Play Sound
+            const voicedNotes = voicings.get(beat);
+            if (voicedNotes) {
+                playChord(voicedNotes, durationSeconds, time);
+            }
+        }, scheduledTime);
 
-                // Advance time for next event
-                cumulativeTime += durationSeconds;
-            });
-        });
+        scheduledEvents.push(eventId);
     });
 
+    const last = timings[timings.length - 1];
+    const cumulativeTime = last ? last.time + last.duration : 0;
+
     // Handle Looping
 
     Tone.Transport.loopStart = 0;
@@ -1850,7 +1825,8 @@ export const playSection = async (section: Section) => {
     // Create a temporary song structure with just this section
     const tempSong: Song = {
         ...useSongStore.getState().currentSong,
-        sections: [section]
+        sections: [section],
+        arrangement: undefined
     };
 
     const { tempo } = useSongStore.getState();
@@ -1894,7 +1870,9 @@ export const setTempo = (bpm: number) => {
 
 export const skipToSection = (direction: 'prev' | 'next') => {
     const { currentSong, playingSectionId } = useSongStore.getState();
-    const sectionIds = currentSong.sections.map((s: { id: string }) => s.id);
+    // Sections in play order, each once (the arrangement may repeat them)
+    const playOrder = getArrangedSections(currentSong).filter((s, i, all) => all.findIndex(other => other.id === s.id) === i);
+    const sectionIds = playOrder.map((s: { id: string }) => s.id);
     let currentIndex = playingSectionId ? sectionIds.indexOf(playingSectionId) : -1;
 
     // If not playing, or playhead not visible, maybe start from 0?
@@ -1913,15 +1891,13 @@ export const skipToSection = (direction: 'prev' | 'next') => {
     if (targetIndex < 0) targetIndex = 0;
 
     const targetSectionId = sectionIds[targetIndex];
-    const targetTimeBeats = sectionStartTimes[targetSectionId] || 0;
-    const transportTime = beatsToTransportTime(targetTimeBeats);
-
-    Tone.Transport.position = transportTime;
+    // Section times follow the tempo map, so seek in seconds
+    Tone.Transport.seconds = sectionTimes[targetSectionId]?.start ?? 0;
 
     // Manually trigger the UI update in case Transport doesn't fire immediately
     // or if paused
     // Finding the first beat of that section
-    const firstBeat = currentSong.sections[targetIndex].measures[0]?.beats[0];
+    const firstBeat = playOrder[targetIndex]?.measures[0]?.beats[0];
     if (firstBeat) {
         useSongStore.getState().setPlayingSlot(targetSectionId, firstBeat.id);
     }
@@ -1934,18 +1910,12 @@ export const toggleLoopMode = () => {
         // Find section to loop: either currently playing or selected
         const targetSectionId = playingSectionId || selectedSectionId;
         const section = currentSong.sections.find((s: { id: string }) => s.id === targetSectionId);
+        // Times of the section's first pass, repeats and tempo changes included
+        const times = section ? sectionTimes[section.id] : undefined;
 
-        if (section) {
-            const startBeats = sectionStartTimes[section.id] ?? 0;
-
-            // Calculate duration of section
-            let duration = 0;
-            section.measures.forEach((m: { beats: any[] }) => m.beats.forEach((b: { duration: number }) => duration += b.duration));
-
-            const endBeats = startBeats + duration;
-
-            Tone.Transport.loopStart = beatsToTransportTime(startBeats);
-            Tone.Transport.loopEnd = beatsToTransportTime(endBeats);
+        if (times) {
+            Tone.Transport.loopStart = times.start;
+            Tone.Transport.loopEnd = times.end;
             Tone.Transport.loop = true;
             return;
         }
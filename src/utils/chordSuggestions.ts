@@ -49,6 +49,40 @@ export const getSuggestedVoicings = (chord: Chord | null, selectedKey: string):
             extensions: ['maj', '7', 'sus4'],
             description: 'A secondary dominant (V of vi) — creates an unexpected dramatic pull toward vi. Perfect for adding tension before a minor chord moment.'
         },
+
+        // Minor and modal keys (numerals relative to the minor/modal tonic)
+        'i': {
+            extensions: ['m', 'm7', 'm9', 'm11', 'm6'],
+            description: 'The minor tonic — home base in a minor key. Darker and more introspective than a major I, it is where minor-key phrases come to rest.'
+        },
+        'ii°': {
+            extensions: ['dim', 'm7♭5'],
+            description: 'The minor-key supertonic — a half-diminished setup chord. It leads naturally into V or v, forming the minor ii–V–i.'
+        },
+        '♭III': {
+            extensions: ['maj', 'maj7', 'maj9', '6'],
+            description: 'The relative major — a bright pocket inside a minor key. Moving here lifts the mood without leaving the key.'
+        },
+        'iv': {
+            extensions: ['m', 'm7', 'm9', 'm6'],
+            description: 'The minor subdominant — heavy, soulful motion away from home. In minor keys it does the job IV does in major, with extra melancholy.'
+        },
+        'v': {
+            extensions: ['m', 'm7', 'm9'],
+            description: 'The minor dominant — a soft, modal pull back to i. Swap in a major V (harmonic minor) when you want a stronger resolution.'
+        },
+        '♭VI': {
+            extensions: ['maj', 'maj7', 'maj9', '6'],
+            description: 'The submediant in minor — warm and cinematic. A staple of epic choruses (i–♭VI–♭III–♭VII) and a great place to swell.'
+        },
+        '♭VII': {
+            extensions: ['maj', '7', 'sus4', 'add9'],
+            description: 'The subtonic — a rock and modal favorite. It walks back to i (or up to I in Mixolydian) without the pull of a leading tone.'
+        },
+        '♭II': {
+            extensions: ['maj', 'maj7'],
+            description: 'The Phrygian ♭II — a dark, exotic half-step above the tonic. Sliding ♭II–i is the signature Phrygian cadence.'
+        },
     };
 
     return suggestions[numeral || ''] || {
@@ -88,6 +122,20 @@ export const VOICING_TOOLTIPS: Record<string, string> = {
     'dim': 'Highly unstable and tense — every note pushes somewhere else. Perfect as a passing chord or chromatic approach.',
     'diminished': 'Highly unstable and tense — every note pushes somewhere else. Perfect as a passing chord or chromatic approach.',
     'm7b5': 'Half-diminished: dark and sophisticated. The natural ii chord in minor keys, essential for minor ii-V-i progressions.',
+    'dim7': 'Fully diminished: symmetrical and dramatic, built from stacked minor 3rds. A classic passing chord and a stand-in for a 7♭9.',
+
+    // Altered dominants
+    '7b9': 'Dominant with a flat 9: dark, Spanish-tinged tension. The go-to V chord when resolving to a minor i.',
+    '7#9': 'The "Hendrix chord": major 3rd and sharp 9 clash for a gritty, bluesy bite. Funk and rock staple.',
+    '7#11': 'Lydian dominant: bright, floating tension without the pull of a 4th. Great for tritone subs and bossa nova.',
+    '7b13': 'Dominant with a flat 13: a bittersweet, film-score pull toward a minor chord.',
+    '7alt': 'Fully altered dominant (♭9/♯9/♭13): maximum tension that snaps back to the tonic. Pure bebop.',
+    'aug7': 'Augmented 7th: the raised 5th leans upward into the next chord. A vintage turnaround colour.',
+
+    // Major and minor colours
+    'maj7#11': 'Lydian major 7th: shimmering and open, the #11 adds a cinematic, modern glow to a major chord.',
+    '6/9': 'Major 6/9: warm, stable and jazzy with no 7th to pull it anywhere. A classic final chord.',
+    'mMaj7': 'Minor-major 7th: mysterious and noir, the major 7th over a minor triad. Think spy-movie endings.',
 };
 
 export const VOICING_OPTIONS = [
@@ -109,4 +157,14 @@ export const VOICING_OPTIONS = [
     'add9',
     '9',
     '11',
+    'dim7',
+    '7b9',
+    '7#9',
+    '7#11',
+    '7b13',
+    '7alt',
+    'aug7',
+    'maj7#11',
+    '6/9',
+    'mMaj7',
 ];
@@ -0,0 +1,91 @@
+/**
+ * Chord Diagram Instruments
+ *
+ * Fretted instruments the chord panel and PDF can draw diagrams for. Each
+ * profile gives the open strings (in string order, as they appear on a
+ * diagram from left to right) and how its shapes are generated: ukuleles and
+ * mandolins don't need the root in the bass, and basses play three-note shells.
+ * The song's tuning applies to guitar only; the capo applies to every
+ * instrument but bass.
+ */
+
+import type { Song } from '../types';
+import type { FretboardVoicingOptions } from './fretboardVoicings';
+import { getCapoedTuning, getSongFretboardTuning } from './guitarTuning';
+
+export type DiagramInstrument = 'guitar' | 'ukulele' | 'baritoneUkulele' | 'mandolin' | 'bass4' | 'bass5' | 'banjo';
+
+export interface DiagramInstrumentProfile {
+    id: DiagramInstrument;
+    name: string;
+    strings: string[];                       // Open strings in string order
+    voicingOptions: FretboardVoicingOptions;
+    usesCapo: boolean;
+}
+
+export const DIAGRAM_INSTRUMENTS: DiagramInstrumentProfile[] = [
+    {
+        id: 'guitar',
+        name: 'Guitar',
+        strings: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'],
+        voicingOptions: {},
+        usesCapo: true
+    },
+    {
+        id: 'ukulele',
+        name: 'Ukulele',
+        strings: ['G4', 'C4', 'E4', 'A4'],      // Re-entrant: the G string is high
+        voicingOptions: { rootInBass: false, maxFret: 12 },
+        usesCapo: true
+    },
+    {
+        id: 'baritoneUkulele',
+        name: 'Baritone Uke',
+        strings: ['D3', 'G3', 'B3', 'E4'],
+        voicingOptions: { rootInBass: false, maxFret: 12 },
+        usesCapo: true
+    },
+    {
+        id: 'mandolin',
+        name: 'Mandolin',
+        strings: ['G3', 'D4', 'A4', 'E5'],
+        voicingOptions: { rootInBass: false, maxFret: 12 },
+        usesCapo: true
+    },
+    {
+        id: 'bass4',
+        name: 'Bass (4-string)',
+        strings: ['E1', 'A1', 'D2', 'G2'],
+        voicingOptions: { maxRequired: 3, maxFret: 12 },
+        usesCapo: false
+    },
+    {
+        id: 'bass5',
+        name: 'Bass (5-string)',
+        strings: ['B0', 'E1', 'A1', 'D2', 'G2'],
+        voicingOptions: { maxRequired: 3, maxFret: 12 },
+        usesCapo: false
+    },
+    {
+        // Four fretted strings; the short fifth string is a g drone left off the diagram
+        id: 'banjo',
+        name: 'Banjo (open G)',
+        strings: ['D3', 'G3', 'B3', 'D4'],
+        voicingOptions: { rootInBass: false, maxFret: 12 },
+        usesCapo: true
+    }
+];
+
+export function getDiagramInstrument(id: DiagramInstrument): DiagramInstrumentProfile {
+    return DIAGRAM_INSTRUMENTS.find(profile => profile.id === id) ?? DIAGRAM_INSTRUMENTS[0];
+}
+
+/**
+ * The strings an instrument's shapes are worked out on for a song,
+ * with the capo acting as the nut
+ */
+export function getDiagramTuning(id: DiagramInstrument, song: Pick<Song, 'tuning' | 'capo'>): string[] {
+    const profile = getDiagramInstrument(id);
+    if (profile.id === 'guitar') return getSongFretboardTuning(song);
+    return profile.usesCapo ? getCapoedTuning(profile.strings, song.capo ?? 0) : profile.strings;
+}
@@ -4,8 +4,11 @@
  */
 
 import * as Tone from 'tone';
-import type { Song, Section, InstrumentType } from '../types';
+import type { Song, InstrumentType } from '../types';
 import { useSongStore } from '../store/useSongStore';
+import { voiceSongSlots } from './voiceLeading';
+import { getArrangedSections } from './arrangement';
+import { getSectionsDuration, getSlotTimings } from './tempoMap';
 
 export interface AudioExportOptions {
     /** Whether to apply effects (wet) or export dry audio */
@@ -33,78 +36,8 @@ export interface EffectSettings {
  * Calculate the total duration of a song in seconds
  */
 export const calculateSongDuration = (song: Song): number => {
-    const secondsPerBeat = 60 / song.tempo;
-    let totalBeats = 0;
-
-    song.sections.forEach((section: Section) => {
-        section.measures.forEach((measure) => {
-            measure.beats.forEach((beat) => {
-                totalBeats += beat.duration;
-            });
-        });
-    });
-
     // Add a small buffer for reverb tail
-    return (totalBeats * secondsPerBeat) + 2;
-};
-
-// Note names for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
-/**
- * Convert flat notation to sharps for consistent indexing
- */
-const normalizeToSharp = (note: string): string => {
-    const flatToSharp: Record<string, string> = {
-        'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
-        'D♭': 'C#', 'E♭': 'D#', 'G♭': 'F#', 'A♭': 'G#', 'B♭': 'A#'
-    };
-    return flatToSharp[note] || note.replace('♯', '#').replace('♭', 'b');
-};
-
-/**
- * Add octave numbers to chord notes
- * Matches the voicing logic from audioEngine.playChord
- */
-const addOctavesToNotes = (notes: string[], baseOctave: number = 3): string[] => {
-    if (!notes || notes.length === 0) return [];
-
-    // Get root note info
-    const rootNote = normalizeToSharp(notes[0].replace(/\d/, ''));
-    const rootIndex = NOTES.indexOf(rootNote);
-
-    return notes.map((note, i) => {
-        // If note already has octave, normalize and return it
-        if (/\d/.test(note)) {
-            return normalizeToSharp(note);
-        }
-
-        const noteName = normalizeToSharp(note);
-        const noteIndex = NOTES.indexOf(noteName);
-
-        if (i === 0) {
-            // Root note in base octave
-            return `${noteName}${baseOctave}`;
-        }
-
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        let octave = baseOctave;
-        if (rootIndex !== -1 && noteIndex !== -1) {
-            if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-                octave = baseOctave + 1;
-            }
-        }
-
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = baseOctave + 1;
-        }
-        if (i >= 5) {
-            octave = baseOctave + 2;
-        }
-
-        return `${noteName}${octave}`;
-    });
+    return getSectionsDuration(getArrangedSections(song), song.tempo, song.timeSignature) + 2;
 };
 
 /**
@@ -293,7 +226,6 @@ export const exportSongAsAudio = async (
 
     // Calculate song duration
     const duration = calculateSongDuration(song);
-    const secondsPerBeat = 60 / song.tempo;
 
     // Get current effect settings from store
     const store = useSongStore.getState();
@@ -383,26 +315,19 @@ export const exportSongAsAudio = async (
             instrument = createPolySynthForExport(instrumentType, instrumentDest);
         }
 
-        // Schedule all chords
-        let currentTime = 0;
-
-        song.sections.forEach((section: Section) => {
-            section.measures.forEach((measure) => {
-                measure.beats.forEach((beat) => {
-                    if (beat.chord && beat.chord.notes && beat.chord.notes.length > 0) {
-                        const durationSeconds = beat.duration * secondsPerBeat;
-                        // Add octaves to notes (chord.notes doesn't have octaves)
-                        const voicedNotes = addOctavesToNotes(beat.chord.notes, 3);
-
-                        // Schedule chord
-                        transport.schedule((time) => {
-                            instrument.triggerAttackRelease(voicedNotes, durationSeconds, time);
-                        }, currentTime);
-                    }
-
-                    currentTime += beat.duration * secondsPerBeat;
-                });
-            });
+        // Schedule all chords, voiced exactly as live playback voices them
+        // and timed by the same tempo map
+        const sections = getArrangedSections(song);
+        const voicings = voiceSongSlots(sections, store.voicingStyle);
+
+        getSlotTimings(sections, song.tempo, song.timeSignature).forEach(({ slot, time: startTime, duration: durationSeconds }) => {
+            const voicedNotes = voicings.get(slot);
+            if (voicedNotes && voicedNotes.length > 0) {
+                // Schedule chord
+                transport.schedule((time) => {
+                    instrument.triggerAttackRelease(voicedNotes, durationSeconds, time);
+                }, startTime);
+            }
         });
 
         // Start transport
@@ -4,74 +4,21 @@
  */
 
 import MidiWriter from 'midi-writer-js';
-import type { Song, Section, Measure } from '../types';
+import type { Song } from '../types';
+import { voiceSongSlots, type VoicingStyle } from './voiceLeading';
+import { getArrangedSections } from './arrangement';
+import { getSlotTimings } from './tempoMap';
+import { getMeasureSignature, isSameTimeSignature } from './meter';
 
 export interface MidiExportOptions {
     /** Base filename (without extension) */
     filename?: string;
     /** Velocity for all notes (1-127, default 100) */
     velocity?: number;
+    /** Chord voicing style, matching live playback (default 'close') */
+    voicingStyle?: VoicingStyle;
 }
 
-// Note names for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
-/**
- * Convert flat notation to sharps for consistent indexing
- */
-const normalizeToSharp = (note: string): string => {
-    const flatToSharp: Record<string, string> = {
-        'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
-        'D♭': 'C#', 'E♭': 'D#', 'G♭': 'F#', 'A♭': 'G#', 'B♭': 'A#'
-    };
-    return flatToSharp[note] || note.replace('♯', '#').replace('♭', 'b');
-};
-
-/**
- * Add octave numbers to chord notes
- * Matches the voicing logic from audioEngine.playChord
- */
-const addOctavesToNotes = (notes: string[], baseOctave: number = 3): string[] => {
-    if (!notes || notes.length === 0) return [];
-
-    // Get root note info
-    const rootNote = normalizeToSharp(notes[0].replace(/\d/, ''));
-    const rootIndex = NOTES.indexOf(rootNote);
-
-    return notes.map((note, i) => {
-        // If note already has octave, normalize and return it
-        if (/\d/.test(note)) {
-            return normalizeToSharp(note);
-        }
-
-        const noteName = normalizeToSharp(note);
-        const noteIndex = NOTES.indexOf(noteName);
-
-        if (i === 0) {
-            // Root note in base octave
-            return `${noteName}${baseOctave}`;
-        }
-
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        let octave = baseOctave;
-        if (rootIndex !== -1 && noteIndex !== -1) {
-            if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-                octave = baseOctave + 1;
-            }
-        }
-
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = baseOctave + 1;
-        }
-        if (i >= 5) {
-            octave = baseOctave + 2;
-        }
-
-        return `${noteName}${octave}`;
-    });
-};
-
 /**
  * Convert beat duration to MIDI ticks
  * Standard MIDI uses 128 ticks per beat (quarter note)
@@ -85,16 +32,24 @@ const durationToTicks = (durationBeats: number): number => {
  * Export a song as a MIDI file blob
  */
 export const exportSongAsMidi = (song: Song, options: MidiExportOptions = {}): Blob => {
-    const { velocity = 100 } = options;
+    const { velocity = 100, voicingStyle = 'close' } = options;
+    const sections = getArrangedSections(song);
+    const voicings = voiceSongSlots(sections, voicingStyle);
+    const timings = getSlotTimings(sections, song.tempo, song.timeSignature);
+    const roundTempo = (tempo: number) => Math.round(tempo * 100) / 100;
 
     // Create a new MIDI track
     const track = new MidiWriter.Track();
 
-    // Set tempo
-    track.setTempo(song.tempo);
+    // Set tempo (the opening section's, which may differ from the song's)
+    let currentTempo = roundTempo(timings[0]?.tempo ?? song.tempo);
+    track.setTempo(currentTempo);
 
-    // Set time signature - midi-writer-js uses different args
-    const [numerator, denominator] = song.timeSignature;
+    // Set time signature (the opening bar's) - midi-writer-js uses different args
+    const signatureAt = (timing: (typeof timings)[number]) =>
+        getMeasureSignature(timing.measure, timing.section.timeSignature ?? song.timeSignature);
+    let currentSignature = timings[0] ? signatureAt(timings[0]) : song.timeSignature;
+    const [numerator, denominator] = currentSignature;
     // The setTimeSignature method signature may vary - wrap in try/catch
     try {
         // Some versions expect (numerator, denominator, clocksPerClick, notesPerQuarter)
@@ -107,40 +62,58 @@ export const exportSongAsMidi = (song: Song, options: MidiExportOptions = {}): B
     // Add track name
     track.addTrackName(song.title);
 
-    // Keep track of accumulated time for scheduling
-    let tickPosition = 0;
-
-    // Process each section
-    song.sections.forEach((section: Section) => {
-        section.measures.forEach((measure: Measure) => {
-            measure.beats.forEach((beat) => {
-                if (beat.chord && beat.chord.notes && beat.chord.notes.length > 0) {
-                    // Add octaves to notes (chord.notes doesn't have octaves)
-                    // Then normalize for MIDI format
-                    const pitches = addOctavesToNotes(beat.chord.notes, 3);
-
-                    // Calculate duration in ticks
-                    const durationTicks = durationToTicks(beat.duration);
-
-                    // Create note event for the chord
-                    const noteEvent = new MidiWriter.NoteEvent({
-                        pitch: pitches as any,
-                        duration: `T${durationTicks}`,
-                        velocity: velocity,
-                        startTick: tickPosition,
-                    });
-
-                    track.addEvent(noteEvent);
-                }
-
-                // Advance position regardless of whether there's a chord (rests)
-                tickPosition += durationToTicks(beat.duration);
+    // Section tempos, ramps and meter changes go on a conductor track. Each
+    // event's delta is counted from the previous change, which midi-writer-js
+    // won't work out for meta events placed by tick.
+    const tempoTrack = new MidiWriter.Track();
+    let hasConductorEvents = false;
+    let lastConductorTick = 0;
+    const addTempoEvent = (bpm: number, tick: number) => {
+        hasConductorEvents = true;
+        tempoTrack.addEvent(new MidiWriter.TempoEvent({ bpm, tick, delta: tick - lastConductorTick }));
+        lastConductorTick = tick;
+    };
+
+    // Process each slot in play order (rests still advance the position)
+    timings.forEach((timing) => {
+        const { slot: beat, beat: startBeat, length, tempo } = timing;
+        const tickPosition = durationToTicks(startBeat);
+
+        const slotTempo = roundTempo(tempo);
+        if (slotTempo !== currentTempo) {
+            addTempoEvent(slotTempo, tickPosition);
+            currentTempo = slotTempo;
+        }
+
+        // A time signature event can't carry a delta, so a tempo event at the
+        // same tick (restating the current tempo) moves the track up to the bar
+        const signature = signatureAt(timing);
+        if (!isSameTimeSignature(signature, currentSignature)) {
+            if (lastConductorTick !== tickPosition || !hasConductorEvents) addTempoEvent(currentTempo, tickPosition);
+            tempoTrack.addEvent(new MidiWriter.TimeSignatureEvent(signature[0], signature[1], 24, 8));
+            currentSignature = signature;
+        }
+
+        const pitches = voicings.get(beat);
+        if (pitches && pitches.length > 0) {
+
+            // Calculate duration in ticks
+            const durationTicks = durationToTicks(length);
+
+            // Create note event for the chord
+            const noteEvent = new MidiWriter.NoteEvent({
+                pitch: pitches as any,
+                duration: `T${durationTicks}`,
+                velocity: velocity,
+                startTick: tickPosition,
             });
-        });
+
+            track.addEvent(noteEvent);
+        }
     });
 
     // Generate MIDI file
-    const write = new MidiWriter.Writer([track]);
+    const write = new MidiWriter.Writer(hasConductorEvents ? [tempoTrack, track] : [track]);
 
     // Get the data URI and convert to Blob
     const dataUri = write.dataUri();
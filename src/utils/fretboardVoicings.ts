@@ -0,0 +1,253 @@
+/**
+ * Fretboard Voicing Generator
+ *
+ * Searches a fretted instrument's neck for playable shapes of a chord: every
+ * combination of muted, open and fretted strings inside a four-fret window,
+ * kept only when it fits the hand (four fingers, with barres) and sounds the
+ * chord's essential tones over the right bass note. Shapes are scored so
+ * familiar open and barre chords come first.
+ */
+
+import type { GuitarChordShape } from './guitarChordData';
+import { NOTES, normalizeNote } from './musicTheory';
+
+// Open-string pitches, lowest string first
+export const STANDARD_TUNING = ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'];
+
+export interface FretboardVoicingOptions {
+    maxFret?: number;   // Highest fret searched (default 15)
+    limit?: number;     // How many shapes to return (default 6)
+    rootInBass?: boolean;   // Lowest sounding note must be the bass note (default true)
+    maxRequired?: number;   // Cap on the essential tones, for instruments that play shells
+}
+
+// Frets a hand covers without stretching (lowest to highest fretted note)
+const MAX_SPAN = 3;
+const MAX_FINGERS = 4;
+const MUTED = -1;
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note.replace(/-?\d+$/, '')));
+const midiNumber = (note: string) => {
+    const octave = note.match(/-?\d+$/);
+    return pitchClass(note) + (octave ? parseInt(octave[0]) + 1 : 4) * 12;
+};
+
+// Which tones (semitones above the bass) to keep first when a shape can't hold them all
+const TONE_PRIORITY = [0, 4, 3, 10, 11, 9, 6, 8, 1, 5, 2, 7];
+
+/**
+ * The pitch classes a shape can't leave out: the perfect fifth goes first
+ * and, in chords that still have more than four tones, so do the natural
+ * 9th and 11th below the chord's top extension (C13 keeps R 3 ♭7 13).
+ */
+function getRequiredPitchClasses(pcs: number[], maxRequired: number = MAX_FINGERS): number[] {
+    const bass = pcs[0];
+    const interval = (pc: number) => (pc - bass + 12) % 12;
+    let required = pcs.length >= 4 ? pcs.filter(pc => interval(pc) !== 7) : [...pcs];
+    if (required.length > MAX_FINGERS) {
+        const top = pcs[pcs.length - 1];
+        required = required.filter(pc => pc === top || (interval(pc) !== 2 && interval(pc) !== 5));
+    }
+    if (required.length > maxRequired) {
+        const rank = (pc: number) => TONE_PRIORITY.indexOf(interval(pc));
+        required = [...required].sort((a, b) => rank(a) - rank(b)).slice(0, maxRequired);
+    }
+    return required;
+}
+
+interface Fingering {
+    fingers: number[];
+    barres: number[];   // Absolute frets held with one finger across strings
+    count: number;
+}
+
+/**
+ * Assign fingers to a shape, lowest fret first. A fret held on several strings
+ * becomes a barre only when the shape needs more than four fingers otherwise,
+ * and only if no string inside the barre is open, muted or fretted lower.
+ * Returns null when the shape can't be fingered.
+ */
+function getFingering(frets: number[]): Fingering | null {
+    const fretted = frets.filter(fret => fret > 0);
+    if (fretted.length === 0) return { fingers: frets.map(() => 0), barres: [], count: 0 };
+
+    const groups = [...new Set(fretted)].sort((a, b) => a - b).map(fret => {
+        const strings = frets.flatMap((f, i) => (f === fret ? [i] : []));
+        const first = strings[0];
+        const last = strings[strings.length - 1];
+        const canBarre = strings.length >= 2 && frets.slice(first, last + 1).every(f => f >= fret);
+        return { fret, strings, canBarre };
+    });
+
+    // Barre the lowest groups first (the index finger), until the shape fits
+    let needed = fretted.length;
+    const barred = new Set<number>();
+    for (const group of groups) {
+        if (needed <= MAX_FINGERS) break;
+        if (!group.canBarre) continue;
+        barred.add(group.fret);
+        needed -= group.strings.length - 1;
+    }
+    if (needed > MAX_FINGERS) return null;
+
+    const lowest = groups[0].fret;
+    const fingers = frets.map(() => 0);
+    let next = 1;
+    let remaining = needed;
+    groups.forEach(group => {
+        const fingersInGroup = barred.has(group.fret) ? 1 : group.strings.length;
+        remaining -= fingersInGroup;
+        // Follow one finger per fret where there's room (index on the lowest fret)
+        let finger = Math.max(next, Math.min(group.fret - lowest + 1, MAX_FINGERS - remaining - fingersInGroup + 1));
+        group.strings.forEach(string => {
+            fingers[string] = finger;
+            if (!barred.has(group.fret)) finger++;
+        });
+        next = barred.has(group.fret) ? finger + 1 : finger;
+    });
+
+    return { fingers, barres: [...barred], count: needed };
+}
+
+/**
+ * Lower is better: low positions, small stretches, few muted strings and
+ * no gaps between sounding strings. Open strings are free only in first position.
+ */
+function scoreShape(frets: number[], fingering: Fingering, pcs: number[], stringPcs: number[]): number {
+    const fretted = frets.filter(fret => fret > 0);
+    const lowest = fretted.length ? Math.min(...fretted) : 0;
+    const highest = fretted.length ? Math.max(...fretted) : 0;
+    const sounding = frets.flatMap((fret, i) => (fret === MUTED ? [] : [i]));
+    const first = sounding[0];
+    const last = sounding[sounding.length - 1];
+
+    const interiorMutes = frets.slice(first, last + 1).filter(fret => fret === MUTED).length;
+    const mutes = frets.length - sounding.length;
+    const openStrings = frets.filter(fret => fret === 0).length;
+    const voiced = new Set(sounding.map(i => (stringPcs[i] + frets[i]) % 12));
+    const missing = pcs.filter(pc => !voiced.has(pc)).length;
+
+    return lowest * 0.6
+        + (highest - lowest) * 0.5
+        + mutes
+        + interiorMutes * 3
+        + fingering.count * 0.3
+        + fingering.barres.length * 0.5
+        + missing * 0.5
+        + (highest > 3 ? openStrings * (lowest > 4 ? 1 : 0.7) : 0)
+        + (sounding.length < 4 ? 2 : 0);
+}
+
+/**
+ * Same sounding strings apart from some extra mutes: one is just a thinner copy of the other
+ */
+const differsOnlyByMutes = (a: number[], b: number[]) =>
+    a.every((fret, i) => fret === b[i] || fret === MUTED || b[i] === MUTED);
+
+/**
+ * Diagram-ready shape: frets relative to baseFret (1 = nut), like the chord diagrams expect
+ */
+function toShape(frets: number[], fingering: Fingering): GuitarChordShape {
+    const fretted = frets.filter(fret => fret > 0);
+    const baseFret = fretted.length && Math.max(...fretted) > 4 ? Math.min(...fretted) : 1;
+    const relative = (fret: number) => fret - baseFret + 1;
+
+    return {
+        frets: frets.map(fret => (fret > 0 ? relative(fret) : fret)),
+        fingers: fingering.fingers,
+        barres: fingering.barres.map(relative),
+        baseFret
+    };
+}
+
+const cache = new Map<string, GuitarChordShape[]>();
+
+/**
+ * Playable shapes for a chord on a fretted instrument, best first.
+ * `notes` are octave-less with the bass note first (as getChordNotes returns
+ * them); `tuning` lists the open strings in string order, lowest string first.
+ */
+export function generateFretboardVoicings(
+    notes: string[],
+    tuning: string[] = STANDARD_TUNING,
+    options: FretboardVoicingOptions = {}
+): GuitarChordShape[] {
+    const { maxFret = 15, limit = 6, rootInBass = true, maxRequired = MAX_FINGERS } = options;
+    const cacheKey = `${notes.join(',')}|${tuning.join(',')}|${maxFret}|${limit}|${rootInBass}|${maxRequired}`;
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    const pcs = notes.map(pitchClass).filter((pc, i, all) => pc !== -1 && all.indexOf(pc) === i);
+    const stringPcs = tuning.map(pitchClass);
+    const stringMidis = tuning.map(midiNumber);
+    if (pcs.length === 0 || stringPcs.includes(-1)) return [];
+
+    const bass = pcs[0];
+    const required = getRequiredPitchClasses(pcs, maxRequired);
+    const minSounding = Math.min(tuning.length, Math.max(3, required.length));
+    const candidates = new Map<string, { frets: number[]; score: number; fingering: Fingering }>();
+
+    // Every four-fret window up the neck; each string may be muted, open or fretted inside it
+    for (let windowStart = 1; windowStart + MAX_SPAN <= maxFret; windowStart++) {
+        const stringChoices = stringPcs.map(openPc => {
+            const choices = [MUTED];
+            if (pcs.includes(openPc)) choices.push(0);
+            for (let fret = windowStart; fret <= windowStart + MAX_SPAN; fret++) {
+                if (pcs.includes((openPc + fret) % 12)) choices.push(fret);
+            }
+            return choices;
+        });
+
+        const frets: number[] = [];
+        const visit = (string: number) => {
+            if (string === tuning.length) {
+                const key = frets.join(',');
+                if (candidates.has(key)) return;
+
+                const sounding = frets.flatMap((fret, i) => (fret === MUTED ? [] : [(stringPcs[i] + fret) % 12]));
+                if (sounding.length < minSounding) return;
+                if (!required.every(pc => sounding.includes(pc))) return;
+                if (rootInBass) {
+                    // Lowest pitch, not lowest string: re-entrant tunings have a high first string
+                    const pitches = frets.flatMap((fret, i) => (fret === MUTED ? [] : [stringMidis[i] + fret]));
+                    if (((Math.min(...pitches) % 12) + 12) % 12 !== bass) return;
+                }
+
+                const fingering = getFingering(frets);
+                if (!fingering) return;
+                candidates.set(key, { frets: [...frets], fingering, score: scoreShape(frets, fingering, pcs, stringPcs) });
+                return;
+            }
+            stringChoices[string].forEach(fret => {
+                frets.push(fret);
+                visit(string + 1);
+                frets.pop();
+            });
+        };
+        visit(0);
+    }
+
+    // Best first, skipping shapes that are thinner copies of one already chosen
+    const chosen: { frets: number[]; fingering: Fingering }[] = [];
+    [...candidates.values()]
+        .sort((a, b) => a.score - b.score)
+        .forEach(candidate => {
+            if (chosen.length >= limit) return;
+            if (chosen.some(shape => differsOnlyByMutes(shape.frets, candidate.frets))) return;
+            chosen.push(candidate);
+        });
+
+    const shapes = chosen.map(({ frets, fingering }) => toShape(frets, fingering));
+    cache.set(cacheKey, shapes);
+    return shapes;
+}
+
+/**
+ * The note an open string sounds at an absolute fret, e.g. ('A2', 3) -> C3
+ */
+export function getFrettedNote(openString: string, fret: number): { note: string; octave: number } | null {
+    const match = openString.match(/^(.+?)(-?\d+)$/);
+    if (!match) return null;
+    const semitones = pitchClass(match[1]) + fret;
+    return { note: NOTES[semitones % 12], octave: parseInt(match[2]) + Math.floor(semitones / 12) };
+}
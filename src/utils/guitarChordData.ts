@@ -1,9 +1,13 @@
-// Guitar chord fingering database
+// Guitar chord shapes, as drawn by the chord diagrams
 // Format: { frets: number[], fingers: number[], barres: number[], baseFret: number }
 // frets: -1 = muted, 0 = open, 1-24 = fret number (relative to baseFret)
 // fingers: 0 = none, 1-4 = index to pinky
 // barres: fret numbers where barre is applied
 // baseFret: starting fret position (1 = nut)
+// Shapes are generated from the chord's notes by generateFretboardVoicings.
+
+import { getChordNotes } from './musicTheory';
+import { STANDARD_TUNING, generateFretboardVoicings, type FretboardVoicingOptions } from './fretboardVoicings';
 
 export interface GuitarChordShape {
     frets: number[];
@@ -12,375 +16,6 @@ export interface GuitarChordShape {
     baseFret: number;
 }
 
-export interface ChordVoicings {
-    [quality: string]: GuitarChordShape[];
-}
-
-export interface GuitarChordDatabase {
-    [root: string]: ChordVoicings;
-}
-
-// Common guitar chord voicings organized by root note and quality
-export const guitarChords: GuitarChordDatabase = {
-    'C': {
-        'maj': [{ frets: [-1, 3, 2, 0, 1, 0], fingers: [0, 3, 2, 0, 1, 0], barres: [], baseFret: 1 }],
-        'm': [{ frets: [-1, 3, 1, 0, 1, 3], fingers: [0, 3, 1, 0, 2, 4], barres: [], baseFret: 1 }],
-        '7': [{ frets: [-1, 3, 2, 3, 1, 0], fingers: [0, 3, 2, 4, 1, 0], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [-1, 3, 2, 0, 0, 0], fingers: [0, 3, 2, 0, 0, 0], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [-1, 3, 2, 0, 0, 0], fingers: [0, 3, 2, 0, 0, 0], barres: [], baseFret: 1 }],
-        'maj13': [{ frets: [-1, 3, 2, 2, 0, 0], fingers: [0, 3, 1, 2, 0, 0], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [-1, 3, 1, 3, 1, 3], fingers: [0, 2, 1, 3, 1, 4], barres: [1], baseFret: 3 }],
-        'm9': [{ frets: [-1, 3, 1, 3, 3, 3], fingers: [0, 2, 1, 3, 4, 4], barres: [], baseFret: 3 }],
-        'm11': [{ frets: [-1, 3, 1, 3, 3, 1], fingers: [0, 2, 1, 3, 4, 1], barres: [1], baseFret: 3 }],
-        'm6': [{ frets: [-1, 3, 1, 2, 1, 3], fingers: [0, 3, 1, 2, 1, 4], barres: [1], baseFret: 1 }],
-        'sus2': [{ frets: [-1, 3, 0, 0, 1, 3], fingers: [0, 2, 0, 0, 1, 3], barres: [], baseFret: 1 }],
-        'sus4': [{ frets: [-1, 3, 3, 0, 1, 1], fingers: [0, 3, 4, 0, 1, 1], barres: [1], baseFret: 1 }],
-        'dim': [{ frets: [-1, 3, 1, -1, 1, 2], fingers: [0, 4, 1, 0, 2, 3], barres: [], baseFret: 1 }],
-        '6': [{ frets: [-1, 3, 2, 2, 1, 0], fingers: [0, 4, 2, 3, 1, 0], barres: [], baseFret: 1 }],
-        'add9': [{ frets: [-1, 3, 2, 0, 3, 0], fingers: [0, 2, 1, 0, 3, 0], barres: [], baseFret: 1 }],
-        '9': [{ frets: [-1, 3, 2, 3, 3, 0], fingers: [0, 2, 1, 3, 4, 0], barres: [], baseFret: 1 }],
-        '11': [{ frets: [-1, 3, 2, 3, 3, 3], fingers: [0, 2, 1, 3, 3, 3], barres: [], baseFret: 1 }],
-        '13': [{ frets: [-1, 3, 2, 3, 3, 5], fingers: [0, 2, 1, 3, 3, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, 3, 4, 3, 4, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 1 }],
-    },
-    'C#': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 4 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 4 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 4 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 4 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 4 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 4 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 4 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 4 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 4 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 4 }],
-        'add9': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        '9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 2, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 4 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 4 }],
-    },
-    'Db': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 4 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 4 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 4 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 4 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 4 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 4 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 4 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 4 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 4 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 4 }],
-        'add9': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        '9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 2, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 4 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 4 }],
-    },
-    'D': {
-        'maj': [{ frets: [-1, -1, 0, 2, 3, 2], fingers: [0, 0, 0, 1, 3, 2], barres: [], baseFret: 1 }],
-        'm': [{ frets: [-1, -1, 0, 2, 3, 1], fingers: [0, 0, 0, 2, 3, 1], barres: [], baseFret: 1 }],
-        '7': [{ frets: [-1, -1, 0, 2, 1, 2], fingers: [0, 0, 0, 2, 1, 3], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [-1, -1, 0, 2, 2, 2], fingers: [0, 0, 0, 1, 2, 3], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [-1, -1, 0, 2, 2, 0], fingers: [0, 0, 0, 1, 2, 0], barres: [], baseFret: 1 }],
-        'maj13': [{ frets: [-1, -1, 0, 2, 2, 4], fingers: [0, 0, 0, 1, 1, 3], barres: [2], baseFret: 1 }],
-        'm7': [{ frets: [-1, -1, 0, 2, 1, 1], fingers: [0, 0, 0, 2, 1, 1], barres: [1], baseFret: 1 }],
-        'm9': [{ frets: [-1, -1, 0, 2, 1, 0], fingers: [0, 0, 0, 2, 1, 0], barres: [], baseFret: 1 }],
-        'm11': [{ frets: [-1, -1, 0, 2, 1, 3], fingers: [0, 0, 0, 2, 1, 4], barres: [], baseFret: 1 }],
-        'm6': [{ frets: [-1, -1, 0, 2, 0, 1], fingers: [0, 0, 0, 2, 0, 1], barres: [], baseFret: 1 }],
-        'sus2': [{ frets: [-1, -1, 0, 2, 3, 0], fingers: [0, 0, 0, 1, 2, 0], barres: [], baseFret: 1 }],
-        'sus4': [{ frets: [-1, -1, 0, 2, 3, 3], fingers: [0, 0, 0, 1, 2, 3], barres: [], baseFret: 1 }],
-        'dim': [{ frets: [-1, -1, 0, 1, 3, 1], fingers: [0, 0, 0, 1, 4, 2], barres: [], baseFret: 1 }],
-        '6': [{ frets: [-1, -1, 0, 2, 0, 2], fingers: [0, 0, 0, 1, 0, 2], barres: [], baseFret: 1 }],
-        'add9': [{ frets: [-1, -1, 0, 2, 3, 0], fingers: [0, 0, 0, 1, 2, 0], barres: [], baseFret: 1 }],
-        '9': [{ frets: [-1, -1, 0, 2, 1, 0], fingers: [0, 0, 0, 2, 1, 0], barres: [], baseFret: 1 }],
-        '11': [{ frets: [-1, -1, 0, 2, 1, 3], fingers: [0, 0, 0, 2, 1, 4], barres: [], baseFret: 1 }],
-        '13': [{ frets: [-1, -1, 0, 2, 1, 4], fingers: [0, 0, 0, 2, 1, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, -1, 0, 1, 1, 1], fingers: [0, 0, 0, 1, 2, 3], barres: [], baseFret: 1 }],
-    },
-    'D#': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 6 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 6 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 6 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 6 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 6 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 6 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 6 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 6 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 6 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 6 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 6 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 6 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 6 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 6 }],
-        'add9': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 6 }],
-        '9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 2, 4, 1, 1, 1], barres: [1], baseFret: 6 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 6 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 6 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 6 }],
-    },
-    'Eb': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 6 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 6 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 6 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 6 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 6 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 6 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 6 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 6 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 6 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 6 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 6 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 6 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 6 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 6 }],
-        'add9': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 6 }],
-        '9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 2, 4, 1, 1, 1], barres: [1], baseFret: 6 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 6 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 6 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 6 }],
-    },
-    'E': {
-        'maj': [{ frets: [0, 2, 2, 1, 0, 0], fingers: [0, 2, 3, 1, 0, 0], barres: [], baseFret: 1 }],
-        'm': [{ frets: [0, 2, 2, 0, 0, 0], fingers: [0, 2, 3, 0, 0, 0], barres: [], baseFret: 1 }],
-        '7': [{ frets: [0, 2, 0, 1, 0, 0], fingers: [0, 2, 0, 1, 0, 0], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [0, 2, 1, 1, 0, 0], fingers: [0, 3, 1, 2, 0, 0], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [0, 2, 1, 1, 0, 2], fingers: [0, 2, 1, 1, 0, 3], barres: [1], baseFret: 1 }],
-        'maj13': [{ frets: [0, 2, 1, 1, 2, 2], fingers: [0, 2, 1, 1, 3, 3], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [0, 2, 0, 0, 0, 0], fingers: [0, 1, 0, 0, 0, 0], barres: [], baseFret: 1 }],
-        'm9': [{ frets: [0, 2, 0, 0, 0, 2], fingers: [0, 2, 0, 0, 0, 3], barres: [], baseFret: 1 }],
-        'm11': [{ frets: [0, 2, 0, 0, 3, 0], fingers: [0, 2, 0, 0, 4, 0], barres: [], baseFret: 1 }],
-        'm6': [{ frets: [0, 2, 2, 0, 2, 0], fingers: [0, 1, 2, 0, 3, 0], barres: [], baseFret: 1 }],
-        'sus2': [{ frets: [0, 2, 4, 4, 0, 0], fingers: [0, 1, 3, 4, 0, 0], barres: [], baseFret: 1 }],
-        'sus4': [{ frets: [0, 2, 2, 2, 0, 0], fingers: [0, 2, 3, 4, 0, 0], barres: [], baseFret: 1 }],
-        'dim': [{ frets: [0, 1, 2, 0, 2, 0], fingers: [0, 1, 2, 0, 3, 0], barres: [], baseFret: 1 }],
-        '6': [{ frets: [0, 2, 2, 1, 2, 0], fingers: [0, 2, 3, 1, 4, 0], barres: [], baseFret: 1 }],
-        'add9': [{ frets: [0, 2, 2, 1, 0, 2], fingers: [0, 2, 3, 1, 0, 4], barres: [], baseFret: 1 }],
-        '9': [{ frets: [0, 2, 0, 1, 0, 2], fingers: [0, 2, 0, 1, 0, 3], barres: [], baseFret: 1 }],
-        '11': [{ frets: [0, 2, 0, 1, 3, 0], fingers: [0, 2, 0, 1, 4, 0], barres: [], baseFret: 1 }],
-        '13': [{ frets: [0, 2, 0, 1, 2, 2], fingers: [0, 2, 0, 1, 3, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [0, 1, 0, 0, 2, 0], fingers: [0, 1, 0, 0, 2, 0], barres: [], baseFret: 1 }],
-    },
-    'F': {
-        'maj': [{ frets: [1, 3, 3, 2, 1, 1], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 1 }],
-        'm': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 1 }],
-        '7': [{ frets: [1, 3, 1, 2, 1, 1], fingers: [1, 3, 1, 2, 1, 1], barres: [1], baseFret: 1 }],
-        'maj7': [{ frets: [-1, -1, 3, 2, 1, 0], fingers: [0, 0, 3, 2, 1, 0], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [1, 0, 3, 0, 1, 0], fingers: [1, 0, 3, 0, 2, 0], barres: [], baseFret: 1 }],
-        'maj13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 3, 1, 2, 4, 4], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 3, 1, 1, 1, 1], barres: [1], baseFret: 1 }],
-        'm9': [{ frets: [1, 3, 1, 1, 1, 3], fingers: [1, 3, 1, 1, 1, 4], barres: [1], baseFret: 1 }],
-        'm11': [{ frets: [1, 3, 1, 1, 4, 1], fingers: [1, 2, 1, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'm6': [{ frets: [1, 3, 3, 1, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'sus2': [{ frets: [-1, -1, 3, 0, 1, 1], fingers: [0, 0, 3, 0, 1, 1], barres: [1], baseFret: 1 }],
-        'sus4': [{ frets: [1, 3, 3, 3, 1, 1], fingers: [1, 2, 3, 4, 1, 1], barres: [1], baseFret: 1 }],
-        'dim': [{ frets: [1, 2, 3, 1, -1, -1], fingers: [1, 2, 4, 1, 0, 0], barres: [1], baseFret: 1 }],
-        '6': [{ frets: [1, -1, 0, 2, 1, 1], fingers: [1, 0, 0, 3, 1, 1], barres: [1], baseFret: 1 }],
-        'add9': [{ frets: [-1, -1, 3, 2, 1, 3], fingers: [0, 0, 3, 2, 1, 4], barres: [], baseFret: 1 }],
-        '9': [{ frets: [1, 3, 1, 2, 1, 3], fingers: [1, 3, 1, 2, 1, 4], barres: [1], baseFret: 1 }],
-        '11': [{ frets: [1, 3, 1, 2, 4, 1], fingers: [1, 2, 1, 3, 4, 1], barres: [1], baseFret: 1 }],
-        '13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 2, 1, 3, 4, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [1, 2, 3, 1, 4, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-    },
-    'F#': {
-        'maj': [{ frets: [1, 3, 3, 2, 1, 1], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 2 }],
-        'm': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 2 }],
-        '7': [{ frets: [1, 3, 1, 2, 1, 1], fingers: [1, 3, 1, 2, 1, 1], barres: [1], baseFret: 2 }],
-        'maj7': [{ frets: [1, 3, 2, 2, 1, 1], fingers: [1, 4, 2, 3, 1, 1], barres: [1], baseFret: 2 }],
-        'maj9': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 4, 1, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'maj13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 3, 1, 2, 4, 4], barres: [], baseFret: 2 }],
-        'm7': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 3, 1, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'm9': [{ frets: [1, 3, 1, 1, 1, 3], fingers: [1, 3, 1, 1, 1, 4], barres: [1], baseFret: 2 }],
-        'm11': [{ frets: [1, 3, 1, 1, 4, 1], fingers: [1, 2, 1, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'm6': [{ frets: [1, 3, 3, 1, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'sus2': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'sus4': [{ frets: [1, 3, 3, 3, 1, 1], fingers: [1, 2, 3, 4, 1, 1], barres: [1], baseFret: 2 }],
-        'dim': [{ frets: [1, 2, 3, 1, -1, -1], fingers: [1, 2, 4, 1, 0, 0], barres: [1], baseFret: 2 }],
-        '6': [{ frets: [1, 3, 3, 2, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'add9': [{ frets: [1, 3, 3, 2, 1, 3], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 2 }],
-        '9': [{ frets: [-1, -1, 4, 3, 2, 4], fingers: [0, 0, 3, 2, 1, 4], barres: [], baseFret: 2 }],
-        '11': [{ frets: [1, 3, 1, 2, 4, 1], fingers: [1, 2, 1, 3, 4, 1], barres: [1], baseFret: 2 }],
-        '13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 2, 1, 3, 4, 4], barres: [], baseFret: 2 }],
-        'm7b5': [{ frets: [1, 2, 3, 1, 4, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-    },
-    'Gb': {
-        'maj': [{ frets: [1, 3, 3, 2, 1, 1], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 2 }],
-        'm': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 2 }],
-        '7': [{ frets: [1, 3, 1, 2, 1, 1], fingers: [1, 3, 1, 2, 1, 1], barres: [1], baseFret: 2 }],
-        'maj7': [{ frets: [1, 3, 2, 2, 1, 1], fingers: [1, 4, 2, 3, 1, 1], barres: [1], baseFret: 2 }],
-        'maj9': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 4, 1, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'maj13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 3, 1, 2, 4, 4], barres: [], baseFret: 2 }],
-        'm7': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 3, 1, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'm9': [{ frets: [1, 3, 1, 1, 1, 3], fingers: [1, 3, 1, 1, 1, 4], barres: [1], baseFret: 2 }],
-        'm11': [{ frets: [1, 3, 1, 1, 4, 1], fingers: [1, 2, 1, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'm6': [{ frets: [1, 3, 3, 1, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'sus2': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'sus4': [{ frets: [1, 3, 3, 3, 1, 1], fingers: [1, 2, 3, 4, 1, 1], barres: [1], baseFret: 2 }],
-        'dim': [{ frets: [1, 2, 3, 1, -1, -1], fingers: [1, 2, 4, 1, 0, 0], barres: [1], baseFret: 2 }],
-        '6': [{ frets: [1, 3, 3, 2, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-        'add9': [{ frets: [1, 3, 3, 2, 1, 3], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 2 }],
-        '9': [{ frets: [-1, -1, 4, 3, 2, 4], fingers: [0, 0, 3, 2, 1, 4], barres: [], baseFret: 2 }],
-        '11': [{ frets: [1, 3, 1, 2, 4, 1], fingers: [1, 2, 1, 3, 4, 1], barres: [1], baseFret: 2 }],
-        '13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 2, 1, 3, 4, 4], barres: [], baseFret: 2 }],
-        'm7b5': [{ frets: [1, 2, 3, 1, 4, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 2 }],
-    },
-    'G': {
-        'maj': [{ frets: [3, 2, 0, 0, 0, 3], fingers: [2, 1, 0, 0, 0, 3], barres: [], baseFret: 1 }],
-        'm': [{ frets: [3, 1, 0, 0, 3, 3], fingers: [2, 1, 0, 0, 3, 4], barres: [], baseFret: 1 }],
-        '7': [{ frets: [3, 2, 0, 0, 0, 1], fingers: [3, 2, 0, 0, 0, 1], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [3, 2, 0, 0, 0, 2], fingers: [3, 1, 0, 0, 0, 2], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [3, 0, 0, 0, 0, 2], fingers: [2, 0, 0, 0, 0, 1], barres: [], baseFret: 1 }],
-        'maj13': [{ frets: [3, 2, 0, 0, 2, 2], fingers: [3, 1, 0, 0, 2, 2], barres: [2], baseFret: 1 }],
-        'm7': [{ frets: [3, 1, 0, 0, 3, 0], fingers: [2, 1, 0, 0, 3, 0], barres: [], baseFret: 1 }],
-        'm9': [{ frets: [3, 1, 0, 0, 0, 0], fingers: [2, 1, 0, 0, 0, 0], barres: [], baseFret: 1 }],
-        'm11': [{ frets: [3, 1, 0, 0, 3, 3], fingers: [2, 1, 0, 0, 3, 4], barres: [], baseFret: 1 }],
-        'm6': [{ frets: [3, 1, 0, 0, 0, 0], fingers: [2, 1, 0, 0, 0, 0], barres: [], baseFret: 1 }],
-        'sus2': [{ frets: [3, 0, 0, 0, 3, 3], fingers: [1, 0, 0, 0, 2, 3], barres: [], baseFret: 1 }],
-        'sus4': [{ frets: [3, 3, 0, 0, 1, 3], fingers: [2, 3, 0, 0, 1, 4], barres: [], baseFret: 1 }],
-        'dim': [{ frets: [-1, -1, 0, 3, 2, 3], fingers: [0, 0, 0, 2, 1, 3], barres: [], baseFret: 1 }],
-        '6': [{ frets: [3, 2, 0, 0, 0, 0], fingers: [2, 1, 0, 0, 0, 0], barres: [], baseFret: 1 }],
-        'add9': [{ frets: [3, 0, 0, 0, 0, 3], fingers: [2, 0, 0, 0, 0, 3], barres: [], baseFret: 1 }],
-        '9': [{ frets: [3, 2, 0, 1, 0, 1], fingers: [3, 2, 0, 1, 0, 1], barres: [1], baseFret: 1 }],
-        '11': [{ frets: [3, 2, 0, 1, 3, 1], fingers: [3, 2, 0, 1, 4, 1], barres: [1], baseFret: 1 }],
-        '13': [{ frets: [3, 2, 0, 1, 0, 5], fingers: [2, 1, 0, 1, 0, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, -1, 0, 3, 2, 3], fingers: [0, 0, 0, 2, 1, 3], barres: [], baseFret: 1 }],
-    },
-    'G#': {
-        'maj': [{ frets: [1, 3, 3, 2, 1, 1], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 4 }],
-        'm': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        '7': [{ frets: [1, 3, 1, 2, 1, 1], fingers: [1, 3, 1, 2, 1, 1], barres: [1], baseFret: 4 }],
-        'maj7': [{ frets: [1, 3, 2, 2, 1, 1], fingers: [1, 4, 2, 3, 1, 1], barres: [1], baseFret: 4 }],
-        'maj9': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 4, 1, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'maj13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 3, 1, 2, 4, 4], barres: [], baseFret: 4 }],
-        'm7': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 3, 1, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'm9': [{ frets: [1, 3, 1, 1, 1, 3], fingers: [1, 3, 1, 1, 1, 4], barres: [1], baseFret: 4 }],
-        'm11': [{ frets: [1, 3, 1, 1, 4, 1], fingers: [1, 2, 1, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'm6': [{ frets: [1, 3, 3, 1, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'sus2': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'sus4': [{ frets: [1, 3, 3, 3, 1, 1], fingers: [1, 2, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        'dim': [{ frets: [1, 2, 3, 1, -1, -1], fingers: [1, 2, 4, 1, 0, 0], barres: [1], baseFret: 4 }],
-        '6': [{ frets: [1, 3, 3, 2, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'add9': [{ frets: [1, 3, 3, 2, 1, 3], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 4 }],
-        '9': [{ frets: [-1, -1, 4, 3, 2, 4], fingers: [0, 0, 3, 2, 1, 4], barres: [], baseFret: 4 }],
-        '11': [{ frets: [1, 3, 1, 2, 4, 1], fingers: [1, 2, 1, 3, 4, 1], barres: [1], baseFret: 4 }],
-        '13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 2, 1, 3, 4, 4], barres: [], baseFret: 4 }],
-        'm7b5': [{ frets: [1, 2, 3, 1, 4, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-    },
-    'Ab': {
-        'maj': [{ frets: [1, 3, 3, 2, 1, 1], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 4 }],
-        'm': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        '7': [{ frets: [1, 3, 1, 2, 1, 1], fingers: [1, 3, 1, 2, 1, 1], barres: [1], baseFret: 4 }],
-        'maj7': [{ frets: [1, 3, 2, 2, 1, 1], fingers: [1, 4, 2, 3, 1, 1], barres: [1], baseFret: 4 }],
-        'maj9': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 4, 1, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'maj13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 3, 1, 2, 4, 4], barres: [], baseFret: 4 }],
-        'm7': [{ frets: [1, 3, 1, 1, 1, 1], fingers: [1, 3, 1, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'm9': [{ frets: [1, 3, 1, 1, 1, 3], fingers: [1, 3, 1, 1, 1, 4], barres: [1], baseFret: 4 }],
-        'm11': [{ frets: [1, 3, 1, 1, 4, 1], fingers: [1, 2, 1, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'm6': [{ frets: [1, 3, 3, 1, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'sus2': [{ frets: [1, 3, 3, 1, 1, 1], fingers: [1, 3, 4, 1, 1, 1], barres: [1], baseFret: 4 }],
-        'sus4': [{ frets: [1, 3, 3, 3, 1, 1], fingers: [1, 2, 3, 4, 1, 1], barres: [1], baseFret: 4 }],
-        'dim': [{ frets: [1, 2, 3, 1, -1, -1], fingers: [1, 2, 4, 1, 0, 0], barres: [1], baseFret: 4 }],
-        '6': [{ frets: [1, 3, 3, 2, 3, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-        'add9': [{ frets: [1, 3, 3, 2, 1, 3], fingers: [1, 3, 4, 2, 1, 1], barres: [1], baseFret: 4 }],
-        '9': [{ frets: [-1, -1, 4, 3, 2, 4], fingers: [0, 0, 3, 2, 1, 4], barres: [], baseFret: 4 }],
-        '11': [{ frets: [1, 3, 1, 2, 4, 1], fingers: [1, 2, 1, 3, 4, 1], barres: [1], baseFret: 4 }],
-        '13': [{ frets: [1, 3, 1, 2, 3, 3], fingers: [1, 2, 1, 3, 4, 4], barres: [], baseFret: 4 }],
-        'm7b5': [{ frets: [1, 2, 3, 1, 4, 1], fingers: [1, 2, 3, 1, 4, 1], barres: [1], baseFret: 4 }],
-    },
-    'A': {
-        'maj': [{ frets: [-1, 0, 2, 2, 2, 0], fingers: [0, 0, 1, 2, 3, 0], barres: [], baseFret: 1 }],
-        'm': [{ frets: [-1, 0, 2, 2, 1, 0], fingers: [0, 0, 2, 3, 1, 0], barres: [], baseFret: 1 }],
-        '7': [{ frets: [-1, 0, 2, 0, 2, 0], fingers: [0, 0, 1, 0, 2, 0], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [-1, 0, 2, 1, 2, 0], fingers: [0, 0, 2, 1, 3, 0], barres: [], baseFret: 1 }],
-        'maj9': [{ frets: [-1, 0, 2, 1, 0, 0], fingers: [0, 0, 2, 1, 0, 0], barres: [], baseFret: 1 }],
-        'maj13': [{ frets: [-1, 0, 2, 1, 2, 4], fingers: [0, 0, 2, 1, 3, 4], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [-1, 0, 2, 0, 1, 0], fingers: [0, 0, 2, 0, 1, 0], barres: [], baseFret: 1 }],
-        'm9': [{ frets: [-1, 0, 2, 0, 1, 3], fingers: [0, 0, 2, 0, 1, 4], barres: [], baseFret: 1 }],
-        'm11': [{ frets: [-1, 0, 0, 0, 1, 0], fingers: [0, 0, 0, 0, 1, 0], barres: [], baseFret: 1 }],
-        'm6': [{ frets: [-1, 0, 2, 2, 1, 2], fingers: [0, 0, 2, 3, 1, 4], barres: [], baseFret: 1 }],
-        'sus2': [{ frets: [-1, 0, 2, 2, 0, 0], fingers: [0, 0, 1, 2, 0, 0], barres: [], baseFret: 1 }],
-        'sus4': [{ frets: [-1, 0, 2, 2, 3, 0], fingers: [0, 0, 1, 2, 3, 0], barres: [], baseFret: 1 }],
-        'dim': [{ frets: [-1, 0, 1, 2, 1, -1], fingers: [0, 0, 1, 3, 2, 0], barres: [], baseFret: 1 }],
-        '6': [{ frets: [-1, 0, 2, 2, 2, 2], fingers: [0, 0, 1, 1, 1, 1], barres: [2], baseFret: 1 }],
-        'add9': [{ frets: [-1, 0, 2, 2, 0, 0], fingers: [0, 0, 1, 2, 0, 0], barres: [], baseFret: 1 }],
-        '9': [{ frets: [-1, 0, 2, 4, 2, 3], fingers: [0, 0, 1, 3, 1, 2], barres: [2], baseFret: 1 }],
-        '11': [{ frets: [-1, 0, 0, 0, 2, 0], fingers: [0, 0, 0, 0, 1, 0], barres: [], baseFret: 1 }],
-        '13': [{ frets: [-1, 0, 2, 0, 2, 4], fingers: [0, 0, 1, 0, 2, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, 0, 1, 0, 1, -1], fingers: [0, 0, 1, 0, 2, 0], barres: [], baseFret: 1 }],
-    },
-    'A#': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 1 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 1 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 1 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 1 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 1 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 1 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 1 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 1 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 1 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 1 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 1 }],
-        'add9': [{ frets: [-1, 1, 0, 3, 1, 1], fingers: [0, 1, 0, 4, 2, 3], barres: [], baseFret: 1 }],
-        '9': [{ frets: [-1, 1, 0, 1, 1, 1], fingers: [0, 2, 0, 3, 3, 3], barres: [1], baseFret: 1 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 1 }],
-    },
-    'Bb': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 1 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 1 }],
-        '7': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 1 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 1 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 1 }],
-        'm7': [{ frets: [-1, 1, 3, 1, 2, 1], fingers: [0, 1, 3, 1, 2, 1], barres: [1], baseFret: 1 }],
-        'm9': [{ frets: [-1, 1, 3, 1, 2, 3], fingers: [0, 1, 3, 1, 2, 4], barres: [1], baseFret: 1 }],
-        'm11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 2, 1, 4, 1], barres: [1], baseFret: 1 }],
-        'm6': [{ frets: [-1, 1, 3, 1, 3, 1], fingers: [0, 1, 2, 1, 3, 1], barres: [1], baseFret: 1 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 1 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 1 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 1 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 1 }],
-        'add9': [{ frets: [-1, 1, 0, 3, 1, 1], fingers: [0, 1, 0, 4, 2, 3], barres: [], baseFret: 1 }],
-        '9': [{ frets: [-1, 1, 0, 1, 1, 1], fingers: [0, 2, 0, 3, 3, 3], barres: [1], baseFret: 1 }],
-        '11': [{ frets: [-1, 1, 3, 1, 4, 1], fingers: [0, 1, 3, 1, 4, 1], barres: [1], baseFret: 1 }],
-        '13': [{ frets: [-1, 1, 3, 1, 3, 3], fingers: [0, 1, 3, 1, 4, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 1 }],
-    },
-    'B': {
-        'maj': [{ frets: [-1, 1, 3, 3, 3, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 2 }],
-        'm': [{ frets: [-1, 1, 3, 3, 2, 1], fingers: [0, 1, 3, 4, 2, 1], barres: [1], baseFret: 2 }],
-        '7': [{ frets: [-1, 2, 1, 2, 0, 2], fingers: [0, 2, 1, 3, 0, 4], barres: [], baseFret: 1 }],
-        'maj7': [{ frets: [-1, 1, 3, 2, 3, 1], fingers: [0, 1, 3, 2, 4, 1], barres: [1], baseFret: 2 }],
-        'maj9': [{ frets: [-1, 1, 3, 1, 1, 1], fingers: [0, 1, 4, 1, 1, 1], barres: [1], baseFret: 2 }],
-        'maj13': [{ frets: [-1, 1, 3, 2, 3, 3], fingers: [0, 1, 3, 2, 4, 4], barres: [], baseFret: 2 }],
-        'm7': [{ frets: [-1, 2, 0, 2, 0, 2], fingers: [0, 1, 0, 2, 0, 3], barres: [], baseFret: 1 }],
-        'm9': [{ frets: [-1, 2, 0, 2, 2, 2], fingers: [0, 1, 0, 2, 3, 4], barres: [], baseFret: 1 }],
-        'm11': [{ frets: [-1, 2, 0, 2, 0, 0], fingers: [0, 1, 0, 2, 0, 0], barres: [], baseFret: 1 }],
-        'm6': [{ frets: [-1, 2, 0, 1, 0, 2], fingers: [0, 2, 0, 1, 0, 3], barres: [], baseFret: 1 }],
-        'sus2': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 2 }],
-        'sus4': [{ frets: [-1, 1, 3, 3, 4, 1], fingers: [0, 1, 2, 3, 4, 1], barres: [1], baseFret: 2 }],
-        'dim': [{ frets: [-1, 1, 2, 3, 2, -1], fingers: [0, 1, 2, 4, 3, 0], barres: [], baseFret: 2 }],
-        '6': [{ frets: [-1, 1, 3, 3, 3, 3], fingers: [0, 1, 2, 2, 2, 2], barres: [3], baseFret: 2 }],
-        'add9': [{ frets: [-1, 1, 3, 3, 1, 1], fingers: [0, 1, 3, 4, 1, 1], barres: [1], baseFret: 2 }],
-        '9': [{ frets: [-1, 2, 1, 2, 2, 2], fingers: [0, 2, 1, 3, 3, 3], barres: [], baseFret: 1 }],
-        '11': [{ frets: [-1, 2, 1, 2, 0, 0], fingers: [0, 2, 1, 3, 0, 0], barres: [], baseFret: 1 }],
-        '13': [{ frets: [-1, 2, 1, 2, 2, 4], fingers: [0, 2, 1, 3, 3, 4], barres: [], baseFret: 1 }],
-        'm7b5': [{ frets: [-1, 1, 2, 1, 2, -1], fingers: [0, 1, 3, 2, 4, 0], barres: [], baseFret: 2 }],
-    },
-};
-
 // Helper function to normalize root note (handle enharmonics)
 export function normalizeRoot(root: string): string {
     // Clean up unicode symbols first
@@ -453,6 +88,21 @@ export function normalizeQuality(quality: string): string {
         'ø7': 'm7b5',
         'ø': 'm7b5',
         'm7b5': 'm7b5',
+        'diminished7': 'dim7',
+        '°7': 'dim7',
+
+        // Altered dominants and jazz colours
+        'dominant7flat9': '7b9',
+        'dominant7sharp9': '7#9',
+        'dominant7sharp11': '7#11',
+        'dominant7flat13': '7b13',
+        'dominant7alt': '7alt',
+        'augmented7': 'aug7',
+        '+7': 'aug7',
+        'major7sharp11': 'maj7#11',
+        'minorMajor7': 'mMaj7',
+        'm(maj7)': 'mMaj7',
+        'major6add9': '6/9',
 
         // Other
         'sixth': '6',
@@ -462,17 +112,39 @@ export function normalizeQuality(quality: string): string {
     return qualityMap[quality] || quality;
 }
 
-// Get chord shape for a given root and quality
-export function getGuitarChord(root: string, quality: string): GuitarChordShape | null {
-    const normalizedRoot = normalizeRoot(root);
-    const normalizedQuality = normalizeQuality(quality);
+// Short quality keys that getChordNotes doesn't resolve itself
+const FORMULA_QUALITIES: Record<string, string> = {
+    'maj': 'major',
+    'm': 'minor',
+    'aug': 'augmented',
+};
 
-    const rootChords = guitarChords[normalizedRoot];
-    if (!rootChords) return null;
+// Get every playable shape for a given root and quality, best first
+// (other fretted instruments pass their own tuning and voicing options)
+export function getGuitarVoicings(
+    root: string,
+    quality: string,
+    tuning: string[] = STANDARD_TUNING,
+    options: FretboardVoicingOptions = {}
+): GuitarChordShape[] {
+    const normalizedQuality = normalizeQuality(quality);
+    const notes = getChordNotes(normalizeRoot(root), FORMULA_QUALITIES[normalizedQuality] ?? normalizedQuality);
+    return generateFretboardVoicings(notes, tuning, options);
+}
 
-    const voicings = rootChords[normalizedQuality];
-    if (!voicings || voicings.length === 0) return null;
+// Get the best chord shape for a given root and quality
+export function getGuitarChord(
+    root: string,
+    quality: string,
+    tuning: string[] = STANDARD_TUNING,
+    options: FretboardVoicingOptions = {}
+): GuitarChordShape | null {
+    return getGuitarVoicings(root, quality, tuning, options)[0] ?? null;
+}
 
-    // Return first voicing (can extend to support multiple)
-    return voicings[0];
+// Absolute frets of a shape as tab, low string first: 'x32010', or 'x-10-12-12' past fret 9
+export function getShapeTab(shape: GuitarChordShape): string {
+    const frets = shape.frets.map(fret => (fret > 0 ? fret + shape.baseFret - 1 : fret));
+    const labels = frets.map(fret => (fret === -1 ? 'x' : String(fret)));
+    return frets.some(fret => fret > 9) ? labels.join('-') : labels.join('');
 }
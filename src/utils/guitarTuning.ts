@@ -0,0 +1,144 @@
+/**
+ * Guitar Tuning Utilities
+ *
+ * Song-level guitar tuning and capo. A capo is treated as a raised nut: the
+ * capoed tuning is every open string transposed up by the capo fret, and
+ * chord diagrams, the mode fretboard and PDF diagrams all work from it with
+ * frets counted from the capo. The capo advisor compares how easy the key's
+ * main chords are to play at each capo position in the current tuning.
+ */
+
+import type { Song } from '../types';
+import { STANDARD_TUNING, generateFretboardVoicings, getFrettedNote, type FretboardVoicingOptions } from './fretboardVoicings';
+import {
+    NOTES,
+    TONALITIES,
+    getDiatonicChords,
+    getKeyNameForNote,
+    getTonic,
+    normalizeNote,
+    transposeNote,
+    type Tonality
+} from './musicTheory';
+
+export interface GuitarTuningPreset {
+    id: string;
+    name: string;
+    strings: string[];  // Open strings, lowest first
+}
+
+export const GUITAR_TUNINGS: GuitarTuningPreset[] = [
+    { id: 'standard', name: 'Standard', strings: STANDARD_TUNING },
+    { id: 'dropD', name: 'Drop D', strings: ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+    { id: 'dadgad', name: 'DADGAD', strings: ['D2', 'A2', 'D3', 'G3', 'A3', 'D4'] },
+    { id: 'openG', name: 'Open G', strings: ['D2', 'G2', 'D3', 'G3', 'B3', 'D4'] },
+    { id: 'halfStepDown', name: 'Half-step down', strings: ['D#2', 'G#2', 'C#3', 'F#3', 'A#3', 'D#4'] }
+];
+
+export const MAX_CAPO = 9;
+
+// How far a custom string may be retuned from standard, in semitones
+const CUSTOM_RANGE: [number, number] = [-5, 4];
+
+const sameTuning = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((note, i) => note === b[i]);
+
+/**
+ * The preset a tuning matches, or null for a custom tuning
+ */
+export function getTuningPreset(strings: string[] | undefined): GuitarTuningPreset | null {
+    if (!strings) return GUITAR_TUNINGS[0];
+    return GUITAR_TUNINGS.find(preset => sameTuning(preset.strings, strings)) ?? null;
+}
+
+/**
+ * Display name, e.g. 'Drop D' or 'Custom (DGDGBD)'
+ */
+export function getTuningName(strings: string[] | undefined): string {
+    const preset = getTuningPreset(strings);
+    if (preset) return preset.name;
+    return `Custom (${strings!.map(note => note.replace(/\d+$/, '')).join('')})`;
+}
+
+/**
+ * Open strings transposed up by the capo fret
+ */
+export function getCapoedTuning(strings: string[], capo: number = 0): string[] {
+    if (!capo) return strings;
+    return strings.map(string => {
+        const fretted = getFrettedNote(string, capo);
+        return fretted ? `${fretted.note}${fretted.octave}` : string;
+    });
+}
+
+/**
+ * The strings chord shapes are worked out on for a song: its tuning with the capo applied
+ */
+export function getSongFretboardTuning(song: Pick<Song, 'tuning' | 'capo'>): string[] {
+    return getCapoedTuning(song.tuning ?? STANDARD_TUNING, song.capo ?? 0);
+}
+
+/**
+ * Pitches a custom string can be tuned to, around the standard string's pitch
+ */
+export function getCustomStringOptions(stringIndex: number): string[] {
+    const standard = STANDARD_TUNING[stringIndex];
+    const match = standard?.match(/^(.+?)(\d+)$/);
+    if (!match) return [];
+    const midi = NOTES.indexOf(normalizeNote(match[1])) + (parseInt(match[2]) + 1) * 12;
+
+    const options: string[] = [];
+    for (let offset = CUSTOM_RANGE[0]; offset <= CUSTOM_RANGE[1]; offset++) {
+        const pitch = midi + offset;
+        options.push(`${NOTES[pitch % 12]}${Math.floor(pitch / 12) - 1}`);
+    }
+    return options;
+}
+
+export interface CapoSuggestion {
+    capo: number;
+    shapeKey: string;   // The key whose shapes are played, e.g. 'G' or 'Em'
+    chords: string[];   // Shape names of the I, IV and V chords
+    score: number;      // Lower is easier
+}
+
+/**
+ * Suggest capo positions for a key, easiest first. Each position is scored by
+ * how easily the key's I, IV and V chords fall under the hand in the given
+ * tuning: first-position shapes with open strings beat barre chords.
+ */
+export function suggestCapoPositions(
+    key: string,
+    tonality: Tonality = 'major',
+    tuning: string[] = STANDARD_TUNING,
+    voicingOptions: FretboardVoicingOptions = {},
+    limit: number = 3
+): CapoSuggestion[] {
+    const parentDegree = TONALITIES[tonality].parentDegree;
+    const diatonic = getDiatonicChords(key);
+    const primaries = [0, 3, 4].map(step => diatonic[(parentDegree + step) % 7]);
+    const tonic = getTonic(key, tonality);
+    const isMinor = TONALITIES[tonality].intervals[2] === 3;
+
+    const suggestions: CapoSuggestion[] = [];
+    for (let capo = 0; capo <= MAX_CAPO; capo++) {
+        const capoed = getCapoedTuning(tuning, capo);
+        const shapes = primaries.map(chord => generateFretboardVoicings(chord.notes, capoed, { ...voicingOptions, maxFret: 7, limit: 1 })[0]);
+        if (shapes.some(shape => !shape)) continue;
+
+        const difficulty = shapes.reduce((sum, shape) => {
+            const open = shape.frets.filter(fret => fret === 0).length;
+            return sum + (shape.baseFret > 1 ? 3 : 0) + shape.barres.length * 2 - open * 0.4;
+        }, 0);
+
+        const shapeName = (note: string) => getKeyNameForNote(transposeNote(note, -capo));
+        suggestions.push({
+            capo,
+            shapeKey: `${shapeName(tonic)}${isMinor ? 'm' : ''}`,
+            chords: primaries.map(chord => `${shapeName(chord.root)}${chord.symbol.slice(chord.root.length)}`),
+            score: difficulty + capo * 0.3
+        });
+    }
+
+    return suggestions.sort((a, b) => a.score - b.score).slice(0, limit);
+}
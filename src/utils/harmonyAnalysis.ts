@@ -0,0 +1,360 @@
+/**
+ * Harmony Analysis Utilities
+ *
+ * Labels every chord of a song with a roman numeral relative to the song key
+ * (Song.key + Song.tonality) and finds the cadences defined in CADENCE_PRESETS.
+ * Analysis is derived from the chord tones alone, so chords that were typed,
+ * imported or moved get the same numerals as chords tapped on the wheel.
+ */
+
+import { getSectionKey, type SelectionSlot, type Song } from '../types';
+import {
+    NOTES,
+    TONALITIES,
+    TONALITY_ORDER,
+    getDiatonicChords,
+    getParentMajorKey,
+    getTonalityScale,
+    getTonic,
+    normalizeNote,
+    type Chord,
+    type Tonality
+} from './musicTheory';
+import { CADENCE_PRESETS, type CadencePreset } from './progressionPlayback';
+import { flattenSlots, slotKey } from './selectionUtils';
+
+export type HarmonicFunction = 'tonic' | 'predominant' | 'dominant';
+
+export type ChordAnalysisKind =
+    | 'diatonic'
+    | 'secondaryDominant'
+    | 'tritoneSub'
+    | 'secondaryLeadingTone'
+    | 'passingDiminished'
+    | 'borrowed'
+    | 'chromatic';
+
+export interface ChordAnalysis {
+    numeral: string;                 // e.g. 'V7', 'V/V', '♭VI', 'subV7', '♯i°7'
+    kind: ChordAnalysisKind;
+    function?: HarmonicFunction;     // Only set for diatonic chords
+    borrowedFrom?: Tonality;         // Source mode for borrowed chords
+}
+
+export interface CadenceMatch {
+    cadence: CadencePreset;
+    from: SelectionSlot;
+    to: SelectionSlot;
+}
+
+export interface SongAnalysis {
+    chords: Record<string, ChordAnalysis>;  // Keyed by slotKey()
+    cadences: CadenceMatch[];
+}
+
+type ChordFamily = 'major' | 'dominant' | 'minor' | 'diminished' | 'halfDiminished' | 'augmented';
+
+interface ChordShape {
+    root: number;           // Pitch class of the root
+    family: ChordFamily;
+    suffix: string;         // Numeral suffix: '', '7', 'maj7', '°', '°7', 'ø7', '+'
+    pitchClasses: number[];
+}
+
+// Chromatic degree numerals relative to the tonic (flats for lowered degrees)
+const DEGREE_NUMERALS = ['I', '♭II', 'II', '♭III', 'III', 'IV', '♯IV', 'V', '♭VI', 'VI', '♭VII', 'VII'];
+// Sharp spellings, used for ascending passing chords (C - C#° - Dm is I - ♯i° - ii)
+const SHARP_DEGREE_NUMERALS = ['I', '♯I', 'II', '♯II', 'III', 'IV', '♯IV', 'V', '♯V', 'VI', '♯VI', 'VII'];
+
+// Diatonic scale degree (0-6) to harmonic function
+const DEGREE_FUNCTIONS: HarmonicFunction[] = ['tonic', 'predominant', 'tonic', 'predominant', 'dominant', 'tonic', 'dominant'];
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note));
+
+/**
+ * Work out the root, family and numeral suffix of a chord from its notes,
+ * falling back to the quality for chords without notes
+ */
+function getChordShape(chord: Chord): ChordShape | null {
+    const root = pitchClass(chord.root);
+    if (root === -1) return null;
+
+    const pitchClasses = chord.notes
+        .map(pitchClass)
+        .filter(pc => pc !== -1);
+    const intervals = new Set(pitchClasses.map(pc => (pc - root + 12) % 12));
+    if (intervals.size <= 1) {
+        const quality = chord.quality as string;
+        if (quality.startsWith('minor') || /^m(?!aj)/.test(quality)) [3, 7].forEach(i => intervals.add(i));
+        else if (quality.startsWith('dim') || quality.startsWith('halfDim')) [3, 6].forEach(i => intervals.add(i));
+        else [4, 7].forEach(i => intervals.add(i));
+    }
+
+    const has = (interval: number) => intervals.has(interval);
+    let family: ChordFamily;
+    let suffix = '';
+
+    if (has(3) && has(6) && !has(7)) {
+        if (has(9)) { family = 'diminished'; suffix = '°7'; }
+        else if (has(10)) { family = 'halfDiminished'; suffix = 'ø7'; }
+        else { family = 'diminished'; suffix = '°'; }
+    } else if (has(3) && !has(4)) {
+        family = 'minor';
+        if (has(10)) suffix = '7';
+        else if (has(11)) suffix = 'maj7';
+    } else if (has(4) && has(8) && !has(7)) {
+        family = has(10) ? 'dominant' : 'augmented';
+        suffix = has(10) ? '+7' : '+';
+    } else if (has(10) && (has(4) || has(5))) {
+        family = 'dominant';
+        suffix = '7';
+    } else {
+        family = 'major';
+        if (has(11)) suffix = 'maj7';
+    }
+
+    return { root, family, suffix, pitchClasses: [...new Set([root, ...pitchClasses])] };
+}
+
+const isMinorFamily = (family: ChordFamily) =>
+    family === 'minor' || family === 'diminished' || family === 'halfDiminished';
+
+/**
+ * Build a numeral for a chord on a chromatic degree, e.g. ♭VI, ii7, viiø7
+ */
+function formatNumeral(base: string, shape: ChordShape): string {
+    const numeral = isMinorFamily(shape.family) ? base.toLowerCase() : base;
+    return `${numeral}${shape.suffix}`;
+}
+
+/**
+ * Scale pitch classes of a tonality built on a parent major key
+ */
+function getScalePitchClasses(key: string, tonality: Tonality): Set<number> {
+    return new Set(getTonalityScale(key, tonality).map(pitchClass));
+}
+
+const fitsScale = (shape: ChordShape, scale: Set<number>) =>
+    shape.pitchClasses.every(pc => scale.has(pc));
+
+interface AnalysisContext {
+    key: string;
+    tonality: Tonality;
+    tonic: number;
+    scales: Set<number>[];           // The key's scale plus harmonic/melodic minor in minor keys
+    diatonic: Chord[];
+}
+
+function createContext(key: string, tonality: Tonality): AnalysisContext {
+    const scales = [getScalePitchClasses(key, tonality)];
+    // Minor keys routinely raise the 6th and 7th, so V and vii°7 count as diatonic
+    if (tonality === 'naturalMinor') {
+        scales.push(getScalePitchClasses(key, 'harmonicMinor'), getScalePitchClasses(key, 'melodicMinor'));
+    }
+    return {
+        key,
+        tonality,
+        tonic: pitchClass(getTonic(key, tonality)),
+        scales,
+        diatonic: getDiatonicChords(key, tonality)
+    };
+}
+
+/**
+ * Diatonic degree (0-6) whose root is `pc`, or -1
+ */
+function getDiatonicDegree(ctx: AnalysisContext, pc: number): number {
+    return ctx.diatonic.findIndex(chord => pitchClass(chord.root) === pc);
+}
+
+/**
+ * Analyse a single chord in a key. `prev` and `next` are the neighbouring
+ * chords in the song and are used to spot tritone subs and passing chords.
+ */
+export function analyzeChord(
+    chord: Chord,
+    key: string,
+    tonality: Tonality = 'major',
+    prev?: Chord | null,
+    next?: Chord | null
+): ChordAnalysis | null {
+    return analyzeWithContext(chord, createContext(key, tonality), prev, next);
+}
+
+function analyzeWithContext(
+    chord: Chord,
+    ctx: AnalysisContext,
+    prev?: Chord | null,
+    next?: Chord | null
+): ChordAnalysis | null {
+    const shape = getChordShape(chord);
+    if (!shape) return null;
+
+    const degreeFromTonic = (shape.root - ctx.tonic + 12) % 12;
+    const nextShape = next ? getChordShape(next) : null;
+    const prevShape = prev ? getChordShape(prev) : null;
+
+    // 1. Diatonic chords
+    const degree = getDiatonicDegree(ctx, shape.root);
+    if (degree !== -1 && ctx.scales.some(scale => fitsScale(shape, scale))) {
+        return {
+            numeral: formatNumeral(DEGREE_NUMERALS[degreeFromTonic], shape),
+            kind: 'diatonic',
+            function: DEGREE_FUNCTIONS[degree]
+        };
+    }
+
+    const isDominantLike = shape.family === 'dominant' || shape.family === 'major';
+
+    // 2. Tritone substitution: a dominant a half step above its resolution
+    if (shape.family === 'dominant' && nextShape && (shape.root - nextShape.root + 12) % 12 === 1) {
+        const target = getTargetNumeral(ctx, nextShape.root);
+        if (target) {
+            return { numeral: target === 'I' || target === 'i' ? 'subV7' : `subV7/${target}`, kind: 'tritoneSub' };
+        }
+    }
+
+    // 3. Secondary dominants: a major or dominant chord a fifth above a diatonic degree
+    if (isDominantLike) {
+        const target = getTargetNumeral(ctx, (shape.root + 5) % 12);
+        if (target && target !== 'I' && target !== 'i') {
+            return { numeral: `V${shape.family === 'dominant' ? '7' : ''}/${target}`, kind: 'secondaryDominant' };
+        }
+    }
+
+    // 4. Diminished chords leading up a half step
+    if (shape.family === 'diminished' || shape.family === 'halfDiminished') {
+        const resolvesUp = nextShape && (nextShape.root - shape.root + 12) % 12 === 1;
+        const approachedFromBelow = prevShape && (shape.root - prevShape.root + 12) % 12 === 1;
+        if (resolvesUp && approachedFromBelow) {
+            return {
+                numeral: formatNumeral(SHARP_DEGREE_NUMERALS[degreeFromTonic], shape),
+                kind: 'passingDiminished'
+            };
+        }
+        const target = getTargetNumeral(ctx, (shape.root + 1) % 12);
+        if (target && target !== 'I' && target !== 'i') {
+            return { numeral: `vii${shape.suffix}/${target}`, kind: 'secondaryLeadingTone' };
+        }
+        if (resolvesUp) {
+            return {
+                numeral: formatNumeral(SHARP_DEGREE_NUMERALS[degreeFromTonic], shape),
+                kind: 'passingDiminished'
+            };
+        }
+    }
+
+    // 5. Borrowed chords from a parallel mode on the same tonic
+    const tonicName = getTonic(ctx.key, ctx.tonality);
+    const borrowedFrom = TONALITY_ORDER.find(tonality => {
+        if (tonality === ctx.tonality) return false;
+        const parent = getParentMajorKey(tonicName, tonality);
+        return fitsScale(shape, getScalePitchClasses(parent, tonality));
+    });
+    if (borrowedFrom) {
+        return { numeral: formatNumeral(DEGREE_NUMERALS[degreeFromTonic], shape), kind: 'borrowed', borrowedFrom };
+    }
+
+    // 6. Anything else is chromatic colour
+    return { numeral: formatNumeral(DEGREE_NUMERALS[degreeFromTonic], shape), kind: 'chromatic' };
+}
+
+/**
+ * Numeral of the diatonic triad on `pc` used as a secondary target (V/ii, V/V...).
+ * Diminished triads can't be tonicised, so they return null.
+ */
+function getTargetNumeral(ctx: AnalysisContext, pc: number): string | null {
+    const degree = getDiatonicDegree(ctx, pc);
+    if (degree === -1) return null;
+    const target = ctx.diatonic[degree];
+    if (target.quality === 'diminished' || !target.numeral) return null;
+    return target.numeral;
+}
+
+/**
+ * Strip accidentals and chord suffixes from a numeral so it can be compared to
+ * the cadence definitions (V7 -> V, ♭VI -> VI). Applied numerals return null.
+ */
+function getCadenceDegree(numeral: string): string | null {
+    if (numeral.includes('/') || numeral.startsWith('sub')) return null;
+    const match = numeral.replace(/^[♭♯]/, '').match(/^(iv|vii|vi|v|iii|ii|i)/i);
+    return match ? match[1].toUpperCase() : null;
+}
+
+function matchCadence(from: ChordAnalysis, to: ChordAnalysis): CadencePreset | undefined {
+    if (from.kind !== 'diatonic' && from.kind !== 'borrowed') return undefined;
+    if (to.kind !== 'diatonic' && to.kind !== 'borrowed') return undefined;
+    const fromDegree = getCadenceDegree(from.numeral);
+    const toDegree = getCadenceDegree(to.numeral);
+    if (!fromDegree || !toDegree) return undefined;
+
+    return CADENCE_PRESETS.find(preset =>
+        preset.numerals.length === 2 &&
+        preset.numerals[0].toUpperCase() === fromDegree &&
+        preset.numerals[1].toUpperCase() === toDegree
+    );
+}
+
+/**
+ * Analyse every chord in a song, in playback order, and find cadences between
+ * consecutive chords. Empty slots are skipped; repeated chords don't form a cadence.
+ */
+export function analyzeSong(song: Song): SongAnalysis {
+    // Sections with their own key are analysed in that key
+    const tonality = song.tonality ?? 'major';
+    const contexts: Record<string, AnalysisContext> = {};
+    const sectionContexts: Record<string, AnalysisContext> = {};
+    song.sections.forEach(section => {
+        const key = getSectionKey(section, song.key);
+        contexts[key] ??= createContext(key, tonality);
+        sectionContexts[section.id] = contexts[key];
+    });
+    const filled = flattenSlots(song.sections).filter(
+        (slot): slot is typeof slot & { chord: Chord } => slot.chord !== null
+    );
+
+    const chords: Record<string, ChordAnalysis> = {};
+    const cadences: CadenceMatch[] = [];
+    let previous: { slot: SelectionSlot; chord: Chord; analysis: ChordAnalysis } | null = null;
+
+    filled.forEach((slot, index) => {
+        const next = filled[index + 1]?.chord ?? null;
+        const analysis = analyzeWithContext(slot.chord, sectionContexts[slot.sectionId], previous?.chord ?? null, next);
+        if (!analysis) return;
+
+        const current = { sectionId: slot.sectionId, slotId: slot.slotId };
+        chords[slotKey(current)] = analysis;
+
+        if (previous && previous.chord.symbol !== slot.chord.symbol) {
+            const cadence = matchCadence(previous.analysis, analysis);
+            if (cadence) {
+                cadences.push({ cadence, from: previous.slot, to: current });
+            }
+        }
+        previous = { slot: current, chord: slot.chord, analysis };
+    });
+
+    return { chords, cadences };
+}
+
+/**
+ * Short human-readable description of an analysed chord, for tooltips
+ */
+export function describeChordAnalysis(analysis: ChordAnalysis): string {
+    switch (analysis.kind) {
+        case 'diatonic':
+            return `${analysis.numeral} — diatonic ${analysis.function}`;
+        case 'secondaryDominant':
+            return `${analysis.numeral} — secondary dominant`;
+        case 'tritoneSub':
+            return `${analysis.numeral} — tritone substitute`;
+        case 'secondaryLeadingTone':
+            return `${analysis.numeral} — secondary leading-tone chord`;
+        case 'passingDiminished':
+            return `${analysis.numeral} — passing diminished`;
+        case 'borrowed':
+            return `${analysis.numeral} — borrowed from ${analysis.borrowedFrom ? TONALITIES[analysis.borrowedFrom].name : 'a parallel mode'}`;
+        default:
+            return `${analysis.numeral} — chromatic`;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Harmony Transform Utilities
+ *
+ * Songwriting exploration tricks that map a run of chords into a new one:
+ * negative harmony (every note reflected across the axis between the key's
+ * tonic and dominant, so I becomes i and V7 becomes iiø7), retrograde (the
+ * chords in reverse order) and the wheel mirror (each chord's wheel position
+ * reflected across the key, so V and IV trade places while ii, iii and vii°
+ * stay put). Keys are wheel (parent major) keys, like Song.key and Section.key.
+ */
+
+import type { Section, SelectionSlot } from '../types';
+import {
+    CIRCLE_OF_FIFTHS,
+    NOTES,
+    getMajorScale,
+    identifyChord,
+    normalizeNote,
+    setChordBassNote,
+    spellNoteForKey,
+    type Chord
+} from './musicTheory';
+import { slotKey } from './selectionUtils';
+import { getNumeralForChord, transposeChord } from './transpose';
+
+export type HarmonyTransformKind = 'negative' | 'retrograde' | 'wheelMirror';
+
+export interface HarmonyTransformOption {
+    kind: HarmonyTransformKind;
+    label: string;
+    description: string;
+}
+
+export const HARMONY_TRANSFORMS: HarmonyTransformOption[] = [
+    { kind: 'negative', label: 'Negative harmony', description: 'Reflect every note across the tonic–dominant axis (C → Cm, G7 → Dm7♭5)' },
+    { kind: 'retrograde', label: 'Retrograde', description: 'Play the chords in reverse order' },
+    { kind: 'wheelMirror', label: 'Wheel mirror', description: 'Mirror each chord across the key on the wheel (V ↔ IV, vi ↔ v)' }
+];
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note));
+
+/**
+ * The key to spell a note from: `key` itself for its scale tones, a flat key
+ * for chromatic ones (both transforms land on the flat side, e.g. iv and ♭VI in major)
+ */
+function getSpellingKey(note: string, key: string): string {
+    const inScale = getMajorScale(key).some(scaleNote => pitchClass(scaleNote) === pitchClass(note));
+    return inScale ? key : 'F';
+}
+
+const spellForKey = (note: string, key: string) => spellNoteForKey(note, getSpellingKey(note, key));
+
+/**
+ * The chords of a section in timeline order, limited to `slots` when any of them fall in it
+ */
+export function getSectionChords(section: Section, slots: SelectionSlot[] = []): Chord[] {
+    const targets = new Set(slots.filter(slot => slot.sectionId === section.id).map(slotKey));
+    return section.measures.flatMap(measure => measure.beats)
+        .filter(beat => beat.chord && (targets.size === 0 || targets.has(slotKey({ sectionId: section.id, slotId: beat.id }))))
+        .map(beat => beat.chord!);
+}
+
+/**
+ * Reflect a chord across the axis between the key's tonic and dominant.
+ * The reflected notes are named from the top down, so the image of the
+ * chord's fifth (or seventh) becomes the new root. An explicit slash bass
+ * is reflected too; inversions are not carried over.
+ */
+export function getNegativeChord(chord: Chord, key: string): Chord {
+    const axis = 2 * pitchClass(key) + 7;
+    const reflect = (note: string) => NOTES[((axis - pitchClass(note)) % 12 + 12) % 12];
+
+    const readings = identifyChord(chord.notes.map(reflect).reverse());
+    const reading = readings.find(candidate => !candidate.chord.bassNote) ?? readings[0];
+    if (!reading) return chord;
+
+    // identifyChord names roots as the wheel does; respell the root and bass for the key
+    const root = spellForKey(reading.chord.root, key);
+    const negative: Chord = { ...reading.chord, root, symbol: `${root}${reading.chord.symbol.slice(reading.chord.root.length)}` };
+    delete negative.bassNote;
+    delete negative.inversion;
+    const bass = chord.bassNote && pitchClass(chord.bassNote) !== pitchClass(chord.root)
+        ? spellForKey(reflect(chord.bassNote), key)
+        : null;
+    const result: Chord = bass ? setChordBassNote(negative, bass) : negative;
+
+    const numeral = getNumeralForChord(result, key);
+    if (numeral) result.numeral = numeral;
+    return result;
+}
+
+/**
+ * Mirror a chord's wheel position across the key. Each chord sits where the
+ * wheel draws it: majors on their own position, minors in the ii slot of the
+ * position a whole step below (or the iii slot of the key's own position),
+ * diminished chords in the slot of the position a half step above. The slot
+ * is kept and the position reflected, so the quality never changes.
+ */
+export function getWheelMirrorChord(chord: Chord, key: string): Chord {
+    const root = pitchClass(chord.root);
+    const tonic = pitchClass(key);
+    const isMinor = chord.quality.startsWith('minor');
+    const isDiminished = chord.quality === 'diminished' || chord.quality === 'halfDiminished7' || chord.quality === 'diminished7';
+
+    let slotOffset = 0; // Semitones from the position's major root to the chord root
+    if (isMinor) slotOffset = (root - tonic + 12) % 12 === 4 ? 4 : 2;
+    else if (isDiminished) slotOffset = -1;
+
+    const position = CIRCLE_OF_FIFTHS.findIndex(note => pitchClass(note) === (root - slotOffset + 12) % 12);
+    const keyPosition = CIRCLE_OF_FIFTHS.findIndex(note => pitchClass(note) === tonic);
+    if (position === -1 || keyPosition === -1) return chord;
+
+    const mirrored = CIRCLE_OF_FIFTHS[((2 * keyPosition - position) % 12 + 12) % 12];
+    const semitones = (pitchClass(mirrored) + slotOffset - root + 12) % 12;
+    return transposeChord(chord, semitones, getSpellingKey(NOTES[(root + semitones) % 12], key), key);
+}
+
+/**
+ * Apply a transform to a run of chords in `key`
+ */
+export function transformChords(chords: Chord[], kind: HarmonyTransformKind, key: string): Chord[] {
+    switch (kind) {
+        case 'negative':
+            return chords.map(chord => getNegativeChord(chord, key));
+        case 'retrograde':
+            return [...chords].reverse();
+        case 'wheelMirror':
+            return chords.map(chord => getWheelMirrorChord(chord, key));
+    }
+}
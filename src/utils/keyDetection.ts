@@ -0,0 +1,133 @@
+/**
+ * Key Detection Utilities
+ *
+ * Finds the most likely major or minor key for a run of chords by scoring
+ * every candidate key against the chords' tones, how long each chord lasts,
+ * and the cadences (V–I, IV–I) that point at a tonic.
+ */
+
+import type { Section, Song } from '../types';
+import {
+    NOTES,
+    getKeyDisplayName,
+    getParentMajorKey,
+    getTonic,
+    normalizeNote,
+    type Chord,
+    type Tonality
+} from './musicTheory';
+import { flattenSlots } from './selectionUtils';
+
+export interface KeyDetectionResult {
+    key: string;                               // Parent major (wheel) key, e.g. 'C' for A minor
+    tonality: Extract<Tonality, 'major' | 'naturalMinor'>;
+    tonic: string;                             // e.g. 'A'
+    label: string;                             // e.g. 'A minor'
+    confidence: number;                        // 0-1, margin over the runner-up key
+}
+
+interface TimedChord {
+    chord: Chord;
+    duration: number;
+}
+
+const MAJOR_STEPS = [0, 2, 4, 5, 7, 9, 11];
+// Natural minor plus the raised 7th, so V and vii° in minor still fit
+const MINOR_STEPS = [0, 2, 3, 5, 7, 8, 10, 11];
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note));
+
+/**
+ * Collect the filled slots of some sections in playback order, with their durations
+ */
+function getTimedChords(sections: Section[]): TimedChord[] {
+    return flattenSlots(sections).flatMap(slot =>
+        slot.chord ? [{ chord: slot.chord, duration: slot.duration || 1 }] : []
+    );
+}
+
+/**
+ * Score one candidate tonic/mode against a chord run. Higher is better.
+ */
+function scoreKey(chords: TimedChord[], tonic: number, minor: boolean): number {
+    const scale = new Set((minor ? MINOR_STEPS : MAJOR_STEPS).map(step => (tonic + step) % 12));
+    const tonicThird = (tonic + (minor ? 3 : 4)) % 12;
+    const dominant = (tonic + 7) % 12;
+    const subdominant = (tonic + 5) % 12;
+    let score = 0;
+
+    chords.forEach(({ chord, duration }, index) => {
+        const root = pitchClass(chord.root);
+        const tones = chord.notes.map(pitchClass).filter(pc => pc !== -1);
+        if (root === -1 || tones.length === 0) return;
+
+        // Share of the chord's tones that belong to the key, weighted by length
+        const inScale = tones.filter(pc => scale.has(pc)).length / tones.length;
+        score += duration * (inScale * 2 - 1);
+
+        // Time spent on the tonic chord (with the right third) counts extra
+        if (root === tonic && tones.includes(tonicThird)) score += duration;
+        if (!scale.has(root)) score -= duration * 0.5;
+
+        // Cadences into the tonic
+        const next = chords[index + 1];
+        if (next && pitchClass(next.chord.root) === tonic) {
+            const hasLeadingTone = tones.includes((tonic + 11) % 12);
+            if (root === dominant && hasLeadingTone) score += 3;
+            else if (root === dominant || root === subdominant) score += 1.5;
+        }
+    });
+
+    // Songs tend to start and (especially) end on the tonic
+    const first = chords[0] && pitchClass(chords[0].chord.root);
+    const last = chords[chords.length - 1] && pitchClass(chords[chords.length - 1].chord.root);
+    if (first === tonic) score += 1;
+    if (last === tonic) score += 2;
+
+    return score;
+}
+
+/**
+ * Detect the key of a run of chords. Returns null when there are no chords.
+ */
+export function detectKeyFromChords(chords: TimedChord[]): KeyDetectionResult | null {
+    if (chords.length === 0) return null;
+
+    const candidates = NOTES.flatMap((_, tonic) => [
+        { tonic, minor: false, score: scoreKey(chords, tonic, false) },
+        // Relative minor only wins with a clear margin, so ties go to major
+        { tonic, minor: true, score: scoreKey(chords, tonic, true) - 0.25 }
+    ]).sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = candidates;
+    const tonality = best.minor ? 'naturalMinor' : 'major';
+    const key = getParentMajorKey(NOTES[best.tonic], tonality);
+    const spread = Math.abs(best.score) + Math.abs(runnerUp.score);
+
+    return {
+        key,
+        tonality,
+        tonic: getTonic(key, tonality),
+        label: getKeyDisplayName(key, tonality),
+        confidence: spread > 0 ? Math.min(1, Math.max(0, (best.score - runnerUp.score) / spread * 2)) : 0
+    };
+}
+
+/**
+ * Detect the key of a whole song
+ */
+export function detectSongKey(song: Pick<Song, 'sections'>): KeyDetectionResult | null {
+    return detectKeyFromChords(getTimedChords(song.sections));
+}
+
+/**
+ * Detect the key of every section on its own, keyed by section id.
+ * Sections without chords map to null.
+ */
+export function detectSectionKeys(sections: Section[]): Record<string, KeyDetectionResult | null> {
+    const keys: Record<string, KeyDetectionResult | null> = {};
+    sections.forEach(section => {
+        keys[section.id] = detectKeyFromChords(getTimedChords([section]));
+    });
+    return keys;
+}
@@ -0,0 +1,106 @@
+/**
+ * Meter Utilities
+ *
+ * Bars take their time signature from their section (Section.timeSignature) or
+ * the song, and any bar can override it (Measure.timeSignature) for a single
+ * 2/4 bar or alternating 7/8 | 4/4 patterns. Beats are always counted in
+ * quarter notes. Compound meters (6/8, 9/8, 12/8) pulse in dotted quarters;
+ * odd eighth-note meters (5/8, 7/8) group their eighths in twos with a
+ * closing three.
+ */
+
+import type { Measure } from '../types';
+import { beatsFromSignature } from './selectionUtils';
+
+export type TimeSignature = [number, number];
+
+export const TIME_SIGNATURE_OPTIONS: TimeSignature[] = [
+    [4, 4],
+    [3, 4],
+    [5, 4],
+    [2, 4],
+    [6, 8],
+    [9, 8],
+    [12, 8],
+    [5, 8],
+    [7, 8],
+];
+
+export const formatTimeSignature = ([top, bottom]: TimeSignature) => `${top}/${bottom}`;
+
+/**
+ * Read a '7/8' style string, or null if it isn't a usable time signature
+ */
+export function parseTimeSignature(value: string): TimeSignature | null {
+    const [top, bottom] = value.split('/').map((n) => parseInt(n, 10));
+    if (!top || !bottom) return null;
+    return [top, bottom];
+}
+
+export const isSameTimeSignature = (a: TimeSignature | undefined, b: TimeSignature | undefined) =>
+    !!a && !!b && a[0] === b[0] && a[1] === b[1];
+
+/**
+ * The time signature a bar is in: its own if it overrides the section's
+ */
+export function getMeasureSignature(measure: Pick<Measure, 'timeSignature'>, sectionSignature: TimeSignature): TimeSignature {
+    return measure.timeSignature ?? sectionSignature;
+}
+
+/**
+ * The bar overrides a section repeats as a cycle (e.g. 7/8 | 4/4), if it runs
+ * through at least twice; otherwise a single section-meter entry, so one-off
+ * bars like a closing 2/4 aren't copied into new bars
+ */
+export function getMeterPattern(measures: Pick<Measure, 'timeSignature'>[]): (TimeSignature | undefined)[] {
+    const meters = measures.map(measure => measure.timeSignature);
+    for (let period = 1; period * 2 <= meters.length; period++) {
+        const repeats = meters.every((meter, i) => {
+            const other = meters[i % period];
+            return meter === other || isSameTimeSignature(meter, other);
+        });
+        if (repeats) return meters.slice(0, period);
+    }
+    return [undefined];
+}
+
+/**
+ * Whether a meter pulses in dotted quarters (6/8, 9/8, 12/8)
+ */
+export function isCompoundMeter([top, bottom]: TimeSignature): boolean {
+    return bottom === 8 && top > 3 && top % 3 === 0;
+}
+
+/**
+ * The length of each pulse in a bar, in beats: 4/4 is 1 + 1 + 1 + 1,
+ * 6/8 is 1.5 + 1.5 and 7/8 is 1 + 1 + 1.5
+ */
+export function getPulseBeats(signature: TimeSignature): number[] {
+    const [top, bottom] = signature;
+    const unit = 4 / bottom;
+
+    if (isCompoundMeter(signature)) {
+        return Array.from({ length: top / 3 }, () => unit * 3);
+    }
+    if (bottom >= 8 && top > 3) {
+        const odd = top % 2 !== 0;
+        const pairs = odd ? (top - 3) / 2 : top / 2;
+        return [
+            ...Array.from({ length: pairs }, () => unit * 2),
+            ...(odd ? [unit * 3] : [])
+        ];
+    }
+    return Array.from({ length: top }, () => unit);
+}
+
+/**
+ * Slot lengths when a bar is split into `steps` slots. One slot per pulse
+ * follows the pulse grouping; any other count splits the bar evenly.
+ */
+export function getSubdivisionDurations(signature: TimeSignature, steps: number): number[] {
+    const pulses = getPulseBeats(signature);
+    if (steps === pulses.length) return pulses;
+
+    const totalBeats = beatsFromSignature(signature);
+    return Array.from({ length: steps }, () => totalBeats / steps);
+}
@@ -0,0 +1,92 @@
+/**
+ * Modal Interchange Utilities
+ *
+ * Chords borrowed from the other modes on the key's tonic: the parallel
+ * minor's ♭III, iv, ♭VI and ♭VII, Mixolydian's v, Dorian's IV, Phrygian's ♭II
+ * and so on. Each chord is credited to the first mode in BORROW_ORDER that has
+ * it, and placed at the wheel position it is drawn beside: majors on their own
+ * position, minors in the ii slot of the position a whole step below and
+ * diminished chords at the position a half step above (as in MAJOR_POSITIONS).
+ */
+
+import {
+    MAJOR_POSITIONS,
+    NOTES,
+    getDiatonicChords,
+    getKeyDisplayName,
+    getParentMajorKey,
+    getTonic,
+    normalizeNote,
+    type Chord,
+    type Tonality
+} from './musicTheory';
+
+export interface BorrowedChord {
+    chord: Chord;           // Numeral is relative to the shared tonic, e.g. '♭VI'
+    source: Tonality;       // The mode it is borrowed from
+    sourceName: string;     // e.g. 'C minor', 'C Mixolydian'
+    positionIndex: number;  // MAJOR_POSITIONS index it is drawn beside
+}
+
+// Most familiar sources first, starting with the parallel major/minor: a chord found in
+// several modes is credited to the earliest. Locrian and melodic minor are left out;
+// they mostly add rarely borrowed diminished chords.
+const BORROW_ORDER: Tonality[] = [
+    'major', 'naturalMinor', 'mixolydian', 'dorian', 'harmonicMinor', 'phrygian', 'lydian'
+];
+
+// Ring colour per source mode (HSL so WheelSegment can tone it down)
+export const BORROW_SOURCE_COLORS: Record<Tonality, string> = {
+    major: 'hsl(48, 85%, 60%)',
+    naturalMinor: 'hsl(265, 70%, 68%)',
+    harmonicMinor: 'hsl(330, 70%, 66%)',
+    melodicMinor: 'hsl(300, 55%, 66%)',
+    dorian: 'hsl(190, 70%, 58%)',
+    phrygian: 'hsl(10, 75%, 62%)',
+    lydian: 'hsl(150, 60%, 55%)',
+    mixolydian: 'hsl(220, 75%, 66%)',
+    locrian: 'hsl(0, 0%, 62%)'
+};
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note));
+const chordId = (chord: Chord) => `${pitchClass(chord.root)}:${chord.quality}`;
+
+/**
+ * The wheel position a chord is drawn beside
+ */
+function getWheelPositionIndex(chord: Chord): number {
+    let anchor = pitchClass(chord.root);
+    if (chord.quality === 'minor') anchor = (anchor + 10) % 12;
+    else if (chord.quality === 'diminished') anchor = (anchor + 1) % 12;
+    return MAJOR_POSITIONS.findIndex(position => pitchClass(position.major) === anchor);
+}
+
+/**
+ * Triads borrowed into `key` (the wheel's parent major key) in `tonality`
+ * from the other modes on the same tonic, in BORROW_ORDER
+ */
+export function getBorrowedChords(key: string, tonality: Tonality = 'major'): BorrowedChord[] {
+    const tonic = getTonic(key, tonality);
+    const seen = new Set(getDiatonicChords(key, tonality).map(chordId));
+    const borrowed: BorrowedChord[] = [];
+
+    BORROW_ORDER.filter(source => source !== tonality).forEach(source => {
+        const parent = getParentMajorKey(tonic, source);
+        getDiatonicChords(parent, source).forEach(chord => {
+            const id = chordId(chord);
+            if (seen.has(id)) return;
+            seen.add(id);
+
+            const positionIndex = getWheelPositionIndex(chord);
+            if (positionIndex === -1) return;
+            borrowed.push({
+                chord,
+                source,
+                sourceName: source === 'major' ? `${tonic} major` : getKeyDisplayName(parent, source),
+                positionIndex
+            });
+        });
+    });
+
+    return borrowed;
+}
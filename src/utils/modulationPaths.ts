@@ -0,0 +1,173 @@
+/**
+ * Modulation Path Utilities
+ *
+ * Proposes short chord transitions (1–4 chords) that lead from one key to
+ * another: pivot chords shared by both keys, dominant approaches into the new
+ * key and chromatic-mediant moves. Routes are ranked so the smoothest come first.
+ * Keys are wheel (parent major) keys, like Song.key and Section.key.
+ */
+
+import {
+    MAJOR_POSITIONS,
+    getChordNotes,
+    getDiatonicChords,
+    getKeyNameForNote,
+    getQualitySymbol,
+    normalizeNote,
+    spellNoteForKey,
+    transposeNote,
+    type Chord
+} from './musicTheory';
+
+export type ModulationRouteKind = 'pivot' | 'secondaryDominant' | 'chromaticMediant';
+
+export interface ModulationRoute {
+    id: string;
+    kind: ModulationRouteKind;
+    name: string;          // e.g. 'Pivot on Am'
+    description: string;   // e.g. 'vi in C becomes ii in G'
+    chords: Chord[];       // The transition itself (1-4 chords), not including the new tonic
+    score: number;         // Higher is smoother
+}
+
+/**
+ * Build a chord on `root` spelled for `key`. Flat-degree chords (♭III, ♭VI, ♭VII)
+ * always take the flat name, so B♭ rather than A♯ in a sharp key.
+ */
+function makeChord(root: string, quality: Chord['quality'], key: string, flatDegree = false): Chord {
+    const spelledRoot = flatDegree ? getKeyNameForNote(root) : spellNoteForKey(root, key);
+    return {
+        root: spelledRoot,
+        quality,
+        notes: getChordNotes(spelledRoot, quality),
+        symbol: `${spelledRoot}${getQualitySymbol(quality)}`
+    };
+}
+
+/**
+ * Steps between two keys around the circle of fifths (0-6), using the wheel's major positions
+ */
+export function getCircleDistance(fromKey: string, toKey: string): number {
+    const position = (key: string) => MAJOR_POSITIONS.findIndex(p => normalizeNote(p.major) === normalizeNote(key));
+    const from = position(fromKey);
+    const to = position(toKey);
+    if (from === -1 || to === -1) return 6;
+    const steps = Math.abs(from - to) % 12;
+    return Math.min(steps, 12 - steps);
+}
+
+const sameChord = (a: Chord, b: Chord) =>
+    normalizeNote(a.root) === normalizeNote(b.root) && a.quality === b.quality;
+
+/**
+ * The tonic chord of a key, used to audition a route's resolution
+ */
+export function getTonicChord(key: string): Chord {
+    return getDiatonicChords(key)[0];
+}
+
+/**
+ * Find and rank transitions from one key to another, best first
+ */
+export function findModulationRoutes(fromKey: string, toKey: string): ModulationRoute[] {
+    if (normalizeNote(fromKey) === normalizeNote(toKey)) return [];
+
+    const fromChords = getDiatonicChords(fromKey);
+    const toChords = getDiatonicChords(toKey);
+    const distance = getCircleDistance(fromKey, toKey);
+    const dominant = makeChord(transposeNote(toKey, 7), 'dominant7', toKey);
+    const routes: ModulationRoute[] = [];
+
+    // 1. Pivot chords: diatonic in both keys, then the new key's V7
+    fromChords.forEach(pivot => {
+        const target = toChords.find(chord => sameChord(chord, pivot));
+        if (!target || pivot.quality === 'diminished') return;
+        // A pivot that is already the new I or V is just a dominant/direct move
+        if (target.numeral === 'I' || target.numeral === 'V') return;
+
+        const isPredominant = target.numeral === 'ii' || target.numeral === 'IV';
+        routes.push({
+            id: `pivot-${pivot.root}`,
+            kind: 'pivot',
+            name: `Pivot on ${pivot.symbol}`,
+            description: `${pivot.numeral} in ${fromKey} becomes ${target.numeral} in ${toKey}`,
+            chords: [makeChord(pivot.root, pivot.quality, toKey), dominant],
+            score: 10 + (isPredominant ? 2 : target.numeral === 'vi' ? 1 : 0) - distance * 0.5
+        });
+    });
+
+    // 2. Dominant approaches into the new key
+    const supertonic = makeChord(toChords[1].root, 'minor7', toKey);
+    routes.push({
+        id: 'ii-V',
+        kind: 'secondaryDominant',
+        name: `ii–V into ${toKey}`,
+        description: `${supertonic.symbol} – ${dominant.symbol} sets up the new tonic`,
+        chords: [supertonic, dominant],
+        score: 8 - distance * 0.3
+    });
+    routes.push({
+        id: 'V7',
+        kind: 'secondaryDominant',
+        name: `${dominant.symbol} → ${toKey}`,
+        description: `Straight to the new key's dominant`,
+        chords: [dominant],
+        score: 7 - distance * 0.3
+    });
+    const doubleDominant = makeChord(transposeNote(toKey, 2), 'dominant7', toKey);
+    routes.push({
+        id: 'V7/V',
+        kind: 'secondaryDominant',
+        name: `V7/V – V7 into ${toKey}`,
+        description: `${doubleDominant.symbol} – ${dominant.symbol}: a chain of dominants`,
+        chords: [doubleDominant, dominant],
+        score: 6.5 - distance * 0.3
+    });
+
+    // 3. Chromatic mediants: major chords a third away from the new tonic
+    const mediants: { semitones: number; numeral: string; flatDegree: boolean }[] = [
+        { semitones: 8, numeral: '♭VI', flatDegree: true },
+        { semitones: 3, numeral: '♭III', flatDegree: true },
+        { semitones: 4, numeral: 'III', flatDegree: false },
+        { semitones: 9, numeral: 'VI', flatDegree: false }
+    ];
+    mediants.forEach(({ semitones, numeral, flatDegree }) => {
+        const mediant = makeChord(transposeNote(toKey, semitones), 'major', toKey, flatDegree);
+        const inFromKey = fromChords.some(chord => sameChord(chord, mediant));
+        routes.push({
+            id: `mediant-${numeral}`,
+            kind: 'chromaticMediant',
+            name: `${mediant.symbol} (${numeral}) → ${toKey}`,
+            description: inFromKey
+                ? `${mediant.symbol} belongs to ${fromKey} and is a chromatic mediant of ${toKey}`
+                : `A chromatic-third shift onto ${toKey}`,
+            chords: [mediant],
+            score: 5 + (inFromKey ? 2 : 0)
+        });
+    });
+
+    // ♭VI – ♭VII – I, the "Aeolian" approach
+    routes.push({
+        id: 'bVI-bVII',
+        kind: 'chromaticMediant',
+        name: `♭VI – ♭VII → ${toKey}`,
+        description: 'Borrowed ♭VI and ♭VII climb into the new tonic',
+        chords: [
+            makeChord(transposeNote(toKey, 8), 'major', toKey, true),
+            makeChord(transposeNote(toKey, 10), 'major', toKey, true)
+        ],
+        score: 6
+    });
+
+    // Keep one route per chord sequence, best score first
+    const seen = new Set<string>();
+    return routes
+        .sort((a, b) => b.score - a.score)
+        .filter(route => {
+            const signature = route.chords.map(chord => chord.symbol).join(' ');
+            if (seen.has(signature)) return false;
+            seen.add(signature);
+            return true;
+        })
+        .slice(0, 8);
+}
@@ -54,7 +54,13 @@ export const MAJOR_POSITIONS: MajorPosition[] = [
 
 export interface Chord {
     root: string;
-    quality: 'major' | 'minor' | 'diminished' | 'augmented' | 'major7' | 'minor7' | 'dominant7' | 'halfDiminished7' | 'sus2' | 'sus4';
+    quality:
+        | 'major' | 'minor' | 'diminished' | 'augmented'
+        | 'major7' | 'minor7' | 'dominant7' | 'halfDiminished7' | 'diminished7'
+        | 'minorMajor7' | 'augmented7' | 'major6add9' | 'sus2' | 'sus4'
+        | 'dominant9' | 'dominant7flat9' | 'dominant7sharp9' | 'dominant7sharp11' | 'dominant7flat13' | 'dominant7alt'
+        | 'major7sharp11' | 'major6' | 'minor6' | 'dominant7sus4' | 'add9' | 'major9' | 'minor9'
+        | 'major11' | 'minor11' | 'dominant11' | 'major13' | 'minor13' | 'dominant13';
     numeral?: string;
     notes: string[];
     symbol: string;
@@ -88,6 +94,28 @@ export const CHORD_SYMBOLS: Record<string, string> = {
     m6: 'm6',
     '7sus4': '7sus4',
     dominant7sus4: '7sus4',
+    major6: '6',
+    minor6: 'm6',
+    diminished7: '°7',
+    major11: 'maj11',
+    minor11: 'm11',
+    major13: 'maj13',
+    minor13: 'm13',
+    // Altered dominants and other jazz colours
+    dominant7flat9: '7♭9',
+    dominant7sharp9: '7#9',
+    dominant7sharp11: '7#11',
+    dominant7flat13: '7♭13',
+    dominant7alt: '7alt',
+    major7sharp11: 'maj7#11',
+    minorMajor7: 'm(maj7)',
+    augmented7: '+7',
+    major6add9: '6/9',
+    '7b9': '7♭9',
+    '7b13': '7♭13',
+    mMaj7: 'm(maj7)',
+    aug7: '+7',
+    dim7: '°7',
 };
 
 /**
@@ -114,6 +142,51 @@ export function normalizeNote(note: string): string {
     return note;
 }
 
+/**
+ * Keys that are conventionally written with flats (major key names)
+ */
+const FLAT_KEYS = ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'];
+
+/**
+ * Whether notes in the given key should be spelled with flats rather than sharps
+ */
+export function keyUsesFlats(key: string): boolean {
+    return FLAT_KEYS.includes(key);
+}
+
+/**
+ * Spell a note to match the accidentals of a key
+ * e.g. spellNoteForKey('A#', 'F') -> 'Bb', spellNoteForKey('Bb', 'D') -> 'A#'
+ */
+export function spellNoteForKey(note: string, key: string): string {
+    const sharpName = normalizeNote(note);
+    if (!NOTES.includes(sharpName)) return note;
+    if (keyUsesFlats(key) && sharpName.includes('#')) {
+        return ENHARMONIC_MAP[sharpName] ?? sharpName;
+    }
+    return sharpName;
+}
+
+/**
+ * Transpose a single note by a number of semitones, spelled for the given key
+ * (sharps by default when no key is passed)
+ */
+export function transposeNote(note: string, semitones: number, key?: string): string {
+    const index = NOTES.indexOf(normalizeNote(note));
+    if (index === -1) return note;
+    const transposed = NOTES[(((index + semitones) % 12) + 12) % 12];
+    return key ? spellNoteForKey(transposed, key) : transposed;
+}
+
+/**
+ * Get the key name used on the wheel for a pitch class (e.g. 'A#' -> 'Bb')
+ */
+export function getKeyNameForNote(note: string): string {
+    const index = NOTES.indexOf(normalizeNote(note));
+    if (index === -1) return note;
+    return CIRCLE_OF_FIFTHS.find(key => normalizeNote(key) === NOTES[index]) ?? NOTES[index];
+}
+
 // Map short variation names to full quality names
 const QUALITY_ALIASES: Record<string, string> = {
     // Dominant family
@@ -136,6 +209,19 @@ const QUALITY_ALIASES: Record<string, string> = {
     'm11': 'minor11',
     'm13': 'minor13',
     'm6': 'minor6',
+    'mMaj7': 'minorMajor7',
+
+    // Altered dominants
+    '7b9': 'dominant7flat9',
+    '7#9': 'dominant7sharp9',
+    '7#11': 'dominant7sharp11',
+    '7b13': 'dominant7flat13',
+    '7alt': 'dominant7alt',
+    'aug7': 'augmented7',
+
+    // Major colours
+    'maj7#11': 'major7sharp11',
+    '6/9': 'major6add9',
 
     // Diminished family
     'dim': 'diminished',
@@ -173,15 +259,26 @@ const EXTENDED_CHORD_FORMULAS: Record<string, number[]> = {
     diminished7: [0, 3, 6, 9],     // R b3 b5 bb7
     halfDiminished7: [0, 3, 6, 10],// R b3 b5 b7
     dominant7sus4: [0, 5, 7, 10],  // R 4 5 b7
+    minorMajor7: [0, 3, 7, 11],    // R b3 5 7
+    augmented7: [0, 4, 8, 10],     // R 3 #5 b7
+
+    // Altered dominants (5th omitted where an altered tension replaces it)
+    dominant7flat9: [0, 4, 7, 10, 13],   // R 3 5 b7 b9
+    dominant7sharp9: [0, 4, 7, 10, 15],  // R 3 5 b7 #9
+    dominant7sharp11: [0, 4, 7, 10, 18], // R 3 5 b7 #11
+    dominant7flat13: [0, 4, 10, 20],     // R 3 b7 b13
+    dominant7alt: [0, 4, 10, 15, 20],    // R 3 b7 #9 b13
 
     // 9th chords
     add9: [0, 4, 7, 14],           // R 3 5 9 (9 = 14 semitones above root)
     major9: [0, 4, 7, 11, 14],     // R 3 5 7 9
     minor9: [0, 3, 7, 10, 14],     // R b3 5 b7 9
     dominant9: [0, 4, 7, 10, 14],  // R 3 5 b7 9
+    major6add9: [0, 4, 7, 9, 14],  // R 3 5 6 9
 
     // 11th chords
     major11: [0, 4, 7, 11, 14, 17],    // R 3 5 7 9 11
+    major7sharp11: [0, 4, 7, 11, 18],  // R 3 5 7 #11
     minor11: [0, 3, 7, 10, 14, 17],    // R b3 5 b7 9 11
     dominant11: [0, 4, 7, 10, 14, 17], // R 3 5 b7 9 11
 
@@ -189,7 +286,10 @@ const EXTENDED_CHORD_FORMULAS: Record<string, number[]> = {
     major13: [0, 4, 7, 11, 14, 21],    // R 3 5 7 9 13
     minor13: [0, 3, 7, 10, 14, 21],    // R b3 5 b7 9 13
     dominant13: [0, 4, 7, 10, 14, 21], // R 3 5 b7 9 13
-};
+} satisfies Record<Chord['quality'], number[]>;
+
+// Every formula key is a Chord quality (the `satisfies` above keeps the two in step)
+const isChordQuality = (quality: string): quality is Chord['quality'] => quality in EXTENDED_CHORD_FORMULAS;
 
 export function getChordNotes(root: string, quality: string): string[] {
     const normalizedRoot = normalizeNote(root);
@@ -211,6 +311,252 @@ export function getChordNotes(root: string, quality: string): string[] {
     return formula.map(interval => NOTES[(rootIndex + interval) % 12]);
 }
 
+/**
+ * CHORD SYMBOL PARSING
+ *
+ * Turns typed text such as "F#m7b5/C", "Bbmaj9", "E7#9" or "Dsus2/A" into a Chord.
+ * The suffix is split into a base quality (resolved through QUALITY_ALIASES so it
+ * matches EXTENDED_CHORD_FORMULAS) followed by optional alterations (b9, #11, add9...),
+ * which are applied to the formula's intervals.
+ */
+
+// Alternate spellings of base quality suffixes, mapped to QUALITY_ALIASES / formula keys
+const SUFFIX_SPELLINGS: Record<string, string> = {
+    '': 'major',
+    'M': 'major',
+    'maj': 'major',
+    'major': 'major',
+    'm': 'minor',
+    'min': 'minor',
+    'minor': 'minor',
+    '-': 'minor',
+    'dim': 'diminished',
+    '°': 'diminished',
+    'o': 'diminished',
+    'aug': 'augmented',
+    '+': 'augmented',
+    'sus': 'sus4',
+    'sus2': 'sus2',
+    'sus4': 'sus4',
+    '6': '6',
+    'M6': '6',
+    'maj6': '6',
+    'm6': 'm6',
+    'min6': 'm6',
+    '-6': 'm6',
+    '7': '7',
+    'dom7': '7',
+    'maj7': 'maj7',
+    'M7': 'maj7',
+    'ma7': 'maj7',
+    'Maj7': 'maj7',
+    'Δ': 'maj7',
+    'Δ7': 'maj7',
+    'm7': 'm7',
+    'min7': 'm7',
+    '-7': 'm7',
+    'dim7': 'dim7',
+    '°7': 'dim7',
+    'o7': 'dim7',
+    'm7b5': 'm7b5',
+    'mMaj7': 'mMaj7',
+    'mmaj7': 'mMaj7',
+    'mM7': 'mMaj7',
+    'minmaj7': 'mMaj7',
+    '-maj7': 'mMaj7',
+    'mΔ7': 'mMaj7',
+    'aug7': 'aug7',
+    '+7': 'aug7',
+    '7+': 'aug7',
+    '7#5': 'aug7',
+    '7b9': '7b9',
+    '7#9': '7#9',
+    '7#11': '7#11',
+    '7b13': '7b13',
+    '7alt': '7alt',
+    'alt': '7alt',
+    'maj7#11': 'maj7#11',
+    'Δ#11': 'maj7#11',
+    '6/9': '6/9',
+    '69': '6/9',
+    'min7b5': 'm7b5',
+    '-7b5': 'm7b5',
+    'ø': 'm7b5',
+    'ø7': 'm7b5',
+    '7sus': '7sus4',
+    '7sus4': '7sus4',
+    '9': '9',
+    'maj9': 'maj9',
+    'M9': 'maj9',
+    'Δ9': 'maj9',
+    'm9': 'm9',
+    'min9': 'm9',
+    '-9': 'm9',
+    'add9': 'add9',
+    'add2': 'add9',
+    '11': '11',
+    'maj11': 'maj11',
+    'm11': 'm11',
+    'min11': 'm11',
+    '-11': 'm11',
+    '13': '13',
+    'maj13': 'maj13',
+    'M13': 'maj13',
+    'm13': 'm13',
+    'min13': 'm13',
+    '-13': 'm13',
+};
+
+// Longest spellings first so "maj7" wins over "maj" and "m7b5" over "m7"
+const SUFFIX_SPELLINGS_BY_LENGTH = Object.keys(SUFFIX_SPELLINGS).sort((a, b) => b.length - a.length);
+
+// Interval (in semitones above the root) each alteration adds, and the intervals it replaces
+const CHORD_ALTERATIONS: Record<string, { add: number; replaces: number[] }> = {
+    'b5': { add: 6, replaces: [7] },
+    '#5': { add: 8, replaces: [7] },
+    'b9': { add: 13, replaces: [14] },
+    '#9': { add: 15, replaces: [14] },
+    '9': { add: 14, replaces: [] },
+    '#11': { add: 18, replaces: [17] },
+    '11': { add: 17, replaces: [] },
+    'b13': { add: 20, replaces: [21] },
+    '13': { add: 21, replaces: [] },
+    'add9': { add: 14, replaces: [] },
+    'add11': { add: 17, replaces: [] },
+    'add13': { add: 21, replaces: [] },
+    'sus2': { add: 2, replaces: [3, 4] },
+    'sus4': { add: 5, replaces: [3, 4] },
+};
+
+const ALTERATION_PATTERN = /^(add(?:9|11|13)|sus[24]|[b#](?:5|9|11|13)|9|11|13)/;
+
+export interface ParsedChordSymbol {
+    root: string;
+    quality: Chord['quality']; // Resolved formula key, e.g. 'dominant7', 'minor9'
+    alterations: string[];  // Extra alterations in the order written, e.g. ['#9']
+    bass?: string;          // Slash bass note, if any
+}
+
+/**
+ * Tokenize a chord symbol without building notes. Returns null if the text isn't a chord.
+ */
+export function parseChordSymbolParts(text: string): ParsedChordSymbol | null {
+    const cleaned = text
+        .trim()
+        .replace(/♯/g, '#')
+        .replace(/♭/g, 'b')
+        .replace(/[()\s,]/g, '');
+
+    const match = cleaned.match(/^([A-Ga-g])([#b]?)(.*)$/);
+    if (!match) return null;
+
+    const root = `${match[1].toUpperCase()}${match[2]}`;
+    let rest = match[3];
+
+    // Slash bass: only a trailing "/<note>" counts (so "6/9" is left alone)
+    let bass: string | undefined;
+    const slashMatch = rest.match(/\/([A-Ga-g][#b]?)$/);
+    if (slashMatch) {
+        bass = `${slashMatch[1][0].toUpperCase()}${slashMatch[1].slice(1)}`;
+        rest = rest.slice(0, -slashMatch[0].length);
+    }
+
+    // Minor 6/9 chords are a minor 6th chord with an added 9th
+    rest = rest.replace(/^(m|min|-)6\/9/, 'm6add9');
+
+    const spelling = SUFFIX_SPELLINGS_BY_LENGTH.find(candidate => rest.startsWith(candidate)) ?? '';
+    const alias = SUFFIX_SPELLINGS[spelling];
+    const quality = QUALITY_ALIASES[alias] || alias;
+    rest = rest.slice(spelling.length);
+
+    const alterations: string[] = [];
+    while (rest.length > 0) {
+        const altMatch = rest.match(ALTERATION_PATTERN);
+        if (!altMatch) return null;
+        alterations.push(altMatch[1]);
+        rest = rest.slice(altMatch[1].length);
+    }
+
+    if (!isChordQuality(quality)) return null;
+    if (NOTES.indexOf(normalizeNote(root)) === -1) return null;
+    if (bass && NOTES.indexOf(normalizeNote(bass)) === -1) return null;
+
+    return { root, quality, alterations, bass };
+}
+
+/**
+ * Parse a typed chord symbol into a Chord. Notes are in root position; a slash bass that
+ * is a chord tone becomes an inversion, any other bass note is kept as `bassNote`.
+ * Returns null when the text can't be read as a chord.
+ */
+export function parseChordSymbol(text: string): Chord | null {
+    const parts = parseChordSymbolParts(text);
+    if (!parts) return null;
+
+    const { root, quality, alterations, bass } = parts;
+    const rootIndex = NOTES.indexOf(normalizeNote(root));
+
+    let intervals = [...EXTENDED_CHORD_FORMULAS[quality]];
+    alterations.forEach(alteration => {
+        const { add, replaces } = CHORD_ALTERATIONS[alteration];
+        intervals = intervals.filter(interval => !replaces.includes(interval));
+        if (!intervals.includes(add)) intervals.push(add);
+    });
+    intervals.sort((a, b) => a - b);
+
+    const notes = intervals.map(interval => NOTES[(rootIndex + interval) % 12]);
+    const suffix = `${getQualitySymbol(quality)}${alterations.join('')}`
+        .replace(/^m6add9/, 'm6/9')
+        .replace(/b(5|9|13)/g, '♭$1');
+
+    const chord: Chord = {
+        root,
+        quality,
+        notes,
+        symbol: `${root}${suffix}`,
+    };
+
+    if (bass) {
+        const bassIndex = notes.indexOf(normalizeNote(bass));
+        chord.symbol += `/${bass}`;
+        chord.bassNote = bass;
+        if (bassIndex > 0) {
+            chord.inversion = bassIndex;
+        }
+    }
+
+    return chord;
+}
+
+/**
+ * Parse a line of typed chords ("Am7 D7 | Gmaj7 % - C/E") into one entry per slot.
+ * Bar lines are ignored, "%" repeats the previous chord and "-" or "." leaves a slot empty.
+ * Tokens that can't be read are collected in `invalid`.
+ */
+export function parseChordList(text: string): { chords: (Chord | null)[]; invalid: string[] } {
+    const chords: (Chord | null)[] = [];
+    const invalid: string[] = [];
+
+    text.split(/[\s|]+/).filter(Boolean).forEach(token => {
+        if (token === '-' || token === '.') {
+            chords.push(null);
+            return;
+        }
+        if (token === '%') {
+            chords.push(chords.length > 0 ? chords[chords.length - 1] : null);
+            return;
+        }
+        const chord = parseChordSymbol(token);
+        if (chord) {
+            chords.push(chord);
+        } else {
+            invalid.push(token);
+        }
+    });
+
+    return { chords, invalid };
+}
+
 /**
  * Get chord notes with octave numbers for audio playback
  * Extended intervals (9, 11, 13) are placed in higher octaves
@@ -295,6 +641,161 @@ export function getChordSymbolWithInversion(root: string, quality: string, notes
     return `${baseSymbol}/${bassNote}`;
 }
 
+/**
+ * Split a chord symbol into its upper chord and slash bass ("Am7/G" -> "Am7" + "G").
+ * "6/9" style suffixes are not treated as a bass.
+ */
+export function splitSlashChordSymbol(symbol: string): { head: string; bass?: string } {
+    const match = symbol.match(/^(.+)\/([A-G][#b♯♭]?)$/);
+    if (!match) return { head: symbol };
+    return { head: match[1], bass: match[2] };
+}
+
+/**
+ * Get the note a chord should have in the bass, or undefined for root position.
+ * The symbol is the source of truth because inversion controls rewrite it
+ * without touching `bassNote`.
+ */
+export function getChordBassNote(chord: Pick<Chord, 'root' | 'symbol' | 'bassNote'>): string | undefined {
+    const bass = chord.symbol ? splitSlashChordSymbol(chord.symbol).bass : chord.bassNote;
+    if (!bass || normalizeNote(bass) === normalizeNote(chord.root)) return undefined;
+    return bass;
+}
+
+/**
+ * Order a chord's notes for playback with the bass note first.
+ * A bass that is a chord tone rotates the notes (an inversion); any other
+ * bass note (e.g. C/Bb) is added underneath the chord.
+ */
+export function getChordPlaybackNotes(chord: Pick<Chord, 'root' | 'symbol' | 'notes' | 'bassNote'>): string[] {
+    const notes = chord.notes || [];
+    const bass = getChordBassNote(chord);
+    if (!bass || notes.length === 0) return notes;
+
+    const bassIndex = notes.findIndex(note => normalizeNote(note) === normalizeNote(bass));
+    if (bassIndex === -1) {
+        return [normalizeNote(bass), ...notes];
+    }
+    return [...notes.slice(bassIndex), ...notes.slice(0, bassIndex)];
+}
+
+/**
+ * Put any note in the bass of a chord (pass null or the root to clear it).
+ * Chord tones become inversions; other notes make a slash chord like C/Bb.
+ */
+export function setChordBassNote(chord: Chord, bass: string | null): Chord {
+    const { head } = splitSlashChordSymbol(chord.symbol);
+    const rootIndex = chord.notes.findIndex(note => normalizeNote(note) === normalizeNote(chord.root));
+    const rootPosition = rootIndex > 0
+        ? [...chord.notes.slice(rootIndex), ...chord.notes.slice(0, rootIndex)]
+        : chord.notes;
+
+    const updated: Chord = { ...chord, notes: rootPosition, symbol: head, inversion: 0 };
+    delete updated.bassNote;
+
+    if (!bass || normalizeNote(bass) === normalizeNote(chord.root)) {
+        return updated;
+    }
+
+    const bassIndex = rootPosition.findIndex(note => normalizeNote(note) === normalizeNote(bass));
+    return {
+        ...updated,
+        symbol: `${head}/${bass}`,
+        bassNote: bass,
+        inversion: Math.max(0, bassIndex)
+    };
+}
+
+/**
+ * CHORD IDENTIFICATION
+ *
+ * The inverse of getChordNotes: names the chord a set of held notes spells. Every
+ * held pitch class is tried as the root against every formula in
+ * EXTENDED_CHORD_FORMULAS. A formula fits when it covers all the held notes and
+ * leaves out nothing but its perfect fifth (and, in 11th and 13th chords, the 9th).
+ * A bass that is a chord tone makes an inversion; when the notes above the bass
+ * form a chord on their own, the bass can also be read as a slash bass (C/D).
+ */
+
+export interface ChordIdentification {
+    chord: Chord;
+    omitted: number[];   // Formula intervals (semitones, within the octave) left out of the held notes
+    score: number;       // Lower is the more likely reading
+}
+
+/**
+ * Name the chord held in `notes`, most likely reading first.
+ * Notes may carry octaves ('E3'); then the lowest sounds as the bass,
+ * otherwise the first note is taken as the bass.
+ */
+export function identifyChord(notes: string[], limit: number = 4): ChordIdentification[] {
+    const held = notes
+        .map(note => {
+            const octave = note.match(/-?\d+$/);
+            const pc = NOTES.indexOf(normalizeNote(note.replace(/-?\d+$/, '')));
+            return { pc, pitch: octave ? pc + (parseInt(octave[0]) + 1) * 12 : null };
+        })
+        .filter(note => note.pc !== -1);
+    if (held.length === 0) return [];
+
+    const pitched = held.every(note => note.pitch !== null);
+    const bass = pitched
+        ? held.reduce((lowest, note) => (note.pitch! < lowest.pitch! ? note : lowest)).pc
+        : held[0].pc;
+    const pcs = [...new Set(held.map(note => note.pc))];
+    if (pcs.length < 2) return [];
+
+    const readings: ChordIdentification[] = [];
+    const nameOf = (pc: number) => getKeyNameForNote(NOTES[pc]);
+
+    const readUpper = (upper: number[], slashBass: boolean) => {
+        upper.forEach(root => {
+            const intervals = upper.map(pc => (pc - root + 12) % 12);
+            Object.entries(EXTENDED_CHORD_FORMULAS).forEach(([quality, formula]) => {
+                if (!isChordQuality(quality)) return;
+                const formulaPcs = [...new Set(formula.map(interval => interval % 12))];
+                if (!intervals.every(interval => formulaPcs.includes(interval))) return;
+
+                const hasUpperExtensions = formula.some(interval => interval >= 17);
+                const omitted = formulaPcs.filter(interval => !intervals.includes(interval));
+                if (!omitted.every(interval => interval === 7 || (interval === 2 && hasUpperExtensions))) return;
+
+                const rootName = nameOf(root);
+                let chord: Chord = {
+                    root: rootName,
+                    quality,
+                    notes: getChordNotes(rootName, quality),
+                    symbol: `${rootName}${getQualitySymbol(quality)}`
+                };
+                if (root !== bass) chord = setChordBassNote(chord, nameOf(bass));
+
+                readings.push({
+                    chord,
+                    omitted,
+                    score: omitted.length
+                        + formula.length * 0.15
+                        + (root !== bass ? 0.6 : 0)
+                        + (slashBass ? 1.5 : 0)
+                });
+            });
+        });
+    };
+
+    readUpper(pcs, false);
+    const upper = pcs.filter(pc => pc !== bass);
+    if (upper.length >= 3) readUpper(upper, true);
+
+    const seen = new Set<string>();
+    return readings
+        .sort((a, b) => a.score - b.score)
+        .filter(reading => {
+            if (seen.has(reading.chord.symbol)) return false;
+            seen.add(reading.chord.symbol);
+            return true;
+        })
+        .slice(0, limit);
+}
+
 export function getMajorScale(root: string): string[] {
     const pattern = [0, 2, 4, 5, 7, 9, 11];
     const normalizedRoot = normalizeNote(root);
@@ -312,7 +813,29 @@ export function getMajorScale(root: string): string[] {
     });
 }
 
-export function getDiatonicChords(key: string): Chord[] {
+/**
+ * Get the seven diatonic triads of a key. `key` is the parent major (wheel) key;
+ * for any tonality other than major the chords start from the tonality's tonic and
+ * carry numerals relative to it (e.g. C + naturalMinor -> Am i, B° ii°, C ♭III ...).
+ */
+export function getDiatonicChords(key: string, tonality: Tonality = 'major'): Chord[] {
+    if (tonality !== 'major') {
+        const scale = getTonalityScale(key, tonality);
+        const intervals = TONALITIES[tonality].intervals;
+        return scale.map((note, i) => {
+            const third = (intervals[(i + 2) % 7] - intervals[i] + 12) % 12;
+            const fifth = (intervals[(i + 4) % 7] - intervals[i] + 12) % 12;
+            const quality = getTriadQuality(third, fifth);
+            return {
+                root: note,
+                quality,
+                numeral: getTonalityNumeral(i, intervals[i], quality),
+                notes: getChordNotes(note, quality),
+                symbol: `${note}${CHORD_SYMBOLS[quality]}`
+            };
+        });
+    }
+
     const scale = getMajorScale(key);
     const qualities: Chord['quality'][] = ['major', 'minor', 'minor', 'major', 'major', 'minor', 'diminished'];
     const numerals = ['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'];
@@ -326,6 +849,125 @@ export function getDiatonicChords(key: string): Chord[] {
     }));
 }
 
+/**
+ * TONALITIES
+ *
+ * The wheel is always laid out around a major "parent" key (selectedKey / Song.key).
+ * A tonality picks which degree of that parent scale acts as home, e.g. the key of C
+ * with the 'naturalMinor' tonality is A minor. Harmonic and melodic minor share their
+ * parent with natural minor but raise the 7th (and 6th) degrees.
+ */
+export type Tonality =
+    | 'major'
+    | 'naturalMinor'
+    | 'harmonicMinor'
+    | 'melodicMinor'
+    | 'dorian'
+    | 'phrygian'
+    | 'lydian'
+    | 'mixolydian'
+    | 'locrian';
+
+export interface TonalityInfo {
+    name: string;          // Display name, e.g. 'Harmonic Minor'
+    shortName: string;     // Compact label for buttons, e.g. 'Harm. Minor'
+    parentDegree: number;  // Degree of the parent major scale that acts as tonic (0-6)
+    intervals: number[];   // Scale intervals from the tonic in semitones
+}
+
+export const TONALITIES: Record<Tonality, TonalityInfo> = {
+    major: { name: 'Major', shortName: 'Major', parentDegree: 0, intervals: [0, 2, 4, 5, 7, 9, 11] },
+    naturalMinor: { name: 'Minor', shortName: 'Minor', parentDegree: 5, intervals: [0, 2, 3, 5, 7, 8, 10] },
+    harmonicMinor: { name: 'Harmonic Minor', shortName: 'Harm. Minor', parentDegree: 5, intervals: [0, 2, 3, 5, 7, 8, 11] },
+    melodicMinor: { name: 'Melodic Minor', shortName: 'Mel. Minor', parentDegree: 5, intervals: [0, 2, 3, 5, 7, 9, 11] },
+    dorian: { name: 'Dorian', shortName: 'Dorian', parentDegree: 1, intervals: [0, 2, 3, 5, 7, 9, 10] },
+    phrygian: { name: 'Phrygian', shortName: 'Phrygian', parentDegree: 2, intervals: [0, 1, 3, 5, 7, 8, 10] },
+    lydian: { name: 'Lydian', shortName: 'Lydian', parentDegree: 3, intervals: [0, 2, 4, 6, 7, 9, 11] },
+    mixolydian: { name: 'Mixolydian', shortName: 'Mixolydian', parentDegree: 4, intervals: [0, 2, 4, 5, 7, 9, 10] },
+    locrian: { name: 'Locrian', shortName: 'Locrian', parentDegree: 6, intervals: [0, 1, 3, 5, 6, 8, 10] },
+};
+
+export const TONALITY_ORDER: Tonality[] = [
+    'major', 'naturalMinor', 'harmonicMinor', 'melodicMinor',
+    'dorian', 'phrygian', 'lydian', 'mixolydian', 'locrian'
+];
+
+const MAJOR_SCALE_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+/**
+ * Get the tonic note of a tonality built on a parent major key
+ * e.g. getTonic('C', 'naturalMinor') -> 'A', getTonic('C', 'dorian') -> 'D'
+ */
+export function getTonic(key: string, tonality: Tonality = 'major'): string {
+    return getMajorScale(key)[TONALITIES[tonality].parentDegree];
+}
+
+/**
+ * Get the parent major key (the wheel key) for a tonic in a given tonality
+ * e.g. getParentMajorKey('A', 'naturalMinor') -> 'C'
+ */
+export function getParentMajorKey(tonic: string, tonality: Tonality = 'major'): string {
+    const offset = MAJOR_SCALE_INTERVALS[TONALITIES[tonality].parentDegree];
+    return getKeyNameForNote(transposeNote(tonic, -offset));
+}
+
+/**
+ * Human-readable key name, e.g. 'C', 'A minor', 'D Dorian'
+ */
+export function getKeyDisplayName(key: string, tonality: Tonality = 'major'): string {
+    if (tonality === 'major') return key;
+    const tonic = getTonic(key, tonality);
+    const name = TONALITIES[tonality].name;
+    return `${tonic} ${tonality === 'naturalMinor' ? 'minor' : name}`;
+}
+
+/**
+ * Get the scale notes of a tonality, starting from its tonic and spelled for the parent key
+ */
+export function getTonalityScale(key: string, tonality: Tonality = 'major'): string[] {
+    if (tonality === 'major') return getMajorScale(key);
+    const tonic = getTonic(key, tonality);
+    const tonicIndex = NOTES.indexOf(normalizeNote(tonic));
+    const letters = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+    const startLetter = letters.indexOf(tonic[0]);
+
+    // Spell each degree on its own letter so raised 6ths/7ths read as G#, C# etc.
+    return TONALITIES[tonality].intervals.map((interval, i) => {
+        const target = (tonicIndex + interval) % 12;
+        const letter = letters[(startLetter + i) % 7];
+        const diff = ((target - NOTES.indexOf(letter) + 18) % 12) - 6;
+        if (diff === 0) return letter;
+        if (diff === 1) return `${letter}#`;
+        if (diff === -1) return `${letter}b`;
+        return transposeNote(tonic, interval, key);
+    });
+}
+
+/**
+ * Roman numeral for a triad built on scale degree `degree` of a tonality,
+ * with ♭/♯ prefixes relative to the major scale of the tonic (i, ♭III, ♭VII, ii°...)
+ */
+function getTonalityNumeral(degree: number, semitones: number, quality: Chord['quality']): string {
+    const diff = semitones - MAJOR_SCALE_INTERVALS[degree];
+    const accidental = diff < 0 ? '♭' : diff > 0 ? '♯' : '';
+    const roman = ROMAN_NUMERALS[degree];
+    if (quality === 'minor') return `${accidental}${roman.toLowerCase()}`;
+    if (quality === 'diminished') return `${accidental}${roman.toLowerCase()}°`;
+    if (quality === 'augmented') return `${accidental}${roman}+`;
+    return `${accidental}${roman}`;
+}
+
+/**
+ * Triad quality from the stacked third and fifth above a root
+ */
+function getTriadQuality(third: number, fifth: number): Chord['quality'] {
+    if (third === 4 && fifth === 8) return 'augmented';
+    if (third === 3 && fifth === 6) return 'diminished';
+    if (third === 3) return 'minor';
+    return 'major';
+}
+
 export function getKeySignature(key: string): { sharps: number; flats: number } {
     const sharpKeys = ['G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
     const flatKeys = ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'];
@@ -0,0 +1,293 @@
+/**
+ * Next-Chord Suggestion Utilities
+ *
+ * Ranks the chords most likely to come next, given the chords that precede
+ * the selected slot in its section. Two sources are blended: transition
+ * statistics learned from the bundled progressions (the presets plus a wider
+ * corpus of common song patterns) and functional-harmony resolution rules
+ * (dominants go home, secondary dominants resolve to their target, ...).
+ */
+
+import { getSectionKey, type Song } from '../types';
+import {
+    NOTES,
+    getKeyNameForNote,
+    normalizeNote,
+    spellNoteForKey,
+    transposeNote,
+    type Chord
+} from './musicTheory';
+import { CADENCE_PRESETS, PROGRESSION_PRESETS } from './progressionPlayback';
+import { flattenSlots } from './selectionUtils';
+
+export type SuggestionRing = 'major' | 'minor' | 'diminished';
+
+export interface NextChordSuggestion {
+    numeral: string;     // Relative to the section key, e.g. 'V', '♭VII'
+    root: string;        // Spelled for the key, e.g. 'G'
+    ring: SuggestionRing; // Which wheel ring the chord lives on
+    diatonic: boolean;
+    strength: number;    // 0-1, the top suggestion is always 1
+    reason: string;
+}
+
+interface NumeralInfo {
+    offset: number;      // Semitones above the key's tonic
+    ring: SuggestionRing;
+    diatonic: boolean;
+}
+
+// Every chord the engine can suggest, in major-key numerals
+const NUMERALS: Record<string, NumeralInfo> = {
+    'I': { offset: 0, ring: 'major', diatonic: true },
+    'ii': { offset: 2, ring: 'minor', diatonic: true },
+    'iii': { offset: 4, ring: 'minor', diatonic: true },
+    'IV': { offset: 5, ring: 'major', diatonic: true },
+    'V': { offset: 7, ring: 'major', diatonic: true },
+    'vi': { offset: 9, ring: 'minor', diatonic: true },
+    'vii°': { offset: 11, ring: 'diminished', diatonic: true },
+    // Secondary dominants
+    'II': { offset: 2, ring: 'major', diatonic: false },
+    'III': { offset: 4, ring: 'major', diatonic: false },
+    'VI': { offset: 9, ring: 'major', diatonic: false },
+    // Borrowed from the parallel minor
+    'i': { offset: 0, ring: 'minor', diatonic: false },
+    'iv': { offset: 5, ring: 'minor', diatonic: false },
+    'v': { offset: 7, ring: 'minor', diatonic: false },
+    '♭II': { offset: 1, ring: 'major', diatonic: false },
+    '♭III': { offset: 3, ring: 'major', diatonic: false },
+    '♭VI': { offset: 8, ring: 'major', diatonic: false },
+    '♭VII': { offset: 10, ring: 'major', diatonic: false }
+};
+
+/**
+ * Common progressions beyond the presets, in major-key numerals.
+ * Each one is treated as a loop, the way most of them are played.
+ */
+const PROGRESSION_CORPUS: string[][] = [
+    ['I', 'IV', 'V', 'I'],
+    ['I', 'IV', 'I', 'V'],
+    ['I', 'V', 'IV', 'I'],
+    ['I', 'IV', 'vi', 'V'],
+    ['I', 'iii', 'IV', 'V'],
+    ['I', 'vi', 'ii', 'V'],
+    ['I', 'VI', 'ii', 'V'],
+    ['iii', 'vi', 'ii', 'V', 'I'],
+    ['vi', 'ii', 'V', 'I'],
+    ['vi', 'IV', 'V', 'I'],
+    ['vi', 'V', 'IV', 'V'],
+    ['IV', 'I', 'V', 'vi'],
+    ['IV', 'V', 'iii', 'vi'],
+    ['IV', 'V', 'vi', 'I'],
+    ['ii', 'IV', 'I', 'V'],
+    ['I', 'IV', 'ii', 'V'],
+    ['I', 'V', 'IV', 'V'],
+    ['I', 'vi', 'iii', 'IV'],
+    ['I', 'iii', 'vi', 'IV'],
+    ['I', 'ii', 'iii', 'IV'],
+    ['I', 'III', 'vi', 'IV'],
+    ['I', 'II', 'IV', 'I'],
+    ['I', 'II', 'V', 'I'],
+    ['ii', 'V', 'iii', 'vi'],
+    ['IV', 'vii°', 'iii', 'vi', 'ii', 'V', 'I'],
+    ['I', 'vii°', 'I', 'IV'],
+    ['I', 'IV', 'iv', 'I'],
+    ['IV', 'iv', 'I', 'V'],
+    ['I', '♭VII', 'IV', 'I'],
+    ['I', '♭VII', '♭VI', '♭VII'],
+    ['I', '♭VI', '♭VII', 'I'],
+    ['I', '♭III', 'IV', 'I'],
+    ['vi', '♭VI', '♭VII', 'I'],
+    ['I', 'v', 'IV', 'I'],
+    ['I', '♭II', 'I', 'V'],
+    // 12-bar blues
+    ['I', 'I', 'I', 'I', 'IV', 'IV', 'I', 'I', 'V', 'IV', 'I', 'V']
+];
+
+/**
+ * Functional-harmony pull from one chord to the next (0-1)
+ */
+const RESOLUTIONS: Record<string, Record<string, number>> = {
+    'I': { 'IV': 0.8, 'V': 0.8, 'vi': 0.8, 'ii': 0.6, 'iii': 0.4 },
+    'ii': { 'V': 1, 'vii°': 0.5, 'IV': 0.4, 'I': 0.3 },
+    'iii': { 'vi': 0.9, 'IV': 0.7, 'ii': 0.4 },
+    'IV': { 'V': 1, 'I': 0.7, 'iv': 0.5, 'ii': 0.4, 'vii°': 0.4 },
+    'V': { 'I': 1, 'vi': 0.6, 'IV': 0.3 },
+    'vi': { 'IV': 0.9, 'ii': 0.8, 'V': 0.6, 'iii': 0.3 },
+    'vii°': { 'I': 1, 'iii': 0.4 },
+    'II': { 'V': 1, 'IV': 0.3 },
+    'III': { 'vi': 1, 'IV': 0.4 },
+    'VI': { 'ii': 1, 'V': 0.3 },
+    'i': { 'iv': 0.7, '♭VI': 0.7, '♭VII': 0.7, 'V': 0.6 },
+    'iv': { 'I': 1, 'V': 0.6 },
+    'v': { 'IV': 0.7, 'I': 0.6 },
+    '♭II': { 'I': 1, 'V': 0.4 },
+    '♭III': { 'IV': 0.8, '♭VII': 0.6 },
+    '♭VI': { '♭VII': 1, 'V': 0.6, 'I': 0.6 },
+    '♭VII': { 'I': 1, 'IV': 0.6 }
+};
+
+// Where nothing precedes the slot, these are the usual opening chords
+const OPENERS: Record<string, number> = { 'I': 1, 'vi': 0.6, 'IV': 0.5, 'ii': 0.3 };
+
+interface TransitionStats {
+    bigrams: Map<string, Map<string, number>>;
+    trigrams: Map<string, Map<string, number>>;
+}
+
+let cachedStats: TransitionStats | null = null;
+
+function countTransition(table: Map<string, Map<string, number>>, from: string, to: string) {
+    const row = table.get(from) ?? new Map<string, number>();
+    row.set(to, (row.get(to) ?? 0) + 1);
+    table.set(from, row);
+}
+
+/**
+ * Count how often each numeral follows one (bigram) or two (trigram) others
+ */
+function getTransitionStats(): TransitionStats {
+    if (cachedStats) return cachedStats;
+
+    const bigrams = new Map<string, Map<string, number>>();
+    const trigrams = new Map<string, Map<string, number>>();
+    const addSequence = (numerals: string[], loop: boolean) => {
+        const sequence = numerals.filter(numeral => numeral in NUMERALS);
+        const steps = loop ? sequence.length : sequence.length - 1;
+        for (let i = 0; i < steps; i++) {
+            const at = (offset: number) => sequence[(i + offset) % sequence.length];
+            countTransition(bigrams, at(0), at(1));
+            if (loop || i + 2 < sequence.length) {
+                countTransition(trigrams, `${at(0)} ${at(1)}`, at(2));
+            }
+        }
+    };
+
+    PROGRESSION_PRESETS.forEach(preset => addSequence(preset.numerals, true));
+    PROGRESSION_CORPUS.forEach(progression => addSequence(progression, true));
+    CADENCE_PRESETS.forEach(cadence => addSequence(cadence.numerals, false));
+
+    cachedStats = { bigrams, trigrams };
+    return cachedStats;
+}
+
+function probability(table: Map<string, Map<string, number>>, from: string, to: string): number | null {
+    const row = table.get(from);
+    if (!row) return null;
+    const total = Array.from(row.values()).reduce((sum, count) => sum + count, 0);
+    return (row.get(to) ?? 0) / total;
+}
+
+/**
+ * Which ring a chord sits on, from its intervals above the root
+ */
+function getRing(chord: Chord): SuggestionRing | null {
+    const root = NOTES.indexOf(normalizeNote(chord.root));
+    const pcs = new Set(chord.notes.map(note => (NOTES.indexOf(normalizeNote(note)) - root + 12) % 12));
+    if (pcs.has(3) && pcs.has(6) && !pcs.has(7)) return 'diminished';
+    if (pcs.has(3) && !pcs.has(4)) return 'minor';
+    if (pcs.has(4)) return 'major';
+    return null;
+}
+
+/**
+ * The numeral of a chord in `key`, or null if it isn't in the engine's vocabulary
+ */
+function getNumeral(chord: Chord, key: string): string | null {
+    const ring = getRing(chord);
+    const offset = (NOTES.indexOf(normalizeNote(chord.root)) - NOTES.indexOf(normalizeNote(key)) + 12) % 12;
+    const match = Object.entries(NUMERALS).find(([, info]) => info.offset === offset && info.ring === ring);
+    return match ? match[0] : null;
+}
+
+/**
+ * Wheel highlights for a run of chords (e.g. a previewed transform), shaped
+ * like suggestions so the wheel outlines them the same way
+ */
+export function getChordHighlights(chords: Chord[], key: string, reason: string): NextChordSuggestion[] {
+    return chords.flatMap(chord => {
+        const ring = getRing(chord);
+        if (!ring) return [];
+        const numeral = getNumeral(chord, key) ?? '';
+        return [{ numeral, root: chord.root, ring, diatonic: !!NUMERALS[numeral]?.diatonic, strength: 1, reason }];
+    });
+}
+
+/**
+ * Rank likely next chords after a run of preceding chords in `key`
+ */
+export function rankNextChords(previous: Chord[], key: string, limit = 5): NextChordSuggestion[] {
+    const { bigrams, trigrams } = getTransitionStats();
+    const numerals = previous.map(chord => getNumeral(chord, key));
+    const last = numerals[numerals.length - 1] ?? null;
+    const beforeLast = numerals[numerals.length - 2] ?? null;
+
+    const scored = Object.keys(NUMERALS).map(candidate => {
+        let score: number;
+        let reason: string;
+
+        if (!previous.length) {
+            score = OPENERS[candidate] ?? 0;
+            reason = 'A common opening chord';
+        } else if (!last) {
+            // The last chord is outside the vocabulary: fall back to plain diatonic motion
+            score = NUMERALS[candidate].diatonic ? 0.3 : 0;
+            reason = `Diatonic in ${key}`;
+        } else {
+            const bigram = probability(bigrams, last, candidate);
+            const trigram = beforeLast ? probability(trigrams, `${beforeLast} ${last}`, candidate) : null;
+            const rule = RESOLUTIONS[last]?.[candidate] ?? 0;
+
+            score = trigram !== null
+                ? trigram * 0.45 + (bigram ?? 0) * 0.35 + rule * 0.2
+                : (bigram ?? 0) * 0.6 + rule * 0.4;
+            if (candidate === last) score *= 0.3;
+
+            reason = rule >= 0.8
+                ? `${last} resolves to ${candidate}`
+                : trigram
+                    ? `Often follows ${beforeLast} – ${last}`
+                    : `Often follows ${last}`;
+        }
+        return { candidate, score, reason };
+    }).filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+    const best = scored[0]?.score ?? 1;
+    return scored.map(({ candidate, score, reason }) => {
+        const info = NUMERALS[candidate];
+        const pitch = transposeNote(key, info.offset);
+        return {
+            numeral: candidate,
+            root: candidate.startsWith('♭') ? getKeyNameForNote(pitch) : spellNoteForKey(pitch, key),
+            ring: info.ring,
+            diatonic: info.diatonic,
+            strength: score / best,
+            reason
+        };
+    });
+}
+
+/**
+ * Suggestions for the selected slot: the chords before it in its section set the
+ * context. With no slot selected, suggest what could follow the section's last chord.
+ */
+export function suggestNextChords(
+    song: Song,
+    sectionId: string | null,
+    slotId: string | null,
+    limit = 5
+): NextChordSuggestion[] {
+    const section = song.sections.find(s => s.id === sectionId);
+    if (!section) return [];
+
+    const sectionSlots = flattenSlots([section]);
+    const index = slotId ? sectionSlots.findIndex(slot => slot.slotId === slotId) : sectionSlots.length;
+    const previous = sectionSlots
+        .slice(0, index === -1 ? sectionSlots.length : index)
+        .map(slot => slot.chord)
+        .filter((chord): chord is Chord => chord !== null);
+
+    return rankNextChords(previous, getSectionKey(section, song.key), limit);
+}
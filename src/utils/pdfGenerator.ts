@@ -1,17 +1,53 @@
 import jsPDF from 'jspdf';
-import { getGuitarChord, type GuitarChordShape } from './guitarChordData';
-import { getSectionDisplayName, type Song, type Section } from '../types';
+import { getGuitarChord, normalizeQuality, type GuitarChordShape } from './guitarChordData';
+import { getSectionDisplayName, getSectionKey, type Song, type Section } from '../types';
 import { formatChordForDisplay } from './musicTheory';
+import { analyzeSong } from './harmonyAnalysis';
+import { slotKey } from './selectionUtils';
+import { getTuningName } from './guitarTuning';
+import { getArrangedSections, getArrangementLabels } from './arrangement';
+import { isEndingStart } from './repeats';
+import { getSectionsDuration, getTempoMarking } from './tempoMap';
+import { formatTimeSignature, getMeasureSignature, getPulseBeats, isSameTimeSignature, type TimeSignature } from './meter';
+import { getDiagramInstrument, getDiagramTuning, type DiagramInstrument } from './diagramInstruments';
+
+export interface PdfOptions {
+    /** Print roman numerals and cadences under each row of chords */
+    includeAnalysis?: boolean;
+    /** Instrument the chord diagrams are drawn for (defaults to guitar) */
+    diagramInstrument?: DiagramInstrument;
+}
+
+// The built-in PDF fonts can't draw ♭/♯, so numerals use plain accidentals
+const toPdfNumeral = (numeral: string) => numeral.replace(/♭/g, 'b').replace(/♯/g, '#');
+
+// ...nor the note symbol or arrow in tempo markings
+const toPdfTempoMarking = (marking: string) => marking.replace('♩ =', 'Tempo').replace('→', '->');
+
+/**
+ * Chord symbols of a bar in eighth-note meters, spaced by pulse group
+ * (e.g. 'C D E  F G A' in 6/8) so the dotted-quarter feel reads at a glance
+ */
+const groupByPulse = (symbols: string[], durations: number[], signature: TimeSignature): string => {
+    const boundaries = getPulseBeats(signature).reduce<number[]>((ends, pulse) => [...ends, (ends[ends.length - 1] ?? 0) + pulse], []);
+    let position = 0;
+    return symbols.map((symbol, index) => {
+        const startsPulse = index > 0 && boundaries.some(end => Math.abs(end - position) < 1e-6);
+        position += durations[index];
+        return `${startsPulse ? '  ' : index > 0 ? ' ' : ''}${symbol}`;
+    }).join('');
+};
 
 // Helper function to draw a chord diagram using jsPDF primitives (black & white, compact)
 const drawChordDiagram = (doc: jsPDF, chord: GuitarChordShape, startX: number, startY: number, compact: boolean = false) => {
     const { frets, barres, baseFret } = chord;
 
     // Layout constants (adjust for compact two-column mode)
-    const stringSpacing = compact ? 2.5 : 3;
+    // Spread fewer strings wider so every instrument's diagram is the same width
+    const numStrings = frets.length;
+    const stringSpacing = (compact ? 12.5 : 15) / (numStrings - 1);
     const fretSpacing = compact ? 3 : 4;
     const numFrets = 4;
-    const numStrings = 6;
     const dotRadius = compact ? 1 : 1.2;
 
     // String positions
@@ -101,23 +137,20 @@ const drawChordDiagram = (doc: jsPDF, chord: GuitarChordShape, startX: number, s
 /**
  * Generate PDF document (used by both direct export and bundle export)
  */
-export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsPDF => {
+export const generatePdfDocument = (currentSong: Song, selectedKey: string, options: PdfOptions = {}): jsPDF => {
     const doc = new jsPDF();
+    const analysis = options.includeAnalysis ? analyzeSong(currentSong) : null;
     const pageWidth = doc.internal.pageSize.getWidth();
     const leftMargin = 20;
     const measuresPerRow = 4; // Wrap after 4 measures
 
-    // Calculate song stats (same as Song Map)
-    const totalBeats = currentSong.sections.reduce((acc, section) => {
-        const sectionTimeSignature = section.timeSignature || currentSong.timeSignature;
-        const beatsPerMeasure = sectionTimeSignature[0];
-        return acc + (section.measures.length * beatsPerMeasure);
-    }, 0);
-    const durationSeconds = (totalBeats / currentSong.tempo) * 60;
+    // Calculate song stats (same as Song Map), over the form as played
+    const playedSections = getArrangedSections(currentSong);
+    const durationSeconds = getSectionsDuration(playedSections, currentSong.tempo, currentSong.timeSignature);
     const durationMinutes = Math.floor(durationSeconds / 60);
     const durationRemainingSeconds = Math.floor(durationSeconds % 60);
     const formattedDuration = `${durationMinutes}:${durationRemainingSeconds.toString().padStart(2, '0')}`;
-    const totalMeasures = currentSong.sections.reduce((acc, s) => acc + s.measures.length, 0);
+    const totalMeasures = playedSections.reduce((acc, s) => acc + s.measures.length, 0);
     const totalSections = currentSong.sections.length;
 
     // === HEADER ===
@@ -154,35 +187,46 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
         `${totalSections} sections`,
         `${totalMeasures} bars`
     ];
+    // Diagram setup, when the diagrams aren't for standard-tuned guitar without a capo
+    const diagramProfile = getDiagramInstrument(options.diagramInstrument ?? 'guitar');
+    if (diagramProfile.id !== 'guitar') infoItems.push(`Diagrams: ${diagramProfile.name}`);
+    if (diagramProfile.id === 'guitar' && currentSong.tuning) infoItems.push(`Tuning: ${getTuningName(currentSong.tuning)}`);
+    if (diagramProfile.usesCapo && currentSong.capo) infoItems.push(`Capo ${currentSong.capo}`);
     doc.text(infoItems.join('   •   '), leftMargin, 30);
 
     let y = 48; // Extra margin before first section
 
+    // Form summary: each section is printed once below, in definition order
+    const formLabels = getArrangementLabels(currentSong);
+    if (formLabels.length > 0) {
+        doc.setFontSize(9);
+        doc.setTextColor(80, 80, 80);
+        const formLines: string[] = doc.splitTextToSize(`Form: ${formLabels.join('  -  ')}`, pageWidth - leftMargin * 2);
+        doc.text(formLines, leftMargin, 37);
+        doc.setTextColor(0, 0, 0);
+        y += (formLines.length - 1) * 4;
+    }
+
     // Collect unique chords for diagram section
     const uniqueChords: Set<string> = new Set();
 
+    let previousSectionKey = currentSong.key;
+
     currentSong.sections.forEach(section => {
+        const sectionSignature = section.timeSignature ?? currentSong.timeSignature;
+
         // Build rhythm notation for each measure first to calculate height
         const measureNotations = section.measures.map(measure => {
             const beatCount = measure.beats.length;
+            const signature = getMeasureSignature(measure, sectionSignature);
 
             // Collect chords for diagrams
             measure.beats.forEach(beat => {
                 if (beat.chord) {
                     const root = beat.chord.root;
-                    const qualityMap: Record<string, string> = {
-                        'major': 'maj',
-                        'minor': 'm',
-                        'diminished': 'dim',
-                        'augmented': 'aug',
-                        'major7': 'maj7',
-                        'minor7': 'm7',
-                        'dominant7': '7',
-                        'halfDiminished7': 'm7b5',
-                        'sus2': 'sus2',
-                        'sus4': 'sus4',
-                    };
-                    const quality = qualityMap[beat.chord.quality] || beat.chord.quality || 'maj';
+                    const quality = beat.chord.quality === 'augmented'
+                        ? 'aug'
+                        : normalizeQuality(beat.chord.quality || 'maj');
                     uniqueChords.add(`${root}|${quality}`);
                 }
             });
@@ -192,18 +236,49 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
                 return chord;
             } else if (beatCount === 2) {
                 return measure.beats.map(beat => beat.chord?.symbol || '—').join(' ');
+            } else if (signature[1] >= 8) {
+                return groupByPulse(
+                    measure.beats.map(beat => beat.chord?.symbol || '—'),
+                    measure.beats.map(beat => beat.duration),
+                    signature
+                );
             } else {
                 return measure.beats.map(beat => beat.chord?.symbol || '—').join(' ');
             }
+        }).map((notation, index) => {
+            // Repeat barlines, endings and meter changes, written the way a lead sheet would
+            const measure = section.measures[index];
+            const signature = getMeasureSignature(measure, sectionSignature);
+            const previousSignature = index > 0
+                ? getMeasureSignature(section.measures[index - 1], sectionSignature)
+                : currentSong.timeSignature;
+            const meter = isSameTimeSignature(signature, previousSignature) ? '' : `(${formatTimeSignature(signature)}) `;
+            const ending = isEndingStart(section.measures, index) ? `[${measure.ending}. ` : '';
+            const start = measure.repeatStart ? '|: ' : '';
+            const end = measure.repeatEnd ? ` :|${measure.repeatEnd > 2 ? ` x${measure.repeatEnd}` : ''}` : '';
+            return `${ending}${start}${meter}${notation}${end}`;
         });
 
+        // Roman numerals per measure, with the cadence name after the chord it resolves to
+        const measureAnalyses = analysis
+            ? section.measures.map(measure => measure.beats.map(beat => {
+                if (!beat.chord) return '—';
+                const key = slotKey({ sectionId: section.id, slotId: beat.id });
+                const numeral = analysis.chords[key]?.numeral;
+                const cadence = analysis.cadences.find(c => c.to.slotId === beat.id)?.cadence;
+                const label = numeral ? toPdfNumeral(numeral) : '?';
+                return cadence ? `${label} (${cadence.id})` : label;
+            }).join(' '))
+            : null;
+
         // Calculate the total height this section will need:
         // - Section header: 10
-        // - Each row of chords: 10 per row
+        // - Each row of chords: 10 per row (15 with the analysis line)
         // - No chords message: 12
         // - Space after section: 6
+        const lineHeight = measureAnalyses ? 15 : 10;
         const numRows = measureNotations.length === 0 ? 1 : Math.ceil(measureNotations.length / measuresPerRow);
-        const rowHeight = measureNotations.length === 0 ? 12 : numRows * 10;
+        const rowHeight = measureNotations.length === 0 ? 12 : numRows * lineHeight;
         const sectionHeight = 10 + rowHeight + 6; // header + rows + spacing
 
         // Check if we need a new page - ensure entire section fits on one page
@@ -217,7 +292,22 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
         doc.setFontSize(14);
         doc.setFont("helvetica", "bold");
         doc.setTextColor(0, 0, 0);
-        doc.text(`[${getSectionDisplayName(section, currentSong.sections)}]`, leftMargin, y);
+        const sectionRepeats = (section.repeats ?? 1) > 1 ? ` x${section.repeats}` : '';
+        const tempoMarking = toPdfTempoMarking(getTempoMarking(section, currentSong.tempo));
+        const sectionHeader = `[${getSectionDisplayName(section, currentSong.sections)}]${sectionRepeats}${tempoMarking ? `  ${tempoMarking}` : ''}`;
+        doc.text(sectionHeader, leftMargin, y);
+
+        // Mark key changes next to the section name
+        const sectionKey = getSectionKey(section, currentSong.key);
+        if (sectionKey !== previousSectionKey) {
+            const headerWidth = doc.getTextWidth(sectionHeader);
+            doc.setFontSize(10);
+            doc.setFont("helvetica", "bold");
+            doc.setTextColor(180, 100, 0);
+            doc.text(`Key change: ${sectionKey}`, leftMargin + headerWidth + 4, y);
+            doc.setTextColor(0, 0, 0);
+        }
+        previousSectionKey = sectionKey;
         y += 10;
 
         // Wrap measures into rows of 4
@@ -230,11 +320,42 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
         } else {
             for (let i = 0; i < measureNotations.length; i += measuresPerRow) {
                 const rowMeasures = measureNotations.slice(i, i + measuresPerRow);
-                const rowText = rowMeasures.join('  |  ');
 
-                // All rows flush left at margin - no indentation needed
-                doc.text(rowText, leftMargin, y);
-                y += 10;
+                if (!measureAnalyses) {
+                    const rowText = rowMeasures.join('  |  ');
+
+                    // All rows flush left at margin - no indentation needed
+                    doc.text(rowText, leftMargin, y);
+                    y += 10;
+                    continue;
+                }
+
+                // Lay out measure by measure so each numeral line sits under its chords
+                let x = leftMargin;
+                rowMeasures.forEach((notation, j) => {
+                    const numerals = measureAnalyses[i + j];
+                    doc.setFontSize(14);
+                    doc.setTextColor(0, 0, 0);
+                    const chordWidth = doc.getTextWidth(notation);
+                    const separatorWidth = doc.getTextWidth('  |  ');
+                    doc.text(notation, x, y);
+
+                    doc.setFontSize(8);
+                    doc.setTextColor(110, 110, 110);
+                    const numeralWidth = doc.getTextWidth(numerals);
+                    doc.text(numerals, x, y + 5);
+
+                    x += Math.max(chordWidth, numeralWidth);
+                    if (j < rowMeasures.length - 1) {
+                        doc.setFontSize(14);
+                        doc.setTextColor(0, 0, 0);
+                        doc.text('  |  ', x, y);
+                        x += separatorWidth;
+                    }
+                });
+                doc.setFontSize(14);
+                doc.setTextColor(0, 0, 0);
+                y += lineHeight;
             }
         }
 
@@ -264,10 +385,11 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
 
         // Go back to first page for chord diagrams
         doc.setPage(1);
+        const fretboardTuning = getDiagramTuning(diagramProfile.id, currentSong);
 
         chordArray.forEach((chordKey, index) => {
             const [root, quality] = chordKey.split('|');
-            const chord = getGuitarChord(root, quality);
+            const chord = getGuitarChord(root, quality, fretboardTuning, diagramProfile.voicingOptions);
 
             if (!chord) return;
 
@@ -325,8 +447,8 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
         const labelY = horizontalY - verticalExtent - 3; // Labels above the bracket
         const timelineWidth = pageWidth - (leftMargin * 2);
 
-        // Calculate total measures for proportional sizing
-        const totalMeasures = currentSong.sections.reduce((acc, s) => acc + s.measures.length, 0);
+        // Calculate total measures for proportional sizing (the form as played)
+        const totalMeasures = playedSections.reduce((acc, s) => acc + s.measures.length, 0);
         if (totalMeasures === 0) return;
 
         // Draw each section as a bracket with label above
@@ -334,7 +456,7 @@ export const generatePdfDocument = (currentSong: Song, selectedKey: string): jsP
         pageDoc.setDrawColor(0, 0, 0);
         pageDoc.setLineWidth(0.4);
 
-        currentSong.sections.forEach((section) => {
+        playedSections.forEach((section) => {
             const sectionWidth = (section.measures.length / totalMeasures) * timelineWidth;
             const bracketStartX = currentX + 2; // Small padding from edge
             const bracketEndX = currentX + sectionWidth - 2;
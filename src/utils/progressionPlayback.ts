@@ -109,9 +109,23 @@ export async function playProgression(
     tempo: number = 120,
     beatsPerChord: number = 2,
     onChordChange?: (index: number, chord: Chord) => void
+): Promise<void> {
+    return playChordSequence(progressionToChords(numerals, key), tempo, beatsPerChord, onChordChange);
+}
+
+/**
+ * Play a list of chords with timing (same engine as playProgression, for
+ * chords that don't come from roman numerals, e.g. modulation routes)
+ */
+export async function playChordSequence(
+    chords: Chord[],
+    tempo: number = 120,
+    beatsPerChord: number = 2,
+    onChordChange?: (index: number, chord: Chord) => void
 ): Promise<void> {
     // Stop any existing progression
     stopProgression();
+    if (chords.length === 0) return;
     isPlayingProgression = true;
 
     // Initialize audio if needed
@@ -123,7 +137,6 @@ export async function playProgression(
     }
     await initAudio();
 
-    const chords = progressionToChords(numerals, key);
     const msPerBeat = (60 / tempo) * 1000;
     const chordDuration = msPerBeat * beatsPerChord;
 
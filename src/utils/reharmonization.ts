@@ -0,0 +1,264 @@
+/**
+ * Reharmonization Utilities
+ *
+ * Classic substitutions applied to selected timeline slots: tritone subs,
+ * ii–V approaches, relative and parallel (modal interchange) swaps, diatonic
+ * third substitutes and passing diminished chords. Every operation is planned
+ * as a list of slot edits first, so it can be previewed before it is applied.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getSectionKey, type Section, type SelectionSlot } from '../types';
+import {
+    NOTES,
+    getChordNotes,
+    getDiatonicChords,
+    getKeyNameForNote,
+    getQualitySymbol,
+    normalizeNote,
+    spellNoteForKey,
+    transposeNote,
+    type Chord
+} from './musicTheory';
+import { slotKey } from './selectionUtils';
+import { getNumeralForChord } from './transpose';
+
+export type ReharmonizationKind =
+    | 'tritoneSub'
+    | 'iiV'
+    | 'relativeSwap'
+    | 'modalInterchange'
+    | 'thirdSub'
+    | 'passingDiminished';
+
+export interface ReharmonizationOption {
+    kind: ReharmonizationKind;
+    label: string;
+    description: string;
+}
+
+export const REHARMONIZATIONS: ReharmonizationOption[] = [
+    { kind: 'tritoneSub', label: 'Tritone sub', description: 'Swap a dominant for the dominant a tritone away (G7 → D♭7)' },
+    { kind: 'iiV', label: 'ii–V approach', description: 'Turn the slot before each chord into its ii–V (Dm7 G7 → C)' },
+    { kind: 'relativeSwap', label: 'Relative swap', description: 'Swap major and relative minor (C ↔ Am)' },
+    { kind: 'modalInterchange', label: 'Modal interchange', description: 'Borrow from the parallel minor (IV → iv, vi → ♭VI)' },
+    { kind: 'thirdSub', label: 'Third substitute', description: 'Use the diatonic chord a third away (I → vi, IV → ii)' },
+    { kind: 'passingDiminished', label: 'Passing diminished', description: 'Split the slot and add a °7 leading into the next chord' }
+];
+
+/**
+ * One planned change: the slot's chord is replaced by `chords`.
+ * Two chords split the slot into two halves.
+ */
+export interface ReharmonizationEdit {
+    sectionId: string;
+    slotId: string;
+    chords: Chord[];
+}
+
+interface PlannedSlot extends SelectionSlot {
+    chord: Chord | null;
+    duration: number;
+    key: string;
+}
+
+/**
+ * Build a chord on `root` spelled for `key`, with its numeral in that key.
+ * Chromatic chords below a diatonic degree (♭II7, ♭VI) take flat names.
+ */
+function makeChord(root: string, quality: Chord['quality'], key: string, flatDegree = false): Chord {
+    const spelledRoot = flatDegree ? getKeyNameForNote(root) : spellNoteForKey(root, key);
+    const chord: Chord = {
+        root: spelledRoot,
+        quality,
+        notes: getChordNotes(spelledRoot, quality),
+        symbol: `${spelledRoot}${getQualitySymbol(quality)}`
+    };
+    const numeral = getNumeralForChord(chord, key);
+    if (numeral) chord.numeral = numeral;
+    return chord;
+}
+
+const interval = (chord: Chord, semitones: number) => {
+    const root = NOTES.indexOf(normalizeNote(chord.root));
+    return chord.notes.some(note => NOTES.indexOf(normalizeNote(note)) === (root + semitones) % 12);
+};
+
+/**
+ * Major third plus minor seventh: any dominant-family chord (7, 9, 7♭9, ...)
+ */
+const isDominant = (chord: Chord) => interval(chord, 4) && interval(chord, 10);
+const hasSeventh = (chord: Chord) => interval(chord, 10) || interval(chord, 11);
+const isMinorTriadFamily = (chord: Chord) => interval(chord, 3) && interval(chord, 7);
+const isMajorTriadFamily = (chord: Chord) => interval(chord, 4) && interval(chord, 7);
+
+// Diatonic seventh-chord qualities per degree, used when the original had a seventh
+const DIATONIC_SEVENTHS: Chord['quality'][] = ['major7', 'minor7', 'minor7', 'major7', 'dominant7', 'minor7', 'halfDiminished7'];
+// Third substitutes by scale degree: I→vi, ii→IV, iii→I, IV→ii, V→vii°, vi→I, vii°→V
+const THIRD_SUBSTITUTES = [5, 3, 0, 1, 6, 0, 4];
+
+/**
+ * The diatonic seventh quality on `root` in `key`, or `fallback` off the scale
+ */
+function getSeventhQuality(root: string, key: string, fallback: Chord['quality']): Chord['quality'] {
+    const degree = getDiatonicChords(key).findIndex(diatonic => normalizeNote(diatonic.root) === normalizeNote(root));
+    return degree === -1 ? fallback : DIATONIC_SEVENTHS[degree];
+}
+
+function getDegree(chord: Chord, key: string): number {
+    return getDiatonicChords(key).findIndex(diatonic =>
+        normalizeNote(diatonic.root) === normalizeNote(chord.root) &&
+        getNumeralForChord(chord, key) === diatonic.numeral
+    );
+}
+
+/**
+ * Replacement chords for a single-slot substitution, or null if it doesn't apply
+ */
+function substitute(kind: ReharmonizationKind, chord: Chord, key: string): Chord[] | null {
+    switch (kind) {
+        case 'tritoneSub': {
+            if (!isDominant(chord)) return null;
+            return [makeChord(transposeNote(chord.root, 6), chord.quality, key, true)];
+        }
+        case 'relativeSwap': {
+            if (isDominant(chord)) return null;
+            const seventh = hasSeventh(chord);
+            if (isMajorTriadFamily(chord)) {
+                const root = transposeNote(chord.root, 9);
+                return [makeChord(root, seventh ? getSeventhQuality(root, key, 'minor7') : 'minor', key)];
+            }
+            if (isMinorTriadFamily(chord)) {
+                const root = transposeNote(chord.root, 3);
+                return [makeChord(root, seventh ? getSeventhQuality(root, key, 'major7') : 'major', key)];
+            }
+            return null;
+        }
+        case 'modalInterchange': {
+            const degree = getDegree(chord, key);
+            const seventh = hasSeventh(chord);
+            switch (degree) {
+                case 0: return [makeChord(chord.root, seventh ? 'minor7' : 'minor', key)];           // I → i
+                case 1: return [makeChord(chord.root, seventh ? 'halfDiminished7' : 'diminished', key)]; // ii → ii°
+                case 3: return [makeChord(chord.root, seventh ? 'minor7' : 'minor', key)];           // IV → iv
+                case 4: return [makeChord(chord.root, seventh ? 'minor7' : 'minor', key)];           // V → v
+                case 2:                                                                              // iii → ♭III
+                case 5:                                                                              // vi → ♭VI
+                case 6:                                                                              // vii° → ♭VII
+                    return [makeChord(transposeNote(chord.root, -1), seventh ? 'major7' : 'major', key, true)];
+                default: return null;
+            }
+        }
+        case 'thirdSub': {
+            const degree = getDegree(chord, key);
+            if (degree === -1) return null;
+            const target = getDiatonicChords(key)[THIRD_SUBSTITUTES[degree]];
+            const quality = hasSeventh(chord) ? DIATONIC_SEVENTHS[THIRD_SUBSTITUTES[degree]] : target.quality;
+            return [makeChord(target.root, quality, key)];
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Flatten the song's slots with their durations and section keys
+ */
+function getPlannedSlots(sections: Section[], songKey: string): PlannedSlot[] {
+    return sections.flatMap(section => {
+        const key = getSectionKey(section, songKey);
+        return section.measures.flatMap(measure => measure.beats.map(beat => ({
+            sectionId: section.id,
+            slotId: beat.id,
+            chord: beat.chord ?? null,
+            duration: beat.duration,
+            key
+        })));
+    });
+}
+
+// Shortest slot the timeline allows (see resizeSlot); a split needs two of these
+const MIN_SLOT_DURATION = 0.25;
+
+/**
+ * Plan a reharmonization of the selected slots. Returns the edits in song order;
+ * an empty list means the operation doesn't apply to anything in the selection.
+ */
+export function planReharmonization(
+    sections: Section[],
+    slots: SelectionSlot[],
+    kind: ReharmonizationKind,
+    songKey: string
+): ReharmonizationEdit[] {
+    const selected = new Set(slots.map(slotKey));
+    const allSlots = getPlannedSlots(sections, songKey);
+    const edits: ReharmonizationEdit[] = [];
+    const edited = new Set<string>();
+
+    allSlots.forEach((slot, index) => {
+        if (!selected.has(slotKey(slot)) || !slot.chord) return;
+
+        if (kind === 'iiV') {
+            // The ii–V of the target goes into the slot before it
+            const previous = allSlots[index - 1];
+            if (!previous || edited.has(slotKey(previous)) || selected.has(slotKey(previous))) return;
+            const ii = makeChord(transposeNote(slot.chord.root, 2), 'minor7', slot.key);
+            const V = makeChord(transposeNote(slot.chord.root, 7), 'dominant7', slot.key);
+            edits.push({
+                sectionId: previous.sectionId,
+                slotId: previous.slotId,
+                chords: previous.duration >= MIN_SLOT_DURATION * 2 ? [ii, V] : [V]
+            });
+            edited.add(slotKey(previous));
+            return;
+        }
+
+        if (kind === 'passingDiminished') {
+            // Second half of the slot becomes a °7 a half step below the next chord
+            const next = allSlots.slice(index + 1).find(s => s.chord)?.chord;
+            if (!next || slot.duration < MIN_SLOT_DURATION * 2) return;
+            if (normalizeNote(next.root) === normalizeNote(slot.chord.root)) return;
+            edits.push({
+                sectionId: slot.sectionId,
+                slotId: slot.slotId,
+                chords: [slot.chord, makeChord(transposeNote(next.root, -1), 'diminished7', slot.key)]
+            });
+            edited.add(slotKey(slot));
+            return;
+        }
+
+        const chords = substitute(kind, slot.chord, slot.key);
+        if (!chords) return;
+        edits.push({ sectionId: slot.sectionId, slotId: slot.slotId, chords });
+        edited.add(slotKey(slot));
+    });
+
+    return edits;
+}
+
+/**
+ * Apply planned edits to the sections. A two-chord edit splits its slot into two
+ * halves; the first half keeps the slot id so the selection survives.
+ */
+export function applyReharmonization(sections: Section[], edits: ReharmonizationEdit[]): Section[] {
+    const bySlot = new Map(edits.map(edit => [slotKey(edit), edit]));
+
+    return sections.map(section => ({
+        ...section,
+        measures: section.measures.map(measure => ({
+            ...measure,
+            beats: measure.beats.flatMap(beat => {
+                const edit = bySlot.get(slotKey({ sectionId: section.id, slotId: beat.id }));
+                if (!edit) return [beat];
+                if (edit.chords.length === 1) return [{ ...beat, chord: edit.chords[0] }];
+
+                const duration = beat.duration / edit.chords.length;
+                return edit.chords.map((chord, i) => ({
+                    id: i === 0 ? beat.id : uuidv4(),
+                    chord,
+                    duration
+                }));
+            })
+        }))
+    }));
+}
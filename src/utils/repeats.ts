@@ -0,0 +1,98 @@
+/**
+ * Repeat Utilities
+ *
+ * Charts stay short with repeat barlines (Measure.repeatStart / repeatEnd),
+ * first and second endings (Measure.ending) and whole-section repeat counts
+ * (Section.repeats). Playback and the exporters hear the unrolled bars from
+ * unrollSection. Repeats don't nest: an end repeat jumps back to the nearest
+ * start repeat, or to the bar after the previous completed repeat, as in
+ * standard notation.
+ */
+
+import type { Measure, Section } from '../types';
+
+export const MAX_REPEAT_COUNT = 8;
+
+const copyMeasure = (measure: Measure): Measure => ({
+    ...measure,
+    beats: measure.beats.map(beat => ({ ...beat }))
+});
+
+/**
+ * The bars of a section in the order they are played. Every played bar gets
+ * its own slot objects (ids unchanged) so repeated bars can be voiced apart.
+ */
+export function unrollMeasures(measures: Measure[]): Measure[] {
+    const played: Measure[] = [];
+    let start = 0;
+    let pass = 1;
+    let finished = false;
+    let index = 0;
+
+    while (index < measures.length) {
+        const measure = measures[index];
+
+        // A completed repeat (and its endings) is behind us: the next passage starts here.
+        // Leaving a run of endings also completes it, since the last pass may skip the :| bar.
+        const leftEndings = !!measures[index - 1]?.ending && index !== start;
+        if ((finished || leftEndings) && !measure.ending) {
+            start = index;
+            pass = 1;
+            finished = false;
+        }
+        if (measure.repeatStart && index !== start) {
+            start = index;
+            pass = 1;
+        }
+
+        // Endings for other passes are skipped
+        if (measure.ending && measure.ending !== pass) {
+            index++;
+            continue;
+        }
+
+        played.push(copyMeasure(measure));
+
+        if (measure.repeatEnd) {
+            if (pass < Math.min(measure.repeatEnd, MAX_REPEAT_COUNT)) {
+                pass++;
+                index = start;
+                continue;
+            }
+            finished = true;
+        }
+        index++;
+    }
+
+    return played;
+}
+
+/**
+ * Whether a section has any repeat marks or a repeat count
+ */
+export function hasRepeats(section: Section): boolean {
+    return (section.repeats ?? 1) > 1
+        || section.measures.some(measure => measure.repeatStart || measure.repeatEnd || measure.ending);
+}
+
+/**
+ * A section with its repeats written out, as it is heard
+ */
+export function unrollSection(section: Section): Section {
+    if (!hasRepeats(section)) return section;
+
+    const passes = Math.max(1, Math.min(MAX_REPEAT_COUNT, section.repeats ?? 1));
+    const body = unrollMeasures(section.measures);
+    return {
+        ...section,
+        measures: Array.from({ length: passes }, (_, pass) => pass === 0 ? body : body.map(copyMeasure)).flat()
+    };
+}
+
+/**
+ * Whether a volta bracket begins at this bar (the first of a run of bars with the same ending)
+ */
+export function isEndingStart(measures: Measure[], index: number): boolean {
+    const ending = measures[index]?.ending;
+    return !!ending && measures[index - 1]?.ending !== ending;
+}
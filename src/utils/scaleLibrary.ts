@@ -0,0 +1,266 @@
+/**
+ * Scale Library
+ *
+ * Scales beyond the seven modes of the major scale: the modes of harmonic and
+ * melodic minor, pentatonics, blues, symmetric and bebop scales. Each scale is
+ * an interval formula plus the letter step of every degree, so notes are
+ * spelled the way they're written (C minor pentatonic is C Eb F G Bb, not
+ * C D# F G A#). Chord-scale matching lists the scales that hold all of a
+ * chord's tones, the ones that stay inside the key first.
+ */
+
+import { getChordNotes, getKeyNameForNote, getMajorScale, getTonic, NOTES, normalizeNote, transposeNote } from './musicTheory';
+
+export type ScaleFamily = 'major' | 'harmonicMinor' | 'melodicMinor' | 'pentatonic' | 'blues' | 'symmetric' | 'bebop';
+
+export interface ScaleDefinition {
+    id: string;
+    name: string;
+    family: ScaleFamily;
+    intervals: number[];   // Semitones above the root, ascending
+    degrees: number[];     // Letter steps above the root for each note, used for spelling
+    desc: string;
+}
+
+export interface ScaleFamilyInfo {
+    id: ScaleFamily;
+    name: string;
+    modal: boolean;   // Its scales are the modes (rotations) of the first one
+}
+
+export const SCALE_FAMILIES: ScaleFamilyInfo[] = [
+    { id: 'major', name: 'Major Modes', modal: true },
+    { id: 'harmonicMinor', name: 'Harmonic Minor', modal: true },
+    { id: 'melodicMinor', name: 'Melodic Minor', modal: true },
+    { id: 'pentatonic', name: 'Pentatonic', modal: false },
+    { id: 'blues', name: 'Blues', modal: false },
+    { id: 'symmetric', name: 'Symmetric', modal: false },
+    { id: 'bebop', name: 'Bebop', modal: false }
+];
+
+const HEPTATONIC_DEGREES = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * The seven modes of a parent scale, each rotated to start on its own root
+ */
+function buildModes(family: ScaleFamily, parent: number[], modes: { id: string; name: string; desc: string }[]): ScaleDefinition[] {
+    return modes.map((mode, degree) => ({
+        ...mode,
+        family,
+        intervals: [...parent.slice(degree), ...parent.slice(0, degree)].map(interval => (interval - parent[degree] + 12) % 12),
+        degrees: HEPTATONIC_DEGREES
+    }));
+}
+
+export const SCALES: ScaleDefinition[] = [
+    ...buildModes('major', [0, 2, 4, 5, 7, 9, 11], [
+        { id: 'ionian', name: 'Ionian', desc: 'Bright, happy' },
+        { id: 'dorian', name: 'Dorian', desc: 'Hopeful minor, jazzy' },
+        { id: 'phrygian', name: 'Phrygian', desc: 'Spanish, exotic' },
+        { id: 'lydian', name: 'Lydian', desc: 'Dreamy, floating' },
+        { id: 'mixolydian', name: 'Mixolydian', desc: 'Bluesy, rock' },
+        { id: 'aeolian', name: 'Aeolian', desc: 'Sad, melancholic' },
+        { id: 'locrian', name: 'Locrian', desc: 'Dark, unstable' }
+    ]),
+    ...buildModes('harmonicMinor', [0, 2, 3, 5, 7, 8, 11], [
+        { id: 'harmonicMinor', name: 'Harmonic Minor', desc: 'Classical minor, pulls to the tonic' },
+        { id: 'locrianNat6', name: 'Locrian ♮6', desc: 'Half-diminished with a bright 6th' },
+        { id: 'ionianSharp5', name: 'Ionian ♯5', desc: 'Augmented major, tense' },
+        { id: 'dorianSharp4', name: 'Dorian ♯4', desc: 'Eastern European minor' },
+        { id: 'phrygianDominant', name: 'Phrygian Dominant', desc: 'Flamenco, V of minor' },
+        { id: 'lydianSharp2', name: 'Lydian ♯2', desc: 'Exotic, shimmering' },
+        { id: 'superLocrianDim', name: 'Altered ♭♭7', desc: 'Diminished 7th colour' }
+    ]),
+    ...buildModes('melodicMinor', [0, 2, 3, 5, 7, 9, 11], [
+        { id: 'melodicMinor', name: 'Melodic Minor', desc: 'Jazz minor, smooth' },
+        { id: 'dorianFlat2', name: 'Dorian ♭2', desc: 'Dark, sus♭9' },
+        { id: 'lydianAugmented', name: 'Lydian Augmented', desc: 'Floating, maj7♯5' },
+        { id: 'lydianDominant', name: 'Lydian Dominant', desc: 'Bright dominant, 7♯11' },
+        { id: 'mixolydianFlat6', name: 'Mixolydian ♭6', desc: 'Bittersweet dominant' },
+        { id: 'locrianNat2', name: 'Locrian ♮2', desc: 'Smooth half-diminished' },
+        { id: 'altered', name: 'Altered', desc: 'Every tension on a dominant' }
+    ]),
+    { id: 'majorPentatonic', name: 'Major Pentatonic', family: 'pentatonic', intervals: [0, 2, 4, 7, 9], degrees: [0, 1, 2, 4, 5], desc: 'Open, country, pop' },
+    { id: 'minorPentatonic', name: 'Minor Pentatonic', family: 'pentatonic', intervals: [0, 3, 5, 7, 10], degrees: [0, 2, 3, 4, 6], desc: 'Rock and blues lead' },
+    { id: 'minorBlues', name: 'Blues', family: 'blues', intervals: [0, 3, 5, 6, 7, 10], degrees: [0, 2, 3, 4, 4, 6], desc: 'Minor pentatonic with the ♭5' },
+    { id: 'majorBlues', name: 'Major Blues', family: 'blues', intervals: [0, 2, 3, 4, 7, 9], degrees: [0, 1, 2, 2, 4, 5], desc: 'Major pentatonic with the ♭3' },
+    { id: 'wholeTone', name: 'Whole Tone', family: 'symmetric', intervals: [0, 2, 4, 6, 8, 10], degrees: [0, 1, 2, 3, 4, 6], desc: 'Dreamlike, 7♯5' },
+    { id: 'diminishedHW', name: 'Diminished (H-W)', family: 'symmetric', intervals: [0, 1, 3, 4, 6, 7, 9, 10], degrees: [0, 1, 1, 2, 3, 4, 5, 6], desc: 'Dominant 7♭9' },
+    { id: 'diminishedWH', name: 'Diminished (W-H)', family: 'symmetric', intervals: [0, 2, 3, 5, 6, 8, 9, 11], degrees: [0, 1, 2, 3, 4, 5, 5, 6], desc: 'Diminished 7th chords' },
+    { id: 'bebopDominant', name: 'Bebop Dominant', family: 'bebop', intervals: [0, 2, 4, 5, 7, 9, 10, 11], degrees: [0, 1, 2, 3, 4, 5, 6, 6], desc: 'Mixolydian with a passing major 7th' },
+    { id: 'bebopMajor', name: 'Bebop Major', family: 'bebop', intervals: [0, 2, 4, 5, 7, 8, 9, 11], degrees: [0, 1, 2, 3, 4, 4, 5, 6], desc: 'Major with a passing ♯5' },
+    { id: 'bebopDorian', name: 'Bebop Dorian', family: 'bebop', intervals: [0, 2, 3, 4, 5, 7, 9, 10], degrees: [0, 1, 2, 2, 3, 4, 5, 6], desc: 'Dorian with a passing major 3rd' }
+];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+export function getScale(id: string): ScaleDefinition | undefined {
+    return SCALES.find(scale => scale.id === id);
+}
+
+/**
+ * Look a scale up by id, or by display name for data saved before scales had ids
+ */
+export function findScale(idOrName: string): ScaleDefinition | undefined {
+    return getScale(idOrName) ?? SCALES.find(scale => scale.name === idOrName);
+}
+
+export function getScalesInFamily(family: ScaleFamily): ScaleDefinition[] {
+    return SCALES.filter(scale => scale.family === family);
+}
+
+export function getScaleFamily(family: ScaleFamily): ScaleFamilyInfo {
+    return SCALE_FAMILIES.find(info => info.id === family) ?? SCALE_FAMILIES[0];
+}
+
+/**
+ * Notes of a scale on a root, each degree spelled on its own letter
+ * e.g. getScaleNotes('C', 'minorBlues') -> ['C', 'Eb', 'F', 'Gb', 'G', 'Bb']
+ */
+export function getScaleNotes(root: string, scaleId: string): string[] {
+    const scale = getScale(scaleId);
+    if (!scale) return [];
+    const rootIndex = NOTES.indexOf(normalizeNote(root));
+    const rootLetter = LETTERS.indexOf(root[0]);
+    if (rootIndex === -1 || rootLetter === -1) return [];
+
+    return scale.intervals.map((interval, i) => {
+        const target = (rootIndex + interval) % 12;
+        const letter = LETTERS[(rootLetter + scale.degrees[i]) % 7];
+        const diff = ((target - NOTES.indexOf(letter) + 18) % 12) - 6;
+        const spelled = diff === 0 ? letter : diff === 1 ? `${letter}#` : diff === -1 ? `${letter}b` : null;
+        // Double accidentals and E#/B#/Cb/Fb read badly on the strip and fretboard
+        if (!spelled || ['E#', 'B#', 'Cb', 'Fb'].includes(spelled)) {
+            return transposeNote(root, interval, getKeyNameForNote(root));
+        }
+        return spelled;
+    });
+}
+
+export interface ScaleOnRoot {
+    scale: ScaleDefinition;
+    root: string;
+}
+
+/**
+ * The scales of a family as they sit in a key: modal families give each mode
+ * on its own degree (major modes of the key, minor modes of its relative minor),
+ * the others are built on the key's tonic
+ */
+export function getKeyScales(key: string, family: ScaleFamily): ScaleOnRoot[] {
+    const scales = getScalesInFamily(family);
+    if (!getScaleFamily(family).modal) return scales.map(scale => ({ scale, root: key }));
+
+    const parentRoot = family === 'major' ? key : getTonic(key, 'naturalMinor');
+    return scales.map(scale => ({ scale, root: transposeNote(parentRoot, scales[0].intervals[scales.indexOf(scale)], key) }));
+}
+
+/**
+ * Move to another scale of the same family. In a modal family the parent scale
+ * stays put and the root moves to the new mode's degree (C Ionian -> D Dorian);
+ * otherwise the root is kept.
+ */
+export function getRelatedScale(current: ScaleOnRoot, targetId: string): ScaleOnRoot {
+    const target = getScale(targetId);
+    if (!target) return current;
+    if (target.family !== current.scale.family || !getScaleFamily(target.family).modal) {
+        return { scale: target, root: current.root };
+    }
+
+    const modes = getScalesInFamily(target.family);
+    const parent = modes[0].intervals;
+    const parentRoot = transposeNote(current.root, -parent[modes.indexOf(current.scale)]);
+    const root = getKeyNameForNote(transposeNote(parentRoot, parent[modes.indexOf(target)]));
+    return { scale: target, root };
+}
+
+/**
+ * The previous or next scale in the current one's family, wrapping around
+ */
+export function stepScale(current: ScaleOnRoot, step: number): ScaleOnRoot {
+    const scales = getScalesInFamily(current.scale.family);
+    const index = scales.indexOf(current.scale);
+    const next = scales[(index + step + scales.length) % scales.length];
+    return getRelatedScale(current, next.id);
+}
+
+export interface ChordScaleMatch extends ScaleOnRoot {
+    notes: string[];
+    outsideKey: number;   // Scale notes that aren't in the key
+}
+
+// How far each family is from a plain diatonic sound, used to break ties
+const FAMILY_COLOUR: Record<ScaleFamily, number> = {
+    major: 0,
+    pentatonic: 0.25,
+    blues: 0.75,
+    bebop: 0.5,
+    melodicMinor: 1,
+    harmonicMinor: 1,
+    symmetric: 1.5
+};
+
+/**
+ * Scales built on a chord's root that contain all of its tones, best fit first.
+ * The perfect fifth may be missing (altered and whole-tone scales over dominants);
+ * with a key, scales that stay closest to it rank first.
+ */
+export function getChordScales(root: string, quality: string, key?: string, limit: number = 6): ChordScaleMatch[] {
+    const rootIndex = NOTES.indexOf(normalizeNote(root));
+    if (rootIndex === -1) return [];
+    const chordIntervals = [...new Set(getChordNotes(root, quality)
+        .map(note => (NOTES.indexOf(normalizeNote(note)) - rootIndex + 12) % 12))];
+    const required = chordIntervals.filter(interval => interval !== 7);
+    const keyPcs = key ? getMajorScale(key).map(note => NOTES.indexOf(normalizeNote(note))) : [];
+
+    return SCALES
+        .filter(scale => required.every(interval => scale.intervals.includes(interval)))
+        .map(scale => {
+            const outsideKey = key
+                ? scale.intervals.filter(interval => !keyPcs.includes((rootIndex + interval) % 12)).length
+                : 0;
+            const fifthMissing = chordIntervals.includes(7) && !scale.intervals.includes(7) ? 1 : 0;
+            return {
+                match: { scale, root, notes: getScaleNotes(root, scale.id), outsideKey },
+                score: outsideKey + FAMILY_COLOUR[scale.family] + fifthMissing
+            };
+        })
+        .sort((a, b) => a.score - b.score)
+        .slice(0, limit)
+        .map(({ match }) => match);
+}
+
+export interface ChordScaleRoles {
+    scale: ChordScaleMatch;
+    chordTones: string[];
+    tensions: string[];   // Scale notes that add colour over the chord
+    avoid: string[];      // Scale notes that clash (a half step above a chord tone)
+}
+
+/**
+ * Split the best-fitting scale for a chord into chord tones, available tensions
+ * and avoid notes. On dominant chords the ♭9 and ♭13 are altered tensions, not
+ * avoid notes; the natural 11 over a major 3rd always is one.
+ */
+export function getChordScaleRoles(root: string, quality: string, key?: string): ChordScaleRoles | null {
+    const scale = getChordScales(root, quality, key, 1)[0];
+    if (!scale) return null;
+
+    const rootIndex = NOTES.indexOf(normalizeNote(root));
+    const interval = (note: string) => (NOTES.indexOf(normalizeNote(note)) - rootIndex + 12) % 12;
+    const chordIntervals = getChordNotes(root, quality).map(interval);
+    const isDominant = chordIntervals.includes(4) && chordIntervals.includes(10);
+
+    const roles: ChordScaleRoles = { scale, chordTones: [], tensions: [], avoid: [] };
+    scale.notes.forEach(note => {
+        const step = interval(note);
+        if (chordIntervals.includes(step)) {
+            roles.chordTones.push(note);
+            return;
+        }
+        const clashes = chordIntervals.includes((step + 11) % 12);
+        const alteredTension = isDominant && (step === 1 || step === 8);
+        (clashes && !alteredTension ? roles.avoid : roles.tensions).push(note);
+    });
+    return roles;
+}
@@ -0,0 +1,151 @@
+/**
+ * Section Link Utilities
+ *
+ * Linked sections (e.g. Verse 1, 2 and 3 made with "Linked copy") share one
+ * chord body: their measures and time signature. Name, type, key and lyrics
+ * stay per instance. Store actions edit sections as usual and then run
+ * syncLinkedSections, which copies the edited body to the other members of
+ * its link group while keeping each member's own measure and slot ids.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Measure, Section } from '../types';
+
+/**
+ * The other sections sharing `section`'s link group
+ */
+export function getLinkedSections(sections: Section[], section: Section): Section[] {
+    if (!section.linkId) return [];
+    return sections.filter(other => other.linkId === section.linkId && other.id !== section.id);
+}
+
+/**
+ * Copy a body onto a sibling, reusing the sibling's ids position by position
+ * so selections and playback on it survive the edit
+ */
+function copyMeasures(source: Measure[], target: Measure[]): Measure[] {
+    return source.map((measure, measureIndex) => {
+        const targetMeasure = target[measureIndex];
+        return {
+            ...measure,
+            id: targetMeasure?.id ?? uuidv4(),
+            beats: measure.beats.map((beat, beatIndex) => ({
+                ...beat,
+                id: targetMeasure?.beats[beatIndex]?.id ?? uuidv4()
+            }))
+        };
+    });
+}
+
+// A body's content without ids, for telling real edits from rebuilt arrays
+const bodyContent = (measures: Measure[]) => measures.map(({ id: _id, beats, ...marks }) => ({
+    ...marks,
+    beats: beats.map(({ id: _beatId, ...beat }) => beat)
+}));
+
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameBody = (a: Section, b: Section) =>
+    sameContent(a.timeSignature, b.timeSignature) && sameContent(bodyContent(a.measures), bodyContent(b.measures));
+
+// Same bars and slot counts, so edits can be merged slot by slot
+const sameShape = (a: Measure[], b: Measure[]) =>
+    a.length === b.length && a.every((measure, index) => measure.beats.length === b[index].beats.length);
+
+/**
+ * Merge slot-level edits made on several members (e.g. a chord moved from one
+ * instance to another) onto the group's previous body
+ */
+function mergeSlotEdits(base: Measure[], edits: Array<{ before: Measure[]; after: Measure[] }>): Measure[] {
+    return base.map((measure, measureIndex) => {
+        let merged: Measure = { ...measure, beats: [...measure.beats] };
+        edits.forEach(({ before, after }) => {
+            const { id: _id, beats: _beats, ...marks } = after[measureIndex];
+            const { id: _beforeId, beats: _beforeBeats, ...beforeMarks } = before[measureIndex];
+            if (!sameContent(marks, beforeMarks)) merged = { id: merged.id, beats: merged.beats, ...marks };
+
+            after[measureIndex].beats.forEach((beat, beatIndex) => {
+                const { id: _beatId, ...content } = beat;
+                const { id: _beforeBeatId, ...beforeContent } = before[measureIndex].beats[beatIndex];
+                if (!sameContent(content, beforeContent)) {
+                    merged.beats[beatIndex] = { ...content, id: merged.beats[beatIndex].id };
+                }
+            });
+        });
+        return merged;
+    });
+}
+
+/**
+ * Propagate edits between linked sections. A member counts as edited when the
+ * content of its measures or time signature differs from `previous` (actions
+ * that rebuild every section's arrays don't count). One edited member's body
+ * is copied to the rest; when several members were edited slot by slot their
+ * edits are merged, and a structural edit (bars or slots added or removed)
+ * wins over slot edits. Returns `next` untouched when no linked section changed.
+ */
+export function syncLinkedSections(previous: Section[], next: Section[]): Section[] {
+    const previousById = new Map(previous.map(section => [section.id, section]));
+    const groups = new Map<string, Section[]>();
+    next.forEach(section => {
+        if (section.linkId) groups.set(section.linkId, [...(groups.get(section.linkId) ?? []), section]);
+    });
+
+    const bodies = new Map<string, Pick<Section, 'timeSignature' | 'measures'>>();
+    groups.forEach((members, linkId) => {
+        const base = members.map(member => previousById.get(member.id)).find(Boolean);
+        const edited = members.filter(member => {
+            const before = previousById.get(member.id) ?? base;
+            return !before || !sameBody(before, member);
+        });
+        if (edited.length === 0) return;
+
+        const structural = edited.find(member => {
+            const before = previousById.get(member.id);
+            return !base || !before || !sameShape(before.measures, member.measures)
+                || !sameContent(before.timeSignature, member.timeSignature);
+        });
+        if (structural || edited.length === 1 || !base) {
+            const source = structural ?? edited[0];
+            bodies.set(linkId, { timeSignature: source.timeSignature, measures: source.measures });
+            return;
+        }
+
+        bodies.set(linkId, {
+            timeSignature: base.timeSignature,
+            measures: mergeSlotEdits(base.measures, edited.map(member => ({
+                before: previousById.get(member.id)!.measures,
+                after: member.measures
+            })))
+        });
+    });
+
+    if (bodies.size === 0) return next;
+
+    return next.map(section => {
+        const body = section.linkId ? bodies.get(section.linkId) : undefined;
+        if (!body || body.measures === section.measures) return section;
+        return {
+            ...section,
+            timeSignature: body.timeSignature,
+            measures: copyMeasures(body.measures, section.measures)
+        };
+    });
+}
+
+/**
+ * Take a section out of its link group. A group left with a single member
+ * is dissolved too.
+ */
+export function detachSection(sections: Section[], id: string): Section[] {
+    const linkId = sections.find(section => section.id === id)?.linkId;
+    if (!linkId) return sections;
+
+    const remaining = sections.filter(section => section.linkId === linkId && section.id !== id);
+    return sections.map(section => {
+        if (section.id !== id && (section.linkId !== linkId || remaining.length > 1)) return section;
+        const unlinked = { ...section };
+        delete unlinked.linkId;
+        return unlinked;
+    });
+}
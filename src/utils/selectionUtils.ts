@@ -10,11 +10,13 @@ export const beatsFromSignature = (signature: [number, number] = DEFAULT_TIME_SI
     return top * (4 / bottom);
 };
 
-export const createEmptyMeasure = (signature: [number, number]) => {
-    const duration = beatsFromSignature(signature);
+// An empty bar in the section's meter, or in its own when `measureSignature` is given
+export const createEmptyMeasure = (signature: [number, number], measureSignature?: [number, number]) => {
+    const duration = beatsFromSignature(measureSignature ?? signature);
     return {
         id: uuidv4(),
         beats: [{ id: uuidv4(), chord: null, duration }],
+        ...(measureSignature ? { timeSignature: measureSignature } : {}),
     };
 };
 
@@ -24,7 +26,7 @@ export const slotKey = (slot: SelectionSlot | null | undefined) =>
 
 // Helper to flatten all slots in the song into a linear array
 export const flattenSlots = (sections: Section[]) => {
-    const slots: Array<SelectionSlot & { chord: Chord | null }> = [];
+    const slots: Array<SelectionSlot & { chord: Chord | null; duration: number }> = [];
 
     sections.forEach((section) => {
         section.measures.forEach((measure) => {
@@ -33,6 +35,7 @@ export const flattenSlots = (sections: Section[]) => {
                     sectionId: section.id,
                     slotId: beat.id,
                     chord: beat.chord ?? null,
+                    duration: beat.duration,
                 });
             });
         });
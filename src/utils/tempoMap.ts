@@ -0,0 +1,126 @@
+/**
+ * Tempo Map Utilities
+ *
+ * Sections can set their own tempo (Section.tempo) and ramp gradually to
+ * another one across their length (Section.tempoRampTo) for accelerandos and
+ * ritardandos. A ramp changes the tempo linearly per beat. Every bar lasts
+ * as long as its time signature says. Live playback and the audio and MIDI
+ * exports all time their slots through getSlotTimings.
+ */
+
+import type { ChordSlot, Measure, Section } from '../types';
+import { getMeasureSignature } from './meter';
+import { beatsFromSignature } from './selectionUtils';
+
+export const MIN_TEMPO = 40;
+export const MAX_TEMPO = 240;
+
+export const clampTempo = (tempo: number) => Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, Math.round(tempo)));
+
+export interface SlotTiming {
+    section: Section;
+    measure: Measure;
+    slot: ChordSlot;
+    time: number;       // Seconds from the start
+    duration: number;   // Seconds
+    beat: number;       // Beats from the start
+    length: number;     // Beats played (the slot cut off at its barline)
+    tempo: number;      // Average BPM over the slot
+}
+
+/**
+ * A section's tempo at its start and end
+ */
+export function getSectionTempo(section: Pick<Section, 'tempo' | 'tempoRampTo'>, songTempo: number): { start: number; end: number } {
+    const start = section.tempo ?? songTempo;
+    return { start, end: section.tempoRampTo ?? start };
+}
+
+/**
+ * Seconds taken by `beats` beats starting `offset` beats into a ramp from
+ * `start` to `end` BPM over `length` beats (the integral of 60 / bpm)
+ */
+function rampSeconds(start: number, end: number, length: number, offset: number, beats: number): number {
+    if (start === end || length <= 0) return beats * 60 / start;
+    const slope = (end - start) / length;
+    const bpmAt = (beat: number) => start + slope * beat;
+    return (60 / slope) * Math.log(bpmAt(offset + beats) / bpmAt(offset));
+}
+
+/**
+ * Beats in a bar: its meter's length, or its slots' when no meter is known
+ */
+function getBarBeats(measure: Measure, sectionSignature: [number, number] | undefined): number {
+    if (sectionSignature) return beatsFromSignature(getMeasureSignature(measure, sectionSignature));
+    return measure.beats.reduce((total, slot) => total + slot.duration, 0);
+}
+
+/**
+ * When every slot of some sections starts and how long it lasts, in play order.
+ * Slots running past their barline are cut off there; a bar whose slots fall
+ * short of its meter ends in a rest.
+ */
+export function getSlotTimings(sections: Section[], songTempo: number, songSignature?: [number, number]): SlotTiming[] {
+    const timings: SlotTiming[] = [];
+    let time = 0;
+    let beat = 0;
+
+    sections.forEach(section => {
+        const { start, end } = getSectionTempo(section, songTempo);
+        const sectionSignature = section.timeSignature ?? songSignature;
+        const barBeats = section.measures.map(measure => getBarBeats(measure, sectionSignature));
+        const length = barBeats.reduce((total, bar) => total + bar, 0);
+        let offset = 0;
+
+        section.measures.forEach((measure, index) => {
+            let barOffset = 0;
+
+            measure.beats.forEach(slot => {
+                const played = Math.min(slot.duration, barBeats[index] - barOffset);
+                if (played > 1e-6) {
+                    const duration = rampSeconds(start, end, length, offset + barOffset, played);
+                    timings.push({
+                        section,
+                        measure,
+                        slot,
+                        time: time + rampSeconds(start, end, length, offset, barOffset),
+                        duration,
+                        beat: beat + barOffset,
+                        length: played,
+                        tempo: duration > 0 ? played * 60 / duration : start
+                    });
+                }
+                barOffset += slot.duration;
+            });
+
+            time += rampSeconds(start, end, length, offset, barBeats[index]);
+            beat += barBeats[index];
+            offset += barBeats[index];
+        });
+    });
+
+    return timings;
+}
+
+/**
+ * Total play time of some sections in seconds
+ */
+export function getSectionsDuration(sections: Section[], songTempo: number, songSignature?: [number, number]): number {
+    return sections.reduce((total, section) => {
+        const { start, end } = getSectionTempo(section, songTempo);
+        const sectionSignature = section.timeSignature ?? songSignature;
+        const length = section.measures.reduce((beats, measure) => beats + getBarBeats(measure, sectionSignature), 0);
+        return total + rampSeconds(start, end, length, 0, length);
+    }, 0);
+}
+
+/**
+ * A short tempo marking for a section, e.g. '♩ = 70' or 'rit. 96 → 72'.
+ * Empty when the section plays at the song tempo.
+ */
+export function getTempoMarking(section: Pick<Section, 'tempo' | 'tempoRampTo'>, songTempo: number): string {
+    if (section.tempo === undefined && section.tempoRampTo === undefined) return '';
+    const { start, end } = getSectionTempo(section, songTempo);
+    if (start === end) return `♩ = ${start}`;
+    return `${end < start ? 'rit.' : 'accel.'} ${start} → ${end}`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Transposition Utilities
+ *
+ * Moves chords, selections and whole songs between keys while keeping
+ * note spellings consistent with the destination key (flats in flat keys,
+ * sharps everywhere else).
+ */
+
+import type { Section, SelectionSlot } from '../types';
+import {
+    NOTES,
+    getDiatonicChords,
+    getKeyNameForNote,
+    getQualitySymbol,
+    normalizeNote,
+    spellNoteForKey,
+    splitSlashChordSymbol,
+    transposeNote,
+    type Chord
+} from './musicTheory';
+import { slotKey } from './selectionUtils';
+
+/**
+ * Semitone distance from one key to another, folded into -5..+6
+ * so the shortest direction is used (e.g. C -> Bb is -2, not +10)
+ */
+export function getTransposeSemitones(fromKey: string, toKey: string): number {
+    const fromIndex = NOTES.indexOf(normalizeNote(fromKey));
+    const toIndex = NOTES.indexOf(normalizeNote(toKey));
+    if (fromIndex === -1 || toIndex === -1) return 0;
+
+    const up = (toIndex - fromIndex + 12) % 12;
+    return up > 6 ? up - 12 : up;
+}
+
+/**
+ * Resolve a transpose target (semitones or key name) into a semitone offset
+ * and the resulting key name
+ */
+export function resolveTransposeTarget(fromKey: string, target: number | string): { semitones: number; toKey: string } {
+    if (typeof target === 'number') {
+        return {
+            semitones: target,
+            toKey: getKeyNameForNote(transposeNote(fromKey, target))
+        };
+    }
+    return {
+        semitones: getTransposeSemitones(fromKey, target),
+        toKey: target
+    };
+}
+
+/**
+ * Get the roman numeral of a chord relative to a major key, matching the
+ * labels used on the wheel (diatonic degrees plus the II/III secondary dominants).
+ * Returns undefined when the chord is not part of the key.
+ */
+export function getNumeralForChord(chord: Chord, key: string): string | undefined {
+    const root = normalizeNote(chord.root);
+    const isMinor = chord.quality.startsWith('minor');
+    const isDiminished = chord.quality === 'diminished' || chord.quality === 'halfDiminished7' || chord.quality === 'diminished7';
+    const isMajor = !isMinor && !isDiminished && chord.quality !== 'augmented' && chord.quality !== 'augmented7';
+
+    const diatonic = getDiatonicChords(key).find(d => normalizeNote(d.root) === root);
+    if (diatonic) {
+        if (diatonic.quality === 'major' && isMajor) return diatonic.numeral;
+        if (diatonic.quality === 'minor' && isMinor) return diatonic.numeral;
+        if (diatonic.quality === 'diminished' && isDiminished) return diatonic.numeral;
+
+        // Major chords built on ii and iii act as secondary dominants (V/V, V/vi)
+        if (isMajor && diatonic.numeral === 'ii') return 'II';
+        if (isMajor && diatonic.numeral === 'iii') return 'III';
+    }
+
+    return undefined;
+}
+
+/**
+ * Transpose a chord by a number of semitones, respelling every note for the
+ * destination key. The numeral is recomputed against `numeralKey` when given,
+ * otherwise it is kept as-is (a whole-song transpose keeps every function).
+ */
+export function transposeChord(chord: Chord, semitones: number, spellingKey: string, numeralKey?: string): Chord {
+    const root = transposeNote(chord.root, semitones, spellingKey);
+    const notes = chord.notes.map(note => transposeNote(note, semitones, spellingKey));
+    const bassNote = chord.bassNote ? transposeNote(chord.bassNote, semitones, spellingKey) : undefined;
+
+    // Rebuild the symbol from the old one so custom suffixes survive,
+    // falling back to the quality symbol if the root prefix doesn't match
+    const { head, bass: slash } = splitSlashChordSymbol(chord.symbol);
+    let symbol: string;
+    const oldRootPrefix = [chord.root, spellNoteForKey(chord.root, 'C'), spellNoteForKey(chord.root, 'F')]
+        .find(prefix => head.startsWith(prefix) && !/^[#b♯♭]/.test(head.slice(prefix.length)));
+    if (oldRootPrefix) {
+        symbol = `${root}${head.slice(oldRootPrefix.length)}`;
+    } else {
+        symbol = `${root}${getQualitySymbol(chord.quality)}`;
+    }
+    if (slash) {
+        symbol += `/${transposeNote(slash, semitones, spellingKey)}`;
+    }
+
+    const transposed: Chord = {
+        ...chord,
+        root,
+        notes,
+        symbol,
+        bassNote
+    };
+
+    if (numeralKey !== undefined) {
+        transposed.numeral = getNumeralForChord(transposed, numeralKey);
+    }
+    if (transposed.bassNote === undefined) {
+        delete transposed.bassNote;
+    }
+    if (transposed.numeral === undefined) {
+        delete transposed.numeral;
+    }
+
+    return transposed;
+}
+
+/**
+ * Transpose every chord in the given sections. When `slots` is provided only
+ * those slots are touched; numerals are recomputed against `numeralKey` if set.
+ */
+export function transposeSections(
+    sections: Section[],
+    semitones: number,
+    spellingKey: string,
+    options?: { slots?: SelectionSlot[]; numeralKey?: string }
+): Section[] {
+    const targets = options?.slots ? new Set(options.slots.map(slotKey)) : null;
+
+    return sections.map(section => ({
+        ...section,
+        measures: section.measures.map(measure => ({
+            ...measure,
+            beats: measure.beats.map(beat => {
+                if (!beat.chord) return beat;
+                if (targets && !targets.has(slotKey({ sectionId: section.id, slotId: beat.id }))) return beat;
+                return {
+                    ...beat,
+                    chord: transposeChord(beat.chord, semitones, spellingKey, options?.numeralKey)
+                };
+            })
+        }))
+    }));
+}
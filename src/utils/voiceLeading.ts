@@ -0,0 +1,220 @@
+/**
+ * Voice-Leading Utilities
+ *
+ * Turns octave-less chord notes into playable pitches. Each chord is voiced
+ * as a bass note plus upper voices, choosing the inversion and octave that
+ * moves the least from the previous chord. Live playback, WAV render and MIDI
+ * export all voice songs through `voiceSongSlots`, so they sound the same.
+ */
+
+import type { ChordSlot, Section } from '../types';
+import { NOTES, getChordPlaybackNotes, normalizeNote } from './musicTheory';
+
+export type VoicingStyle = 'close' | 'drop2' | 'open' | 'shell' | 'rootless' | 'block';
+
+export const VOICING_STYLES: { value: VoicingStyle; label: string; description: string }[] = [
+    { value: 'close', label: 'Close', description: 'All chord tones packed together, moving as little as possible' },
+    { value: 'drop2', label: 'Drop 2', description: 'Second voice from the top dropped an octave, a guitar and big-band staple' },
+    { value: 'open', label: 'Open', description: 'Voices spread over two octaves for a wide, orchestral sound' },
+    { value: 'shell', label: 'Shell', description: 'Just root, 3rd and 7th: the lean jazz-comping voicing' },
+    { value: 'rootless', label: 'Rootless', description: 'Upper structure without the root above the bass, like a jazz pianist' },
+    { value: 'block', label: 'Block', description: 'Every chord stacked up from the root in octave 3 (no voice leading)' }
+];
+
+export interface ChordVoicing {
+    bass: number;     // MIDI note number
+    upper: number[];  // MIDI note numbers, ascending
+}
+
+// Ranges (MIDI numbers) the voices are kept within
+const BASS_RANGE: [number, number] = [40, 55];   // E2 - G3
+const UPPER_RANGE: [number, number] = [52, 81];  // E3 - A5
+const BASS_HOME = 48;                             // C3, where the first chord's bass starts
+const UPPER_HOME = 64;                            // E4, the centre the upper voices gravitate to
+
+const pitchClass = (note: string) => NOTES.indexOf(normalizeNote(note.replace(/-?\d+$/, '')));
+const hasOctave = (note: string) => /\d$/.test(note);
+
+/**
+ * MIDI number to a note name Tone.js and MIDI writers accept, e.g. 61 -> 'C#4'
+ */
+export const midiToNoteName = (midi: number): string => `${NOTES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+
+/**
+ * Stack notes up from the root in `baseOctave` (the original block-chord voicing)
+ */
+export function stackNotesFromRoot(notes: string[], baseOctave: number = 3): string[] {
+    if (notes.length === 0) return [];
+    const rootIndex = pitchClass(notes[0]);
+
+    return notes.map((note, i) => {
+        if (hasOctave(note)) return note;
+        const noteName = normalizeNote(note);
+        const noteIndex = NOTES.indexOf(noteName);
+        if (i === 0) return `${noteName}${baseOctave}`;
+
+        // Notes "below" the root in the chromatic scale go an octave up
+        let octave = baseOctave;
+        if (rootIndex !== -1 && noteIndex !== -1 && (noteIndex < rootIndex || noteIndex - rootIndex > 6)) {
+            octave = baseOctave + 1;
+        }
+        // Extensions (9, 11, 13) go higher still
+        if (i >= 4) octave = baseOctave + 1;
+        if (i >= 5) octave = baseOctave + 2;
+        return `${noteName}${octave}`;
+    });
+}
+
+/**
+ * Pick the upper-voice pitch classes for a style. `rootPc` is the chord root,
+ * `bassPc` the lowest note (they differ for inversions and slash chords).
+ */
+function getUpperPitchClasses(pcs: number[], rootPc: number, bassPc: number, style: VoicingStyle): number[] {
+    const interval = (semitones: number[]) => pcs.find(pc => semitones.includes((pc - rootPc + 12) % 12));
+
+    if (style === 'shell') {
+        const third = interval([3, 4]) ?? interval([5, 2]);
+        const seventh = interval([10, 11]) ?? (pcs.length >= 4 ? interval([9]) : undefined) ?? interval([7, 6, 8]);
+        const shell = [third, seventh].filter((pc): pc is number => pc !== undefined);
+        if (shell.length) return shell;
+    }
+    if (style === 'open') return pcs;
+    if (style === 'rootless' && pcs.length >= 4) {
+        return pcs.filter(pc => pc !== rootPc);
+    }
+    // Triads double the bass above; richer chords leave it to the bass alone
+    return pcs.length >= 4 ? pcs.filter(pc => pc !== bassPc) : pcs;
+}
+
+/**
+ * Every close-position inversion of the pitch classes, at every octave in range,
+ * with the style's drops applied
+ */
+function getUpperCandidates(pcs: number[], bass: number, style: VoicingStyle): number[][] {
+    const candidates: number[][] = [];
+
+    const sorted = [...pcs].sort((a, b) => a - b);
+    sorted.forEach((_, rotation) => {
+        const ordered = [...sorted.slice(rotation), ...sorted.slice(0, rotation)];
+        // Stack ascending within the octave
+        const stacked: number[] = [];
+        ordered.forEach(pc => {
+            const previous = stacked[stacked.length - 1];
+            stacked.push(previous === undefined ? pc : previous + ((((pc - previous) % 12) + 12) % 12 || 12));
+        });
+        // Open triads double their lowest voice so there are four to spread
+        if (style === 'open' && stacked.length === 3) stacked.push(stacked[0] + 12);
+
+        for (let shift = 0; shift <= 108; shift += 12) {
+            let voicing = stacked.map(pitch => pitch + shift);
+            if (style === 'drop2' || style === 'open') {
+                voicing = dropVoices(voicing, style === 'open' && voicing.length >= 4 ? [2, 4] : [2]);
+            }
+            const lowest = voicing[0];
+            const highest = voicing[voicing.length - 1];
+            if (lowest <= bass || lowest < UPPER_RANGE[0] || highest > UPPER_RANGE[1]) continue;
+            candidates.push(voicing);
+        }
+    });
+
+    return candidates;
+}
+
+/**
+ * Drop the n-th voices from the top (2 = second highest) an octave
+ */
+function dropVoices(voicing: number[], drops: number[]): number[] {
+    if (voicing.length < 3) return voicing;
+    const dropped = voicing.map((pitch, i) => drops.includes(voicing.length - i) ? pitch - 12 : pitch);
+    return dropped.sort((a, b) => a - b);
+}
+
+/**
+ * How far the voices move between two voicings (in semitones)
+ */
+function getMovement(from: number[], to: number[]): number {
+    if (from.length === to.length) {
+        return to.reduce((sum, pitch, i) => sum + Math.abs(pitch - from[i]), 0);
+    }
+    // Different voice counts: each voice travels to its nearest neighbour
+    const nearest = (pitch: number, others: number[]) => Math.min(...others.map(other => Math.abs(other - pitch)));
+    return to.reduce((sum, pitch) => sum + nearest(pitch, from), 0) +
+        from.reduce((sum, pitch) => sum + nearest(pitch, to), 0) / 2;
+}
+
+const average = (pitches: number[]) => pitches.reduce((sum, pitch) => sum + pitch, 0) / pitches.length;
+
+/**
+ * Voice a chord (bass note first, octave-less names) after `previous`.
+ * Returns null when the notes can't be read.
+ */
+export function voiceChord(
+    notes: string[],
+    previous: ChordVoicing | null,
+    style: VoicingStyle = 'close',
+    root?: string
+): ChordVoicing | null {
+    const pcs = notes.map(pitchClass).filter((pc, i, all) => pc !== -1 && all.indexOf(pc) === i);
+    if (pcs.length === 0) return null;
+
+    const bassPc = pcs[0];
+    const rootPc = root !== undefined && pitchClass(root) !== -1 ? pitchClass(root) : bassPc;
+
+    // Bass: nearest octave to the previous bass (or home), within range
+    const bassTarget = previous?.bass ?? BASS_HOME;
+    let bass = BASS_RANGE[0] + ((bassPc - BASS_RANGE[0]) % 12 + 12) % 12;
+    if (bass + 12 <= BASS_RANGE[1] && Math.abs(bass + 12 - bassTarget) < Math.abs(bass - bassTarget)) {
+        bass += 12;
+    }
+
+    const upperPcs = getUpperPitchClasses(pcs, rootPc, bassPc, style);
+    const candidates = getUpperCandidates(upperPcs, bass, style);
+    if (candidates.length === 0) return { bass, upper: [] };
+
+    const cost = (voicing: number[]) => previous && previous.upper.length
+        ? getMovement(previous.upper, voicing) + Math.abs(average(voicing) - UPPER_HOME) * 0.1
+        : Math.abs(average(voicing) - UPPER_HOME);
+    const upper = candidates.reduce((best, candidate) => cost(candidate) < cost(best) ? candidate : best);
+
+    return { bass, upper };
+}
+
+/**
+ * Playable note names for a voicing, bass first
+ */
+export const voicingToNotes = (voicing: ChordVoicing): string[] =>
+    [voicing.bass, ...voicing.upper].map(midiToNoteName);
+
+/**
+ * Voice a run of chords in order, each one led smoothly from the one before
+ */
+export function voiceProgression(
+    chords: { notes: string[]; root?: string }[],
+    style: VoicingStyle = 'close'
+): string[][] {
+    let previous: ChordVoicing | null = null;
+    return chords.map(({ notes, root }) => {
+        if (style === 'block') return stackNotesFromRoot(notes, 3);
+        const voicing = voiceChord(notes, previous, style, root);
+        if (!voicing) return [];
+        previous = voicing;
+        return voicingToNotes(voicing);
+    });
+}
+
+/**
+ * Voice every filled slot of some sections in song order, keyed by slot.
+ * Keyed by the slot object rather than its id, since a section repeated in
+ * the arrangement plays the same slot ids more than once. Rests don't break
+ * the voice leading.
+ */
+export function voiceSongSlots(sections: Section[], style: VoicingStyle = 'close'): Map<ChordSlot, string[]> {
+    const slots = sections.flatMap(section => section.measures.flatMap(measure =>
+        measure.beats.filter(beat => beat.chord && beat.chord.notes.length > 0)
+    ));
+    const voiced = voiceProgression(
+        slots.map(beat => ({ notes: getChordPlaybackNotes(beat.chord!), root: beat.chord!.root })),
+        style
+    );
+    return new Map(slots.map((beat, i) => [beat, voiced[i]]));
+}